@@ -29,7 +29,7 @@ const nextConfig = {
       headers: [
         {
           key: 'Content-Security-Policy',
-          value: `default-src 'self' *.supabase.co; script-src 'self' 'unsafe-inline' 'unsafe-eval'; style-src 'self' 'unsafe-inline'; img-src 'self' data: blob: *.supabase.co`
+          value: `default-src 'self' *.supabase.co; script-src 'self' 'unsafe-inline' 'unsafe-eval'; style-src 'self' 'unsafe-inline'; img-src 'self' data: blob: *.supabase.co *.tile.openstreetmap.org`
         },
         {
           key: 'Strict-Transport-Security',
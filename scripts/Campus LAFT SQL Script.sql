@@ -85,10 +85,9 @@ CREATE TABLE IF NOT EXISTS public.profiles (
 ALTER TABLE public.profiles
   ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'user';
 
--- 2) Grant yourself admin rights:
-UPDATE public.profiles
-SET role = 'admin'
-WHERE id = '632ecb48-c212-4d93-a529-847dc1dd6a80';
+-- 2) Roles are assigned from Admin Dashboard -> Staff Roles (set_user_role, section 28).
+-- To bootstrap the first admin, run this once in the SQL editor with your own user ID:
+--   UPDATE public.profiles SET role = 'admin' WHERE id = '<your-user-id>';
 
 -- Alter the profiles table to change column types and add unique constraint
 BEGIN;
@@ -456,6 +455,42 @@ END;
 $$;
 COMMENT ON FUNCTION public.is_admin(UUID) IS 'Checks if the given user_id has an admin role in their profile.';
 
+-- Staff roles (see section 28). Admins pass every check. Roles are compared as text
+-- because the enum values are added later in this script.
+CREATE OR REPLACE FUNCTION public.has_role(user_id_to_check UUID, roles TEXT[])
+RETURNS BOOLEAN
+LANGUAGE sql
+SECURITY DEFINER SET search_path = public
+STABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.profiles p
+    WHERE p.id = user_id_to_check AND (p.role::text = 'admin' OR p.role::text = ANY(roles))
+  );
+$$;
+COMMENT ON FUNCTION public.has_role(UUID, TEXT[]) IS 'Checks if the given user_id is an admin or has one of the given roles.';
+
+CREATE OR REPLACE FUNCTION public.is_moderator(user_id_to_check UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+SECURITY DEFINER SET search_path = public
+STABLE
+AS $$
+  SELECT public.has_role(user_id_to_check, ARRAY['moderator']);
+$$;
+COMMENT ON FUNCTION public.is_moderator(UUID) IS 'Moderators (and admins) review claims and manage item reports.';
+
+CREATE OR REPLACE FUNCTION public.is_security_staff(user_id_to_check UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+SECURITY DEFINER SET search_path = public
+STABLE
+AS $$
+  SELECT public.has_role(user_id_to_check, ARRAY['security_staff']);
+$$;
+COMMENT ON FUNCTION public.is_security_staff(UUID) IS 'Security staff (and admins) run the custody desk, confirm handovers and answer user-to-security chats.';
+
 
 -- 10. Enable Row Level Security (RLS) for all tables
 ALTER TABLE public.profiles ENABLE ROW LEVEL SECURITY;
@@ -682,15 +717,13 @@ FOR EACH ROW
 EXECUTE FUNCTION public.update_conversation_updated_at_on_message();
 
 
--- Helper function to check if the current user is a security admin
+-- Helper function to check if the current user is security staff (or an admin)
 CREATE OR REPLACE FUNCTION public.get_user_is_security_admin()
 RETURNS BOOLEAN AS $$
 BEGIN
-  RETURN (SELECT auth.user_metadata()->>'is_security_admin')::BOOLEAN = TRUE;
-EXCEPTION WHEN OTHERS THEN
-  RETURN FALSE;
+  RETURN public.is_security_staff(auth.uid());
 END;
-$$ LANGUAGE plpgsql SECURITY DEFINER;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
 
 -- RLS Policies for conversations table
 ALTER TABLE public.conversations ENABLE ROW LEVEL SECURITY;
@@ -847,13 +880,9 @@ END $$;
 
 
 
--- IMPORTANT NOTE on 'user-to-security' RLS:
--- The current policies for 'user-to-security' type conversations only allow the creator of the conversation
--- to interact with it. The "security personnel" side of this interaction is not yet enabled by these RLS rules.
--- This will need to be addressed by defining how security personnel are identified (e.g., a specific role,
--- a custom claim, or a separate table of security user IDs) and updating the RLS policies accordingly.
--- For example, replacing `creator_id = auth.uid()` in the 'user-to-security' OR blocks with
--- `(creator_id = auth.uid() OR is_security_admin(auth.uid()))` where `is_security_admin` is a custom SQL function.
+-- Note on 'user-to-security' RLS:
+-- Security personnel are users with the 'security_staff' role (or admins). get_user_is_security_admin()
+-- checks that role, so the 'user-to-security' branches above let staff read and answer these chats.
 
 -- 14. Policies for the 'avatars' Supabase Storage bucket
 -- These policies ensure that authenticated users can only upload, update, and delete files
@@ -982,4 +1011,4405 @@ USING (
 --         )
 --       )
 --   )
--- );
\ No newline at end of file
+-- );
+
+-- 16. Lost/Found Match Engine
+-- Scores every new lost (or found) report against open reports of the opposite status,
+-- stores the ranked candidate pairs in 'item_matches' and sends a 'match_alert'
+-- notification to both reporters. Runs as an AFTER INSERT trigger on 'items', so it
+-- covers reports made through the app as well as rows inserted by staff.
+
+-- Great-circle distance in meters between two lat/lng points (haversine formula).
+CREATE OR REPLACE FUNCTION public.distance_meters(lat1 DOUBLE PRECISION, lng1 DOUBLE PRECISION, lat2 DOUBLE PRECISION, lng2 DOUBLE PRECISION)
+RETURNS DOUBLE PRECISION
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 2 * 6371000 * asin(sqrt(
+    power(sin(radians(lat2 - lat1) / 2), 2) +
+    cos(radians(lat1)) * cos(radians(lat2)) * power(sin(radians(lng2 - lng1) / 2), 2)
+  ));
+$$;
+COMMENT ON FUNCTION public.distance_meters(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) IS 'Haversine distance in meters between two coordinates.';
+
+CREATE TABLE IF NOT EXISTS public.item_matches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  lost_item_id UUID NOT NULL REFERENCES public.items(id) ON DELETE CASCADE,
+  found_item_id UUID NOT NULL REFERENCES public.items(id) ON DELETE CASCADE,
+  score NUMERIC(5,4) NOT NULL CHECK (score >= 0 AND score <= 1),
+  category_score NUMERIC(5,4) NOT NULL DEFAULT 0,
+  text_score NUMERIC(5,4) NOT NULL DEFAULT 0,
+  date_score NUMERIC(5,4) NOT NULL DEFAULT 0,
+  distance_score NUMERIC(5,4) NOT NULL DEFAULT 0,
+  distance_meters DOUBLE PRECISION,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  CONSTRAINT item_matches_unique_pair UNIQUE (lost_item_id, found_item_id),
+  CONSTRAINT item_matches_distinct_items CHECK (lost_item_id <> found_item_id)
+);
+COMMENT ON TABLE public.item_matches IS 'Ranked candidate pairs between lost and found reports, produced by the match engine.';
+COMMENT ON COLUMN public.item_matches.score IS 'Weighted total: 0.30 category + 0.35 text + 0.20 date + 0.15 distance.';
+COMMENT ON COLUMN public.item_matches.distance_meters IS 'Distance between the two reports. NULL when either report has no coordinates.';
+
+CREATE INDEX IF NOT EXISTS idx_item_matches_lost_item_id ON public.item_matches(lost_item_id, score DESC);
+CREATE INDEX IF NOT EXISTS idx_item_matches_found_item_id ON public.item_matches(found_item_id, score DESC);
+
+-- Scores one item against all open items of the opposite status and returns the best candidates.
+CREATE OR REPLACE FUNCTION public.score_item_matches(p_item_id UUID, p_limit INT DEFAULT 5, p_min_score NUMERIC DEFAULT 0.45)
+RETURNS TABLE (
+  candidate_id UUID,
+  score NUMERIC,
+  category_score NUMERIC,
+  text_score NUMERIC,
+  date_score NUMERIC,
+  distance_score NUMERIC,
+  distance_meters DOUBLE PRECISION
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_item public.items%ROWTYPE;
+  v_query tsquery;
+BEGIN
+  SELECT * INTO v_item FROM public.items WHERE id = p_item_id;
+  IF NOT FOUND OR v_item.status NOT IN ('lost', 'found') THEN
+    RETURN;
+  END IF;
+
+  -- OR together every lexeme of the report so partial overlaps still rank.
+  SELECT string_agg(quote_literal(lexeme), ' | ')::tsquery
+    INTO v_query
+    FROM unnest(tsvector_to_array(COALESCE(v_item.document, ''::tsvector))) AS lexeme;
+
+  RETURN QUERY
+  WITH scored AS (
+    SELECT
+      c.id AS candidate_id,
+      CASE WHEN c.category_id = v_item.category_id THEN 1.0 ELSE 0.0 END::NUMERIC AS category_score,
+      CASE
+        WHEN v_query IS NULL OR c.document IS NULL THEN 0.0
+        -- Normalization 32 maps the rank into [0, 1).
+        ELSE LEAST(1.0, ts_rank_cd(c.document, v_query, 32) * 4)
+      END::NUMERIC AS text_score,
+      GREATEST(0.0, 1.0 - abs(EXTRACT(EPOCH FROM (c.date_lost_or_found - v_item.date_lost_or_found))) / (14 * 86400.0))::NUMERIC AS date_score,
+      CASE
+        WHEN c.lat IS NULL OR c.lng IS NULL OR v_item.lat IS NULL OR v_item.lng IS NULL THEN NULL
+        ELSE public.distance_meters(v_item.lat, v_item.lng, c.lat, c.lng)
+      END AS distance_meters
+    FROM public.items c
+    WHERE c.id <> v_item.id
+      AND c.status = CASE WHEN v_item.status = 'lost' THEN 'found'::item_status ELSE 'lost'::item_status END
+      AND c.user_id IS DISTINCT FROM v_item.user_id
+      AND c.date_lost_or_found BETWEEN v_item.date_lost_or_found - INTERVAL '30 days' AND v_item.date_lost_or_found + INTERVAL '30 days'
+  ), weighted AS (
+    SELECT
+      s.*,
+      -- Unknown locations get a neutral distance score instead of a penalty.
+      CASE WHEN s.distance_meters IS NULL THEN 0.5 ELSE GREATEST(0.0, 1.0 - s.distance_meters / 1000.0) END::NUMERIC AS distance_score
+    FROM scored s
+  )
+  SELECT
+    w.candidate_id,
+    ROUND(0.30 * w.category_score + 0.35 * w.text_score + 0.20 * w.date_score + 0.15 * w.distance_score, 4) AS score,
+    ROUND(w.category_score, 4),
+    ROUND(w.text_score, 4),
+    ROUND(w.date_score, 4),
+    ROUND(w.distance_score, 4),
+    w.distance_meters
+  FROM weighted w
+  WHERE 0.30 * w.category_score + 0.35 * w.text_score + 0.20 * w.date_score + 0.15 * w.distance_score >= p_min_score
+  ORDER BY 2 DESC
+  LIMIT p_limit;
+END;
+$$;
+COMMENT ON FUNCTION public.score_item_matches(UUID, INT, NUMERIC) IS 'Returns the best opposite-status candidates for an item, scored by category, full-text similarity, date proximity and distance.';
+
+-- Stores the candidates for a new item and notifies both reporters of every new pair.
+CREATE OR REPLACE FUNCTION public.generate_item_matches(p_item_id UUID)
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_item public.items%ROWTYPE;
+  v_candidate public.items%ROWTYPE;
+  v_match RECORD;
+  v_match_id UUID;
+  v_count INT := 0;
+BEGIN
+  SELECT * INTO v_item FROM public.items WHERE id = p_item_id;
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  FOR v_match IN SELECT * FROM public.score_item_matches(p_item_id) LOOP
+    SELECT * INTO v_candidate FROM public.items WHERE id = v_match.candidate_id;
+
+    INSERT INTO public.item_matches (
+      lost_item_id, found_item_id, score, category_score, text_score, date_score, distance_score, distance_meters
+    )
+    VALUES (
+      CASE WHEN v_item.status = 'lost' THEN v_item.id ELSE v_candidate.id END,
+      CASE WHEN v_item.status = 'found' THEN v_item.id ELSE v_candidate.id END,
+      v_match.score, v_match.category_score, v_match.text_score, v_match.date_score, v_match.distance_score, v_match.distance_meters
+    )
+    ON CONFLICT (lost_item_id, found_item_id) DO NOTHING
+    RETURNING id INTO v_match_id;
+
+    CONTINUE WHEN v_match_id IS NULL;
+    v_count := v_count + 1;
+
+    -- Each reporter is pointed at the other party's report.
+    IF v_item.user_id IS NOT NULL THEN
+      INSERT INTO public.notifications (user_id, item_id, type, title, message)
+      VALUES (
+        v_item.user_id,
+        v_candidate.id,
+        'match_alert',
+        'Possible match for your report',
+        left(format('A %s report "%s" looks similar to your item "%s" (%s%% match). Take a look and get in touch if it is yours.',
+          v_candidate.status, v_candidate.title, v_item.title, round(v_match.score * 100)), 499)
+      );
+    END IF;
+
+    IF v_candidate.user_id IS NOT NULL THEN
+      INSERT INTO public.notifications (user_id, item_id, type, title, message)
+      VALUES (
+        v_candidate.user_id,
+        v_item.id,
+        'match_alert',
+        'Possible match for your report',
+        left(format('A new %s report "%s" looks similar to your item "%s" (%s%% match). Take a look and get in touch if it is yours.',
+          v_item.status, v_item.title, v_candidate.title, round(v_match.score * 100)), 499)
+      );
+    END IF;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+COMMENT ON FUNCTION public.generate_item_matches(UUID) IS 'Stores ranked match candidates for an item and sends match_alert notifications to both reporters.';
+
+-- Only the insert trigger runs the match engine. Called directly, generate_item_matches would
+-- let anyone rewrite item_matches and send match alerts for any item.
+REVOKE EXECUTE ON FUNCTION public.score_item_matches(UUID, INT, NUMERIC) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.generate_item_matches(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.trigger_generate_item_matches()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  -- Matching must never block a report from being saved.
+  BEGIN
+    PERFORM public.generate_item_matches(NEW.id);
+  EXCEPTION WHEN OTHERS THEN
+    RAISE WARNING 'Match engine failed for item %: % - %', NEW.id, SQLSTATE, SQLERRM;
+  END;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS generate_item_matches_on_insert ON public.items;
+CREATE TRIGGER generate_item_matches_on_insert
+AFTER INSERT ON public.items
+FOR EACH ROW
+WHEN (NEW.status IN ('lost', 'found'))
+EXECUTE FUNCTION public.trigger_generate_item_matches();
+
+ALTER TABLE public.item_matches ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Reporters can view matches for their items" ON public.item_matches;
+CREATE POLICY "Reporters can view matches for their items"
+ON public.item_matches
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.items i
+    WHERE i.id IN (item_matches.lost_item_id, item_matches.found_item_id) AND i.user_id = auth.uid()
+  )
+);
+
+DROP POLICY IF EXISTS "Moderators can manage all item matches" ON public.item_matches;
+CREATE POLICY "Moderators can manage all item matches"
+ON public.item_matches
+FOR ALL
+TO authenticated
+USING (public.is_moderator(auth.uid()))
+WITH CHECK (public.is_moderator(auth.uid()));
+
+
+-- 17. Encrypted Profile Contact Fields
+-- mobile_number, physical_address and email hold envelope-encrypted values produced by
+-- src/lib/encryption.ts (format: enc:v1:<keyId>:...). Encryption happens in the app
+-- server, so the database never sees the plaintext or the keys.
+-- Because every ciphertext is randomized, uniqueness of the mobile number is enforced
+-- on a keyed blind index instead of on the column itself.
+
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS mobile_number_bidx TEXT;
+
+ALTER TABLE public.profiles DROP CONSTRAINT IF EXISTS unique_mobile_number;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_profiles_mobile_number_bidx ON public.profiles(mobile_number_bidx);
+
+COMMENT ON COLUMN public.profiles.mobile_number IS 'Encrypted user mobile phone number for contact (envelope-encrypted, see src/lib/encryption.ts).';
+COMMENT ON COLUMN public.profiles.physical_address IS 'Encrypted user physical address for contact (envelope-encrypted, see src/lib/encryption.ts).';
+COMMENT ON COLUMN public.profiles.email IS 'Encrypted copy of the user email (envelope-encrypted, see src/lib/encryption.ts).';
+COMMENT ON COLUMN public.profiles.mobile_number_bidx IS 'HMAC blind index of the normalized mobile number. Enforces uniqueness without exposing the number.';
+
+-- Existing plaintext rows are converted by scripts/encryption/encrypt-profiles.ts.
+
+
+-- 18. Map Pins and "Near This Spot" Search
+-- Items can carry a pin (lat/lng) chosen on the campus map. items_within_radius returns
+-- plain items rows so the search API can embed categories/profiles and apply the usual
+-- filters on top of it. It runs as the caller, so the items RLS policies still apply.
+
+CREATE INDEX IF NOT EXISTS idx_items_lat_lng ON public.items(lat, lng) WHERE lat IS NOT NULL AND lng IS NOT NULL;
+
+-- Pins must fall inside the campus boundary. The map picker checks this in the browser; the
+-- constraint below stops other clients from saving pins elsewhere, which would otherwise show
+-- up in radius searches and saved-search alerts. The ring is public/msuiit-campus-line.geojson
+-- as (lng, lat) points; keep the two in sync. Existing rows are not re-checked (NOT VALID).
+CREATE OR REPLACE FUNCTION public.is_on_campus(p_lat DOUBLE PRECISION, p_lng DOUBLE PRECISION)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT polygon '(
+    (124.24490728186885,8.23994455650886),(124.2447594824971,8.24006515722175),(124.24461708305847,8.240200972286175),
+    (124.24491234407714,8.242008034225151),(124.24429257480028,8.242185833744998),(124.24438402920362,8.243085860168904),
+    (124.2441366880239,8.243132008798312),(124.24408447014349,8.243193414022514),(124.24375537808504,8.242936542942033),
+    (124.24308737942044,8.243099424423576),(124.24323413505977,8.243505743474117),(124.24313183048338,8.244011864734148),
+    (124.24294478592742,8.244063348095452),(124.24283891242908,8.243927699946923),(124.24275500458509,8.243779443500799),
+    (124.24258764180098,8.243532935757557),(124.24256304109718,8.243489051492887),(124.24245804610479,8.24327210095295),
+    (124.24235037573936,8.243025015309968),(124.24227086070431,8.24294675651997),(124.24220672168042,8.242713719380717),
+    (124.24211765294189,8.242394630294157),(124.24213600831109,8.242394062614139),(124.24215321647131,8.242392359573941),
+    (124.24216153374505,8.242386115089204),(124.24216698299472,8.24237703220524),(124.24216899061344,8.242375896845061),
+    (124.24224585372662,8.242359434116722),(124.24302948590247,8.24218081530556),(124.2430112090492,8.241876504282033),
+    (124.24323827828943,8.241867637109493),(124.24309862090217,8.241426726209014),(124.2429860234925,8.241027614880963),
+    (124.24269343806742,8.24068358829706),(124.24258652184847,8.240055990516737),(124.24285724431638,8.240002404990108),
+    (124.24298430942378,8.240052533698488),(124.24312229052185,8.24014112263474),(124.24313757323716,8.239962648318851),
+    (124.24317818119738,8.23977423425616),(124.24326782592459,8.239442849406728),(124.24391518383072,8.239231446999284),
+    (124.24428263611372,8.2390843668814),(124.2443560265794,8.239194584931596),(124.2443657201103,8.239187732451299),
+    (124.2443812990465,8.239185676699393),(124.24439376219539,8.239197325958799),(124.24443392123186,8.239255914875898),
+    (124.24446646389981,8.239305938154914),(124.24446904889072,8.239310570734304),(124.24446732807525,8.239324195165835),
+    (124.24445987120544,8.239331858908088),(124.24445499556089,8.239334981173286),(124.24446675447007,8.239349457129933),
+    (124.24447507174688,8.239342644915297),(124.24449285352193,8.239347470233312),(124.24451522413722,8.239379260567787),
+    (124.2446052801372,8.239505854467382),(124.24465292212165,8.239572314197119),(124.2447077014287,8.239637030198125),
+    (124.2447613331708,8.239703733401),(124.24476678242053,8.239715938608512),(124.244765061605,8.23972502155361),
+    (124.24475961235396,8.239733536813247),(124.24475215548551,8.239736942917872),(124.24474900065644,8.23973836212825),
+    (124.24475674432813,8.239752838070132),(124.24475932555208,8.239755960331948),(124.24477911488822,8.23977951925636),
+    (124.24483647542058,8.239851898955692),(124.24490762106177,8.23994074170733),(124.24490733425847,8.239944147810192)
+  )' @> point(p_lng, p_lat);
+$$;
+COMMENT ON FUNCTION public.is_on_campus(DOUBLE PRECISION, DOUBLE PRECISION) IS 'Whether a point lies inside the campus boundary (mirrors src/lib/geo/campus.ts).';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'items_pin_on_campus' AND conrelid = 'public.items'::regclass
+  ) THEN
+    ALTER TABLE public.items ADD CONSTRAINT items_pin_on_campus CHECK (
+      (lat IS NULL AND lng IS NULL)
+      OR (lat IS NOT NULL AND lng IS NOT NULL AND public.is_on_campus(lat, lng))
+    ) NOT VALID;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION public.items_within_radius(
+  p_lat DOUBLE PRECISION,
+  p_lng DOUBLE PRECISION,
+  p_radius_meters DOUBLE PRECISION
+)
+RETURNS SETOF public.items
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT i.*
+  FROM public.items i
+  WHERE i.lat IS NOT NULL AND i.lng IS NOT NULL
+    -- Bounding box prefilter (about 111,320 m per degree) so the index can be used
+    AND i.lat BETWEEN p_lat - p_radius_meters / 111320.0 AND p_lat + p_radius_meters / 111320.0
+    AND i.lng BETWEEN p_lng - p_radius_meters / (111320.0 * cos(radians(p_lat)))
+                  AND p_lng + p_radius_meters / (111320.0 * cos(radians(p_lat)))
+    AND public.distance_meters(p_lat, p_lng, i.lat, i.lng) <= p_radius_meters;
+$$;
+
+COMMENT ON FUNCTION public.items_within_radius(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) IS 'Items with a map pin within p_radius_meters of the given point. Used by the "near this spot" search.';
+
+
+-- 19. Atomic Claim Adjudication
+-- Approving or rejecting a claim used to be several separate client-side updates, so a
+-- failure partway through could leave an item claimed with claims still pending.
+-- adjudicate_claim does the whole thing in one transaction: it locks the item and its
+-- claims, records who decided and why, and notifies every claimer whose claim changed.
+-- date_resolved/resolved_by_user_id are left alone; they record the physical handover.
+
+ALTER TABLE public.claims ADD COLUMN IF NOT EXISTS adjudicated_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+ALTER TABLE public.claims ADD COLUMN IF NOT EXISTS adjudication_note TEXT CHECK (adjudication_note IS NULL OR char_length(adjudication_note) <= 500);
+ALTER TABLE public.claims ADD COLUMN IF NOT EXISTS date_adjudicated TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN public.claims.adjudicated_by IS 'Item reporter or admin who approved/rejected the claim.';
+COMMENT ON COLUMN public.claims.adjudication_note IS 'Optional reason given when the claim was approved/rejected. Shown to the claimer.';
+COMMENT ON COLUMN public.claims.date_adjudicated IS 'When the claim was approved/rejected.';
+
+CREATE OR REPLACE FUNCTION public.adjudicate_claim(
+  p_claim_id UUID,
+  p_action TEXT,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS SETOF public.claims
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_claim public.claims%ROWTYPE;
+  v_item public.items%ROWTYPE;
+  v_note TEXT := NULLIF(btrim(p_note), '');
+  v_changed public.claims%ROWTYPE;
+BEGIN
+  IF p_action NOT IN ('approve', 'reject') THEN
+    RAISE EXCEPTION 'Unknown action "%"; expected approve or reject', p_action USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_claim FROM public.claims WHERE id = p_claim_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Claim not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Lock the item first so concurrent approvals of different claims serialize here.
+  SELECT * INTO v_item FROM public.items WHERE id = v_claim.item_id FOR UPDATE;
+
+  IF v_item.user_id IS DISTINCT FROM auth.uid() AND NOT public.is_moderator(auth.uid()) THEN
+    RAISE EXCEPTION 'Only the item reporter or a moderator can decide on this claim' USING ERRCODE = '42501';
+  END IF;
+
+  -- Re-read under the lock; another request may have decided it in the meantime.
+  SELECT * INTO v_claim FROM public.claims WHERE id = p_claim_id FOR UPDATE;
+  IF v_claim.status <> 'pending' THEN
+    RAISE EXCEPTION 'This claim has already been %', v_claim.status USING ERRCODE = '55000';
+  END IF;
+
+  IF p_action = 'approve' AND v_item.status IN ('claimed', 'archived') THEN
+    RAISE EXCEPTION 'This item has already been marked as %', v_item.status USING ERRCODE = '55000';
+  END IF;
+
+  UPDATE public.claims
+  SET status = CASE WHEN p_action = 'approve' THEN 'approved'::claim_status ELSE 'rejected'::claim_status END,
+      adjudicated_by = auth.uid(),
+      adjudication_note = v_note,
+      date_adjudicated = now()
+  WHERE id = p_claim_id
+  RETURNING * INTO v_changed;
+
+  INSERT INTO public.notifications (user_id, item_id, claim_id, type, title, message)
+  VALUES (
+    v_changed.claimer_id,
+    v_item.id,
+    v_changed.id,
+    'claim_update',
+    format('Your claim was %s', v_changed.status),
+    left(format('Your claim for item "%s" was %s.', v_item.title, v_changed.status)
+      || COALESCE(' Note: ' || v_note, ''), 499)
+  );
+  RETURN NEXT v_changed;
+
+  IF p_action = 'approve' THEN
+    UPDATE public.items SET status = 'claimed' WHERE id = v_item.id;
+
+    -- Every other open claim on the item loses, and each claimer hears about it.
+    FOR v_changed IN
+      UPDATE public.claims
+      SET status = 'rejected',
+          adjudicated_by = auth.uid(),
+          adjudication_note = 'Another claim for this item was approved.',
+          date_adjudicated = now()
+      WHERE item_id = v_item.id AND status = 'pending' AND id <> p_claim_id
+      RETURNING *
+    LOOP
+      INSERT INTO public.notifications (user_id, item_id, claim_id, type, title, message)
+      VALUES (
+        v_changed.claimer_id,
+        v_item.id,
+        v_changed.id,
+        'claim_update',
+        'Your claim was rejected',
+        left(format('Your claim for item "%s" was rejected because another claim was approved.', v_item.title), 499)
+      );
+      RETURN NEXT v_changed;
+    END LOOP;
+  END IF;
+
+  RETURN;
+END;
+$$;
+COMMENT ON FUNCTION public.adjudicate_claim(UUID, TEXT, TEXT) IS 'Approves or rejects a pending claim in one transaction. Approving marks the item claimed and rejects all other pending claims. Returns every claim that changed.';
+
+-- Reporters decide claims only through adjudicate_claim (SECURITY DEFINER). A direct UPDATE
+-- would skip rejecting the other pending claims and everything that hangs off the decision.
+DROP POLICY IF EXISTS "Item reporters or Admins can update claims on items" ON public.claims;
+
+
+-- 20. Claim Verification Questions
+-- Finders (and admins) can attach private questions to an item, e.g. "What is the lock
+-- screen wallpaper?". Questions are public so claimers can answer them; the expected
+-- answers live in a separate table that only the item reporter and admins can read.
+-- Answers are scored with pg_trgm so the reporter can rank competing claims. Scores are
+-- never shown to claimers, otherwise a rejected claimer could use them to guess.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE TABLE IF NOT EXISTS public.item_verification_questions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  item_id UUID NOT NULL REFERENCES public.items(id) ON DELETE CASCADE,
+  question TEXT NOT NULL CHECK (char_length(question) >= 5 AND char_length(question) <= 200),
+  position SMALLINT NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.item_verification_answers (
+  question_id UUID PRIMARY KEY REFERENCES public.item_verification_questions(id) ON DELETE CASCADE,
+  expected_answer TEXT NOT NULL CHECK (char_length(expected_answer) >= 1 AND char_length(expected_answer) <= 200),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.claim_verification_answers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  claim_id UUID NOT NULL REFERENCES public.claims(id) ON DELETE CASCADE,
+  question_id UUID NOT NULL REFERENCES public.item_verification_questions(id) ON DELETE CASCADE,
+  answer TEXT NOT NULL CHECK (char_length(answer) <= 500),
+  score NUMERIC(4,3) CHECK (score IS NULL OR (score >= 0 AND score <= 1)),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  CONSTRAINT unique_claim_question UNIQUE (claim_id, question_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_item_verification_questions_item_id ON public.item_verification_questions(item_id, position);
+CREATE INDEX IF NOT EXISTS idx_claim_verification_answers_question_id ON public.claim_verification_answers(question_id);
+
+COMMENT ON TABLE public.item_verification_questions IS 'Questions a claimer must answer to claim an item. Readable by everyone; managed through set_item_verification_questions.';
+COMMENT ON TABLE public.item_verification_answers IS 'Expected answers to verification questions. Only the item reporter and admins can read them.';
+COMMENT ON TABLE public.claim_verification_answers IS 'A claimer''s answers with their similarity score (0-1) against the expected answer.';
+
+DROP TRIGGER IF EXISTS set_item_verification_questions_updated_at ON public.item_verification_questions;
+CREATE TRIGGER set_item_verification_questions_updated_at
+BEFORE UPDATE ON public.item_verification_questions
+FOR EACH ROW
+EXECUTE FUNCTION public.trigger_set_timestamp();
+
+DROP TRIGGER IF EXISTS set_item_verification_answers_updated_at ON public.item_verification_answers;
+CREATE TRIGGER set_item_verification_answers_updated_at
+BEFORE UPDATE ON public.item_verification_answers
+FOR EACH ROW
+EXECUTE FUNCTION public.trigger_set_timestamp();
+
+-- Case, surrounding whitespace and repeated spaces never count against an answer.
+CREATE OR REPLACE FUNCTION public.normalize_verification_answer(p_value TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT lower(regexp_replace(btrim(COALESCE(p_value, '')), '\s+', ' ', 'g'));
+$$;
+
+-- 1 for an exact match. word_similarity lets "blue, with a cat sticker" still score
+-- well against an expected "cat sticker".
+CREATE OR REPLACE FUNCTION public.score_verification_answer(p_answer TEXT, p_expected TEXT)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN public.normalize_verification_answer(p_answer) = '' THEN 0
+    WHEN public.normalize_verification_answer(p_answer) = public.normalize_verification_answer(p_expected) THEN 1
+    ELSE round(GREATEST(
+      similarity(public.normalize_verification_answer(p_answer), public.normalize_verification_answer(p_expected)),
+      word_similarity(public.normalize_verification_answer(p_expected), public.normalize_verification_answer(p_answer))
+    )::NUMERIC, 3)
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.rescore_item_claim_answers(p_item_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER SET search_path = public
+AS $$
+  UPDATE public.claim_verification_answers cva
+  SET score = public.score_verification_answer(cva.answer, a.expected_answer)
+  FROM public.item_verification_questions q
+  JOIN public.item_verification_answers a ON a.question_id = q.id
+  WHERE cva.question_id = q.id AND q.item_id = p_item_id;
+$$;
+
+-- Replaces an item's questions. p_questions: [{"id"?, "question", "expected_answer"}].
+-- Questions missing from the list are deleted along with the answers given to them.
+CREATE OR REPLACE FUNCTION public.set_item_verification_questions(p_item_id UUID, p_questions JSONB)
+RETURNS SETOF public.item_verification_questions
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_item public.items%ROWTYPE;
+  v_entry JSONB;
+  v_position INT := 0;
+  v_question_id UUID;
+  v_kept UUID[] := '{}';
+BEGIN
+  SELECT * INTO v_item FROM public.items WHERE id = p_item_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_item.user_id IS DISTINCT FROM auth.uid() AND NOT public.is_moderator(auth.uid()) THEN
+    RAISE EXCEPTION 'Only the item reporter or a moderator can change verification questions' USING ERRCODE = '42501';
+  END IF;
+
+  IF jsonb_typeof(COALESCE(p_questions, '[]'::jsonb)) <> 'array' OR jsonb_array_length(COALESCE(p_questions, '[]'::jsonb)) > 5 THEN
+    RAISE EXCEPTION 'Provide at most 5 verification questions' USING ERRCODE = '22023';
+  END IF;
+
+  FOR v_entry IN SELECT * FROM jsonb_array_elements(COALESCE(p_questions, '[]'::jsonb)) LOOP
+    IF NULLIF(btrim(v_entry->>'question'), '') IS NULL OR NULLIF(btrim(v_entry->>'expected_answer'), '') IS NULL THEN
+      RAISE EXCEPTION 'Every verification question needs an expected answer' USING ERRCODE = '22023';
+    END IF;
+
+    v_question_id := NULL;
+    IF v_entry ? 'id' AND v_entry->>'id' IS NOT NULL THEN
+      UPDATE public.item_verification_questions
+      SET question = btrim(v_entry->>'question'), position = v_position
+      WHERE id = (v_entry->>'id')::UUID AND item_id = p_item_id
+      RETURNING id INTO v_question_id;
+    END IF;
+
+    IF v_question_id IS NULL THEN
+      INSERT INTO public.item_verification_questions (item_id, question, position, created_by)
+      VALUES (p_item_id, btrim(v_entry->>'question'), v_position, auth.uid())
+      RETURNING id INTO v_question_id;
+    END IF;
+
+    INSERT INTO public.item_verification_answers (question_id, expected_answer)
+    VALUES (v_question_id, btrim(v_entry->>'expected_answer'))
+    ON CONFLICT (question_id) DO UPDATE SET expected_answer = EXCLUDED.expected_answer;
+
+    v_kept := v_kept || v_question_id;
+    v_position := v_position + 1;
+  END LOOP;
+
+  DELETE FROM public.item_verification_questions
+  WHERE item_id = p_item_id AND NOT (id = ANY (v_kept));
+
+  PERFORM public.rescore_item_claim_answers(p_item_id);
+
+  RETURN QUERY
+  SELECT * FROM public.item_verification_questions WHERE item_id = p_item_id ORDER BY position;
+END;
+$$;
+COMMENT ON FUNCTION public.set_item_verification_questions(UUID, JSONB) IS 'Replaces the verification questions and expected answers of an item (reporter or moderator only) and re-scores existing claim answers.';
+
+-- Saves a new report together with its verification questions, so a found item is never open
+-- for claims before its questions are in place. p_item holds the items columns the report form
+-- fills in; p_questions is the same list as for set_item_verification_questions. Runs as the
+-- caller, so the items insert policies still apply.
+CREATE OR REPLACE FUNCTION public.report_item(p_item JSONB, p_questions JSONB DEFAULT '[]'::jsonb)
+RETURNS public.items
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_item public.items%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to report an item' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.items (
+    user_id, title, description, category_id, location_description, lat, lng,
+    date_lost_or_found, status, is_urgent, turn_in_to_security, image_urls, image_variants
+  )
+  VALUES (
+    auth.uid(),
+    p_item->>'title',
+    p_item->>'description',
+    (p_item->>'category_id')::INT,
+    p_item->>'location_description',
+    (p_item->>'lat')::DOUBLE PRECISION,
+    (p_item->>'lng')::DOUBLE PRECISION,
+    (p_item->>'date_lost_or_found')::TIMESTAMP WITH TIME ZONE,
+    (p_item->>'status')::public.item_status,
+    COALESCE((p_item->>'is_urgent')::BOOLEAN, FALSE),
+    COALESCE((p_item->>'turn_in_to_security')::BOOLEAN, FALSE),
+    ARRAY(SELECT jsonb_array_elements_text(COALESCE(p_item->'image_urls', '[]'::jsonb))),
+    COALESCE(p_item->'image_variants', '[]'::jsonb)
+  )
+  RETURNING * INTO v_item;
+
+  IF jsonb_array_length(COALESCE(p_questions, '[]'::jsonb)) > 0 THEN
+    PERFORM public.set_item_verification_questions(v_item.id, p_questions);
+  END IF;
+
+  RETURN v_item;
+END;
+$$;
+COMMENT ON FUNCTION public.report_item(JSONB, JSONB) IS 'Inserts a report for the current user and its verification questions in one transaction.';
+
+-- Creates a claim together with its answers, so a claim can never exist with some
+-- questions unanswered. p_answers: [{"question_id", "answer"}].
+CREATE OR REPLACE FUNCTION public.submit_claim(
+  p_item_id UUID,
+  p_claim_description TEXT,
+  p_answers JSONB DEFAULT '[]'::jsonb
+)
+RETURNS public.claims
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_item public.items%ROWTYPE;
+  v_claim public.claims%ROWTYPE;
+  v_question RECORD;
+  v_answer TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to claim an item' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_item FROM public.items WHERE id = p_item_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF v_item.user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot claim an item you reported' USING ERRCODE = '42501';
+  END IF;
+  IF v_item.status IN ('claimed', 'archived') THEN
+    RAISE EXCEPTION 'This item is no longer open for claims' USING ERRCODE = '55000';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM public.claims
+    WHERE item_id = p_item_id AND claimer_id = auth.uid() AND status IN ('pending', 'approved')
+  ) THEN
+    RAISE EXCEPTION 'You have already submitted a claim for this item' USING ERRCODE = '23505';
+  END IF;
+
+  INSERT INTO public.claims (item_id, claimer_id, claim_description)
+  VALUES (p_item_id, auth.uid(), p_claim_description)
+  RETURNING * INTO v_claim;
+
+  FOR v_question IN
+    SELECT q.id, a.expected_answer
+    FROM public.item_verification_questions q
+    LEFT JOIN public.item_verification_answers a ON a.question_id = q.id
+    WHERE q.item_id = p_item_id
+  LOOP
+    SELECT btrim(elem->>'answer') INTO v_answer
+    FROM jsonb_array_elements(COALESCE(p_answers, '[]'::jsonb)) elem
+    WHERE elem->>'question_id' = v_question.id::TEXT
+    LIMIT 1;
+
+    IF NULLIF(v_answer, '') IS NULL THEN
+      RAISE EXCEPTION 'Please answer every verification question' USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO public.claim_verification_answers (claim_id, question_id, answer, score)
+    VALUES (
+      v_claim.id,
+      v_question.id,
+      v_answer,
+      CASE WHEN v_question.expected_answer IS NULL THEN NULL
+           ELSE public.score_verification_answer(v_answer, v_question.expected_answer) END
+    );
+  END LOOP;
+
+  RETURN v_claim;
+END;
+$$;
+COMMENT ON FUNCTION public.submit_claim(UUID, TEXT, JSONB) IS 'Creates a pending claim for the current user together with scored answers to the item''s verification questions.';
+
+-- Claims are created only through submit_claim (SECURITY DEFINER), so a direct INSERT cannot
+-- skip the verification questions.
+DROP POLICY IF EXISTS "Users can create claims for items" ON public.claims;
+
+ALTER TABLE public.item_verification_questions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.item_verification_answers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.claim_verification_answers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view verification questions" ON public.item_verification_questions;
+CREATE POLICY "Anyone can view verification questions"
+ON public.item_verification_questions
+FOR SELECT
+USING (true);
+
+DROP POLICY IF EXISTS "Reporters and moderators can view expected answers" ON public.item_verification_answers;
+CREATE POLICY "Reporters and moderators can view expected answers"
+ON public.item_verification_answers
+FOR SELECT
+TO authenticated
+USING (
+  public.is_moderator(auth.uid()) OR EXISTS (
+    SELECT 1
+    FROM public.item_verification_questions q
+    JOIN public.items i ON i.id = q.item_id
+    WHERE q.id = item_verification_answers.question_id AND i.user_id = auth.uid()
+  )
+);
+
+DROP POLICY IF EXISTS "Reporters and moderators can view claim answers" ON public.claim_verification_answers;
+CREATE POLICY "Reporters and moderators can view claim answers"
+ON public.claim_verification_answers
+FOR SELECT
+TO authenticated
+USING (
+  public.is_moderator(auth.uid()) OR EXISTS (
+    SELECT 1
+    FROM public.claims c
+    JOIN public.items i ON i.id = c.item_id
+    WHERE c.id = claim_verification_answers.claim_id AND i.user_id = auth.uid()
+  )
+);
+
+
+-- 21. QR Handover of Approved Claims
+-- After approval the claimer shows a QR code holding a signed one-time token (signed by
+-- the app server, see src/lib/handover/token.ts). The finder or security desk scans it,
+-- and redeem_handover_token records the handover: the claim gets date_resolved and
+-- resolved_by_user_id, the item is archived, and the token row is kept as the
+-- chain-of-custody record of who handed the item over and when.
+-- Only the claimer can read token rows, and only the server (/api/handover, after checking
+-- the QR signature) can redeem them, so a token ID alone is never enough for a handover.
+
+CREATE TABLE IF NOT EXISTS public.handover_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  claim_id UUID NOT NULL REFERENCES public.claims(id) ON DELETE CASCADE,
+  issued_to UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  used_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_handover_tokens_claim_id ON public.handover_tokens(claim_id);
+
+COMMENT ON TABLE public.handover_tokens IS 'One-time handover tokens for approved claims. A used token records who confirmed the handover and when.';
+COMMENT ON COLUMN public.handover_tokens.revoked_at IS 'Set when the claimer requests a newer token; only the latest token can be redeemed.';
+
+-- Issues a fresh token for the caller's approved claim and revokes any earlier ones.
+CREATE OR REPLACE FUNCTION public.issue_handover_token(p_claim_id UUID, p_ttl_minutes INT DEFAULT 30)
+RETURNS public.handover_tokens
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_claim public.claims%ROWTYPE;
+  v_token public.handover_tokens%ROWTYPE;
+BEGIN
+  SELECT * INTO v_claim FROM public.claims WHERE id = p_claim_id FOR UPDATE;
+  IF NOT FOUND OR v_claim.claimer_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Claim not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF v_claim.status <> 'approved' THEN
+    RAISE EXCEPTION 'Only approved claims can be handed over' USING ERRCODE = '55000';
+  END IF;
+  IF v_claim.date_resolved IS NOT NULL THEN
+    RAISE EXCEPTION 'This item has already been handed over' USING ERRCODE = '55000';
+  END IF;
+
+  UPDATE public.handover_tokens
+  SET revoked_at = now()
+  WHERE claim_id = p_claim_id AND used_at IS NULL AND revoked_at IS NULL;
+
+  INSERT INTO public.handover_tokens (claim_id, issued_to, expires_at)
+  VALUES (p_claim_id, auth.uid(), now() + make_interval(mins => LEAST(GREATEST(p_ttl_minutes, 1), 120)))
+  RETURNING * INTO v_token;
+
+  RETURN v_token;
+END;
+$$;
+COMMENT ON FUNCTION public.issue_handover_token(UUID, INT) IS 'Claimer-only: creates a one-time handover token for an approved, unresolved claim.';
+
+-- Redeems a token scanned by the item reporter or security staff. Called with the service role
+-- by /api/handover once the signed QR has been verified; p_actor_id is the signed-in scanner.
+DROP FUNCTION IF EXISTS public.redeem_handover_token(UUID, UUID);
+CREATE OR REPLACE FUNCTION public.redeem_handover_token(p_token_id UUID, p_claim_id UUID, p_actor_id UUID)
+RETURNS public.claims
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_token public.handover_tokens%ROWTYPE;
+  v_claim public.claims%ROWTYPE;
+  v_item public.items%ROWTYPE;
+BEGIN
+  SELECT * INTO v_token FROM public.handover_tokens WHERE id = p_token_id FOR UPDATE;
+  -- The claim ID is part of the signed token, so a mismatch means the row is not the one that was signed.
+  IF NOT FOUND OR v_token.claim_id <> p_claim_id THEN
+    RAISE EXCEPTION 'Handover code not recognised' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO v_claim FROM public.claims WHERE id = v_token.claim_id FOR UPDATE;
+  SELECT * INTO v_item FROM public.items WHERE id = v_claim.item_id FOR UPDATE;
+
+  IF p_actor_id IS NULL
+     OR (v_item.user_id IS DISTINCT FROM p_actor_id AND NOT public.is_security_staff(p_actor_id)) THEN
+    RAISE EXCEPTION 'Only the item reporter or security staff can confirm a handover' USING ERRCODE = '42501';
+  END IF;
+  IF v_token.used_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This handover code has already been used' USING ERRCODE = '55000';
+  END IF;
+  IF v_token.revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This handover code was replaced by a newer one' USING ERRCODE = '55000';
+  END IF;
+  IF v_token.expires_at <= now() THEN
+    RAISE EXCEPTION 'This handover code has expired' USING ERRCODE = '55000';
+  END IF;
+  IF v_claim.status <> 'approved' OR v_claim.date_resolved IS NOT NULL THEN
+    RAISE EXCEPTION 'This claim is not awaiting handover' USING ERRCODE = '55000';
+  END IF;
+
+  -- Attribute the audit log and custody release below to the scanner, not the service role
+  PERFORM set_config('request.jwt.claim.sub', p_actor_id::TEXT, true);
+
+  UPDATE public.handover_tokens
+  SET used_at = now(), used_by = p_actor_id
+  WHERE id = v_token.id;
+
+  UPDATE public.claims
+  SET date_resolved = now(), resolved_by_user_id = p_actor_id
+  WHERE id = v_claim.id
+  RETURNING * INTO v_claim;
+
+  UPDATE public.items SET status = 'archived' WHERE id = v_item.id;
+
+  INSERT INTO public.notifications (user_id, item_id, claim_id, type, title, message)
+  VALUES (
+    v_claim.claimer_id,
+    v_item.id,
+    v_claim.id,
+    'claim_update',
+    'Handover complete',
+    left(format('The handover of "%s" has been recorded. Enjoy having it back!', v_item.title), 499)
+  );
+
+  RETURN v_claim;
+END;
+$$;
+COMMENT ON FUNCTION public.redeem_handover_token(UUID, UUID, UUID) IS 'Server-only: consumes a verified handover token for the reporter or security staff member who scanned it, resolves the claim and archives the item.';
+
+REVOKE EXECUTE ON FUNCTION public.redeem_handover_token(UUID, UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+ALTER TABLE public.handover_tokens ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Claimers, reporters and security staff can view handover tokens" ON public.handover_tokens;
+DROP POLICY IF EXISTS "Claimers can view their handover tokens" ON public.handover_tokens;
+CREATE POLICY "Claimers can view their handover tokens"
+ON public.handover_tokens
+FOR SELECT
+TO authenticated
+USING (issued_to = auth.uid());
+
+
+-- 22. Item Audit Log
+-- Every change to items and claims is recorded, one row per changed column, together
+-- with the user who made it, so disputes over an item can be reconstructed later.
+-- item_id and actor_id deliberately have no foreign keys: the history has to outlive
+-- deleted items and profiles. Inserts and deletes are logged as a single row holding
+-- the whole record as JSON.
+
+CREATE TABLE IF NOT EXISTS public.item_audit_logs (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  item_id UUID NOT NULL,
+  claim_id UUID,
+  table_name TEXT NOT NULL CHECK (table_name IN ('items', 'claims')),
+  action TEXT NOT NULL CHECK (action IN ('INSERT', 'UPDATE', 'DELETE')),
+  field_changed TEXT,
+  old_value TEXT,
+  new_value TEXT,
+  actor_id UUID,
+  changed_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_item_audit_logs_item_id_changed_at ON public.item_audit_logs(item_id, changed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_item_audit_logs_actor_id ON public.item_audit_logs(actor_id);
+
+COMMENT ON TABLE public.item_audit_logs IS 'Append-only history of changes to items and their claims. Written by triggers only.';
+COMMENT ON COLUMN public.item_audit_logs.field_changed IS 'Changed column for UPDATE rows; NULL for INSERT/DELETE, which store the whole row as JSON.';
+COMMENT ON COLUMN public.item_audit_logs.actor_id IS 'auth.uid() of the user who made the change; NULL for service-role and scheduled jobs.';
+
+CREATE OR REPLACE FUNCTION public.log_item_audit_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  -- Derived or bookkeeping columns that would only add noise
+  v_ignored TEXT[] := ARRAY['updated_at', 'document'];
+  v_old JSONB := CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE to_jsonb(OLD) - v_ignored END;
+  v_new JSONB := CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE to_jsonb(NEW) - v_ignored END;
+  v_row JSONB := COALESCE(v_new, v_old);
+  v_item_id UUID;
+  v_claim_id UUID;
+  v_field RECORD;
+BEGIN
+  IF TG_TABLE_NAME = 'claims' THEN
+    v_item_id := (v_row->>'item_id')::UUID;
+    v_claim_id := (v_row->>'id')::UUID;
+  ELSE
+    v_item_id := (v_row->>'id')::UUID;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    FOR v_field IN
+      SELECT n.key, o.value AS old_value, n.value AS new_value
+      FROM jsonb_each(v_new) n
+      LEFT JOIN jsonb_each(v_old) o ON o.key = n.key
+      WHERE o.value IS DISTINCT FROM n.value
+    LOOP
+      INSERT INTO public.item_audit_logs (item_id, claim_id, table_name, action, field_changed, old_value, new_value, actor_id)
+      VALUES (
+        v_item_id, v_claim_id, TG_TABLE_NAME, TG_OP, v_field.key,
+        v_field.old_value #>> '{}', v_field.new_value #>> '{}', auth.uid()
+      );
+    END LOOP;
+  ELSE
+    INSERT INTO public.item_audit_logs (item_id, claim_id, table_name, action, old_value, new_value, actor_id)
+    VALUES (v_item_id, v_claim_id, TG_TABLE_NAME, TG_OP, v_old::TEXT, v_new::TEXT, auth.uid());
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_items_changes ON public.items;
+CREATE TRIGGER audit_items_changes
+AFTER INSERT OR UPDATE OR DELETE ON public.items
+FOR EACH ROW
+EXECUTE FUNCTION public.log_item_audit_changes();
+
+DROP TRIGGER IF EXISTS audit_claims_changes ON public.claims;
+CREATE TRIGGER audit_claims_changes
+AFTER INSERT OR UPDATE OR DELETE ON public.claims
+FOR EACH ROW
+EXECUTE FUNCTION public.log_item_audit_changes();
+
+ALTER TABLE public.item_audit_logs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Moderators can view item audit logs" ON public.item_audit_logs;
+CREATE POLICY "Moderators can view item audit logs"
+ON public.item_audit_logs
+FOR SELECT
+TO authenticated
+USING (public.is_moderator(auth.uid()));
+
+
+-- 23. Real-time Notification Center
+-- The app already sends 'new_claim' and 'new_message' notifications, so the enum gains
+-- those values. Chat notifications carry the conversation they belong to, so the bell
+-- can link straight to the chat. Adding the table to the supabase_realtime publication
+-- lets each user's bell subscribe to their own rows (Realtime applies the SELECT policy).
+-- Note: new enum values cannot be used in the same transaction that adds them.
+
+ALTER TYPE public.notification_type ADD VALUE IF NOT EXISTS 'new_claim';
+ALTER TYPE public.notification_type ADD VALUE IF NOT EXISTS 'new_message';
+
+ALTER TABLE public.notifications
+  ADD COLUMN IF NOT EXISTS conversation_id UUID REFERENCES public.conversations(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_id_type_created_at ON public.notifications(user_id, type, created_at DESC);
+
+COMMENT ON COLUMN public.notifications.conversation_id IS 'Chat the notification links to, for new_message notifications.';
+
+-- Marks the caller's notifications as read: the given ids, or every unread one when p_ids is NULL.
+CREATE OR REPLACE FUNCTION public.mark_notifications_read(p_ids UUID[] DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_updated INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.notifications
+  SET read_at = timezone('utc'::text, now())
+  WHERE user_id = auth.uid()
+    AND read_at IS NULL
+    AND (p_ids IS NULL OR id = ANY (p_ids));
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  RETURN v_updated;
+END;
+$$;
+
+COMMENT ON FUNCTION public.mark_notifications_read(UUID[]) IS 'Sets read_at on the caller''s unread notifications (all of them when p_ids is NULL). Returns the number updated.';
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM pg_publication_tables pt
+        WHERE pt.pubname = 'supabase_realtime' AND pt.schemaname = 'public' AND pt.tablename = 'notifications'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+    END IF;
+  ELSE
+    RAISE NOTICE 'Publication supabase_realtime does not exist. Creating it for public.notifications.';
+    CREATE PUBLICATION supabase_realtime FOR TABLE public.notifications;
+  END IF;
+END $$;
+
+
+-- 24. Email Delivery of Notifications
+-- A cron-driven worker (/api/cron/notifications) emails pending notifications. Rows are
+-- leased with claim_pending_notifications(), which uses SKIP LOCKED so overlapping runs
+-- never pick up the same notification, and a lease timeout so rows held by a crashed run
+-- become available again. Failed sends are retried with backoff until attempts runs out,
+-- then the notification is marked 'failed' with the last error kept for inspection.
+
+ALTER TABLE public.notifications
+  ADD COLUMN IF NOT EXISTS attempts INTEGER DEFAULT 0 NOT NULL,
+  ADD COLUMN IF NOT EXISTS last_error TEXT,
+  ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_pending_next_attempt_at
+  ON public.notifications(next_attempt_at)
+  WHERE status = 'pending';
+
+COMMENT ON COLUMN public.notifications.attempts IS 'Number of email delivery attempts made so far.';
+COMMENT ON COLUMN public.notifications.last_error IS 'Error from the most recent failed delivery attempt.';
+COMMENT ON COLUMN public.notifications.next_attempt_at IS 'Earliest time the delivery worker may (re)try this notification.';
+COMMENT ON COLUMN public.notifications.locked_until IS 'Lease held by a delivery worker run; expired leases can be claimed again.';
+
+-- Leases up to p_limit due notifications to the caller and counts the attempt. Service role only.
+CREATE OR REPLACE FUNCTION public.claim_pending_notifications(
+  p_limit INTEGER DEFAULT 50,
+  p_lease_seconds INTEGER DEFAULT 300
+)
+RETURNS SETOF public.notifications
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    RAISE EXCEPTION 'Only the delivery worker can claim notifications' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  UPDATE public.notifications n
+  SET locked_until = timezone('utc'::text, now()) + make_interval(secs => p_lease_seconds),
+      attempts = n.attempts + 1
+  WHERE n.id IN (
+    SELECT p.id
+    FROM public.notifications p
+    WHERE p.status = 'pending'
+      AND p.next_attempt_at <= timezone('utc'::text, now())
+      AND (p.locked_until IS NULL OR p.locked_until < timezone('utc'::text, now()))
+    ORDER BY p.next_attempt_at, p.created_at
+    LIMIT LEAST(GREATEST(p_limit, 1), 500)
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING n.*;
+END;
+$$;
+
+COMMENT ON FUNCTION public.claim_pending_notifications(INTEGER, INTEGER) IS 'Leases due pending notifications to the email delivery worker (SKIP LOCKED). Service role only.';
+
+
+-- 25. Security Desk Custody
+-- Tracks where turned-in items physically are. storage_locations are the desks/offices
+-- and storage_bins the shelves or boxes inside them. Every hand-off is appended to
+-- custody_events (intake, transfer, release); item_custody holds one row per item that
+-- is currently in custody, so "where is this item right now?" is a single lookup.
+-- Both are written only through the custody_* functions below, which keep them in step.
+
+CREATE TABLE IF NOT EXISTS public.storage_locations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE CHECK (char_length(name) BETWEEN 2 AND 100),
+  description TEXT CHECK (char_length(description) <= 500),
+  is_active BOOLEAN DEFAULT TRUE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.storage_bins (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  location_id UUID NOT NULL REFERENCES public.storage_locations(id) ON DELETE CASCADE,
+  label TEXT NOT NULL CHECK (char_length(label) BETWEEN 1 AND 50),
+  is_active BOOLEAN DEFAULT TRUE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  UNIQUE (location_id, label)
+);
+
+CREATE TABLE IF NOT EXISTS public.custody_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  item_id UUID NOT NULL REFERENCES public.items(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL CHECK (event_type IN ('intake', 'transfer', 'release')),
+  from_location_id UUID REFERENCES public.storage_locations(id) ON DELETE SET NULL,
+  from_bin_id UUID REFERENCES public.storage_bins(id) ON DELETE SET NULL,
+  to_location_id UUID REFERENCES public.storage_locations(id) ON DELETE SET NULL,
+  to_bin_id UUID REFERENCES public.storage_bins(id) ON DELETE SET NULL,
+  brought_in_by_name TEXT CHECK (char_length(brought_in_by_name) <= 100),
+  brought_in_by_user_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  condition TEXT CHECK (condition IN ('new', 'good', 'fair', 'poor', 'damaged')),
+  notes TEXT CHECK (char_length(notes) <= 500),
+  performed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  occurred_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.item_custody (
+  item_id UUID PRIMARY KEY REFERENCES public.items(id) ON DELETE CASCADE,
+  location_id UUID NOT NULL REFERENCES public.storage_locations(id),
+  bin_id UUID REFERENCES public.storage_bins(id),
+  condition TEXT CHECK (condition IN ('new', 'good', 'fair', 'poor', 'damaged')),
+  intake_event_id UUID NOT NULL REFERENCES public.custody_events(id),
+  last_event_id UUID NOT NULL REFERENCES public.custody_events(id),
+  in_custody_since TIMESTAMP WITH TIME ZONE NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_storage_bins_location_id ON public.storage_bins(location_id);
+CREATE INDEX IF NOT EXISTS idx_custody_events_item_id_occurred_at ON public.custody_events(item_id, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_item_custody_location_id_bin_id ON public.item_custody(location_id, bin_id);
+
+COMMENT ON TABLE public.storage_locations IS 'Security desks and offices that hold turned-in items.';
+COMMENT ON TABLE public.storage_bins IS 'Shelves, boxes or lockers inside a storage location.';
+COMMENT ON TABLE public.custody_events IS 'Append-only log of every custody hand-off (intake, transfer between desks/bins, release).';
+COMMENT ON TABLE public.item_custody IS 'Current physical location of each item in custody. Maintained by the custody_* functions.';
+
+DROP TRIGGER IF EXISTS set_storage_locations_timestamp ON public.storage_locations;
+CREATE TRIGGER set_storage_locations_timestamp
+BEFORE UPDATE ON public.storage_locations
+FOR EACH ROW
+EXECUTE FUNCTION public.trigger_set_timestamp();
+
+DROP TRIGGER IF EXISTS set_storage_bins_timestamp ON public.storage_bins;
+CREATE TRIGGER set_storage_bins_timestamp
+BEFORE UPDATE ON public.storage_bins
+FOR EACH ROW
+EXECUTE FUNCTION public.trigger_set_timestamp();
+
+-- Checks that a location is active and, if given, that the bin is active and inside it
+CREATE OR REPLACE FUNCTION public.assert_custody_destination(p_location_id UUID, p_bin_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.storage_locations WHERE id = p_location_id AND is_active) THEN
+    RAISE EXCEPTION 'Storage location not found or inactive' USING ERRCODE = 'P0002';
+  END IF;
+  IF p_bin_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.storage_bins WHERE id = p_bin_id AND location_id = p_location_id AND is_active
+  ) THEN
+    RAISE EXCEPTION 'Storage bin not found in this location or inactive' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+-- Records an item being brought in to a security desk.
+CREATE OR REPLACE FUNCTION public.custody_intake(
+  p_item_id UUID,
+  p_location_id UUID,
+  p_bin_id UUID DEFAULT NULL,
+  p_brought_in_by_name TEXT DEFAULT NULL,
+  p_brought_in_by_user_id UUID DEFAULT NULL,
+  p_condition TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS public.custody_events
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event public.custody_events;
+BEGIN
+  IF NOT public.is_security_staff(auth.uid()) THEN
+    RAISE EXCEPTION 'Only security staff can record custody' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM 1 FROM public.items WHERE id = p_item_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.item_custody WHERE item_id = p_item_id) THEN
+    RAISE EXCEPTION 'Item is already in custody; transfer it instead' USING ERRCODE = '55000';
+  END IF;
+  PERFORM public.assert_custody_destination(p_location_id, p_bin_id);
+
+  INSERT INTO public.custody_events (
+    item_id, event_type, to_location_id, to_bin_id,
+    brought_in_by_name, brought_in_by_user_id, condition, notes, performed_by
+  )
+  VALUES (
+    p_item_id, 'intake', p_location_id, p_bin_id,
+    NULLIF(trim(p_brought_in_by_name), ''), p_brought_in_by_user_id, p_condition,
+    NULLIF(trim(p_notes), ''), auth.uid()
+  )
+  RETURNING * INTO v_event;
+
+  INSERT INTO public.item_custody (item_id, location_id, bin_id, condition, intake_event_id, last_event_id, in_custody_since)
+  VALUES (p_item_id, p_location_id, p_bin_id, p_condition, v_event.id, v_event.id, v_event.occurred_at);
+
+  UPDATE public.items SET turn_in_to_security = TRUE WHERE id = p_item_id AND NOT turn_in_to_security;
+
+  RETURN v_event;
+END;
+$$;
+
+COMMENT ON FUNCTION public.custody_intake(UUID, UUID, UUID, TEXT, UUID, TEXT, TEXT) IS 'Takes an item into custody at a storage location/bin and logs the intake. Security staff only.';
+
+-- Moves an item in custody to another desk and/or bin.
+CREATE OR REPLACE FUNCTION public.custody_transfer(
+  p_item_id UUID,
+  p_to_location_id UUID,
+  p_to_bin_id UUID DEFAULT NULL,
+  p_condition TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS public.custody_events
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_current public.item_custody;
+  v_event public.custody_events;
+BEGIN
+  IF NOT public.is_security_staff(auth.uid()) THEN
+    RAISE EXCEPTION 'Only security staff can record custody' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_current FROM public.item_custody WHERE item_id = p_item_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item is not in custody' USING ERRCODE = 'P0002';
+  END IF;
+  IF v_current.location_id = p_to_location_id AND v_current.bin_id IS NOT DISTINCT FROM p_to_bin_id THEN
+    RAISE EXCEPTION 'Item is already in this location and bin' USING ERRCODE = '55000';
+  END IF;
+  PERFORM public.assert_custody_destination(p_to_location_id, p_to_bin_id);
+
+  INSERT INTO public.custody_events (
+    item_id, event_type, from_location_id, from_bin_id, to_location_id, to_bin_id,
+    condition, notes, performed_by
+  )
+  VALUES (
+    p_item_id, 'transfer', v_current.location_id, v_current.bin_id, p_to_location_id, p_to_bin_id,
+    COALESCE(p_condition, v_current.condition), NULLIF(trim(p_notes), ''), auth.uid()
+  )
+  RETURNING * INTO v_event;
+
+  UPDATE public.item_custody
+  SET location_id = p_to_location_id,
+      bin_id = p_to_bin_id,
+      condition = v_event.condition,
+      last_event_id = v_event.id,
+      updated_at = v_event.occurred_at
+  WHERE item_id = p_item_id;
+
+  RETURN v_event;
+END;
+$$;
+
+COMMENT ON FUNCTION public.custody_transfer(UUID, UUID, UUID, TEXT, TEXT) IS 'Moves an item in custody to another location/bin and logs the transfer. Security staff only.';
+
+-- Ends custody, e.g. when the item is handed back or disposed of. Shared by the RPC and the handover trigger.
+-- Deliberately SECURITY INVOKER: it only has the rights of the security definer functions that call it,
+-- and RLS stops anyone calling it directly.
+CREATE OR REPLACE FUNCTION public.release_item_custody(p_item_id UUID, p_notes TEXT)
+RETURNS public.custody_events
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_current public.item_custody;
+  v_event public.custody_events;
+BEGIN
+  SELECT * INTO v_current FROM public.item_custody WHERE item_id = p_item_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.custody_events (
+    item_id, event_type, from_location_id, from_bin_id, condition, notes, performed_by
+  )
+  VALUES (
+    p_item_id, 'release', v_current.location_id, v_current.bin_id, v_current.condition,
+    NULLIF(trim(p_notes), ''), auth.uid()
+  )
+  RETURNING * INTO v_event;
+
+  DELETE FROM public.item_custody WHERE item_id = p_item_id;
+  RETURN v_event;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.custody_release(p_item_id UUID, p_notes TEXT DEFAULT NULL)
+RETURNS public.custody_events
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event public.custody_events;
+BEGIN
+  IF NOT public.is_security_staff(auth.uid()) THEN
+    RAISE EXCEPTION 'Only security staff can record custody' USING ERRCODE = '42501';
+  END IF;
+
+  v_event := public.release_item_custody(p_item_id, p_notes);
+  IF v_event.id IS NULL THEN
+    RAISE EXCEPTION 'Item is not in custody' USING ERRCODE = 'P0002';
+  END IF;
+  RETURN v_event;
+END;
+$$;
+
+COMMENT ON FUNCTION public.custody_release(UUID, TEXT) IS 'Releases an item from custody and logs who released it. Security staff only.';
+
+-- A confirmed QR handover means the item has physically left the desk
+CREATE OR REPLACE FUNCTION public.release_custody_on_handover()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.date_resolved IS NOT NULL AND OLD.date_resolved IS NULL THEN
+    PERFORM public.release_item_custody(NEW.item_id, 'Handed over to the approved claimer');
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS release_custody_on_claim_handover ON public.claims;
+CREATE TRIGGER release_custody_on_claim_handover
+AFTER UPDATE OF date_resolved ON public.claims
+FOR EACH ROW
+EXECUTE FUNCTION public.release_custody_on_handover();
+
+ALTER TABLE public.storage_locations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.storage_bins ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.custody_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.item_custody ENABLE ROW LEVEL SECURITY;
+
+-- Location names are not sensitive; anyone signed in may see where to pick items up
+DROP POLICY IF EXISTS "Authenticated users can view storage locations" ON public.storage_locations;
+CREATE POLICY "Authenticated users can view storage locations"
+ON public.storage_locations
+FOR SELECT
+TO authenticated
+USING (TRUE);
+
+DROP POLICY IF EXISTS "Security staff can manage storage locations" ON public.storage_locations;
+CREATE POLICY "Security staff can manage storage locations"
+ON public.storage_locations
+FOR ALL
+TO authenticated
+USING (public.is_security_staff(auth.uid()))
+WITH CHECK (public.is_security_staff(auth.uid()));
+
+DROP POLICY IF EXISTS "Security staff can manage storage bins" ON public.storage_bins;
+CREATE POLICY "Security staff can manage storage bins"
+ON public.storage_bins
+FOR ALL
+TO authenticated
+USING (public.is_security_staff(auth.uid()))
+WITH CHECK (public.is_security_staff(auth.uid()));
+
+DROP POLICY IF EXISTS "Security staff can view custody events" ON public.custody_events;
+CREATE POLICY "Security staff can view custody events"
+ON public.custody_events
+FOR SELECT
+TO authenticated
+USING (public.is_security_staff(auth.uid()));
+
+-- Reporters can see which desk holds their item, so they know where it is kept
+DROP POLICY IF EXISTS "Security staff and reporters can view item custody" ON public.item_custody;
+CREATE POLICY "Security staff and reporters can view item custody"
+ON public.item_custody
+FOR SELECT
+TO authenticated
+USING (
+  public.is_security_staff(auth.uid())
+  OR EXISTS (SELECT 1 FROM public.items i WHERE i.id = item_custody.item_id AND i.user_id = auth.uid())
+);
+
+
+-- 26. Retention and Disposal of Unclaimed Items
+-- Each category can have a retention rule: how long a found item is kept, how many days
+-- before the deadline the reporter and the custody desk are warned, and what happens to
+-- it afterwards (e.g. IDs go back to the registrar, apparel is donated). The daily job
+-- apply_retention_rules() sends the warnings and, once the deadline has passed (and the
+-- warning has had its full notice period), records the disposal and archives the item.
+-- Items with a pending or approved claim are never disposed of automatically.
+
+CREATE TABLE IF NOT EXISTS public.retention_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  category_id INTEGER NOT NULL UNIQUE REFERENCES public.categories(id) ON DELETE CASCADE,
+  retention_days INTEGER NOT NULL CHECK (retention_days BETWEEN 1 AND 3650),
+  warning_days INTEGER DEFAULT 3 NOT NULL CHECK (warning_days BETWEEN 0 AND 365),
+  disposal_outcome TEXT NOT NULL CHECK (disposal_outcome IN ('returned_to_issuer', 'donated', 'destroyed')),
+  disposal_destination TEXT CHECK (char_length(disposal_destination) <= 200),
+  is_active BOOLEAN DEFAULT TRUE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.item_disposals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  item_id UUID NOT NULL UNIQUE REFERENCES public.items(id) ON DELETE CASCADE,
+  rule_id UUID REFERENCES public.retention_rules(id) ON DELETE SET NULL,
+  outcome TEXT NOT NULL CHECK (outcome IN ('returned_to_issuer', 'donated', 'destroyed')),
+  destination TEXT CHECK (char_length(destination) <= 200),
+  notes TEXT CHECK (char_length(notes) <= 500),
+  is_automatic BOOLEAN DEFAULT FALSE NOT NULL,
+  disposed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  disposed_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+ALTER TABLE public.items
+  ADD COLUMN IF NOT EXISTS retention_warned_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_item_disposals_disposed_at ON public.item_disposals(disposed_at DESC);
+
+COMMENT ON TABLE public.retention_rules IS 'Per-category retention period, warning lead time and disposal outcome for unclaimed found items.';
+COMMENT ON TABLE public.item_disposals IS 'What happened to each found item that reached the end of its retention period.';
+COMMENT ON COLUMN public.items.retention_warned_at IS 'When the reporter and custody desk were warned about the retention deadline.';
+
+DROP TRIGGER IF EXISTS set_retention_rules_timestamp ON public.retention_rules;
+CREATE TRIGGER set_retention_rules_timestamp
+BEFORE UPDATE ON public.retention_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.trigger_set_timestamp();
+
+-- Starting rules; adjust them on /admin/retention
+INSERT INTO public.retention_rules (category_id, retention_days, warning_days, disposal_outcome, disposal_destination)
+SELECT c.id, r.retention_days, r.warning_days, r.disposal_outcome, r.disposal_destination
+FROM (VALUES
+  ('ids_cards', 7, 2, 'returned_to_issuer', 'Registrar''s Office'),
+  ('apparel', 60, 7, 'donated', NULL)
+) AS r(category_name, retention_days, warning_days, disposal_outcome, disposal_destination)
+JOIN public.categories c ON c.name = r.category_name
+ON CONFLICT (category_id) DO NOTHING;
+
+-- Found items covered by an active rule, with their deadlines. A warning always gets its
+-- full notice period, so disposal_due_at is pushed back if the warning went out late.
+CREATE OR REPLACE VIEW public.item_retention_status
+WITH (security_invoker = true)
+AS
+SELECT
+  i.id AS item_id,
+  i.title,
+  i.user_id,
+  i.category_id,
+  r.id AS rule_id,
+  r.retention_days,
+  r.warning_days,
+  r.disposal_outcome,
+  r.disposal_destination,
+  i.date_reported + make_interval(days => r.retention_days) AS deadline,
+  i.date_reported + make_interval(days => r.retention_days - r.warning_days) AS warn_from,
+  i.retention_warned_at,
+  GREATEST(
+    i.date_reported + make_interval(days => r.retention_days),
+    COALESCE(i.retention_warned_at, timezone('utc'::text, now())) + make_interval(days => r.warning_days)
+  ) AS disposal_due_at,
+  EXISTS (
+    SELECT 1 FROM public.claims c
+    WHERE c.item_id = i.id AND c.status IN ('pending', 'approved')
+  ) AS on_hold,
+  EXISTS (SELECT 1 FROM public.item_custody ic WHERE ic.item_id = i.id) AS in_custody
+FROM public.items i
+JOIN public.retention_rules r ON r.category_id = i.category_id AND r.is_active
+WHERE i.status = 'found';
+
+COMMENT ON VIEW public.item_retention_status IS 'Retention deadlines for found items covered by an active rule. on_hold items have an open claim.';
+
+-- Records a disposal, archives the item and ends custody. Shared by the manual RPC and the job.
+-- SECURITY INVOKER like release_item_custody: only usable through its security definer callers.
+CREATE OR REPLACE FUNCTION public.dispose_item(
+  p_item_id UUID,
+  p_rule_id UUID,
+  p_outcome TEXT,
+  p_destination TEXT,
+  p_notes TEXT,
+  p_is_automatic BOOLEAN
+)
+RETURNS public.item_disposals
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_item public.items;
+  v_disposal public.item_disposals;
+  v_outcome_label TEXT;
+BEGIN
+  SELECT * INTO v_item FROM public.items WHERE id = p_item_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF v_item.status <> 'found' THEN
+    RAISE EXCEPTION 'Only unclaimed found items can be disposed of' USING ERRCODE = '55000';
+  END IF;
+
+  INSERT INTO public.item_disposals (item_id, rule_id, outcome, destination, notes, is_automatic, disposed_by)
+  VALUES (
+    p_item_id, p_rule_id, p_outcome, NULLIF(trim(p_destination), ''), NULLIF(trim(p_notes), ''),
+    p_is_automatic, CASE WHEN p_is_automatic THEN NULL ELSE auth.uid() END
+  )
+  RETURNING * INTO v_disposal;
+
+  UPDATE public.items SET status = 'archived' WHERE id = p_item_id;
+
+  v_outcome_label := CASE p_outcome
+    WHEN 'returned_to_issuer' THEN 'returned to its issuer'
+    WHEN 'donated' THEN 'donated'
+    ELSE 'disposed of'
+  END;
+  PERFORM public.release_item_custody(
+    p_item_id,
+    left(format('Retention period ended: %s%s', v_outcome_label, COALESCE(' (' || v_disposal.destination || ')', '')), 500)
+  );
+
+  IF v_item.user_id IS NOT NULL THEN
+    INSERT INTO public.notifications (user_id, item_id, type, title, message)
+    VALUES (
+      v_item.user_id, p_item_id, 'general_announcement', 'Found item closed',
+      left(format(
+        'Nobody claimed "%s" before its retention period ended, so it was %s%s. Thank you for turning it in.',
+        v_item.title, v_outcome_label, COALESCE(' (' || v_disposal.destination || ')', '')
+      ), 499)
+    );
+  END IF;
+
+  RETURN v_disposal;
+END;
+$$;
+
+-- Manual disposal from the retention page, e.g. before the deadline or for items without a rule.
+CREATE OR REPLACE FUNCTION public.record_item_disposal(
+  p_item_id UUID,
+  p_outcome TEXT,
+  p_destination TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS public.item_disposals
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rule_id UUID;
+BEGIN
+  IF NOT public.is_security_staff(auth.uid()) THEN
+    RAISE EXCEPTION 'Only the custody desk can record disposals' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT r.id INTO v_rule_id
+  FROM public.items i
+  JOIN public.retention_rules r ON r.category_id = i.category_id
+  WHERE i.id = p_item_id;
+
+  RETURN public.dispose_item(p_item_id, v_rule_id, p_outcome, p_destination, p_notes, FALSE);
+END;
+$$;
+
+COMMENT ON FUNCTION public.record_item_disposal(UUID, TEXT, TEXT, TEXT) IS 'Records how an unclaimed found item was disposed of and archives it. Security staff and admins only.';
+
+-- Daily job: warns about upcoming deadlines and disposes of items whose deadline has passed.
+CREATE OR REPLACE FUNCTION public.apply_retention_rules()
+RETURNS TABLE (warned INTEGER, disposed INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_now TIMESTAMP WITH TIME ZONE := timezone('utc'::text, now());
+  v_row RECORD;
+  v_warned INTEGER := 0;
+  v_disposed INTEGER := 0;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only the retention job or an admin can apply retention rules' USING ERRCODE = '42501';
+  END IF;
+
+  FOR v_row IN
+    SELECT * FROM public.item_retention_status
+    WHERE retention_warned_at IS NULL AND warn_from <= v_now AND NOT on_hold
+  LOOP
+    IF v_row.user_id IS NOT NULL THEN
+      INSERT INTO public.notifications (user_id, item_id, type, title, message)
+      VALUES (
+        v_row.user_id, v_row.item_id, 'general_announcement', 'Retention deadline approaching',
+        left(format(
+          'Nobody has claimed "%s" yet. If it is still unclaimed on %s, it will be %s.',
+          v_row.title,
+          to_char(GREATEST(v_row.deadline, v_now + make_interval(days => v_row.warning_days)), 'Mon DD, YYYY'),
+          CASE v_row.disposal_outcome
+            WHEN 'returned_to_issuer' THEN 'returned to its issuer'
+            WHEN 'donated' THEN 'donated'
+            ELSE 'disposed of'
+          END
+        ), 499)
+      );
+    END IF;
+    UPDATE public.items SET retention_warned_at = v_now WHERE id = v_row.item_id;
+    v_warned := v_warned + 1;
+  END LOOP;
+
+  -- One summary for the custody desk rather than one notification per item
+  IF v_warned > 0 THEN
+    INSERT INTO public.notifications (user_id, type, title, message)
+    SELECT p.id, 'general_announcement', 'Items nearing disposal',
+      left(format('%s found item(s) reached their retention warning period. Review them on the retention page.', v_warned), 499)
+    FROM public.profiles p
+    WHERE public.is_security_staff(p.id);
+  END IF;
+
+  FOR v_row IN
+    SELECT * FROM public.item_retention_status
+    WHERE retention_warned_at IS NOT NULL AND disposal_due_at <= v_now AND NOT on_hold
+  LOOP
+    PERFORM public.dispose_item(
+      v_row.item_id, v_row.rule_id, v_row.disposal_outcome, v_row.disposal_destination,
+      'Disposed of automatically by retention rule', TRUE
+    );
+    v_disposed := v_disposed + 1;
+  END LOOP;
+
+  RETURN QUERY SELECT v_warned, v_disposed;
+END;
+$$;
+
+COMMENT ON FUNCTION public.apply_retention_rules() IS 'Sends retention warnings and disposes of items past their deadline. Run daily by /api/cron/retention; admins may run it by hand.';
+
+ALTER TABLE public.retention_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.item_disposals ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view retention rules" ON public.retention_rules;
+CREATE POLICY "Authenticated users can view retention rules"
+ON public.retention_rules
+FOR SELECT
+TO authenticated
+USING (TRUE);
+
+DROP POLICY IF EXISTS "Admins can manage retention rules" ON public.retention_rules;
+CREATE POLICY "Admins can manage retention rules"
+ON public.retention_rules
+FOR ALL
+TO authenticated
+USING (public.is_admin(auth.uid()))
+WITH CHECK (public.is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Admins and reporters can view item disposals" ON public.item_disposals;
+DROP POLICY IF EXISTS "Custody desk and reporters can view item disposals" ON public.item_disposals;
+CREATE POLICY "Custody desk and reporters can view item disposals"
+ON public.item_disposals
+FOR SELECT
+TO authenticated
+USING (
+  public.is_security_staff(auth.uid())
+  OR EXISTS (SELECT 1 FROM public.items i WHERE i.id = item_disposals.item_id AND i.user_id = auth.uid())
+);
+
+
+-- 27. Points Ledger and Leaderboard
+-- Every change to profiles.points is an entry in points_ledger, so a balance can always be
+-- explained and the leaderboard can total any date range (e.g. one semester).
+-- Entries are written by triggers and admin RPCs only; users cannot set their own points.
+--   found_item_returned  +10  reporter of a found item whose claim was approved
+--   fast_return_bonus     +5  that item was handed over within 48 hours of being reported
+--   claim_rejected        -2  claimer, when the reporter or an admin rejects the claim
+--   fraudulent_claim     -20  claimer, when an admin flags the claim as fraudulent
+--   admin_adjustment       ±  manual correction by an admin
+
+CREATE TABLE IF NOT EXISTS public.points_ledger (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  delta INT NOT NULL,
+  reason TEXT NOT NULL CHECK (reason IN ('found_item_returned', 'fast_return_bonus', 'claim_rejected', 'fraudulent_claim', 'admin_adjustment')),
+  item_id UUID REFERENCES public.items(id) ON DELETE SET NULL,
+  claim_id UUID REFERENCES public.claims(id) ON DELETE SET NULL,
+  note TEXT CHECK (note IS NULL OR char_length(note) <= 500),
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- A claim can earn or cost each kind of points once, however many times its row is updated
+CREATE UNIQUE INDEX IF NOT EXISTS idx_points_ledger_claim_reason ON public.points_ledger(claim_id, reason) WHERE claim_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_points_ledger_user ON public.points_ledger(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_points_ledger_created_at ON public.points_ledger(created_at);
+
+ALTER TABLE public.claims ADD COLUMN IF NOT EXISTS fraud_flagged_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON TABLE public.points_ledger IS 'Append-only history of point awards and penalties. profiles.points is the running total.';
+COMMENT ON COLUMN public.points_ledger.delta IS 'Points added (positive) or removed (negative). Penalties are capped so a balance never drops below zero.';
+COMMENT ON COLUMN public.claims.fraud_flagged_at IS 'Set when an admin flags the claim as fraudulent (see flag_fraudulent_claim).';
+
+-- Applies an entry to the balance. Penalties larger than the balance are reduced so the
+-- ledger still sums to profiles.points, which may not go negative.
+CREATE OR REPLACE FUNCTION public.apply_points_entry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_balance INT;
+BEGIN
+  SELECT COALESCE(points, 0) INTO v_balance FROM public.profiles WHERE id = NEW.user_id FOR UPDATE;
+  NEW.delta := GREATEST(NEW.delta, -v_balance);
+  UPDATE public.profiles SET points = v_balance + NEW.delta WHERE id = NEW.user_id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS apply_points_ledger_entry ON public.points_ledger;
+CREATE TRIGGER apply_points_ledger_entry
+BEFORE INSERT ON public.points_ledger
+FOR EACH ROW
+EXECUTE FUNCTION public.apply_points_entry();
+
+-- "Users can update their own profile" covers every column, so keep points out of reach:
+-- only the ledger trigger above (which runs nested, at trigger depth > 1) may change them.
+CREATE OR REPLACE FUNCTION public.protect_profile_points()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.points IS DISTINCT FROM OLD.points AND pg_trigger_depth() <= 1 THEN
+    NEW.points := OLD.points;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_profiles_points ON public.profiles;
+CREATE TRIGGER protect_profiles_points
+BEFORE UPDATE OF points ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_profile_points();
+
+-- Awards and penalties that follow from a claim's lifecycle
+CREATE OR REPLACE FUNCTION public.award_claim_points()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item public.items%ROWTYPE;
+BEGIN
+  SELECT * INTO v_item FROM public.items WHERE id = NEW.item_id;
+
+  -- adjudicate_claim approves the claim before it marks the item claimed, so the item
+  -- still shows whether it was reported as found. Reporters claiming their own item get nothing.
+  IF NEW.status = 'approved' AND OLD.status = 'pending'
+     AND v_item.status = 'found'
+     AND v_item.user_id IS NOT NULL AND v_item.user_id <> NEW.claimer_id THEN
+    INSERT INTO public.points_ledger (user_id, delta, reason, item_id, claim_id)
+    VALUES (v_item.user_id, 10, 'found_item_returned', v_item.id, NEW.id)
+    ON CONFLICT (claim_id, reason) WHERE claim_id IS NOT NULL DO NOTHING;
+  END IF;
+
+  -- Only a decision about this claim costs points. Claims rejected because a different
+  -- claim was approved are not the claimer's fault.
+  IF NEW.status = 'rejected' AND OLD.status = 'pending'
+     AND NOT EXISTS (
+       SELECT 1 FROM public.claims c
+       WHERE c.item_id = NEW.item_id AND c.status = 'approved' AND c.id <> NEW.id
+     ) THEN
+    INSERT INTO public.points_ledger (user_id, delta, reason, item_id, claim_id, created_by)
+    VALUES (NEW.claimer_id, -2, 'claim_rejected', NEW.item_id, NEW.id, NEW.adjudicated_by)
+    ON CONFLICT (claim_id, reason) WHERE claim_id IS NOT NULL DO NOTHING;
+  END IF;
+
+  -- Fast return bonus, only for returns that earned the base award
+  IF NEW.date_resolved IS NOT NULL AND OLD.date_resolved IS NULL
+     AND v_item.user_id IS NOT NULL
+     AND NEW.date_resolved <= v_item.date_reported + INTERVAL '48 hours'
+     AND EXISTS (
+       SELECT 1 FROM public.points_ledger pl
+       WHERE pl.claim_id = NEW.id AND pl.reason = 'found_item_returned'
+     ) THEN
+    INSERT INTO public.points_ledger (user_id, delta, reason, item_id, claim_id)
+    VALUES (v_item.user_id, 5, 'fast_return_bonus', v_item.id, NEW.id)
+    ON CONFLICT (claim_id, reason) WHERE claim_id IS NOT NULL DO NOTHING;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS award_points_on_claim_change ON public.claims;
+CREATE TRIGGER award_points_on_claim_change
+AFTER UPDATE OF status, date_resolved ON public.claims
+FOR EACH ROW
+EXECUTE FUNCTION public.award_claim_points();
+
+CREATE OR REPLACE FUNCTION public.flag_fraudulent_claim(
+  p_claim_id UUID,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS public.claims
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_claim public.claims%ROWTYPE;
+  v_note TEXT := NULLIF(btrim(p_note), '');
+BEGIN
+  IF NOT public.is_moderator(auth.uid()) THEN
+    RAISE EXCEPTION 'Only moderators can flag claims as fraudulent' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_claim FROM public.claims WHERE id = p_claim_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Claim not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF v_claim.fraud_flagged_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This claim has already been flagged' USING ERRCODE = '55000';
+  END IF;
+
+  UPDATE public.claims SET fraud_flagged_at = now() WHERE id = p_claim_id RETURNING * INTO v_claim;
+
+  INSERT INTO public.points_ledger (user_id, delta, reason, item_id, claim_id, note, created_by)
+  VALUES (v_claim.claimer_id, -20, 'fraudulent_claim', v_claim.item_id, v_claim.id, v_note, auth.uid());
+
+  RETURN v_claim;
+END;
+$$;
+
+COMMENT ON FUNCTION public.flag_fraudulent_claim(UUID, TEXT) IS 'Flags a claim as fraudulent and deducts points from the claimer. Moderators only.';
+
+CREATE OR REPLACE FUNCTION public.adjust_user_points(
+  p_user_id UUID,
+  p_delta INT,
+  p_note TEXT
+)
+RETURNS public.points_ledger
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_entry public.points_ledger;
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can adjust points' USING ERRCODE = '42501';
+  END IF;
+  IF p_delta IS NULL OR p_delta = 0 THEN
+    RAISE EXCEPTION 'Adjustment must be non-zero' USING ERRCODE = '22023';
+  END IF;
+  IF NULLIF(btrim(p_note), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required for manual adjustments' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.points_ledger (user_id, delta, reason, note, created_by)
+  VALUES (p_user_id, p_delta, 'admin_adjustment', btrim(p_note), auth.uid())
+  RETURNING * INTO v_entry;
+  RETURN v_entry;
+END;
+$$;
+
+COMMENT ON FUNCTION public.adjust_user_points(UUID, INT, TEXT) IS 'Adds or removes points by hand, with a reason kept in the ledger. Admins only.';
+
+-- Points earned between two instants. The ledger itself is private, so this exposes only
+-- names and totals. Users whose total is zero or less are left out.
+CREATE OR REPLACE FUNCTION public.points_leaderboard(
+  p_from TIMESTAMP WITH TIME ZONE,
+  p_to TIMESTAMP WITH TIME ZONE,
+  p_limit INT DEFAULT 50
+)
+RETURNS TABLE (
+  rank BIGINT,
+  user_id UUID,
+  full_name TEXT,
+  avatar_url TEXT,
+  points BIGINT,
+  items_returned BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  WITH totals AS (
+    SELECT
+      pl.user_id,
+      SUM(pl.delta) AS points,
+      COUNT(*) FILTER (WHERE pl.reason = 'found_item_returned') AS items_returned
+    FROM public.points_ledger pl
+    WHERE pl.created_at >= p_from AND pl.created_at < p_to
+    GROUP BY pl.user_id
+  )
+  SELECT
+    RANK() OVER (ORDER BY t.points DESC) AS rank,
+    t.user_id,
+    p.full_name,
+    p.avatar_url,
+    t.points,
+    t.items_returned
+  FROM totals t
+  JOIN public.profiles p ON p.id = t.user_id
+  WHERE t.points > 0
+  ORDER BY t.points DESC, t.items_returned DESC, p.full_name
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 50), 1), 100);
+$$;
+
+COMMENT ON FUNCTION public.points_leaderboard(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, INT) IS 'Ranks users by points earned in [p_from, p_to). Used by the semester leaderboard.';
+
+ALTER TABLE public.points_ledger ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own points history" ON public.points_ledger;
+CREATE POLICY "Users can view their own points history"
+ON public.points_ledger
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid() OR public.is_admin(auth.uid()));
+
+
+-- 28. Staff Roles: security_staff and moderator
+-- Admins keep full access. Other staff roles get only what their job needs:
+--   security_staff  custody desk, handover confirmation, 'user-to-security' chats
+--   moderator       claim decisions (incl. fraud flags), item reports, matches and audit history
+-- The checks live in has_role/is_moderator/is_security_staff (section 9); the policies and
+-- functions above call them. src/lib/auth/roles.ts mirrors this for the UI.
+-- Note: new enum values cannot be used in the same transaction that adds them.
+
+ALTER TYPE public.user_role ADD VALUE IF NOT EXISTS 'security_staff';
+ALTER TYPE public.user_role ADD VALUE IF NOT EXISTS 'moderator';
+
+-- Policies that were renamed when their checks moved from is_admin to a staff role
+DROP POLICY IF EXISTS "Admins can manage all item matches" ON public.item_matches;
+DROP POLICY IF EXISTS "Reporters and admins can view expected answers" ON public.item_verification_answers;
+DROP POLICY IF EXISTS "Reporters and admins can view claim answers" ON public.claim_verification_answers;
+DROP POLICY IF EXISTS "Claimers, reporters and admins can view handover tokens" ON public.handover_tokens;
+DROP POLICY IF EXISTS "Admins can view item audit logs" ON public.item_audit_logs;
+DROP POLICY IF EXISTS "Admins can manage storage locations" ON public.storage_locations;
+DROP POLICY IF EXISTS "Admins can manage storage bins" ON public.storage_bins;
+DROP POLICY IF EXISTS "Admins can view custody events" ON public.custody_events;
+DROP POLICY IF EXISTS "Admins and reporters can view item custody" ON public.item_custody;
+
+-- Moderators edit and remove item reports from the dashboard; creating items stays with users
+DROP POLICY IF EXISTS "Moderators can update items" ON public.items;
+CREATE POLICY "Moderators can update items"
+ON public.items
+FOR UPDATE
+TO authenticated
+USING (public.is_moderator(auth.uid()))
+WITH CHECK (public.is_moderator(auth.uid()));
+
+DROP POLICY IF EXISTS "Moderators can delete items" ON public.items;
+CREATE POLICY "Moderators can delete items"
+ON public.items
+FOR DELETE
+TO authenticated
+USING (public.is_moderator(auth.uid()));
+
+-- Claim decisions go through adjudicate_claim; staff only need to read claims directly
+DROP POLICY IF EXISTS "Staff can view all claims" ON public.claims;
+CREATE POLICY "Staff can view all claims"
+ON public.claims
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), ARRAY['moderator', 'security_staff']));
+
+-- "Users can update their own profile" covers every column, so only admins may change a
+-- role. Requests without a signed-in user (SQL editor, service role) are trusted.
+CREATE OR REPLACE FUNCTION public.protect_profile_role()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR public.is_admin(auth.uid()) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.role := 'user';
+  ELSIF NEW.role IS DISTINCT FROM OLD.role THEN
+    RAISE EXCEPTION 'Only admins can change roles' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_profiles_role ON public.profiles;
+CREATE TRIGGER protect_profiles_role
+BEFORE INSERT OR UPDATE OF role ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_profile_role();
+
+CREATE OR REPLACE FUNCTION public.set_user_role(
+  p_user_id UUID,
+  p_role TEXT
+)
+RETURNS public.profiles
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_profile public.profiles%ROWTYPE;
+  v_old_role TEXT;
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can assign roles' USING ERRCODE = '42501';
+  END IF;
+  IF p_role IS NULL OR NOT p_role = ANY(enum_range(NULL::public.user_role)::TEXT[]) THEN
+    RAISE EXCEPTION 'Unknown role "%"', p_role USING ERRCODE = '22023';
+  END IF;
+  -- Admins can only be demoted by another admin, so there is always at least one left
+  IF p_user_id = auth.uid() AND p_role <> 'admin' THEN
+    RAISE EXCEPTION 'You cannot remove your own admin role' USING ERRCODE = '55000';
+  END IF;
+
+  SELECT role::TEXT INTO v_old_role FROM public.profiles WHERE id = p_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE public.profiles SET role = p_role::public.user_role WHERE id = p_user_id RETURNING * INTO v_profile;
+
+  IF v_old_role IS DISTINCT FROM p_role THEN
+    INSERT INTO public.notifications (user_id, type, title, message)
+    VALUES (
+      p_user_id,
+      'general_announcement',
+      'Your role has changed',
+      format('An admin changed your role from %s to %s.', replace(v_old_role, '_', ' '), replace(p_role, '_', ' '))
+    );
+  END IF;
+
+  RETURN v_profile;
+END;
+$$;
+
+COMMENT ON FUNCTION public.set_user_role(UUID, TEXT) IS 'Assigns user, moderator, security_staff or admin to a user and notifies them. Admins only; admins cannot demote themselves.';
+
+
+-- 29. Shared Security Inbox
+-- Every 'user-to-security' conversation sits in one inbox that all security staff see.
+--   status       open (waiting on staff), waiting_on_student (staff replied last) or closed
+--   assigned_to  the staff member handling it; NULL while unclaimed
+-- Messages drive status automatically: a student message (re)opens the conversation, a staff
+-- reply moves it to waiting_on_student and claims it for the replier if nobody has it yet.
+-- New student messages notify the assignee, or every on-duty security staff member while the
+-- conversation is unassigned (all security staff if nobody is on duty, admins if there are none).
+
+ALTER TABLE public.conversations ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'open'
+  CHECK (status IN ('open', 'waiting_on_student', 'closed'));
+ALTER TABLE public.conversations ADD COLUMN IF NOT EXISTS assigned_to UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+ALTER TABLE public.conversations ADD COLUMN IF NOT EXISTS assigned_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.conversations ADD COLUMN IF NOT EXISTS closed_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS is_on_duty BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE INDEX IF NOT EXISTS idx_conversations_security_inbox ON public.conversations(status, updated_at DESC) WHERE type = 'user-to-security';
+CREATE INDEX IF NOT EXISTS idx_conversations_assigned_to ON public.conversations(assigned_to) WHERE assigned_to IS NOT NULL;
+
+COMMENT ON COLUMN public.conversations.status IS 'Security inbox state: open, waiting_on_student or closed. Only used for user-to-security conversations.';
+COMMENT ON COLUMN public.conversations.assigned_to IS 'Security staff member handling a user-to-security conversation (see assign_security_conversation).';
+COMMENT ON COLUMN public.profiles.is_on_duty IS 'Security staff currently on shift. Unassigned security chats notify everyone on duty.';
+
+-- Students may update their own conversations (section 13 policies), so inbox fields are
+-- guarded here. Changes made from the triggers and RPCs below are nested and always allowed.
+CREATE OR REPLACE FUNCTION public.protect_conversation_inbox_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF pg_trigger_depth() > 1 OR auth.uid() IS NULL OR public.is_security_staff(auth.uid()) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+     OR NEW.assigned_to IS DISTINCT FROM OLD.assigned_to
+     OR NEW.assigned_at IS DISTINCT FROM OLD.assigned_at
+     OR NEW.closed_at IS DISTINCT FROM OLD.closed_at THEN
+    RAISE EXCEPTION 'Only security staff can change inbox status or assignment' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_conversations_inbox_fields ON public.conversations;
+CREATE TRIGGER protect_conversations_inbox_fields
+BEFORE UPDATE OF status, assigned_to, assigned_at, closed_at ON public.conversations
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_conversation_inbox_fields();
+
+-- Routes new-message notifications for security chats and moves the inbox status along.
+-- Runs as definer because students cannot see who is on duty.
+CREATE OR REPLACE FUNCTION public.route_security_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_conversation public.conversations%ROWTYPE;
+  v_item_title TEXT;
+  v_sender_name TEXT;
+  v_message TEXT;
+BEGIN
+  SELECT * INTO v_conversation FROM public.conversations WHERE id = NEW.conversation_id FOR UPDATE;
+  IF NOT FOUND OR v_conversation.type <> 'user-to-security' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT title INTO v_item_title FROM public.items WHERE id = v_conversation.item_id;
+  SELECT full_name INTO v_sender_name FROM public.profiles WHERE id = NEW.sender_id;
+  v_message := left(format('%s sent a message about "%s"', COALESCE(v_sender_name, 'Someone'), COALESCE(v_item_title, 'an item')), 499);
+
+  IF NEW.sender_id <> v_conversation.creator_id AND public.is_security_staff(NEW.sender_id) THEN
+    UPDATE public.conversations
+    SET status = 'waiting_on_student',
+        closed_at = NULL,
+        assigned_to = COALESCE(assigned_to, NEW.sender_id),
+        assigned_at = CASE WHEN assigned_to IS NULL THEN timezone('utc'::text, now()) ELSE assigned_at END
+    WHERE id = v_conversation.id;
+
+    INSERT INTO public.notifications (user_id, item_id, conversation_id, type, title, message)
+    VALUES (v_conversation.creator_id, v_conversation.item_id, v_conversation.id, 'new_message', 'New Message', v_message);
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.conversations
+  SET status = 'open', closed_at = NULL
+  WHERE id = v_conversation.id AND status <> 'open';
+
+  IF v_conversation.assigned_to IS NOT NULL THEN
+    INSERT INTO public.notifications (user_id, item_id, conversation_id, type, title, message)
+    VALUES (v_conversation.assigned_to, v_conversation.item_id, v_conversation.id, 'new_message', 'New Message', v_message);
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, item_id, conversation_id, type, title, message)
+  SELECT p.id, v_conversation.item_id, v_conversation.id, 'new_message', 'New Security Chat Message', v_message
+  FROM public.profiles p
+  WHERE p.id <> NEW.sender_id
+    AND CASE
+      WHEN EXISTS (SELECT 1 FROM public.profiles WHERE role = 'security_staff' AND is_on_duty) THEN
+        p.role = 'security_staff' AND p.is_on_duty
+      WHEN EXISTS (SELECT 1 FROM public.profiles WHERE role = 'security_staff') THEN
+        p.role = 'security_staff'
+      ELSE p.role = 'admin'
+    END;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS route_security_messages ON public.messages;
+CREATE TRIGGER route_security_messages
+AFTER INSERT ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.route_security_message();
+
+-- Assigns a security chat to a staff member (p_assignee_id NULL returns it to the queue).
+-- Works for claiming ("assign to me") and transferring; the new assignee is notified.
+CREATE OR REPLACE FUNCTION public.assign_security_conversation(
+  p_conversation_id UUID,
+  p_assignee_id UUID
+)
+RETURNS public.conversations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_conversation public.conversations%ROWTYPE;
+  v_item_title TEXT;
+  v_actor_name TEXT;
+BEGIN
+  IF NOT public.is_security_staff(auth.uid()) THEN
+    RAISE EXCEPTION 'Only security staff can assign security chats' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_conversation FROM public.conversations WHERE id = p_conversation_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Conversation not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF v_conversation.type <> 'user-to-security' THEN
+    RAISE EXCEPTION 'Only security chats can be assigned' USING ERRCODE = '22023';
+  END IF;
+  IF p_assignee_id IS NOT NULL AND NOT public.is_security_staff(p_assignee_id) THEN
+    RAISE EXCEPTION 'Security chats can only be assigned to security staff' USING ERRCODE = '22023';
+  END IF;
+
+  IF v_conversation.assigned_to IS NOT DISTINCT FROM p_assignee_id THEN
+    RETURN v_conversation;
+  END IF;
+
+  UPDATE public.conversations
+  SET assigned_to = p_assignee_id,
+      assigned_at = CASE WHEN p_assignee_id IS NULL THEN NULL ELSE timezone('utc'::text, now()) END
+  WHERE id = p_conversation_id
+  RETURNING * INTO v_conversation;
+
+  IF p_assignee_id IS NOT NULL AND p_assignee_id <> auth.uid() THEN
+    SELECT title INTO v_item_title FROM public.items WHERE id = v_conversation.item_id;
+    SELECT full_name INTO v_actor_name FROM public.profiles WHERE id = auth.uid();
+    INSERT INTO public.notifications (user_id, item_id, conversation_id, type, title, message)
+    VALUES (
+      p_assignee_id,
+      v_conversation.item_id,
+      v_conversation.id,
+      'new_message',
+      'Security chat assigned to you',
+      left(format('%s assigned you the security chat about "%s".', COALESCE(v_actor_name, 'A colleague'), COALESCE(v_item_title, 'an item')), 499)
+    );
+  END IF;
+
+  RETURN v_conversation;
+END;
+$$;
+
+COMMENT ON FUNCTION public.assign_security_conversation(UUID, UUID) IS 'Claims, transfers or unassigns (NULL) a user-to-security conversation. Security staff only; the assignee must be security staff.';
+
+-- Closes or reopens a security chat by hand. Messages also change status (see route_security_message).
+CREATE OR REPLACE FUNCTION public.set_security_conversation_status(
+  p_conversation_id UUID,
+  p_status TEXT
+)
+RETURNS public.conversations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_conversation public.conversations%ROWTYPE;
+BEGIN
+  IF NOT public.is_security_staff(auth.uid()) THEN
+    RAISE EXCEPTION 'Only security staff can change security chat status' USING ERRCODE = '42501';
+  END IF;
+  IF p_status IS NULL OR p_status NOT IN ('open', 'waiting_on_student', 'closed') THEN
+    RAISE EXCEPTION 'Unknown status "%"', p_status USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.conversations
+  SET status = p_status,
+      closed_at = CASE WHEN p_status = 'closed' THEN timezone('utc'::text, now()) ELSE NULL END
+  WHERE id = p_conversation_id AND type = 'user-to-security'
+  RETURNING * INTO v_conversation;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Security chat not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN v_conversation;
+END;
+$$;
+
+COMMENT ON FUNCTION public.set_security_conversation_status(UUID, TEXT) IS 'Sets a user-to-security conversation to open, waiting_on_student or closed. Security staff only.';
+
+-- One row per security chat for the inbox page, with its latest message
+CREATE OR REPLACE VIEW public.security_inbox
+WITH (security_invoker = true)
+AS
+SELECT
+  c.id AS conversation_id,
+  c.item_id,
+  i.title AS item_title,
+  c.creator_id,
+  creator.full_name AS creator_name,
+  c.status,
+  c.assigned_to,
+  assignee.full_name AS assignee_name,
+  c.assigned_at,
+  c.closed_at,
+  c.created_at,
+  c.updated_at,
+  last_message.body AS last_message_body,
+  last_message.sender_id AS last_message_sender_id,
+  last_message.created_at AS last_message_at
+FROM public.conversations c
+JOIN public.items i ON i.id = c.item_id
+LEFT JOIN public.profiles creator ON creator.id = c.creator_id
+LEFT JOIN public.profiles assignee ON assignee.id = c.assigned_to
+LEFT JOIN LATERAL (
+  SELECT m.body, m.sender_id, m.created_at
+  FROM public.messages m
+  WHERE m.conversation_id = c.id
+  ORDER BY m.created_at DESC
+  LIMIT 1
+) last_message ON TRUE
+WHERE c.type = 'user-to-security';
+
+COMMENT ON VIEW public.security_inbox IS 'user-to-security conversations with student, assignee and latest message. RLS on conversations limits rows to security staff and the student.';
+
+
+-- 30. Chat Read Receipts and Unread Counts
+-- Read state is kept per participant and conversation: a message is read by someone once their
+-- last_read_at is at or after its created_at. The chat page shows "Seen" under the last message
+-- the other side has read; /messages and the navbar show unread counts.
+-- Security staff only count security chats assigned to them or still unassigned (section 29).
+
+-- Mirrors the conversation and message policies in section 13
+CREATE OR REPLACE FUNCTION public.is_conversation_participant(p_conversation_id UUID, p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.conversations c
+    JOIN public.items i ON i.id = c.item_id
+    WHERE c.id = p_conversation_id
+      AND (
+        c.creator_id = p_user_id
+        OR (c.type = 'user-to-poster' AND i.user_id = p_user_id)
+        OR (c.type = 'user-to-security' AND public.is_security_staff(p_user_id))
+      )
+  );
+$$;
+
+COMMENT ON FUNCTION public.is_conversation_participant(UUID, UUID) IS 'True when the user may read and send messages in the conversation.';
+
+CREATE TABLE IF NOT EXISTS public.conversation_reads (
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  last_read_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  PRIMARY KEY (conversation_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversation_reads_user ON public.conversation_reads(user_id);
+CREATE INDEX IF NOT EXISTS idx_messages_conversation_created_at ON public.messages(conversation_id, created_at);
+
+COMMENT ON TABLE public.conversation_reads IS 'How far each participant has read a conversation. Written only by mark_conversation_read.';
+
+ALTER TABLE public.conversation_reads ENABLE ROW LEVEL SECURITY;
+
+-- Participants see each other's read state so they can show "Seen"
+DROP POLICY IF EXISTS "Participants can view conversation reads" ON public.conversation_reads;
+CREATE POLICY "Participants can view conversation reads"
+ON public.conversation_reads
+FOR SELECT
+TO authenticated
+USING (public.is_conversation_participant(conversation_id, auth.uid()));
+
+-- Marks the conversation read up to now for the caller. last_read_at never moves backwards.
+CREATE OR REPLACE FUNCTION public.mark_conversation_read(p_conversation_id UUID)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_read_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+  IF NOT public.is_conversation_participant(p_conversation_id, auth.uid()) THEN
+    RAISE EXCEPTION 'You are not part of this conversation' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.conversation_reads (conversation_id, user_id, last_read_at)
+  VALUES (p_conversation_id, auth.uid(), timezone('utc'::text, now()))
+  ON CONFLICT (conversation_id, user_id)
+  DO UPDATE SET last_read_at = GREATEST(public.conversation_reads.last_read_at, EXCLUDED.last_read_at)
+  RETURNING last_read_at INTO v_read_at;
+
+  RETURN v_read_at;
+END;
+$$;
+
+COMMENT ON FUNCTION public.mark_conversation_read(UUID) IS 'Records that the caller has read every message in the conversation so far. Returns the new last_read_at.';
+
+-- Unread messages (sent by someone else after the caller's last_read_at) per conversation
+CREATE OR REPLACE FUNCTION public.get_unread_message_counts()
+RETURNS TABLE (conversation_id UUID, unread_count BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT m.conversation_id, COUNT(*) AS unread_count
+  FROM public.messages m
+  JOIN public.conversations c ON c.id = m.conversation_id
+  LEFT JOIN public.conversation_reads r ON r.conversation_id = c.id AND r.user_id = auth.uid()
+  WHERE m.sender_id <> auth.uid()
+    AND m.created_at > COALESCE(r.last_read_at, '-infinity'::TIMESTAMP WITH TIME ZONE)
+    AND public.is_conversation_participant(c.id, auth.uid())
+    AND (
+      c.type <> 'user-to-security'
+      OR c.creator_id = auth.uid()
+      OR c.assigned_to IS NULL
+      OR c.assigned_to = auth.uid()
+    )
+  GROUP BY m.conversation_id;
+$$;
+
+COMMENT ON FUNCTION public.get_unread_message_counts() IS 'Unread message count per conversation for the caller. Conversations with nothing unread are omitted.';
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM pg_publication_tables pt
+        WHERE pt.pubname = 'supabase_realtime' AND pt.schemaname = 'public' AND pt.tablename = 'conversation_reads'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE public.conversation_reads;
+    END IF;
+  ELSE
+    RAISE NOTICE 'Publication supabase_realtime does not exist. Creating it for public.conversation_reads.';
+    CREATE PUBLICATION supabase_realtime FOR TABLE public.conversation_reads;
+  END IF;
+END $$;
+
+
+-- 31. Private Chat Attachments
+-- Chat attachments used to go to the public 'chat-images' bucket, so anyone with a link could
+-- fetch photos of IDs and documents. New attachments go to the private 'chat-attachments'
+-- bucket under <conversation id>/<file>. Only participants (is_conversation_participant,
+-- section 30) can upload or read them, and the app shows them through signed URLs that expire
+-- after 10 minutes (src/lib/chat/attachments.ts). The bucket also enforces type and size.
+-- Attachments sent before this change stay in 'chat-images', which uses the same
+-- <conversation id>/<file> layout. That bucket is made private and read-only below, so its old
+-- public links stop working and participants see those files through signed URLs as well.
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('chat-attachments', 'chat-attachments', FALSE, 5242880, ARRAY['image/jpeg', 'image/png', 'image/webp'])
+ON CONFLICT (id) DO UPDATE
+SET public = FALSE,
+    file_size_limit = EXCLUDED.file_size_limit,
+    allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+-- Parses the conversation id from the object path; paths that are not <uuid>/... get no access
+CREATE OR REPLACE FUNCTION public.can_access_chat_attachment(p_object_name TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_conversation_id UUID;
+BEGIN
+  BEGIN
+    v_conversation_id := (storage.foldername(p_object_name))[1]::UUID;
+  EXCEPTION WHEN invalid_text_representation THEN
+    RETURN FALSE;
+  END;
+  RETURN v_conversation_id IS NOT NULL AND public.is_conversation_participant(v_conversation_id, auth.uid());
+END;
+$$;
+
+COMMENT ON FUNCTION public.can_access_chat_attachment(TEXT) IS 'True when the caller takes part in the conversation whose id is the first folder of a chat attachment object path (chat-attachments or legacy chat-images).';
+
+DROP POLICY IF EXISTS "Participants can upload chat attachments" ON storage.objects;
+CREATE POLICY "Participants can upload chat attachments"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (bucket_id = 'chat-attachments' AND public.can_access_chat_attachment(name));
+
+-- Needed to create signed URLs as well as to download
+DROP POLICY IF EXISTS "Participants can view chat attachments" ON storage.objects;
+CREATE POLICY "Participants can view chat attachments"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (bucket_id = 'chat-attachments' AND public.can_access_chat_attachment(name));
+
+-- Uploaders can remove their own files, e.g. when sending the message fails
+DROP POLICY IF EXISTS "Uploaders can delete chat attachments" ON storage.objects;
+CREATE POLICY "Uploaders can delete chat attachments"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (bucket_id = 'chat-attachments' AND owner = auth.uid());
+
+-- Legacy bucket: no longer public, and whatever policies it was given in the dashboard are
+-- replaced by participant-only reads. Nothing is uploaded there any more.
+UPDATE storage.buckets SET public = FALSE WHERE id = 'chat-images';
+
+DO $$
+DECLARE
+  v_policy RECORD;
+BEGIN
+  FOR v_policy IN
+    SELECT policyname
+    FROM pg_policies
+    WHERE schemaname = 'storage'
+      AND tablename = 'objects'
+      AND policyname <> 'Participants can view legacy chat images'
+      AND (qual LIKE '%chat-images%' OR with_check LIKE '%chat-images%')
+  LOOP
+    EXECUTE format('DROP POLICY %I ON storage.objects', v_policy.policyname);
+  END LOOP;
+END $$;
+
+DROP POLICY IF EXISTS "Participants can view legacy chat images" ON storage.objects;
+CREATE POLICY "Participants can view legacy chat images"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (bucket_id = 'chat-images' AND public.can_access_chat_attachment(name));
+
+
+-- 32. Processed Item Photos
+-- Photos uploaded through /api/items/images are re-encoded on the server: a full-size WebP
+-- (the entry in image_urls), smaller WebP copies for feeds and thumbnails, and a blurhash
+-- placeholder. EXIF data, including GPS location, is removed. image_variants holds one entry
+-- per processed photo, matched to image_urls by url:
+--   { "url", "width", "height", "blurhash", "variants": [{ "width", "url" }, ...] }
+-- Photos uploaded before this have no entry and are shown as they are.
+
+ALTER TABLE public.items ADD COLUMN IF NOT EXISTS image_urls TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE public.items ADD COLUMN IF NOT EXISTS image_variants JSONB NOT NULL DEFAULT '[]'::JSONB;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'items_image_variants_is_array' AND conrelid = 'public.items'::regclass
+  ) THEN
+    ALTER TABLE public.items ADD CONSTRAINT items_image_variants_is_array CHECK (jsonb_typeof(image_variants) = 'array');
+  END IF;
+END $$;
+
+COMMENT ON COLUMN public.items.image_variants IS 'Processed sizes and blurhash for photos in image_urls (see /api/items/images). Older photos have no entry.';
+
+
+-- 33. Duplicate Report Detection and Merging
+-- The same item is often reported twice: a student reports a lost item again, or two finders
+-- report the same wallet. Before a new report is saved, find_duplicate_items looks for open
+-- reports with the same status and scores them:
+--   0.20 same reporter + 0.20 same category + 0.30 full-text similarity + 0.10 date proximity
+--   + 0.20 photo similarity (perceptual hashes stored in image_variants, section 32)
+-- Candidates scoring at least 0.55, or with a near-identical photo, are shown to the reporter.
+-- Moderators merge duplicates with merge_duplicate_items. Claims and conversations move to the
+-- surviving report. The duplicate is archived with merged_into_id set.
+
+ALTER TABLE public.items ADD COLUMN IF NOT EXISTS merged_into_id UUID REFERENCES public.items(id) ON DELETE SET NULL;
+ALTER TABLE public.items ADD COLUMN IF NOT EXISTS merged_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_items_merged_into_id ON public.items(merged_into_id) WHERE merged_into_id IS NOT NULL;
+
+COMMENT ON COLUMN public.items.merged_into_id IS 'Set when a moderator merged this duplicate report into another one (see merge_duplicate_items).';
+
+-- Hamming distance between two 64-bit perceptual hashes written as 16 hex digits
+CREATE OR REPLACE FUNCTION public.phash_distance(p_a TEXT, p_b TEXT)
+RETURNS INT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_a ~ '^[0-9a-f]{16}$' AND p_b ~ '^[0-9a-f]{16}$'
+      THEN bit_count(('x' || p_a)::BIT(64) # ('x' || p_b)::BIT(64))::INT
+  END;
+$$;
+
+COMMENT ON FUNCTION public.phash_distance(TEXT, TEXT) IS 'Number of differing bits between two perceptual hashes; NULL if either is malformed. 0-6 means the same photo.';
+
+-- Scores open reports against a report's fields. SECURITY INVOKER: the wrappers below decide
+-- who may ask and on whose behalf.
+CREATE OR REPLACE FUNCTION public.score_duplicate_items(
+  p_user_id UUID,
+  p_status public.item_status,
+  p_category_id INT,
+  p_text TEXT,
+  p_date_lost_or_found TIMESTAMP WITH TIME ZONE,
+  p_phashes TEXT[],
+  p_exclude_item_id UUID,
+  p_limit INT
+)
+RETURNS TABLE (
+  item_id UUID,
+  title TEXT,
+  status public.item_status,
+  image_url TEXT,
+  date_lost_or_found TIMESTAMP WITH TIME ZONE,
+  same_reporter BOOLEAN,
+  photo_distance INT,
+  score NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_query tsquery;
+BEGIN
+  IF p_status NOT IN ('lost', 'found') THEN
+    RETURN;
+  END IF;
+
+  -- OR together every lexeme, as the match engine does (section 16)
+  SELECT string_agg(quote_literal(lexeme), ' | ')::tsquery
+    INTO v_query
+    FROM unnest(tsvector_to_array(to_tsvector('english', COALESCE(p_text, '')))) AS lexeme;
+
+  RETURN QUERY
+  WITH candidates AS (
+    SELECT
+      c.*,
+      (
+        SELECT MIN(public.phash_distance(v.image->>'phash', h.hash))
+        FROM jsonb_array_elements(c.image_variants) AS v(image)
+        CROSS JOIN unnest(COALESCE(p_phashes, '{}'::TEXT[])) AS h(hash)
+      ) AS min_photo_distance
+    FROM public.items c
+    WHERE c.status = p_status
+      AND c.merged_into_id IS NULL
+      AND c.id IS DISTINCT FROM p_exclude_item_id
+      AND c.date_lost_or_found BETWEEN p_date_lost_or_found - INTERVAL '7 days' AND p_date_lost_or_found + INTERVAL '7 days'
+  ), scored AS (
+    SELECT
+      c.*,
+      (
+        0.20 * CASE WHEN c.user_id = p_user_id THEN 1 ELSE 0 END
+        + 0.20 * CASE WHEN c.category_id = p_category_id THEN 1 ELSE 0 END
+        + 0.30 * CASE
+            WHEN v_query IS NULL OR c.document IS NULL THEN 0
+            ELSE LEAST(1.0, ts_rank_cd(c.document, v_query, 32) * 4)
+          END
+        + 0.10 * GREATEST(0.0, 1.0 - abs(EXTRACT(EPOCH FROM (c.date_lost_or_found - p_date_lost_or_found))) / (7 * 86400.0))
+        + 0.20 * CASE WHEN c.min_photo_distance IS NULL THEN 0 ELSE GREATEST(0.0, 1.0 - c.min_photo_distance / 16.0) END
+      )::NUMERIC AS total
+    FROM candidates c
+  )
+  SELECT
+    s.id,
+    s.title,
+    s.status,
+    COALESCE(s.image_urls[1], s.image_url),
+    s.date_lost_or_found,
+    s.user_id = p_user_id,
+    s.min_photo_distance,
+    ROUND(s.total, 4)
+  FROM scored s
+  WHERE s.total >= 0.55 OR s.min_photo_distance <= 6
+  ORDER BY s.total DESC
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 3), 1), 10);
+END;
+$$;
+
+-- Called by the report form before a new report is inserted
+CREATE OR REPLACE FUNCTION public.find_duplicate_items(
+  p_status public.item_status,
+  p_category_id INT,
+  p_title TEXT,
+  p_description TEXT,
+  p_date_lost_or_found TIMESTAMP WITH TIME ZONE,
+  p_phashes TEXT[] DEFAULT '{}'
+)
+RETURNS TABLE (
+  item_id UUID,
+  title TEXT,
+  status public.item_status,
+  image_url TEXT,
+  date_lost_or_found TIMESTAMP WITH TIME ZONE,
+  same_reporter BOOLEAN,
+  photo_distance INT,
+  score NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT * FROM public.score_duplicate_items(
+    auth.uid(), p_status, p_category_id, concat_ws(' ', p_title, p_description),
+    p_date_lost_or_found, p_phashes, NULL, 3
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.find_duplicate_items(public.item_status, INT, TEXT, TEXT, TIMESTAMP WITH TIME ZONE, TEXT[]) IS 'Likely duplicates of a report that is about to be submitted by the caller. p_phashes are the perceptual hashes of its processed photos.';
+
+-- Duplicates of an existing report, for the moderator merge action
+CREATE OR REPLACE FUNCTION public.find_item_duplicates(p_item_id UUID)
+RETURNS TABLE (
+  item_id UUID,
+  title TEXT,
+  status public.item_status,
+  image_url TEXT,
+  date_lost_or_found TIMESTAMP WITH TIME ZONE,
+  same_reporter BOOLEAN,
+  photo_distance INT,
+  score NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item public.items%ROWTYPE;
+BEGIN
+  IF NOT public.is_moderator(auth.uid()) THEN
+    RAISE EXCEPTION 'Only moderators can review duplicates' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_item FROM public.items WHERE id = p_item_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN QUERY
+  SELECT * FROM public.score_duplicate_items(
+    v_item.user_id, v_item.status, v_item.category_id, concat_ws(' ', v_item.title, v_item.description),
+    v_item.date_lost_or_found,
+    ARRAY(SELECT v.image->>'phash' FROM jsonb_array_elements(v_item.image_variants) AS v(image) WHERE v.image ? 'phash'),
+    v_item.id, 5
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.find_item_duplicates(UUID) IS 'Likely duplicates of an existing report. Moderators only.';
+
+-- Folds p_duplicate_id into p_survivor_id. Claims move over. Conversations move unless the same
+-- person already has one about the survivor; those stay on the archived duplicate and remain
+-- readable from /messages. Photos are appended to the survivor.
+CREATE OR REPLACE FUNCTION public.merge_duplicate_items(
+  p_duplicate_id UUID,
+  p_survivor_id UUID
+)
+RETURNS public.items
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_duplicate public.items%ROWTYPE;
+  v_survivor public.items%ROWTYPE;
+  v_conversation public.conversations%ROWTYPE;
+BEGIN
+  IF NOT public.is_moderator(auth.uid()) THEN
+    RAISE EXCEPTION 'Only moderators can merge duplicate reports' USING ERRCODE = '42501';
+  END IF;
+  IF p_duplicate_id = p_survivor_id THEN
+    RAISE EXCEPTION 'A report cannot be merged into itself' USING ERRCODE = '22023';
+  END IF;
+
+  -- Lock both rows in a fixed order so concurrent merges cannot deadlock
+  PERFORM 1 FROM public.items WHERE id IN (p_duplicate_id, p_survivor_id) ORDER BY id FOR UPDATE;
+  SELECT * INTO v_duplicate FROM public.items WHERE id = p_duplicate_id;
+  SELECT * INTO v_survivor FROM public.items WHERE id = p_survivor_id;
+  IF v_duplicate.id IS NULL OR v_survivor.id IS NULL THEN
+    RAISE EXCEPTION 'Item not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF v_duplicate.merged_into_id IS NOT NULL OR v_survivor.merged_into_id IS NOT NULL THEN
+    RAISE EXCEPTION 'One of these reports has already been merged' USING ERRCODE = '55000';
+  END IF;
+  IF v_duplicate.status NOT IN ('lost', 'found') OR v_survivor.status = 'archived' THEN
+    RAISE EXCEPTION 'Only open reports can be merged' USING ERRCODE = '55000';
+  END IF;
+  IF v_duplicate.status <> v_survivor.status THEN
+    RAISE EXCEPTION 'A lost report and a found report are a match, not duplicates' USING ERRCODE = '22023';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.item_custody WHERE item_id = p_duplicate_id) THEN
+    RAISE EXCEPTION 'Release the duplicate from custody before merging it' USING ERRCODE = '55000';
+  END IF;
+
+  -- Pending claimers should know where their claim went
+  INSERT INTO public.notifications (user_id, item_id, type, title, message)
+  SELECT DISTINCT
+    c.claimer_id,
+    p_survivor_id,
+    'claim_update'::public.notification_type,
+    'Your claim moved to another report',
+    left(format('"%s" was a duplicate report. Your claim now belongs to "%s".', v_duplicate.title, v_survivor.title), 499)
+  FROM public.claims c
+  WHERE c.item_id = p_duplicate_id AND c.status = 'pending';
+
+  UPDATE public.claims SET item_id = p_survivor_id WHERE item_id = p_duplicate_id;
+
+  FOR v_conversation IN SELECT * FROM public.conversations WHERE item_id = p_duplicate_id LOOP
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM public.conversations
+      WHERE item_id = p_survivor_id AND creator_id = v_conversation.creator_id AND type = v_conversation.type
+    );
+    UPDATE public.conversations SET item_id = p_survivor_id WHERE id = v_conversation.id;
+  END LOOP;
+
+  -- Match candidates are recomputed for the survivor's own fields, not inherited
+  DELETE FROM public.item_matches WHERE lost_item_id = p_duplicate_id OR found_item_id = p_duplicate_id;
+
+  UPDATE public.items
+  SET image_urls = COALESCE(image_urls, '{}') || ARRAY(
+        SELECT url FROM unnest(COALESCE(v_duplicate.image_urls, '{}')) AS url
+        WHERE NOT url = ANY (COALESCE(v_survivor.image_urls, '{}'))
+      ),
+      image_variants = image_variants || COALESCE((
+        SELECT jsonb_agg(v.image)
+        FROM jsonb_array_elements(v_duplicate.image_variants) AS v(image)
+        WHERE NOT (v.image->>'url') = ANY (COALESCE(v_survivor.image_urls, '{}'))
+      ), '[]'::JSONB)
+  WHERE id = p_survivor_id
+  RETURNING * INTO v_survivor;
+
+  UPDATE public.items
+  SET status = 'archived',
+      merged_into_id = p_survivor_id,
+      merged_at = timezone('utc'::text, now())
+  WHERE id = p_duplicate_id;
+
+  IF v_duplicate.user_id IS NOT NULL AND v_duplicate.user_id IS DISTINCT FROM auth.uid() THEN
+    INSERT INTO public.notifications (user_id, item_id, type, title, message)
+    VALUES (
+      v_duplicate.user_id,
+      p_survivor_id,
+      'general_announcement',
+      'Your report was merged',
+      left(format('Your report "%s" was a duplicate and has been merged into "%s". Claims and chats carry over.', v_duplicate.title, v_survivor.title), 499)
+    );
+  END IF;
+
+  RETURN v_survivor;
+END;
+$$;
+
+COMMENT ON FUNCTION public.merge_duplicate_items(UUID, UUID) IS 'Moves claims and conversations from a duplicate report onto the survivor and archives the duplicate. Moderators only.';
+
+-- "Users can update their own reported items" covers every column, so an owner could clear
+-- merged_into_id and reopen an archived duplicate. Only moderators (through
+-- merge_duplicate_items) may set the merge fields; nested changes such as the ON DELETE SET NULL
+-- on merged_into_id and requests without a signed-in user are allowed.
+CREATE OR REPLACE FUNCTION public.protect_item_merge_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF pg_trigger_depth() > 1 OR auth.uid() IS NULL OR public.is_moderator(auth.uid()) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.merged_into_id IS DISTINCT FROM OLD.merged_into_id
+     OR NEW.merged_at IS DISTINCT FROM OLD.merged_at THEN
+    RAISE EXCEPTION 'Only moderators can merge or unmerge reports' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_items_merge_fields ON public.items;
+CREATE TRIGGER protect_items_merge_fields
+BEFORE UPDATE OF merged_into_id, merged_at ON public.items
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_item_merge_fields();
+
+
+-- 34. Saved Searches and New-Item Alerts
+-- A saved search stores the same filters as the home page feed (see src/lib/search/):
+-- text, category names, statuses ('secured' = turned in to security), a date range on
+-- date_reported, location text and an optional map radius. When a new lost or found item
+-- is inserted, every active saved search it satisfies produces one 'saved_search_alert'
+-- notification for its owner. Owners with several matching searches get a single alert.
+-- Alerts always appear in the app; email_alerts lets the delivery worker (section 24)
+-- email them as well. Reporters are never alerted about their own items.
+-- Note: new enum values cannot be used in the same transaction that adds them.
+
+ALTER TYPE public.notification_type ADD VALUE IF NOT EXISTS 'saved_search_alert';
+
+CREATE TABLE IF NOT EXISTS public.saved_searches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 80),
+  query TEXT CHECK (char_length(query) <= 200),
+  categories TEXT[] DEFAULT '{}' NOT NULL,
+  statuses TEXT[] DEFAULT '{}' NOT NULL CHECK (statuses <@ ARRAY['lost', 'found', 'claimed', 'archived', 'secured']),
+  locations TEXT[] DEFAULT '{}' NOT NULL,
+  date_from DATE,
+  date_to DATE,
+  near_lat DOUBLE PRECISION CHECK (near_lat BETWEEN -90 AND 90),
+  near_lng DOUBLE PRECISION CHECK (near_lng BETWEEN -180 AND 180),
+  radius_meters INTEGER CHECK (radius_meters BETWEEN 1 AND 2000),
+  email_alerts BOOLEAN DEFAULT FALSE NOT NULL,
+  is_active BOOLEAN DEFAULT TRUE NOT NULL,
+  last_alerted_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  CONSTRAINT saved_searches_area_complete CHECK (
+    (near_lat IS NULL AND near_lng IS NULL AND radius_meters IS NULL)
+    OR (near_lat IS NOT NULL AND near_lng IS NOT NULL AND radius_meters IS NOT NULL)
+  ),
+  CONSTRAINT saved_searches_date_order CHECK (date_from IS NULL OR date_to IS NULL OR date_from <= date_to)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user_id ON public.saved_searches(user_id);
+CREATE INDEX IF NOT EXISTS idx_saved_searches_active ON public.saved_searches(user_id) WHERE is_active;
+
+COMMENT ON TABLE public.saved_searches IS 'Feed filters a user saved to be alerted about newly reported items that match them.';
+COMMENT ON COLUMN public.saved_searches.email_alerts IS 'Also email alerts (still subject to profiles.allow_email_notifications).';
+
+DROP TRIGGER IF EXISTS set_saved_searches_timestamp ON public.saved_searches;
+CREATE TRIGGER set_saved_searches_timestamp
+BEFORE UPDATE ON public.saved_searches
+FOR EACH ROW
+EXECUTE FUNCTION public.trigger_set_timestamp();
+
+-- Each new item is checked against every active search, so keep the number per user bounded
+CREATE OR REPLACE FUNCTION public.enforce_saved_search_limit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF (SELECT count(*) FROM public.saved_searches WHERE user_id = NEW.user_id) >= 20 THEN
+    RAISE EXCEPTION 'You can save at most 20 searches' USING ERRCODE = '55000';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_saved_search_limit ON public.saved_searches;
+CREATE TRIGGER enforce_saved_search_limit
+BEFORE INSERT ON public.saved_searches
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_saved_search_limit();
+
+ALTER TABLE public.saved_searches ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own saved searches" ON public.saved_searches;
+CREATE POLICY "Users can manage their own saved searches"
+ON public.saved_searches
+FOR ALL
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+-- True when the item satisfies every filter set on the saved search. Mirrors applyFilters
+-- in src/lib/search/filterItems.ts.
+CREATE OR REPLACE FUNCTION public.saved_search_matches_item(
+  p_search public.saved_searches,
+  p_item public.items
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF NULLIF(trim(p_search.query), '') IS NOT NULL
+     AND NOT COALESCE(p_item.document @@ websearch_to_tsquery('english', p_search.query), FALSE) THEN
+    RETURN FALSE;
+  END IF;
+
+  IF cardinality(p_search.categories) > 0 AND NOT EXISTS (
+    SELECT 1 FROM public.categories c
+    WHERE c.id = p_item.category_id AND c.name = ANY (p_search.categories)
+  ) THEN
+    RETURN FALSE;
+  END IF;
+
+  IF cardinality(p_search.statuses) > 0
+     AND NOT (p_item.status::TEXT = ANY (p_search.statuses))
+     AND NOT ('secured' = ANY (p_search.statuses) AND COALESCE(p_item.turn_in_to_security, FALSE)) THEN
+    RETURN FALSE;
+  END IF;
+
+  IF p_search.date_from IS NOT NULL AND p_item.date_reported < p_search.date_from THEN
+    RETURN FALSE;
+  END IF;
+  IF p_search.date_to IS NOT NULL AND p_item.date_reported >= p_search.date_to + 1 THEN
+    RETURN FALSE;
+  END IF;
+
+  IF cardinality(p_search.locations) > 0 AND NOT EXISTS (
+    SELECT 1 FROM unnest(p_search.locations) AS l(location)
+    WHERE p_item.location_description ILIKE '%' || replace(replace(replace(l.location, '\', '\\'), '%', '\%'), '_', '\_') || '%'
+  ) THEN
+    RETURN FALSE;
+  END IF;
+
+  IF p_search.radius_meters IS NOT NULL AND (
+    p_item.lat IS NULL OR p_item.lng IS NULL
+    OR public.distance_meters(p_search.near_lat, p_search.near_lng, p_item.lat, p_item.lng) > p_search.radius_meters
+  ) THEN
+    RETURN FALSE;
+  END IF;
+
+  RETURN TRUE;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_saved_search_matches()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_search public.saved_searches%ROWTYPE;
+BEGIN
+  -- Alerts must never block a report from being saved.
+  BEGIN
+    FOR v_search IN
+      SELECT DISTINCT ON (s.user_id) s.*
+      FROM public.saved_searches s
+      WHERE s.is_active
+        AND s.user_id IS DISTINCT FROM NEW.user_id
+        AND public.saved_search_matches_item(s, NEW)
+      ORDER BY s.user_id, s.email_alerts DESC, s.created_at
+    LOOP
+      INSERT INTO public.notifications (user_id, item_id, type, title, message, via)
+      VALUES (
+        v_search.user_id,
+        NEW.id,
+        'saved_search_alert',
+        'New item matches your saved search',
+        left(format('A new %s item "%s" matches your saved search "%s".', NEW.status, NEW.title, v_search.name), 499),
+        CASE WHEN v_search.email_alerts THEN NULL ELSE 'in_app' END
+      );
+
+      UPDATE public.saved_searches
+      SET last_alerted_at = timezone('utc'::text, now())
+      WHERE id = v_search.id;
+    END LOOP;
+  EXCEPTION WHEN OTHERS THEN
+    RAISE WARNING 'Saved search alerts failed for item %: % - %', NEW.id, SQLSTATE, SQLERRM;
+  END;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_saved_searches_on_insert ON public.items;
+CREATE TRIGGER notify_saved_searches_on_insert
+AFTER INSERT ON public.items
+FOR EACH ROW
+WHEN (NEW.status IN ('lost', 'found'))
+EXECUTE FUNCTION public.notify_saved_search_matches();
+
+
+-- 35. Item Import and Export
+-- The security office keeps a spreadsheet logbook next to the app. export_items returns the
+-- admin console's filtered items table flattened for CSV/XLSX, with the poster, claim counts
+-- and current custody location. import_items inserts a batch of validated logbook rows in one
+-- transaction: either every row is saved or none is. Imported items are reported by the
+-- staff member who ran the import. Both are open to moderators and security staff.
+
+CREATE OR REPLACE FUNCTION public.export_items(
+  p_status public.item_status DEFAULT NULL,
+  p_category TEXT DEFAULT NULL,
+  p_user_id UUID DEFAULT NULL,
+  p_search TEXT DEFAULT NULL,
+  p_created_from DATE DEFAULT NULL,
+  p_created_to DATE DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  category TEXT,
+  status public.item_status,
+  location_description TEXT,
+  lat DOUBLE PRECISION,
+  lng DOUBLE PRECISION,
+  date_lost_or_found TIMESTAMP WITH TIME ZONE,
+  date_reported TIMESTAMP WITH TIME ZONE,
+  is_urgent BOOLEAN,
+  turn_in_to_security BOOLEAN,
+  poster_id UUID,
+  poster_name TEXT,
+  claims_total BIGINT,
+  claims_pending BIGINT,
+  claims_approved BIGINT,
+  custody_location TEXT,
+  custody_bin TEXT,
+  custody_condition TEXT,
+  in_custody_since TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (public.is_moderator(auth.uid()) OR public.is_security_staff(auth.uid())) THEN
+    RAISE EXCEPTION 'Only staff can export items' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    i.id,
+    i.title,
+    i.description,
+    c.name,
+    i.status,
+    i.location_description,
+    i.lat,
+    i.lng,
+    i.date_lost_or_found,
+    i.date_reported,
+    i.is_urgent,
+    i.turn_in_to_security,
+    i.user_id,
+    p.full_name,
+    COALESCE(cl.total, 0),
+    COALESCE(cl.pending, 0),
+    COALESCE(cl.approved, 0),
+    sl.name,
+    sb.label,
+    ic.condition,
+    ic.in_custody_since,
+    i.created_at
+  FROM public.items i
+  LEFT JOIN public.categories c ON c.id = i.category_id
+  LEFT JOIN public.profiles p ON p.id = i.user_id
+  LEFT JOIN LATERAL (
+    SELECT
+      count(*) AS total,
+      count(*) FILTER (WHERE status = 'pending') AS pending,
+      count(*) FILTER (WHERE status = 'approved') AS approved
+    FROM public.claims
+    WHERE item_id = i.id
+  ) cl ON TRUE
+  LEFT JOIN public.item_custody ic ON ic.item_id = i.id
+  LEFT JOIN public.storage_locations sl ON sl.id = ic.location_id
+  LEFT JOIN public.storage_bins sb ON sb.id = ic.bin_id
+  WHERE (p_status IS NULL OR i.status = p_status)
+    AND (p_category IS NULL OR c.name = p_category)
+    AND (p_user_id IS NULL OR i.user_id = p_user_id)
+    AND (NULLIF(trim(p_search), '') IS NULL OR i.title ILIKE '%' || replace(replace(replace(trim(p_search), '\', '\\'), '%', '\%'), '_', '\_') || '%')
+    AND (p_created_from IS NULL OR i.created_at >= p_created_from)
+    AND (p_created_to IS NULL OR i.created_at < p_created_to + 1)
+  ORDER BY i.created_at DESC
+  LIMIT 10000;
+END;
+$$;
+
+COMMENT ON FUNCTION public.export_items(public.item_status, TEXT, UUID, TEXT, DATE, DATE) IS 'Filtered items with poster, claim counts and custody location, for CSV/XLSX export. Staff only.';
+
+-- p_rows is a JSON array of objects with the keys below (category is a category name). "row" is
+-- the spreadsheet row number, echoed in error messages so staff can find the bad line.
+CREATE OR REPLACE FUNCTION public.import_items(p_rows JSONB)
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row JSONB;
+  v_row_label TEXT;
+  v_category_id INT;
+  v_count INT := 0;
+BEGIN
+  IF NOT (public.is_moderator(auth.uid()) OR public.is_security_staff(auth.uid())) THEN
+    RAISE EXCEPTION 'Only staff can import items' USING ERRCODE = '42501';
+  END IF;
+  IF jsonb_typeof(p_rows) IS DISTINCT FROM 'array' OR jsonb_array_length(p_rows) = 0 THEN
+    RAISE EXCEPTION 'Nothing to import' USING ERRCODE = '22023';
+  END IF;
+  IF jsonb_array_length(p_rows) > 500 THEN
+    RAISE EXCEPTION 'At most 500 rows can be imported at once' USING ERRCODE = '22023';
+  END IF;
+
+  FOR v_row IN SELECT * FROM jsonb_array_elements(p_rows) LOOP
+    v_row_label := COALESCE('Row ' || (v_row->>'row'), 'Row ' || (v_count + 1));
+
+    SELECT id INTO v_category_id FROM public.categories WHERE name = v_row->>'category';
+    IF v_category_id IS NULL THEN
+      RAISE EXCEPTION '%: unknown category "%"', v_row_label, v_row->>'category' USING ERRCODE = '22023';
+    END IF;
+
+    BEGIN
+      INSERT INTO public.items (
+        user_id, title, description, category_id, status, location_description, lat, lng,
+        date_lost_or_found, date_reported, is_urgent, turn_in_to_security
+      )
+      VALUES (
+        auth.uid(),
+        v_row->>'title',
+        v_row->>'description',
+        v_category_id,
+        (v_row->>'status')::public.item_status,
+        v_row->>'location_description',
+        (v_row->>'lat')::DOUBLE PRECISION,
+        (v_row->>'lng')::DOUBLE PRECISION,
+        (v_row->>'date_lost_or_found')::TIMESTAMP WITH TIME ZONE,
+        COALESCE((v_row->>'date_reported')::TIMESTAMP WITH TIME ZONE, timezone('utc'::text, now())),
+        COALESCE((v_row->>'is_urgent')::BOOLEAN, FALSE),
+        COALESCE((v_row->>'turn_in_to_security')::BOOLEAN, FALSE)
+      );
+    EXCEPTION
+      WHEN check_violation OR not_null_violation OR invalid_text_representation
+        OR invalid_datetime_format OR datetime_field_overflow OR string_data_right_truncation THEN
+        RAISE EXCEPTION '%: %', v_row_label, SQLERRM USING ERRCODE = '22023';
+    END;
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+COMMENT ON FUNCTION public.import_items(JSONB) IS 'Inserts a batch of logbook rows in one transaction, reported by the caller. Staff only.';
+
+-- 36. Dashboard Analytics
+-- The admin dashboard used to download raw items, claims and profiles and bucket them by day
+-- in the browser, which only worked for a fixed 7 or 30 day window. These functions aggregate
+-- in the database for any date range. analytics_time_series buckets activity by day, week or
+-- month; analytics_summary and analytics_category_metrics add recovery rate (share of reports
+-- now claimed), median hours from report to the first approved claim, and the claim approval
+-- ratio (approved out of decided). Items count by created_at, claims by date_claimed, and
+-- merged duplicates are left out. Buckets are UTC dates. Moderators and admins only.
+
+CREATE OR REPLACE FUNCTION public.analytics_time_series(
+  p_from DATE,
+  p_to DATE,
+  p_granularity TEXT DEFAULT 'day'
+)
+RETURNS TABLE (
+  bucket DATE,
+  lost_items BIGINT,
+  found_items BIGINT,
+  recovered_items BIGINT,
+  claims_approved BIGINT,
+  claims_rejected BIGINT,
+  claims_pending BIGINT,
+  new_users BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_moderator(auth.uid()) THEN
+    RAISE EXCEPTION 'Only moderators can view analytics' USING ERRCODE = '42501';
+  END IF;
+  IF p_granularity IS NULL OR p_granularity NOT IN ('day', 'week', 'month') THEN
+    RAISE EXCEPTION 'Granularity must be day, week or month' USING ERRCODE = '22023';
+  END IF;
+  IF p_from IS NULL OR p_to IS NULL OR p_from > p_to THEN
+    RAISE EXCEPTION 'The start date must be on or before the end date' USING ERRCODE = '22023';
+  END IF;
+  IF p_granularity = 'day' AND p_to - p_from > 731 THEN
+    RAISE EXCEPTION 'Daily figures cover at most two years; pick weekly or monthly' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  WITH periods AS (
+    SELECT gs::DATE AS period
+    FROM generate_series(
+      date_trunc(p_granularity, p_from::TIMESTAMP),
+      p_to::TIMESTAMP,
+      ('1 ' || p_granularity)::INTERVAL
+    ) gs
+  ),
+  item_counts AS (
+    SELECT
+      date_trunc(p_granularity, i.created_at AT TIME ZONE 'utc')::DATE AS period,
+      count(*) FILTER (WHERE i.status = 'lost') AS lost_count,
+      count(*) FILTER (WHERE i.status = 'found') AS found_count,
+      count(*) FILTER (WHERE i.status = 'claimed') AS recovered
+    FROM public.items i
+    WHERE i.created_at >= p_from
+      AND i.created_at < p_to + 1
+      AND i.merged_into_id IS NULL
+    GROUP BY 1
+  ),
+  claim_counts AS (
+    SELECT
+      date_trunc(p_granularity, cl.date_claimed AT TIME ZONE 'utc')::DATE AS period,
+      count(*) FILTER (WHERE cl.status = 'approved') AS approved,
+      count(*) FILTER (WHERE cl.status = 'rejected') AS rejected,
+      count(*) FILTER (WHERE cl.status = 'pending') AS pending
+    FROM public.claims cl
+    WHERE cl.date_claimed >= p_from
+      AND cl.date_claimed < p_to + 1
+    GROUP BY 1
+  ),
+  user_counts AS (
+    SELECT
+      date_trunc(p_granularity, p.created_at AT TIME ZONE 'utc')::DATE AS period,
+      count(*) AS joined
+    FROM public.profiles p
+    WHERE p.created_at >= p_from
+      AND p.created_at < p_to + 1
+    GROUP BY 1
+  )
+  SELECT
+    pe.period,
+    COALESCE(ic.lost_count, 0),
+    COALESCE(ic.found_count, 0),
+    COALESCE(ic.recovered, 0),
+    COALESCE(cc.approved, 0),
+    COALESCE(cc.rejected, 0),
+    COALESCE(cc.pending, 0),
+    COALESCE(uc.joined, 0)
+  FROM periods pe
+  LEFT JOIN item_counts ic ON ic.period = pe.period
+  LEFT JOIN claim_counts cc ON cc.period = pe.period
+  LEFT JOIN user_counts uc ON uc.period = pe.period
+  ORDER BY pe.period;
+END;
+$$;
+
+COMMENT ON FUNCTION public.analytics_time_series(DATE, DATE, TEXT) IS 'Items, claims and sign-ups per day, week or month between two dates (inclusive). Moderators only.';
+
+CREATE OR REPLACE FUNCTION public.analytics_summary(p_from DATE, p_to DATE)
+RETURNS TABLE (
+  items_reported BIGINT,
+  lost_items BIGINT,
+  found_items BIGINT,
+  items_recovered BIGINT,
+  recovery_rate NUMERIC,
+  median_hours_to_claim NUMERIC,
+  claims_submitted BIGINT,
+  claims_pending BIGINT,
+  claims_approved BIGINT,
+  claims_rejected BIGINT,
+  approval_ratio NUMERIC,
+  new_users BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_moderator(auth.uid()) THEN
+    RAISE EXCEPTION 'Only moderators can view analytics' USING ERRCODE = '42501';
+  END IF;
+  IF p_from IS NULL OR p_to IS NULL OR p_from > p_to THEN
+    RAISE EXCEPTION 'The start date must be on or before the end date' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  WITH scoped_items AS (
+    SELECT
+      i.status,
+      -- Claims decided before date_adjudicated existed fall back to when they were filed
+      extract(epoch FROM (
+        SELECT min(COALESCE(cl.date_adjudicated, cl.date_claimed))
+        FROM public.claims cl
+        WHERE cl.item_id = i.id AND cl.status = 'approved'
+      ) - i.created_at) / 3600 AS hours_to_claim
+    FROM public.items i
+    WHERE i.created_at >= p_from
+      AND i.created_at < p_to + 1
+      AND i.merged_into_id IS NULL
+  ),
+  item_stats AS (
+    SELECT
+      count(*) AS reported,
+      count(*) FILTER (WHERE si.status = 'lost') AS lost_count,
+      count(*) FILTER (WHERE si.status = 'found') AS found_count,
+      count(*) FILTER (WHERE si.status = 'claimed') AS recovered,
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY si.hours_to_claim) AS median_hours
+    FROM scoped_items si
+  ),
+  claim_stats AS (
+    SELECT
+      count(*) AS submitted,
+      count(*) FILTER (WHERE cl.status = 'pending') AS pending,
+      count(*) FILTER (WHERE cl.status = 'approved') AS approved,
+      count(*) FILTER (WHERE cl.status = 'rejected') AS rejected
+    FROM public.claims cl
+    WHERE cl.date_claimed >= p_from
+      AND cl.date_claimed < p_to + 1
+  )
+  SELECT
+    its.reported,
+    its.lost_count,
+    its.found_count,
+    its.recovered,
+    round(its.recovered::NUMERIC / NULLIF(its.reported, 0), 4),
+    round(its.median_hours::NUMERIC, 1),
+    cs.submitted,
+    cs.pending,
+    cs.approved,
+    cs.rejected,
+    round(cs.approved::NUMERIC / NULLIF(cs.approved + cs.rejected, 0), 4),
+    (SELECT count(*) FROM public.profiles p WHERE p.created_at >= p_from AND p.created_at < p_to + 1)
+  FROM item_stats its
+  CROSS JOIN claim_stats cs;
+END;
+$$;
+
+COMMENT ON FUNCTION public.analytics_summary(DATE, DATE) IS 'Headline figures for a date range: recovery rate, median hours to claim, approval ratio and sign-ups. Moderators only.';
+
+CREATE OR REPLACE FUNCTION public.analytics_category_metrics(p_from DATE, p_to DATE)
+RETURNS TABLE (
+  category TEXT,
+  items_reported BIGINT,
+  items_recovered BIGINT,
+  recovery_rate NUMERIC,
+  median_hours_to_claim NUMERIC,
+  claims_approved BIGINT,
+  claims_rejected BIGINT,
+  approval_ratio NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_moderator(auth.uid()) THEN
+    RAISE EXCEPTION 'Only moderators can view analytics' USING ERRCODE = '42501';
+  END IF;
+  IF p_from IS NULL OR p_to IS NULL OR p_from > p_to THEN
+    RAISE EXCEPTION 'The start date must be on or before the end date' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  WITH item_stats AS (
+    SELECT
+      COALESCE(c.name, 'other') AS category_name,
+      count(*) AS reported,
+      count(*) FILTER (WHERE i.status = 'claimed') AS recovered,
+      percentile_cont(0.5) WITHIN GROUP (
+        ORDER BY extract(epoch FROM (
+          SELECT min(COALESCE(cl.date_adjudicated, cl.date_claimed))
+          FROM public.claims cl
+          WHERE cl.item_id = i.id AND cl.status = 'approved'
+        ) - i.created_at) / 3600
+      ) AS median_hours
+    FROM public.items i
+    LEFT JOIN public.categories c ON c.id = i.category_id
+    WHERE i.created_at >= p_from
+      AND i.created_at < p_to + 1
+      AND i.merged_into_id IS NULL
+    GROUP BY 1
+  ),
+  claim_stats AS (
+    SELECT
+      COALESCE(c.name, 'other') AS category_name,
+      count(*) FILTER (WHERE cl.status = 'approved') AS approved,
+      count(*) FILTER (WHERE cl.status = 'rejected') AS rejected
+    FROM public.claims cl
+    JOIN public.items i ON i.id = cl.item_id
+    LEFT JOIN public.categories c ON c.id = i.category_id
+    WHERE cl.date_claimed >= p_from
+      AND cl.date_claimed < p_to + 1
+    GROUP BY 1
+  )
+  SELECT
+    COALESCE(its.category_name, cs.category_name),
+    COALESCE(its.reported, 0),
+    COALESCE(its.recovered, 0),
+    round(its.recovered::NUMERIC / NULLIF(its.reported, 0), 4),
+    round(its.median_hours::NUMERIC, 1),
+    COALESCE(cs.approved, 0),
+    COALESCE(cs.rejected, 0),
+    round(cs.approved::NUMERIC / NULLIF(cs.approved + cs.rejected, 0), 4)
+  FROM item_stats its
+  FULL JOIN claim_stats cs ON cs.category_name = its.category_name
+  ORDER BY COALESCE(its.reported, 0) DESC, 1;
+END;
+$$;
+
+COMMENT ON FUNCTION public.analytics_category_metrics(DATE, DATE) IS 'Per-category items, recovery rate, median hours to claim and claim approval ratio for a date range. Moderators only.';
+
+-- 37. Admin Item Search and Bulk Actions
+-- The "Manage All Items" table used to download every item and filter, count and page them
+-- in the browser. admin_search_items does the filtering server-side with the same rules as
+-- export_items and returns one page plus the total match count. bulk_update_items applies
+-- one action to many items. Each item is changed by its own statement inside its own
+-- subtransaction, so the audit triggers record one entry per item and a failing item is
+-- reported in the result without undoing the others. Moderators and admins only.
+
+CREATE OR REPLACE FUNCTION public.admin_search_items(
+  p_status public.item_status DEFAULT NULL,
+  p_category TEXT DEFAULT NULL,
+  p_user_id UUID DEFAULT NULL,
+  p_search TEXT DEFAULT NULL,
+  p_created_from DATE DEFAULT NULL,
+  p_created_to DATE DEFAULT NULL,
+  p_limit INT DEFAULT 25,
+  p_offset INT DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  title TEXT,
+  description TEXT,
+  category_id INT,
+  category TEXT,
+  status public.item_status,
+  poster_name TEXT,
+  is_urgent BOOLEAN,
+  turn_in_to_security BOOLEAN,
+  merged_into_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_moderator(auth.uid()) THEN
+    RAISE EXCEPTION 'Only moderators can search items here' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    i.id,
+    i.user_id,
+    i.title,
+    i.description,
+    i.category_id,
+    c.name,
+    i.status,
+    p.full_name,
+    i.is_urgent,
+    i.turn_in_to_security,
+    i.merged_into_id,
+    i.created_at,
+    count(*) OVER ()
+  FROM public.items i
+  LEFT JOIN public.categories c ON c.id = i.category_id
+  LEFT JOIN public.profiles p ON p.id = i.user_id
+  WHERE (p_status IS NULL OR i.status = p_status)
+    AND (p_category IS NULL OR c.name = p_category)
+    AND (p_user_id IS NULL OR i.user_id = p_user_id)
+    AND (NULLIF(trim(p_search), '') IS NULL OR i.title ILIKE '%' || replace(replace(replace(trim(p_search), '\', '\\'), '%', '\%'), '_', '\_') || '%')
+    AND (p_created_from IS NULL OR i.created_at >= p_created_from)
+    AND (p_created_to IS NULL OR i.created_at < p_created_to + 1)
+  ORDER BY i.created_at DESC, i.id
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 25), 1), 100)
+  OFFSET GREATEST(COALESCE(p_offset, 0), 0);
+END;
+$$;
+
+COMMENT ON FUNCTION public.admin_search_items(public.item_status, TEXT, UUID, TEXT, DATE, DATE, INT, INT) IS 'One page of the admin items table, filtered like export_items, with the total match count on every row. Moderators only.';
+
+-- p_action is one of:
+--   set_status              p_value is an item_status
+--   archive                 same as set_status 'archived'
+--   set_turn_in_to_security p_value is 'true' or 'false'
+--   set_category            p_value is a category name
+--   delete                  p_value is ignored
+CREATE OR REPLACE FUNCTION public.bulk_update_items(
+  p_item_ids UUID[],
+  p_action TEXT,
+  p_value TEXT DEFAULT NULL
+)
+RETURNS TABLE (item_id UUID, succeeded BOOLEAN, message TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+  v_status public.item_status;
+  v_turn_in BOOLEAN;
+  v_category_id INT;
+BEGIN
+  IF NOT public.is_moderator(auth.uid()) THEN
+    RAISE EXCEPTION 'Only moderators can change items in bulk' USING ERRCODE = '42501';
+  END IF;
+  IF p_item_ids IS NULL OR cardinality(p_item_ids) = 0 THEN
+    RAISE EXCEPTION 'No items selected' USING ERRCODE = '22023';
+  END IF;
+  IF cardinality(p_item_ids) > 200 THEN
+    RAISE EXCEPTION 'At most 200 items can be changed at once' USING ERRCODE = '22023';
+  END IF;
+
+  -- Check the value once up front rather than failing every row the same way
+  IF p_action = 'archive' THEN
+    v_status := 'archived';
+  ELSIF p_action = 'set_status' THEN
+    IF p_value IS NULL OR NOT p_value = ANY (enum_range(NULL::public.item_status)::TEXT[]) THEN
+      RAISE EXCEPTION 'Unknown status "%"', p_value USING ERRCODE = '22023';
+    END IF;
+    v_status := p_value::public.item_status;
+  ELSIF p_action = 'set_turn_in_to_security' THEN
+    IF p_value IS NULL OR p_value NOT IN ('true', 'false') THEN
+      RAISE EXCEPTION 'set_turn_in_to_security needs true or false' USING ERRCODE = '22023';
+    END IF;
+    v_turn_in := p_value::BOOLEAN;
+  ELSIF p_action = 'set_category' THEN
+    SELECT c.id INTO v_category_id FROM public.categories c WHERE c.name = p_value;
+    IF v_category_id IS NULL THEN
+      RAISE EXCEPTION 'Unknown category "%"', p_value USING ERRCODE = '22023';
+    END IF;
+  ELSIF p_action IS DISTINCT FROM 'delete' THEN
+    RAISE EXCEPTION 'Unknown bulk action "%"', p_action USING ERRCODE = '22023';
+  END IF;
+
+  FOR v_id IN SELECT DISTINCT unnest(p_item_ids) LOOP
+    item_id := v_id;
+    succeeded := TRUE;
+    message := NULL;
+    BEGIN
+      IF p_action = 'delete' THEN
+        DELETE FROM public.items i WHERE i.id = v_id;
+      ELSIF v_status IS NOT NULL THEN
+        UPDATE public.items i SET status = v_status WHERE i.id = v_id;
+      ELSIF v_turn_in IS NOT NULL THEN
+        UPDATE public.items i SET turn_in_to_security = v_turn_in WHERE i.id = v_id;
+      ELSE
+        UPDATE public.items i SET category_id = v_category_id WHERE i.id = v_id;
+      END IF;
+      IF NOT FOUND THEN
+        succeeded := FALSE;
+        message := 'Item not found';
+      END IF;
+    EXCEPTION
+      WHEN OTHERS THEN
+        succeeded := FALSE;
+        message := SQLERRM;
+    END;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+COMMENT ON FUNCTION public.bulk_update_items(UUID[], TEXT, TEXT) IS 'Applies one action to many items, one audited statement per item, and reports success or the error for each. Moderators only.';
+
+-- 38. User Management, Suspensions and Bans
+-- Admins can look up any account, see its activity and restrict it. A sanction is either a
+-- suspension (always has an expiry) or a ban (expiry optional; none means permanent), and it
+-- stays in effect until it expires or an admin lifts it. Sanctioned users keep read access
+-- but cannot report items, make claims, start chats or send messages. That is enforced by
+-- RESTRICTIVE insert policies, so no other policy can let the row through, plus a BEFORE
+-- INSERT trigger that also covers SECURITY DEFINER paths such as submit_claim and gives the
+-- user a readable error instead of a generic RLS violation. Admins cannot be sanctioned.
+
+CREATE TABLE IF NOT EXISTS public.user_sanctions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('suspension', 'ban')),
+  reason TEXT NOT NULL CHECK (char_length(trim(reason)) BETWEEN 3 AND 500),
+  expires_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  lifted_at TIMESTAMP WITH TIME ZONE,
+  lifted_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  lift_note TEXT CHECK (lift_note IS NULL OR char_length(lift_note) <= 500),
+  CONSTRAINT check_suspension_has_expiry CHECK (kind = 'ban' OR expires_at IS NOT NULL),
+  CONSTRAINT check_sanction_expiry_after_start CHECK (expires_at IS NULL OR expires_at > created_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_sanctions_user_id ON public.user_sanctions(user_id, created_at DESC);
+
+COMMENT ON TABLE public.user_sanctions IS 'Suspensions and bans issued by admins. Active while lifted_at is NULL and expires_at is NULL or in the future.';
+
+ALTER TABLE public.user_sanctions ENABLE ROW LEVEL SECURITY;
+
+-- Written only through sanction_user / lift_user_sanction
+DROP POLICY IF EXISTS "Users and admins can view sanctions" ON public.user_sanctions;
+CREATE POLICY "Users and admins can view sanctions"
+ON public.user_sanctions
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid() OR public.is_admin(auth.uid()));
+
+CREATE OR REPLACE FUNCTION public.is_suspended(user_id_to_check UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+SECURITY DEFINER SET search_path = public
+STABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_sanctions
+    WHERE user_id = user_id_to_check
+      AND lifted_at IS NULL
+      AND (expires_at IS NULL OR expires_at > now())
+  );
+$$;
+COMMENT ON FUNCTION public.is_suspended(UUID) IS 'True while the user has an active suspension or ban.';
+
+CREATE OR REPLACE FUNCTION public.block_suspended_user_writes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_sanction public.user_sanctions%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- The one that lasts longest is what the user needs to hear about
+  SELECT * INTO v_sanction
+  FROM public.user_sanctions
+  WHERE user_id = auth.uid()
+    AND lifted_at IS NULL
+    AND (expires_at IS NULL OR expires_at > now())
+  ORDER BY expires_at DESC NULLS FIRST
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION '%', CASE
+      WHEN v_sanction.expires_at IS NULL THEN format('Your account has been banned: %s', v_sanction.reason)
+      ELSE format('Your account is %s until %s UTC: %s',
+        CASE WHEN v_sanction.kind = 'ban' THEN 'banned' ELSE 'suspended' END,
+        to_char(v_sanction.expires_at AT TIME ZONE 'utc', 'YYYY-MM-DD HH24:MI'),
+        v_sanction.reason)
+    END
+    USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS block_suspended_items ON public.items;
+CREATE TRIGGER block_suspended_items
+BEFORE INSERT ON public.items
+FOR EACH ROW
+EXECUTE FUNCTION public.block_suspended_user_writes();
+
+DROP TRIGGER IF EXISTS block_suspended_claims ON public.claims;
+CREATE TRIGGER block_suspended_claims
+BEFORE INSERT ON public.claims
+FOR EACH ROW
+EXECUTE FUNCTION public.block_suspended_user_writes();
+
+DROP TRIGGER IF EXISTS block_suspended_conversations ON public.conversations;
+CREATE TRIGGER block_suspended_conversations
+BEFORE INSERT ON public.conversations
+FOR EACH ROW
+EXECUTE FUNCTION public.block_suspended_user_writes();
+
+DROP TRIGGER IF EXISTS block_suspended_messages ON public.messages;
+CREATE TRIGGER block_suspended_messages
+BEFORE INSERT ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.block_suspended_user_writes();
+
+DROP POLICY IF EXISTS "Suspended users cannot report items" ON public.items;
+CREATE POLICY "Suspended users cannot report items"
+ON public.items
+AS RESTRICTIVE
+FOR INSERT
+TO authenticated
+WITH CHECK (NOT public.is_suspended(auth.uid()));
+
+DROP POLICY IF EXISTS "Suspended users cannot make claims" ON public.claims;
+CREATE POLICY "Suspended users cannot make claims"
+ON public.claims
+AS RESTRICTIVE
+FOR INSERT
+TO authenticated
+WITH CHECK (NOT public.is_suspended(auth.uid()));
+
+DROP POLICY IF EXISTS "Suspended users cannot start conversations" ON public.conversations;
+CREATE POLICY "Suspended users cannot start conversations"
+ON public.conversations
+AS RESTRICTIVE
+FOR INSERT
+TO authenticated
+WITH CHECK (NOT public.is_suspended(auth.uid()));
+
+DROP POLICY IF EXISTS "Suspended users cannot send messages" ON public.messages;
+CREATE POLICY "Suspended users cannot send messages"
+ON public.messages
+AS RESTRICTIVE
+FOR INSERT
+TO authenticated
+WITH CHECK (NOT public.is_suspended(auth.uid()));
+
+CREATE OR REPLACE FUNCTION public.sanction_user(
+  p_user_id UUID,
+  p_kind TEXT,
+  p_reason TEXT,
+  p_expires_at TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS public.user_sanctions
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_role TEXT;
+  v_sanction public.user_sanctions%ROWTYPE;
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can suspend or ban users' USING ERRCODE = '42501';
+  END IF;
+  IF p_kind IS NULL OR p_kind NOT IN ('suspension', 'ban') THEN
+    RAISE EXCEPTION 'Sanction must be a suspension or a ban' USING ERRCODE = '22023';
+  END IF;
+  IF p_kind = 'suspension' AND p_expires_at IS NULL THEN
+    RAISE EXCEPTION 'A suspension needs an end date' USING ERRCODE = '22023';
+  END IF;
+  IF p_expires_at IS NOT NULL AND p_expires_at <= now() THEN
+    RAISE EXCEPTION 'The end date must be in the future' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT role::TEXT INTO v_role FROM public.profiles WHERE id = p_user_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF v_role = 'admin' THEN
+    RAISE EXCEPTION 'Admins cannot be suspended or banned; remove their admin role first' USING ERRCODE = '55000';
+  END IF;
+
+  INSERT INTO public.user_sanctions (user_id, kind, reason, expires_at, created_by)
+  VALUES (p_user_id, p_kind, trim(p_reason), p_expires_at, auth.uid())
+  RETURNING * INTO v_sanction;
+
+  INSERT INTO public.notifications (user_id, type, title, message)
+  VALUES (
+    p_user_id,
+    'general_announcement',
+    CASE WHEN p_kind = 'ban' THEN 'Your account has been banned' ELSE 'Your account has been suspended' END,
+    left(format(
+      '%s You can still browse, but cannot report items, make claims or send messages. Reason: %s',
+      CASE
+        WHEN p_expires_at IS NULL THEN 'This ban does not expire.'
+        ELSE format('This lasts until %s UTC.', to_char(p_expires_at AT TIME ZONE 'utc', 'YYYY-MM-DD HH24:MI'))
+      END,
+      trim(p_reason)
+    ), 499)
+  );
+
+  RETURN v_sanction;
+END;
+$$;
+
+COMMENT ON FUNCTION public.sanction_user(UUID, TEXT, TEXT, TIMESTAMP WITH TIME ZONE) IS 'Suspends or bans a non-admin user with a reason and optional expiry, and notifies them. Admins only.';
+
+CREATE OR REPLACE FUNCTION public.lift_user_sanction(
+  p_sanction_id UUID,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS public.user_sanctions
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_sanction public.user_sanctions%ROWTYPE;
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can lift suspensions and bans' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_sanction FROM public.user_sanctions WHERE id = p_sanction_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sanction not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF v_sanction.lifted_at IS NOT NULL
+     OR (v_sanction.expires_at IS NOT NULL AND v_sanction.expires_at <= now()) THEN
+    RAISE EXCEPTION 'This sanction is no longer active' USING ERRCODE = '55000';
+  END IF;
+
+  UPDATE public.user_sanctions
+  SET lifted_at = now(), lifted_by = auth.uid(), lift_note = NULLIF(trim(p_note), '')
+  WHERE id = p_sanction_id
+  RETURNING * INTO v_sanction;
+
+  IF NOT public.is_suspended(v_sanction.user_id) THEN
+    INSERT INTO public.notifications (user_id, type, title, message)
+    VALUES (
+      v_sanction.user_id,
+      'general_announcement',
+      'Your account has been restored',
+      'An admin lifted the restriction on your account. You can report items, make claims and send messages again.'
+    );
+  END IF;
+
+  RETURN v_sanction;
+END;
+$$;
+
+COMMENT ON FUNCTION public.lift_user_sanction(UUID, TEXT) IS 'Ends an active suspension or ban early and notifies the user once no other sanction applies. Admins only.';
+
+-- Users table for the admin console, with activity counts and the current sanction.
+-- p_sanctioned filters to restricted (TRUE) or unrestricted (FALSE) accounts.
+CREATE OR REPLACE FUNCTION public.admin_search_users(
+  p_search TEXT DEFAULT NULL,
+  p_role public.user_role DEFAULT NULL,
+  p_sanctioned BOOLEAN DEFAULT NULL,
+  p_user_id UUID DEFAULT NULL,
+  p_limit INT DEFAULT 25,
+  p_offset INT DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  full_name TEXT,
+  email TEXT,
+  avatar_url TEXT,
+  role public.user_role,
+  points INT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  last_sign_in_at TIMESTAMP WITH TIME ZONE,
+  items_reported BIGINT,
+  claims_total BIGINT,
+  claims_pending BIGINT,
+  claims_approved BIGINT,
+  claims_rejected BIGINT,
+  conversations_count BIGINT,
+  sanction_kind TEXT,
+  sanction_expires_at TIMESTAMP WITH TIME ZONE,
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_pattern TEXT := '%' || replace(replace(replace(trim(COALESCE(p_search, '')), '\', '\\'), '%', '\%'), '_', '\_') || '%';
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can manage users' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.full_name,
+    u.email::TEXT,
+    p.avatar_url,
+    p.role,
+    p.points,
+    p.created_at,
+    u.last_sign_in_at,
+    (SELECT count(*) FROM public.items i WHERE i.user_id = p.id),
+    COALESCE(cl.total, 0),
+    COALESCE(cl.pending, 0),
+    COALESCE(cl.approved, 0),
+    COALESCE(cl.rejected, 0),
+    (SELECT count(*) FROM public.conversations cv WHERE cv.creator_id = p.id),
+    s.kind,
+    s.expires_at,
+    count(*) OVER ()
+  FROM public.profiles p
+  LEFT JOIN auth.users u ON u.id = p.id
+  LEFT JOIN LATERAL (
+    SELECT
+      count(*) AS total,
+      count(*) FILTER (WHERE c.status = 'pending') AS pending,
+      count(*) FILTER (WHERE c.status = 'approved') AS approved,
+      count(*) FILTER (WHERE c.status = 'rejected') AS rejected
+    FROM public.claims c
+    WHERE c.claimer_id = p.id
+  ) cl ON TRUE
+  LEFT JOIN LATERAL (
+    SELECT us.kind, us.expires_at
+    FROM public.user_sanctions us
+    WHERE us.user_id = p.id
+      AND us.lifted_at IS NULL
+      AND (us.expires_at IS NULL OR us.expires_at > now())
+    ORDER BY us.expires_at DESC NULLS FIRST
+    LIMIT 1
+  ) s ON TRUE
+  WHERE (p_user_id IS NULL OR p.id = p_user_id)
+    AND (p_role IS NULL OR p.role = p_role)
+    AND (p_sanctioned IS NULL OR (s.kind IS NOT NULL) = p_sanctioned)
+    AND (NULLIF(trim(p_search), '') IS NULL OR p.full_name ILIKE v_pattern OR u.email ILIKE v_pattern OR p.id::TEXT = trim(p_search))
+  ORDER BY p.created_at DESC, p.id
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 25), 1), 100)
+  OFFSET GREATEST(COALESCE(p_offset, 0), 0);
+END;
+$$;
+
+COMMENT ON FUNCTION public.admin_search_users(TEXT, public.user_role, BOOLEAN, UUID, INT, INT) IS 'Searches accounts by name, email or ID with activity counts and any active sanction. Admins only.';
+
+-- Conversations a user started or received on their items. Admins see who talked about
+-- what and how much, not the messages themselves.
+CREATE OR REPLACE FUNCTION public.admin_user_conversations(p_user_id UUID)
+RETURNS TABLE (
+  id UUID,
+  type public.conversation_type,
+  item_id UUID,
+  item_title TEXT,
+  started_by_user BOOLEAN,
+  message_count BIGINT,
+  last_message_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can manage users' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    cv.id,
+    cv.type,
+    cv.item_id,
+    i.title,
+    cv.creator_id = p_user_id,
+    (SELECT count(*) FROM public.messages m WHERE m.conversation_id = cv.id),
+    (SELECT max(m.created_at) FROM public.messages m WHERE m.conversation_id = cv.id),
+    cv.created_at
+  FROM public.conversations cv
+  LEFT JOIN public.items i ON i.id = cv.item_id
+  WHERE cv.creator_id = p_user_id
+     OR (cv.type = 'user-to-poster' AND i.user_id = p_user_id)
+  ORDER BY cv.updated_at DESC
+  LIMIT 100;
+END;
+$$;
+
+COMMENT ON FUNCTION public.admin_user_conversations(UUID) IS 'Conversations a user took part in, with message counts but not content. Admins only.';
+
+-- 39. Content Reports and Moderation Queue
+-- Users can report a listing, a claim on their own item, or a message in one of their chats.
+-- report_content stores a snapshot of the reported content as evidence, so the report still
+-- makes sense after the content is edited or deleted. A message snapshot includes the few
+-- messages before it, which is the only chat content moderators ever see. Moderators work
+-- the queue with resolve_content_report, which closes every open report on the same content
+-- with one outcome:
+--   dismissed        no action
+--   item_hidden      the listing is archived and hidden from everyone but its reporter and
+--                    moderators (item reports only)
+--   user_warned      the author of the content gets a warning notification
+--   user_suspended   the author is suspended through sanction_user (admins only)
+-- Each reporter is notified when their report is resolved.
+
+ALTER TABLE public.items ADD COLUMN IF NOT EXISTS hidden_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN public.items.hidden_at IS 'Set when a moderator removed this listing after a content report (see resolve_content_report).';
+
+CREATE TABLE IF NOT EXISTS public.content_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  reporter_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  target_type TEXT NOT NULL CHECK (target_type IN ('item', 'claim', 'message')),
+  -- No foreign key: the report and its evidence outlive the reported content
+  target_id UUID NOT NULL,
+  -- The listing the content belongs to, for context in the queue
+  item_id UUID REFERENCES public.items(id) ON DELETE SET NULL,
+  reported_user_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  reason TEXT NOT NULL CHECK (reason IN ('fake_listing', 'scam', 'harassment', 'spam', 'inappropriate', 'other')),
+  details TEXT CHECK (details IS NULL OR char_length(details) <= 1000),
+  evidence JSONB NOT NULL,
+  status TEXT DEFAULT 'open' NOT NULL CHECK (status IN ('open', 'resolved')),
+  outcome TEXT CHECK (outcome IN ('dismissed', 'item_hidden', 'user_warned', 'user_suspended')),
+  resolution_note TEXT CHECK (resolution_note IS NULL OR char_length(resolution_note) <= 500),
+  resolved_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  CONSTRAINT check_resolved_report_has_outcome CHECK ((status = 'resolved') = (outcome IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_content_reports_status ON public.content_reports(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_content_reports_target ON public.content_reports(target_type, target_id);
+CREATE INDEX IF NOT EXISTS idx_content_reports_reported_user_id ON public.content_reports(reported_user_id);
+
+-- One open report per reporter per piece of content
+CREATE UNIQUE INDEX IF NOT EXISTS idx_content_reports_one_open_per_reporter
+ON public.content_reports(reporter_id, target_type, target_id)
+WHERE status = 'open';
+
+COMMENT ON TABLE public.content_reports IS 'User reports of listings, claims and messages, with an evidence snapshot and the moderator outcome.';
+
+ALTER TABLE public.content_reports ENABLE ROW LEVEL SECURITY;
+
+-- Written only through report_content / resolve_content_report
+DROP POLICY IF EXISTS "Reporters and moderators can view reports" ON public.content_reports;
+CREATE POLICY "Reporters and moderators can view reports"
+ON public.content_reports
+FOR SELECT
+TO authenticated
+USING (reporter_id = auth.uid() OR public.is_moderator(auth.uid()));
+
+CREATE OR REPLACE FUNCTION public.report_content(
+  p_target_type TEXT,
+  p_target_id UUID,
+  p_reason TEXT,
+  p_details TEXT DEFAULT NULL
+)
+RETURNS public.content_reports
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_item_id UUID;
+  v_author_id UUID;
+  v_evidence JSONB;
+  v_report public.content_reports%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to report content' USING ERRCODE = '42501';
+  END IF;
+  IF p_reason IS NULL OR p_reason NOT IN ('fake_listing', 'scam', 'harassment', 'spam', 'inappropriate', 'other') THEN
+    RAISE EXCEPTION 'Unknown report reason: %', p_reason USING ERRCODE = '22023';
+  END IF;
+  IF p_reason = 'other' AND char_length(trim(COALESCE(p_details, ''))) < 10 THEN
+    RAISE EXCEPTION 'Please describe the problem' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_target_type = 'item' THEN
+    SELECT i.id, i.user_id,
+      jsonb_build_object(
+        'title', i.title,
+        'description', i.description,
+        'status', i.status,
+        'location_description', i.location_description,
+        'image_url', i.image_url,
+        'created_at', i.created_at
+      )
+    INTO v_item_id, v_author_id, v_evidence
+    FROM public.items i
+    WHERE i.id = p_target_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item not found' USING ERRCODE = 'P0002';
+    END IF;
+
+  ELSIF p_target_type = 'claim' THEN
+    -- Only the item's reporter sees its claims
+    SELECT c.item_id, c.claimer_id,
+      jsonb_build_object(
+        'item_title', i.title,
+        'claim_description', c.claim_description,
+        'status', c.status,
+        'date_claimed', c.date_claimed
+      )
+    INTO v_item_id, v_author_id, v_evidence
+    FROM public.claims c
+    JOIN public.items i ON i.id = c.item_id
+    WHERE c.id = p_target_id AND i.user_id = auth.uid();
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Claim not found' USING ERRCODE = 'P0002';
+    END IF;
+
+  ELSIF p_target_type = 'message' THEN
+    SELECT conv.item_id, m.sender_id,
+      jsonb_build_object(
+        'item_title', i.title,
+        'conversation_id', m.conversation_id,
+        'body', m.body,
+        'attachment_count', COALESCE(array_length(m.attachments, 1), 0),
+        'created_at', m.created_at,
+        -- The reported message and up to five before it, oldest first
+        'context', (
+          SELECT jsonb_agg(jsonb_build_object(
+            'id', ctx.id,
+            'sender_id', ctx.sender_id,
+            'sender_name', ctx.full_name,
+            'body', ctx.body,
+            'created_at', ctx.created_at
+          ) ORDER BY ctx.created_at)
+          FROM (
+            SELECT prev.id, prev.sender_id, p.full_name, prev.body, prev.created_at
+            FROM public.messages prev
+            LEFT JOIN public.profiles p ON p.id = prev.sender_id
+            WHERE prev.conversation_id = m.conversation_id AND prev.created_at <= m.created_at
+            ORDER BY prev.created_at DESC
+            LIMIT 6
+          ) ctx
+        )
+      )
+    INTO v_item_id, v_author_id, v_evidence
+    FROM public.messages m
+    JOIN public.conversations conv ON conv.id = m.conversation_id
+    LEFT JOIN public.items i ON i.id = conv.item_id
+    WHERE m.id = p_target_id AND public.is_conversation_participant(m.conversation_id, auth.uid());
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Message not found' USING ERRCODE = 'P0002';
+    END IF;
+
+  ELSE
+    RAISE EXCEPTION 'Only items, claims and messages can be reported' USING ERRCODE = '22023';
+  END IF;
+
+  IF v_author_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot report your own content' USING ERRCODE = '22023';
+  END IF;
+
+  BEGIN
+    INSERT INTO public.content_reports (reporter_id, target_type, target_id, item_id, reported_user_id, reason, details, evidence)
+    VALUES (auth.uid(), p_target_type, p_target_id, v_item_id, v_author_id, p_reason, NULLIF(trim(p_details), ''), v_evidence)
+    RETURNING * INTO v_report;
+  EXCEPTION WHEN unique_violation THEN
+    RAISE EXCEPTION 'You have already reported this; a moderator will review it' USING ERRCODE = '55000';
+  END;
+
+  RETURN v_report;
+END;
+$$;
+
+COMMENT ON FUNCTION public.report_content(TEXT, UUID, TEXT, TEXT) IS 'Files a report against an item, a claim on the caller''s item or a message in one of the caller''s chats, with an evidence snapshot.';
+
+-- Resolves every open report on the same content and returns the reports that were closed.
+-- p_suspend_until is required for user_suspended.
+CREATE OR REPLACE FUNCTION public.resolve_content_report(
+  p_report_id UUID,
+  p_outcome TEXT,
+  p_note TEXT DEFAULT NULL,
+  p_suspend_until TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS SETOF public.content_reports
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_report public.content_reports%ROWTYPE;
+  v_reason_label TEXT;
+  v_note TEXT := NULLIF(trim(p_note), '');
+BEGIN
+  IF NOT public.is_moderator(auth.uid()) THEN
+    RAISE EXCEPTION 'Only moderators can resolve reports' USING ERRCODE = '42501';
+  END IF;
+  IF p_outcome IS NULL OR p_outcome NOT IN ('dismissed', 'item_hidden', 'user_warned', 'user_suspended') THEN
+    RAISE EXCEPTION 'Unknown outcome: %', p_outcome USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_report FROM public.content_reports WHERE id = p_report_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Report not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF v_report.status <> 'open' THEN
+    RAISE EXCEPTION 'This report has already been resolved' USING ERRCODE = '55000';
+  END IF;
+
+  v_reason_label := replace(v_report.reason, '_', ' ');
+
+  IF p_outcome = 'item_hidden' THEN
+    IF v_report.target_type <> 'item' THEN
+      RAISE EXCEPTION 'Only item reports can hide a listing' USING ERRCODE = '22023';
+    END IF;
+    UPDATE public.items
+    SET status = 'archived', hidden_at = now()
+    WHERE id = v_report.target_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'The reported item no longer exists; dismiss the report instead' USING ERRCODE = '55000';
+    END IF;
+
+    IF v_report.reported_user_id IS NOT NULL THEN
+      INSERT INTO public.notifications (user_id, item_id, type, title, message)
+      VALUES (
+        v_report.reported_user_id,
+        v_report.target_id,
+        'general_announcement',
+        'Your listing was removed',
+        left(format(
+          'A moderator removed "%s" after it was reported for %s.%s',
+          v_report.evidence->>'title',
+          v_reason_label,
+          COALESCE(' Note: ' || v_note, '')
+        ), 499)
+      );
+    END IF;
+
+  ELSIF p_outcome IN ('user_warned', 'user_suspended') THEN
+    IF v_report.reported_user_id IS NULL THEN
+      RAISE EXCEPTION 'The reported user no longer exists' USING ERRCODE = '55000';
+    END IF;
+
+    IF p_outcome = 'user_warned' THEN
+      INSERT INTO public.notifications (user_id, item_id, type, title, message)
+      VALUES (
+        v_report.reported_user_id,
+        v_report.item_id,
+        'general_announcement',
+        'Warning from the moderators',
+        left(format(
+          'Your %s was reported for %s and a moderator agreed. Repeated problems can lead to a suspension.%s',
+          CASE v_report.target_type WHEN 'item' THEN 'listing' ELSE v_report.target_type END,
+          v_reason_label,
+          COALESCE(' Note: ' || v_note, '')
+        ), 499)
+      );
+    ELSE
+      IF NOT public.is_admin(auth.uid()) THEN
+        RAISE EXCEPTION 'Only admins can suspend users' USING ERRCODE = '42501';
+      END IF;
+      -- sanction_user validates the end date and notifies the user
+      PERFORM public.sanction_user(
+        v_report.reported_user_id,
+        'suspension',
+        left(COALESCE(v_note, format('Reported for %s', v_reason_label)), 500),
+        p_suspend_until
+      );
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  WITH resolved AS (
+    UPDATE public.content_reports
+    SET status = 'resolved',
+        outcome = p_outcome,
+        resolution_note = v_note,
+        resolved_by = auth.uid(),
+        resolved_at = now()
+    WHERE target_type = v_report.target_type
+      AND target_id = v_report.target_id
+      AND status = 'open'
+    RETURNING *
+  ), notified AS (
+    INSERT INTO public.notifications (user_id, item_id, type, title, message)
+    SELECT DISTINCT ON (r.reporter_id)
+      r.reporter_id,
+      r.item_id,
+      'general_announcement',
+      'Your report has been reviewed',
+      CASE p_outcome
+        WHEN 'dismissed' THEN 'Thanks for your report. A moderator reviewed it and took no action this time.'
+        WHEN 'item_hidden' THEN 'Thanks for your report. A moderator removed the listing.'
+        WHEN 'user_warned' THEN 'Thanks for your report. A moderator warned the user.'
+        ELSE 'Thanks for your report. A moderator suspended the user.'
+      END
+    FROM resolved r
+    WHERE r.reporter_id IS NOT NULL
+  )
+  SELECT * FROM resolved;
+END;
+$$;
+
+COMMENT ON FUNCTION public.resolve_content_report(UUID, TEXT, TEXT, TIMESTAMP WITH TIME ZONE) IS 'Closes all open reports on the reported content with one outcome, applies it and notifies the reporters. Moderators only; suspensions need an admin.';
+
+-- "Users can update their own reported items" covers every column, so an owner could unhide a
+-- hidden listing or put it back in the feed by resetting its status. Only moderators may change
+-- hidden_at, and the status of a hidden listing stays as the moderator left it. Nested changes
+-- and requests without a signed-in user are allowed.
+CREATE OR REPLACE FUNCTION public.protect_item_hidden_state()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF pg_trigger_depth() > 1 OR auth.uid() IS NULL OR public.is_moderator(auth.uid()) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.hidden_at IS DISTINCT FROM OLD.hidden_at THEN
+    RAISE EXCEPTION 'Only moderators can hide or unhide a listing' USING ERRCODE = '42501';
+  END IF;
+  IF OLD.hidden_at IS NOT NULL AND NEW.status IS DISTINCT FROM OLD.status THEN
+    RAISE EXCEPTION 'This listing was removed by a moderator and cannot be reopened' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_items_hidden_state ON public.items;
+CREATE TRIGGER protect_items_hidden_state
+BEFORE UPDATE OF hidden_at, status ON public.items
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_item_hidden_state();
+
+-- A hidden listing disappears from the feed, search, the map and its detail page for everyone
+-- but its reporter and moderators
+DROP POLICY IF EXISTS "Hidden items are only visible to their reporter and moderators" ON public.items;
+CREATE POLICY "Hidden items are only visible to their reporter and moderators"
+ON public.items
+AS RESTRICTIVE
+FOR SELECT
+TO authenticated
+USING (hidden_at IS NULL OR user_id = auth.uid() OR public.is_moderator(auth.uid()));
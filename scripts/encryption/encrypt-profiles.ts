@@ -0,0 +1,142 @@
+import { createClient } from '@supabase/supabase-js';
+import * as path from 'path';
+// @ts-ignore - dotenv doesn't have type definitions
+import * as dotenv from 'dotenv';
+import {
+  blindIndex,
+  decryptField,
+  encryptField,
+  ENCRYPTED_PROFILE_FIELDS,
+  isEncrypted,
+  loadKeyRing,
+  needsRewrap,
+  normalizeMobileNumber,
+  rewrapField,
+} from '../../src/lib/encryption';
+
+// Load environment variables
+dotenv.config({ path: path.resolve(__dirname, '../../.env.local') });
+
+// Configuration
+const BATCH_SIZE = 500;
+const DRY_RUN = process.argv.includes('--dry-run');
+
+// Initialize Supabase client (service role: RLS would hide other users' rows)
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+
+if (!supabaseUrl || !supabaseKey) {
+  console.error('Error: NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required');
+  process.exit(1);
+}
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+const keyRing = loadKeyRing();
+
+type ProfileRow = {
+  id: string;
+  mobile_number: string | null;
+  physical_address: string | null;
+  email: string | null;
+  mobile_number_bidx: string | null;
+};
+
+interface MigrationStats {
+  scanned: number;
+  encrypted: number;
+  rewrapped: number;
+  updatedRows: number;
+  failedRows: number;
+}
+
+// Works out the update for one row: encrypt plaintext, re-wrap old key IDs, backfill the blind index
+const buildUpdate = (row: ProfileRow, stats: MigrationStats) => {
+  const update: Partial<ProfileRow> = {};
+
+  for (const field of ENCRYPTED_PROFILE_FIELDS) {
+    const value = row[field];
+    if (!value) continue;
+    const context = `profiles.${field}:${row.id}`;
+
+    if (!isEncrypted(value)) {
+      update[field] = encryptField(value, context, keyRing);
+      stats.encrypted++;
+    } else if (needsRewrap(value, keyRing)) {
+      update[field] = rewrapField(value, keyRing);
+      stats.rewrapped++;
+    } else {
+      // Fails loudly on tampered or mis-keyed values instead of leaving them for the app to trip over
+      decryptField(value, context, keyRing);
+    }
+  }
+
+  if (row.mobile_number && !row.mobile_number_bidx) {
+    const mobile = decryptField(row.mobile_number, `profiles.mobile_number:${row.id}`, keyRing);
+    update.mobile_number_bidx = blindIndex(normalizeMobileNumber(mobile.trim()), 'profiles.mobile_number', keyRing);
+  }
+
+  return update;
+};
+
+const encryptProfiles = async (): Promise<MigrationStats> => {
+  const stats: MigrationStats = { scanned: 0, encrypted: 0, rewrapped: 0, updatedRows: 0, failedRows: 0 };
+  let lastId: string | null = null;
+
+  // Keyset pagination by id so updated rows never shift the window
+  for (;;) {
+    let query = supabase
+      .from('profiles')
+      .select('id, mobile_number, physical_address, email, mobile_number_bidx')
+      .order('id', { ascending: true })
+      .limit(BATCH_SIZE);
+    if (lastId) query = query.gt('id', lastId);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    if (!data || data.length === 0) break;
+
+    for (const row of data as ProfileRow[]) {
+      stats.scanned++;
+      try {
+        const update = buildUpdate(row, stats);
+        if (Object.keys(update).length === 0) continue;
+
+        if (!DRY_RUN) {
+          const { error: updateError } = await supabase.from('profiles').update(update).eq('id', row.id);
+          if (updateError) throw updateError;
+        }
+        stats.updatedRows++;
+      } catch (err) {
+        stats.failedRows++;
+        console.error(`Failed to migrate profile ${row.id}:`, err instanceof Error ? err.message : err);
+      }
+    }
+
+    lastId = data[data.length - 1].id;
+  }
+
+  return stats;
+};
+
+// Main function
+const main = async () => {
+  try {
+    console.log(`Encrypting profile contact fields${DRY_RUN ? ' (dry run)' : ''}...`);
+    const stats = await encryptProfiles();
+    console.log(
+      `Scanned ${stats.scanned} profiles: ${stats.encrypted} values encrypted, ` +
+      `${stats.rewrapped} re-wrapped, ${stats.updatedRows} rows updated, ${stats.failedRows} failed.`
+    );
+    if (stats.failedRows > 0) process.exit(1);
+  } catch (error) {
+    console.error('Profile encryption migration failed:', error);
+    process.exit(1);
+  }
+};
+
+// Run if this file is executed directly
+if (require.main === module) {
+  main();
+}
+
+export { encryptProfiles };
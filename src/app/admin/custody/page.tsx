@@ -0,0 +1,660 @@
+// src/app/admin/custody/page.tsx
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
+import { format, formatDistanceToNow } from "date-fns";
+import {
+  CustodyCondition,
+  CustodyConditionValues,
+  CustodyEvent,
+  Item,
+  ItemCustody,
+  StorageBin,
+  StorageLocation,
+} from "@/types/database";
+import { useAdminCheck } from "@/components/admin/useAdminCheck";
+
+// item_custody row joined with the item and where it is kept
+interface InventoryRow extends ItemCustody {
+  item: Pick<Item, "id" | "title" | "status"> | null;
+}
+
+// custody_events row joined with location, bin and staff names
+interface CustodyEventWithNames extends CustodyEvent {
+  from_location: { name: string } | null;
+  from_bin: { label: string } | null;
+  to_location: { name: string } | null;
+  to_bin: { label: string } | null;
+  performer: { full_name: string | null } | null;
+}
+
+const EVENT_LABELS: Record<CustodyEvent["event_type"], string> = {
+  intake: "Brought in",
+  transfer: "Transferred",
+  release: "Released",
+};
+
+const inputClassName =
+  "bg-gray-700 border border-gray-600 rounded p-2 text-sm text-white w-full";
+
+const placeLabel = (location?: { name: string } | null, bin?: { label: string } | null) =>
+  location ? (bin ? `${location.name} · ${bin.label}` : location.name) : "—";
+
+// Location + bin selects; the bin list follows the chosen location
+function DestinationFields({
+  locations,
+  bins,
+  locationId,
+  binId,
+  onChange,
+}: {
+  locations: StorageLocation[];
+  bins: StorageBin[];
+  locationId: string;
+  binId: string;
+  onChange: (locationId: string, binId: string) => void;
+}) {
+  const locationBins = bins.filter((bin) => bin.location_id === locationId && bin.is_active);
+  return (
+    <>
+      <select
+        value={locationId}
+        onChange={(e) => onChange(e.target.value, "")}
+        className={inputClassName}
+        required
+      >
+        <option value="">Select location</option>
+        {locations
+          .filter((location) => location.is_active)
+          .map((location) => (
+            <option key={location.id} value={location.id}>
+              {location.name}
+            </option>
+          ))}
+      </select>
+      <select
+        value={binId}
+        onChange={(e) => onChange(locationId, e.target.value)}
+        className={inputClassName}
+        disabled={!locationId || locationBins.length === 0}
+      >
+        <option value="">{locationBins.length ? "No specific bin" : "No bins"}</option>
+        {locationBins.map((bin) => (
+          <option key={bin.id} value={bin.id}>
+            {bin.label}
+          </option>
+        ))}
+      </select>
+    </>
+  );
+}
+
+function CustodyHistoryModal({ item, onClose }: { item: { id: string; title: string }; onClose: () => void }) {
+  const supabase = createClientComponentClient();
+  const [events, setEvents] = useState<CustodyEventWithNames[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchEvents = async () => {
+      const { data, error: fetchError } = await supabase
+        .from("custody_events")
+        .select(
+          `*,
+          from_location:storage_locations!from_location_id(name),
+          from_bin:storage_bins!from_bin_id(label),
+          to_location:storage_locations!to_location_id(name),
+          to_bin:storage_bins!to_bin_id(label),
+          performer:profiles!performed_by(full_name)`
+        )
+        .eq("item_id", item.id)
+        .order("occurred_at", { ascending: false });
+      if (fetchError) {
+        console.error("Error fetching custody history:", fetchError);
+        setError("Error loading custody history.");
+      } else {
+        setEvents((data || []) as CustodyEventWithNames[]);
+      }
+      setLoading(false);
+    };
+    fetchEvents();
+  }, [supabase, item.id]);
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-60 z-50 p-4">
+      <div className="bg-gray-800 text-white rounded-lg p-6 max-w-2xl w-full max-h-[90vh] flex flex-col">
+        <div className="flex items-start justify-between gap-4 mb-4">
+          <div>
+            <h2 className="text-xl font-bold">Chain of Custody</h2>
+            <p className="text-sm text-gray-400">{item.title}</p>
+          </div>
+          <button onClick={onClose} className="px-3 py-1 bg-gray-600 hover:bg-gray-700 rounded">
+            Close
+          </button>
+        </div>
+        <div className="overflow-y-auto flex-1 pr-1">
+          {loading ? (
+            <p className="text-gray-400">Loading history...</p>
+          ) : error ? (
+            <p className="text-red-400">{error}</p>
+          ) : events.length === 0 ? (
+            <p className="text-gray-400">No custody events recorded for this item.</p>
+          ) : (
+            <ol className="relative border-l border-gray-600 ml-2 space-y-5">
+              {events.map((event) => (
+                <li key={event.id} className="relative ml-4">
+                  <span className="absolute -left-[1.375rem] top-1.5 w-3 h-3 rounded-full bg-indigo-500" />
+                  <div className="flex flex-wrap items-baseline gap-x-2">
+                    <span className="font-semibold">{EVENT_LABELS[event.event_type]}</span>
+                    <span className="text-sm text-gray-400">
+                      by {event.performer?.full_name || "Unknown staff"} ·{" "}
+                      {format(new Date(event.occurred_at), "PPpp")}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-300">
+                    {event.event_type === "intake" && <>To {placeLabel(event.to_location, event.to_bin)}</>}
+                    {event.event_type === "transfer" && (
+                      <>
+                        {placeLabel(event.from_location, event.from_bin)} → {placeLabel(event.to_location, event.to_bin)}
+                      </>
+                    )}
+                    {event.event_type === "release" && <>From {placeLabel(event.from_location, event.from_bin)}</>}
+                  </p>
+                  {event.brought_in_by_name && (
+                    <p className="text-sm text-gray-400">Brought in by {event.brought_in_by_name}</p>
+                  )}
+                  {event.condition && (
+                    <p className="text-sm text-gray-400 capitalize">Condition: {event.condition}</p>
+                  )}
+                  {event.notes && <p className="text-sm text-gray-400 italic">“{event.notes}”</p>}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function CustodyPage() {
+  const supabase = createClientComponentClient();
+  const roleChecked = useAdminCheck("manageCustody") !== null;
+
+  const [locations, setLocations] = useState<StorageLocation[]>([]);
+  const [bins, setBins] = useState<StorageBin[]>([]);
+  const [inventory, setInventory] = useState<InventoryRow[]>([]);
+  const [intakeCandidates, setIntakeCandidates] = useState<Pick<Item, "id" | "title">[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const [locationFilter, setLocationFilter] = useState("");
+  const [searchTerm, setSearchTerm] = useState("");
+  const [historyItem, setHistoryItem] = useState<{ id: string; title: string } | null>(null);
+
+  const [intake, setIntake] = useState({
+    itemId: "",
+    locationId: "",
+    binId: "",
+    broughtInBy: "",
+    condition: "" as CustodyCondition | "",
+    notes: "",
+  });
+  const [transfer, setTransfer] = useState<{ itemId: string; locationId: string; binId: string; notes: string } | null>(
+    null
+  );
+  const [newLocation, setNewLocation] = useState({ name: "", description: "" });
+  const [newBinLabels, setNewBinLabels] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState(false);
+
+  const fetchData = useCallback(async () => {
+    setError(null);
+    const [locationsResult, binsResult, inventoryResult, foundResult] = await Promise.all([
+      supabase.from("storage_locations").select("*").order("name"),
+      supabase.from("storage_bins").select("*").order("label"),
+      supabase
+        .from("item_custody")
+        .select("*, item:items(id, title, status)")
+        .order("in_custody_since", { ascending: false }),
+      supabase
+        .from("items")
+        .select("id, title")
+        .eq("status", "found")
+        .order("created_at", { ascending: false })
+        .limit(200),
+    ]);
+
+    const firstError =
+      locationsResult.error || binsResult.error || inventoryResult.error || foundResult.error;
+    if (firstError) {
+      console.error("Error loading custody data:", firstError);
+      setError(`Error loading custody data: ${firstError.message}`);
+    }
+
+    const inventoryRows = (inventoryResult.data || []) as InventoryRow[];
+    const inCustody = new Set(inventoryRows.map((row) => row.item_id));
+    setLocations((locationsResult.data || []) as StorageLocation[]);
+    setBins((binsResult.data || []) as StorageBin[]);
+    setInventory(inventoryRows);
+    setIntakeCandidates(
+      ((foundResult.data || []) as Pick<Item, "id" | "title">[]).filter((item) => !inCustody.has(item.id))
+    );
+    setLoading(false);
+  }, [supabase]);
+
+  useEffect(() => {
+    if (!roleChecked) return;
+    fetchData();
+  }, [roleChecked, fetchData]);
+
+  const locationName = useMemo(
+    () => Object.fromEntries(locations.map((location) => [location.id, location.name])),
+    [locations]
+  );
+  const binLabel = useMemo(() => Object.fromEntries(bins.map((bin) => [bin.id, bin.label])), [bins]);
+
+  const filteredInventory = inventory.filter(
+    (row) =>
+      (!locationFilter || row.location_id === locationFilter) &&
+      (!searchTerm || row.item?.title.toLowerCase().includes(searchTerm.toLowerCase()))
+  );
+
+  // Runs a custody RPC, reports the outcome and reloads the inventory
+  const runAction = async (action: () => PromiseLike<{ error: { message: string } | null }>, success: string) => {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    const { error: actionError } = await action();
+    setBusy(false);
+    if (actionError) {
+      setError(actionError.message);
+      return false;
+    }
+    setMessage(success);
+    await fetchData();
+    return true;
+  };
+
+  const handleIntake = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const ok = await runAction(
+      () =>
+        supabase.rpc("custody_intake", {
+          p_item_id: intake.itemId,
+          p_location_id: intake.locationId,
+          p_bin_id: intake.binId || null,
+          p_brought_in_by_name: intake.broughtInBy || null,
+          p_condition: intake.condition || null,
+          p_notes: intake.notes || null,
+        }),
+      "Item taken into custody."
+    );
+    if (ok) setIntake({ itemId: "", locationId: "", binId: "", broughtInBy: "", condition: "", notes: "" });
+  };
+
+  const handleTransfer = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!transfer) return;
+    const ok = await runAction(
+      () =>
+        supabase.rpc("custody_transfer", {
+          p_item_id: transfer.itemId,
+          p_to_location_id: transfer.locationId,
+          p_to_bin_id: transfer.binId || null,
+          p_notes: transfer.notes || null,
+        }),
+      "Item transferred."
+    );
+    if (ok) setTransfer(null);
+  };
+
+  const handleRelease = async (row: InventoryRow) => {
+    const notes = window.prompt(
+      `Release "${row.item?.title}" from custody? Add a note (e.g. who collected it):`
+    );
+    if (notes === null) return;
+    await runAction(
+      () => supabase.rpc("custody_release", { p_item_id: row.item_id, p_notes: notes || null }),
+      "Item released from custody."
+    );
+  };
+
+  const handleAddLocation = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const ok = await runAction(
+      () =>
+        supabase.from("storage_locations").insert({
+          name: newLocation.name.trim(),
+          description: newLocation.description.trim() || null,
+        }),
+      "Location added."
+    );
+    if (ok) setNewLocation({ name: "", description: "" });
+  };
+
+  const handleAddBin = async (locationId: string) => {
+    const label = newBinLabels[locationId]?.trim();
+    if (!label) return;
+    const ok = await runAction(
+      () => supabase.from("storage_bins").insert({ location_id: locationId, label }),
+      "Bin added."
+    );
+    if (ok) setNewBinLabels((labels) => ({ ...labels, [locationId]: "" }));
+  };
+
+  const toggleActive = (table: "storage_locations" | "storage_bins", id: string, isActive: boolean) =>
+    runAction(
+      () => supabase.from(table).update({ is_active: !isActive }).eq("id", id),
+      isActive ? "Deactivated." : "Reactivated."
+    );
+
+  if (!roleChecked) {
+    return <div className="p-6 bg-gray-900 min-h-screen text-white">Checking access...</div>;
+  }
+
+  return (
+    <div className="p-6 bg-gray-900 min-h-screen text-white">
+      <Link href="/admin" className="text-sm text-indigo-300 hover:underline">
+        ← Admin Dashboard
+      </Link>
+      <h1 className="text-3xl font-bold mt-2 mb-6">Custody Inventory</h1>
+
+      {error && <div className="mb-4 p-3 rounded bg-red-900 text-red-200">{error}</div>}
+      {message && <div className="mb-4 p-3 rounded bg-green-900 text-green-200">{message}</div>}
+
+      {/* Intake Section */}
+      <section className="mb-8">
+        <h2 className="text-2xl font-semibold mb-4">Record Intake</h2>
+        <form
+          onSubmit={handleIntake}
+          className="bg-gray-800 rounded-lg shadow-md p-4 grid grid-cols-1 md:grid-cols-3 gap-3"
+        >
+          <select
+            value={intake.itemId}
+            onChange={(e) => setIntake({ ...intake, itemId: e.target.value })}
+            className={inputClassName}
+            required
+          >
+            <option value="">Select found item</option>
+            {intakeCandidates.map((item) => (
+              <option key={item.id} value={item.id}>
+                {item.title}
+              </option>
+            ))}
+          </select>
+          <DestinationFields
+            locations={locations}
+            bins={bins}
+            locationId={intake.locationId}
+            binId={intake.binId}
+            onChange={(locationId, binId) => setIntake({ ...intake, locationId, binId })}
+          />
+          <input
+            type="text"
+            value={intake.broughtInBy}
+            onChange={(e) => setIntake({ ...intake, broughtInBy: e.target.value })}
+            placeholder="Brought in by (name)"
+            maxLength={100}
+            className={inputClassName}
+          />
+          <select
+            value={intake.condition}
+            onChange={(e) => setIntake({ ...intake, condition: e.target.value as CustodyCondition | "" })}
+            className={`${inputClassName} capitalize`}
+          >
+            <option value="">Condition</option>
+            {CustodyConditionValues.map((condition) => (
+              <option key={condition} value={condition}>
+                {condition}
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={intake.notes}
+            onChange={(e) => setIntake({ ...intake, notes: e.target.value })}
+            placeholder="Notes"
+            maxLength={500}
+            className={inputClassName}
+          />
+          <div className="md:col-span-3 flex justify-end">
+            <button
+              type="submit"
+              disabled={busy}
+              className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 rounded text-sm font-medium disabled:bg-gray-600"
+            >
+              Take into custody
+            </button>
+          </div>
+        </form>
+      </section>
+
+      {/* Inventory Section */}
+      <section className="mb-8">
+        <h2 className="text-2xl font-semibold mb-4">Currently in Custody</h2>
+        <div className="flex flex-wrap gap-3 mb-4">
+          <input
+            type="text"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            placeholder="Search by title"
+            className="bg-gray-700 border border-gray-600 rounded p-2 text-sm"
+          />
+          <select
+            value={locationFilter}
+            onChange={(e) => setLocationFilter(e.target.value)}
+            className="bg-gray-700 border border-gray-600 rounded p-2 text-sm"
+          >
+            <option value="">All locations</option>
+            {locations.map((location) => (
+              <option key={location.id} value={location.id}>
+                {location.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        {loading ? (
+          <p>Loading inventory...</p>
+        ) : filteredInventory.length === 0 ? (
+          <p className="text-gray-400 text-center py-8">No items in custody.</p>
+        ) : (
+          <div className="overflow-x-auto bg-gray-800 rounded-lg shadow-md">
+            <table className="min-w-full">
+              <thead className="bg-gray-700">
+                <tr>
+                  {["Item", "Location", "Bin", "Condition", "In custody", "Actions"].map((heading) => (
+                    <th
+                      key={heading}
+                      className="p-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider"
+                    >
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {filteredInventory.map((row) => (
+                  <React.Fragment key={row.item_id}>
+                    <tr className="hover:bg-gray-750 transition-colors">
+                      <td className="p-3 text-sm text-indigo-400 font-medium">
+                        <Link href={`/item/${row.item_id}`} target="_blank">
+                          {row.item?.title || "Deleted item"}
+                        </Link>
+                      </td>
+                      <td className="p-3 whitespace-nowrap text-sm text-gray-300">
+                        {locationName[row.location_id] || "Unknown"}
+                      </td>
+                      <td className="p-3 whitespace-nowrap text-sm text-gray-300">
+                        {row.bin_id ? binLabel[row.bin_id] || "Unknown" : "—"}
+                      </td>
+                      <td className="p-3 whitespace-nowrap text-sm text-gray-300 capitalize">
+                        {row.condition || "—"}
+                      </td>
+                      <td className="p-3 whitespace-nowrap text-sm text-gray-400">
+                        {formatDistanceToNow(new Date(row.in_custody_since), { addSuffix: true })}
+                      </td>
+                      <td className="p-3 whitespace-nowrap text-sm">
+                        <button
+                          onClick={() =>
+                            setTransfer(
+                              transfer?.itemId === row.item_id
+                                ? null
+                                : { itemId: row.item_id, locationId: "", binId: "", notes: "" }
+                            )
+                          }
+                          className="text-indigo-400 hover:text-indigo-300 font-medium mr-2"
+                        >
+                          Transfer
+                        </button>
+                        <button
+                          onClick={() => handleRelease(row)}
+                          disabled={busy}
+                          className="text-yellow-400 hover:text-yellow-300 font-medium mr-2"
+                        >
+                          Release
+                        </button>
+                        <button
+                          onClick={() => setHistoryItem({ id: row.item_id, title: row.item?.title || "Item" })}
+                          className="text-blue-400 hover:text-blue-300 font-medium"
+                        >
+                          History
+                        </button>
+                      </td>
+                    </tr>
+                    {transfer?.itemId === row.item_id && (
+                      <tr className="bg-gray-900/40">
+                        <td colSpan={6} className="p-3">
+                          <form onSubmit={handleTransfer} className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                            <DestinationFields
+                              locations={locations}
+                              bins={bins}
+                              locationId={transfer.locationId}
+                              binId={transfer.binId}
+                              onChange={(locationId, binId) => setTransfer({ ...transfer, locationId, binId })}
+                            />
+                            <input
+                              type="text"
+                              value={transfer.notes}
+                              onChange={(e) => setTransfer({ ...transfer, notes: e.target.value })}
+                              placeholder="Notes (e.g. reason, courier)"
+                              maxLength={500}
+                              className={inputClassName}
+                            />
+                            <button
+                              type="submit"
+                              disabled={busy}
+                              className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 rounded text-sm font-medium disabled:bg-gray-600"
+                            >
+                              Confirm transfer
+                            </button>
+                          </form>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      {/* Storage Locations Section */}
+      <section className="mb-8">
+        <h2 className="text-2xl font-semibold mb-4">Storage Locations & Bins</h2>
+        <form onSubmit={handleAddLocation} className="flex flex-wrap gap-3 mb-4">
+          <input
+            type="text"
+            value={newLocation.name}
+            onChange={(e) => setNewLocation({ ...newLocation, name: e.target.value })}
+            placeholder="New location name"
+            minLength={2}
+            maxLength={100}
+            required
+            className="bg-gray-700 border border-gray-600 rounded p-2 text-sm"
+          />
+          <input
+            type="text"
+            value={newLocation.description}
+            onChange={(e) => setNewLocation({ ...newLocation, description: e.target.value })}
+            placeholder="Description (optional)"
+            maxLength={500}
+            className="bg-gray-700 border border-gray-600 rounded p-2 text-sm flex-1 min-w-[12rem]"
+          />
+          <button
+            type="submit"
+            disabled={busy}
+            className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 rounded text-sm font-medium disabled:bg-gray-600"
+          >
+            Add location
+          </button>
+        </form>
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {locations.map((location) => {
+            const locationBins = bins.filter((bin) => bin.location_id === location.id);
+            const itemCount = inventory.filter((row) => row.location_id === location.id).length;
+            return (
+              <div
+                key={location.id}
+                className={`bg-gray-800 rounded-lg shadow-md p-4 ${location.is_active ? "" : "opacity-60"}`}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <h3 className="font-semibold">{location.name}</h3>
+                    {location.description && <p className="text-sm text-gray-400">{location.description}</p>}
+                    <p className="text-xs text-gray-500 mt-1">{itemCount} item(s) in custody</p>
+                  </div>
+                  <button
+                    onClick={() => toggleActive("storage_locations", location.id, location.is_active)}
+                    disabled={busy}
+                    className="text-xs text-gray-400 hover:text-white"
+                  >
+                    {location.is_active ? "Deactivate" : "Reactivate"}
+                  </button>
+                </div>
+                <ul className="mt-3 space-y-1">
+                  {locationBins.map((bin) => (
+                    <li key={bin.id} className="flex items-center justify-between text-sm">
+                      <span className={bin.is_active ? "text-gray-300" : "text-gray-500 line-through"}>
+                        {bin.label}
+                      </span>
+                      <button
+                        onClick={() => toggleActive("storage_bins", bin.id, bin.is_active)}
+                        disabled={busy}
+                        className="text-xs text-gray-400 hover:text-white"
+                      >
+                        {bin.is_active ? "Deactivate" : "Reactivate"}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+                <div className="flex gap-2 mt-3">
+                  <input
+                    type="text"
+                    value={newBinLabels[location.id] || ""}
+                    onChange={(e) => setNewBinLabels((labels) => ({ ...labels, [location.id]: e.target.value }))}
+                    placeholder="New bin label"
+                    maxLength={50}
+                    className="bg-gray-700 border border-gray-600 rounded p-1.5 text-sm flex-1"
+                  />
+                  <button
+                    onClick={() => handleAddBin(location.id)}
+                    disabled={busy}
+                    className="px-3 py-1.5 bg-gray-600 hover:bg-gray-500 rounded text-sm"
+                  >
+                    Add bin
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </section>
+
+      {historyItem && <CustodyHistoryModal item={historyItem} onClose={() => setHistoryItem(null)} />}
+    </div>
+  );
+}
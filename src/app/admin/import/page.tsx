@@ -0,0 +1,284 @@
+// src/app/admin/import/page.tsx
+"use client";
+
+import React, { ChangeEvent, useMemo, useState } from "react";
+import Link from "next/link";
+import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
+import { useAdminCheck } from "@/components/admin/useAdminCheck";
+import {
+  buildImportRow,
+  ColumnMapping,
+  guessColumnMapping,
+  IMPORT_FIELDS,
+  ImportField,
+  MAX_IMPORT_ROWS,
+  readSpreadsheetFile,
+} from "@/lib/items/importExport";
+
+type Step = "upload" | "map" | "preview" | "done";
+
+const inputClassName = "bg-gray-700 border border-gray-600 rounded p-2 text-sm text-white";
+
+// Import wizard for the security office logbook: upload, map columns, preview, commit
+export default function ImportItemsPage() {
+  const supabase = createClientComponentClient();
+  const roleChecked = useAdminCheck("importExportItems") !== null;
+
+  const [step, setStep] = useState<Step>("upload");
+  const [fileName, setFileName] = useState("");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [skipInvalid, setSkipInvalid] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [importedCount, setImportedCount] = useState(0);
+
+  // Row 1 is the header, so data rows start at 2
+  const results = useMemo(
+    () => (mapping ? dataRows.map((cells, index) => buildImportRow(cells, mapping, index + 2)) : []),
+    [dataRows, mapping]
+  );
+  const validRows = results.filter((result) => result.data !== null);
+  const invalidCount = results.length - validRows.length;
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setError(null);
+    setBusy(true);
+    try {
+      const rows = await readSpreadsheetFile(file);
+      if (rows.length < 2) {
+        throw new Error("The file needs a header row and at least one item.");
+      }
+      if (rows.length - 1 > MAX_IMPORT_ROWS) {
+        throw new Error(`At most ${MAX_IMPORT_ROWS} rows can be imported at once. Split the file and try again.`);
+      }
+      setFileName(file.name);
+      setHeaders(rows[0].map((header, index) => header.trim() || `Column ${index + 1}`));
+      setDataRows(rows.slice(1));
+      setMapping(guessColumnMapping(rows[0]));
+      setStep("map");
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Could not read the file.");
+    } finally {
+      setBusy(false);
+      event.target.value = "";
+    }
+  };
+
+  const updateMapping = (field: ImportField, value: string) => {
+    setMapping((prev) => prev && { ...prev, [field]: value === "" ? null : Number(value) });
+  };
+
+  const missingRequired = mapping
+    ? IMPORT_FIELDS.filter((field) => field.required && mapping[field.key] === null)
+    : [];
+
+  const handleImport = async () => {
+    const rows = validRows.map((result) => result.data);
+    if (rows.length === 0 || (invalidCount > 0 && !skipInvalid)) return;
+    setBusy(true);
+    setError(null);
+    const { data, error: importError } = await supabase.rpc("import_items", { p_rows: rows });
+    setBusy(false);
+    if (importError) {
+      setError(`Import failed, nothing was saved: ${importError.message}`);
+      return;
+    }
+    setImportedCount(data as number);
+    setStep("done");
+  };
+
+  const startOver = () => {
+    setStep("upload");
+    setFileName("");
+    setHeaders([]);
+    setDataRows([]);
+    setMapping(null);
+    setSkipInvalid(false);
+    setError(null);
+  };
+
+  if (!roleChecked) {
+    return <div className="p-6 bg-gray-900 min-h-screen text-white">Checking access...</div>;
+  }
+
+  return (
+    <div className="p-6 bg-gray-900 min-h-screen text-white">
+      <Link href="/admin" className="text-sm text-indigo-300 hover:underline">
+        ← Admin Dashboard
+      </Link>
+      <h1 className="text-3xl font-bold mt-2 mb-2">Import Items</h1>
+      <p className="text-sm text-gray-400 mb-6">
+        Bring logbook entries in from a CSV or Excel (.xlsx) file. Rows are checked the same way as
+        the report form, and the whole batch is saved together or not at all.
+      </p>
+
+      {error && <div className="mb-4 p-3 rounded bg-red-900 text-red-200">{error}</div>}
+
+      {step === "upload" && (
+        <section className="bg-gray-800 rounded-lg p-6 max-w-xl">
+          <h2 className="text-xl font-semibold mb-2">1. Choose a file</h2>
+          <p className="text-sm text-gray-400 mb-4">
+            The first row must hold column headers. A file exported from the admin dashboard can be
+            imported as is.
+          </p>
+          <input
+            type="file"
+            accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+            onChange={handleFileChange}
+            disabled={busy}
+            className="block w-full text-sm text-gray-300"
+          />
+          {busy && <p className="mt-3 text-sm text-gray-400">Reading file...</p>}
+          <p className="mt-6 text-sm text-gray-400">
+            Need a template or a copy of the current logbook? Export all items as{" "}
+            <a href="/api/items/export?format=csv" className="text-indigo-300 hover:underline">
+              CSV
+            </a>{" "}
+            or{" "}
+            <a href="/api/items/export?format=xlsx" className="text-indigo-300 hover:underline">
+              XLSX
+            </a>
+            .
+          </p>
+        </section>
+      )}
+
+      {step === "map" && mapping && (
+        <section className="bg-gray-800 rounded-lg p-6 max-w-2xl">
+          <h2 className="text-xl font-semibold mb-2">2. Match columns</h2>
+          <p className="text-sm text-gray-400 mb-4">
+            {fileName}: {dataRows.length} rows. Pick the column each field is read from. Categories
+            may be written as names (&quot;Keys&quot;) or keys (&quot;keys&quot;).
+          </p>
+          <div className="space-y-3">
+            {IMPORT_FIELDS.map((field) => (
+              <div key={field.key} className="grid grid-cols-2 gap-4 items-center">
+                <label htmlFor={`map-${field.key}`} className="text-sm">
+                  {field.label}
+                  {field.required && <span className="text-red-400"> *</span>}
+                </label>
+                <select
+                  id={`map-${field.key}`}
+                  value={mapping[field.key] ?? ""}
+                  onChange={(e) => updateMapping(field.key, e.target.value)}
+                  className={inputClassName}
+                >
+                  <option value="">Not imported</option>
+                  {headers.map((header, index) => (
+                    <option key={index} value={index}>
+                      {header}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+          {missingRequired.length > 0 && (
+            <p className="mt-4 text-sm text-yellow-300">
+              Still needed: {missingRequired.map((field) => field.label).join(", ")}
+            </p>
+          )}
+          <div className="mt-6 flex gap-3">
+            <button
+              onClick={() => setStep("preview")}
+              disabled={missingRequired.length > 0}
+              className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 rounded text-sm font-medium disabled:bg-gray-600"
+            >
+              Preview
+            </button>
+            <button onClick={startOver} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded text-sm">
+              Choose another file
+            </button>
+          </div>
+        </section>
+      )}
+
+      {step === "preview" && (
+        <section>
+          <h2 className="text-xl font-semibold mb-2">3. Review</h2>
+          <p className="text-sm text-gray-400 mb-4">
+            {validRows.length} of {results.length} rows are ready to import.
+            {invalidCount > 0 && ` ${invalidCount} have problems; fix them in the file or skip them.`}
+          </p>
+          <div className="overflow-x-auto bg-gray-800 rounded-lg shadow-md mb-4 max-h-[60vh]">
+            <table className="min-w-full">
+              <thead className="bg-gray-700 sticky top-0">
+                <tr>
+                  {["Row", "Title", "Status", "Category", "Location", "Date", "Problems"].map((heading) => (
+                    <th
+                      key={heading}
+                      className="p-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider"
+                    >
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {results.map((result) => {
+                  const cell = (field: ImportField) => {
+                    const index = mapping?.[field];
+                    return index === null || index === undefined ? "" : dataRows[result.row - 2][index] ?? "";
+                  };
+                  return (
+                    <tr key={result.row} className={result.errors.length > 0 ? "bg-red-950/40" : ""}>
+                      <td className="p-3 text-sm text-gray-400">{result.row}</td>
+                      <td className="p-3 text-sm">{cell("title")}</td>
+                      <td className="p-3 text-sm">{cell("status")}</td>
+                      <td className="p-3 text-sm">{cell("category")}</td>
+                      <td className="p-3 text-sm">{cell("location_description")}</td>
+                      <td className="p-3 text-sm whitespace-nowrap">{cell("date_lost_or_found")}</td>
+                      <td className="p-3 text-sm text-red-300">
+                        {result.errors.length > 0 ? result.errors.join(" ") : <span className="text-green-400">OK</span>}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          {invalidCount > 0 && (
+            <label className="flex items-center gap-2 text-sm mb-4">
+              <input type="checkbox" checked={skipInvalid} onChange={(e) => setSkipInvalid(e.target.checked)} />
+              Skip the {invalidCount} rows with problems
+            </label>
+          )}
+          <div className="flex gap-3">
+            <button
+              onClick={handleImport}
+              disabled={busy || validRows.length === 0 || (invalidCount > 0 && !skipInvalid)}
+              className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 rounded text-sm font-medium disabled:bg-gray-600"
+            >
+              {busy ? "Importing..." : `Import ${validRows.length} items`}
+            </button>
+            <button onClick={() => setStep("map")} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded text-sm">
+              Back to columns
+            </button>
+          </div>
+        </section>
+      )}
+
+      {step === "done" && (
+        <section className="bg-gray-800 rounded-lg p-6 max-w-xl">
+          <h2 className="text-xl font-semibold mb-2">Import complete</h2>
+          <p className="text-sm text-gray-300 mb-4">
+            {importedCount} items were added. Matching ran for each of them, so reporters of similar
+            items have been notified.
+          </p>
+          <div className="flex gap-3">
+            <Link href="/admin" className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 rounded text-sm font-medium">
+              Back to dashboard
+            </Link>
+            <button onClick={startOver} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded text-sm">
+              Import another file
+            </button>
+          </div>
+        </section>
+      )}
+    </div>
+  );
+}
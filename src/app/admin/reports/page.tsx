@@ -0,0 +1,359 @@
+// src/app/admin/reports/page.tsx
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
+import { addDays, format, formatDistanceToNow } from "date-fns";
+import {
+  ContentReport,
+  Profile,
+  ReportOutcome,
+  ReportOutcomeNames,
+  ReportReason,
+  ReportReasonNames,
+  ReportTargetType,
+} from "@/types/database";
+import { hasPermission } from "@/lib/auth/roles";
+import { useAdminCheck } from "@/components/admin/useAdminCheck";
+
+type ReportWithNames = ContentReport & {
+  reporter: Pick<Profile, "full_name"> | null;
+  reported_user: Pick<Profile, "full_name"> | null;
+};
+
+// Open reports on the same content are reviewed and resolved together
+interface ReportGroup {
+  key: string;
+  targetType: ReportTargetType;
+  reports: ReportWithNames[];
+}
+
+type QueueFilter = "open" | "resolved";
+
+const TARGET_LABELS: Record<ReportTargetType, string> = {
+  item: "Listing",
+  claim: "Claim",
+  message: "Message",
+};
+
+const inputClassName = "bg-gray-700 border border-gray-600 rounded p-2 text-sm text-white";
+
+// The snapshot report_content took when the first report came in
+function Evidence({ report }: { report: ContentReport }) {
+  const { evidence } = report;
+
+  if (report.target_type === "item") {
+    return (
+      <div className="flex gap-4">
+        {evidence.image_url && (
+          <div className="w-24 h-24 relative flex-shrink-0">
+            <Image src={evidence.image_url} alt={evidence.title || "Item"} fill sizes="96px" className="object-cover rounded" />
+          </div>
+        )}
+        <div className="text-sm">
+          <p className="font-semibold">
+            {evidence.title} <span className="text-xs font-normal text-gray-400 capitalize">({evidence.status})</span>
+          </p>
+          {evidence.location_description && <p className="text-gray-400">{evidence.location_description}</p>}
+          <p className="text-gray-300 whitespace-pre-wrap mt-1">{evidence.description || "No description."}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (report.target_type === "claim") {
+    return (
+      <div className="text-sm">
+        <p className="text-gray-400">
+          Claim on <span className="text-white">{evidence.item_title || "a deleted item"}</span> ·{" "}
+          <span className="capitalize">{evidence.status}</span>
+          {evidence.date_claimed && ` · ${format(new Date(evidence.date_claimed), "PP")}`}
+        </p>
+        <blockquote className="mt-1 p-3 rounded bg-gray-900 border-l-4 border-indigo-500 text-gray-300 italic">
+          {evidence.claim_description}
+        </blockquote>
+      </div>
+    );
+  }
+
+  return (
+    <div className="text-sm">
+      <p className="text-gray-400 mb-2">
+        Chat about <span className="text-white">{evidence.item_title || "a deleted item"}</span>
+      </p>
+      <div className="space-y-1">
+        {(evidence.context || []).map((message) => (
+          <div
+            key={message.id}
+            className={`p-2 rounded ${message.id === report.target_id ? "bg-red-900/40 border border-red-700" : "bg-gray-900"}`}
+          >
+            <span className="font-medium">{message.sender_name || "Unnamed user"}</span>{" "}
+            <span className="text-xs text-gray-500">{format(new Date(message.created_at), "PPp")}</span>
+            <p className="text-gray-300 whitespace-pre-wrap">{message.body || "(attachment)"}</p>
+          </div>
+        ))}
+      </div>
+      {!!evidence.attachment_count && (
+        <p className="text-xs text-gray-500 mt-1">
+          The reported message had {evidence.attachment_count} attachment(s), which are not copied.
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default function ReportsQueuePage() {
+  const supabase = createClientComponentClient();
+  const role = useAdminCheck("moderateReports");
+  const roleChecked = role !== null;
+  const canSuspend = hasPermission(role, "manageUsers");
+
+  const [filter, setFilter] = useState<QueueFilter>("open");
+  const [reports, setReports] = useState<ReportWithNames[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  // Outcome form state per group
+  const [outcomes, setOutcomes] = useState<Record<string, ReportOutcome>>({});
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [suspendUntil, setSuspendUntil] = useState<Record<string, string>>({});
+
+  const fetchReports = useCallback(async () => {
+    setLoading(true);
+    const { data, error: reportsError } = await supabase
+      .from("content_reports")
+      .select("*, reporter:profiles!reporter_id(full_name), reported_user:profiles!reported_user_id(full_name)")
+      .eq("status", filter)
+      // Oldest first while working the queue, newest first when looking back
+      .order(filter === "open" ? "created_at" : "resolved_at", { ascending: filter === "open" })
+      .limit(200);
+    if (reportsError) {
+      console.error("Error loading reports:", reportsError);
+      setError(`Error loading reports: ${reportsError.message}`);
+    } else {
+      setReports((data || []) as ReportWithNames[]);
+    }
+    setLoading(false);
+  }, [supabase, filter]);
+
+  useEffect(() => {
+    if (!roleChecked) return;
+    fetchReports();
+  }, [roleChecked, fetchReports]);
+
+  const groups = useMemo(() => {
+    const byTarget = new Map<string, ReportGroup>();
+    for (const report of reports) {
+      const key = filter === "open" ? `${report.target_type}:${report.target_id}` : report.id;
+      const group = byTarget.get(key) || { key, targetType: report.target_type, reports: [] };
+      group.reports.push(report);
+      byTarget.set(key, group);
+    }
+    // Content reported by the most people first
+    return Array.from(byTarget.values()).sort((a, b) =>
+      filter === "open" ? b.reports.length - a.reports.length : 0
+    );
+  }, [reports, filter]);
+
+  const resolve = async (group: ReportGroup) => {
+    const outcome = outcomes[group.key] || "dismissed";
+    const report = group.reports[0];
+    const until = suspendUntil[group.key];
+    if (outcome === "user_suspended" && !until) {
+      setError("Pick when the suspension ends.");
+      return;
+    }
+    if (outcome !== "dismissed" && !confirm(`${ReportOutcomeNames[outcome]}: apply this outcome?`)) {
+      return;
+    }
+    setBusyKey(group.key);
+    setError(null);
+    setMessage(null);
+    const { data, error: resolveError } = await supabase.rpc("resolve_content_report", {
+      p_report_id: report.id,
+      p_outcome: outcome,
+      p_note: notes[group.key]?.trim() || null,
+      p_suspend_until: outcome === "user_suspended" ? new Date(`${until}T23:59:59`).toISOString() : null,
+    });
+    setBusyKey(null);
+    if (resolveError) {
+      setError(resolveError.message);
+      return;
+    }
+    const resolvedCount = ((data as ContentReport[]) || []).length;
+    setMessage(
+      `${ReportOutcomeNames[outcome]}. ${resolvedCount} report${resolvedCount === 1 ? "" : "s"} resolved and the reporters notified.`
+    );
+    await fetchReports();
+  };
+
+  if (!roleChecked) {
+    return <div className="p-6 bg-gray-900 min-h-screen text-white">Checking access...</div>;
+  }
+
+  return (
+    <div className="p-6 bg-gray-900 min-h-screen text-white">
+      <Link href="/admin" className="text-sm text-indigo-300 hover:underline">
+        ← Admin Dashboard
+      </Link>
+      <div className="flex flex-wrap items-center justify-between gap-3 mt-2 mb-6">
+        <h1 className="text-3xl font-bold">Reported Content</h1>
+        <button
+          onClick={fetchReports}
+          className="px-3 py-1.5 rounded-md bg-indigo-600 hover:bg-indigo-700 font-medium text-sm"
+        >
+          Refresh
+        </button>
+      </div>
+
+      {error && <div className="mb-4 p-3 rounded bg-red-900 text-red-200">{error}</div>}
+      {message && <div className="mb-4 p-3 rounded bg-green-900 text-green-200">{message}</div>}
+
+      <nav className="flex flex-wrap gap-2 mb-4 text-sm">
+        {(["open", "resolved"] as QueueFilter[]).map((key) => (
+          <button
+            key={key}
+            onClick={() => setFilter(key)}
+            className={`px-3 py-1.5 rounded-md ${
+              filter === key ? "bg-indigo-600 text-white" : "bg-gray-800 hover:bg-gray-700 text-gray-300"
+            }`}
+          >
+            {key === "open" ? "Open" : "Resolved"}
+          </button>
+        ))}
+      </nav>
+
+      {loading ? (
+        <p>Loading reports...</p>
+      ) : groups.length === 0 ? (
+        <p className="text-gray-400">{filter === "open" ? "Nothing to review." : "No resolved reports yet."}</p>
+      ) : (
+        <div className="space-y-4">
+          {groups.map((group) => {
+            const first = group.reports[0];
+            const busy = busyKey === group.key;
+            const reasonCounts = group.reports.reduce<Partial<Record<ReportReason, number>>>((counts, report) => {
+              counts[report.reason] = (counts[report.reason] || 0) + 1;
+              return counts;
+            }, {});
+            const availableOutcomes = (Object.keys(ReportOutcomeNames) as ReportOutcome[]).filter(
+              (outcome) =>
+                (outcome !== "item_hidden" || group.targetType === "item") &&
+                (outcome !== "user_suspended" || canSuspend)
+            );
+            const selectedOutcome = outcomes[group.key] || "dismissed";
+
+            return (
+              <section key={group.key} className="bg-gray-800 rounded-lg shadow-md p-4">
+                <div className="flex flex-wrap items-center gap-2 mb-3 text-sm">
+                  <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-gray-600">
+                    {TARGET_LABELS[group.targetType]}
+                  </span>
+                  {(Object.entries(reasonCounts) as [ReportReason, number][]).map(([reason, count]) => (
+                    <span key={reason} className="px-2 py-0.5 rounded-full text-xs font-semibold bg-red-700">
+                      {ReportReasonNames[reason]}
+                      {count > 1 && ` ×${count}`}
+                    </span>
+                  ))}
+                  <span className="text-gray-400">
+                    by {first.reported_user?.full_name || "Unnamed user"}
+                    {canSuspend && first.reported_user_id && (
+                      <>
+                        {" "}
+                        <Link
+                          href={`/admin/users/${first.reported_user_id}`}
+                          className="text-indigo-400 hover:text-indigo-300"
+                        >
+                          (account)
+                        </Link>
+                      </>
+                    )}
+                  </span>
+                  {first.item_id && (
+                    <Link href={`/item/${first.item_id}`} className="ml-auto text-indigo-400 hover:text-indigo-300">
+                      View item
+                    </Link>
+                  )}
+                </div>
+
+                <Evidence report={first} />
+
+                <ul className="mt-3 space-y-1 text-sm">
+                  {group.reports.map((report) => (
+                    <li key={report.id} className="text-gray-300">
+                      <span className="font-medium">{report.reporter?.full_name || "Deleted user"}</span>{" "}
+                      <span className="text-xs text-gray-500">
+                        {formatDistanceToNow(new Date(report.created_at), { addSuffix: true })} ·{" "}
+                        {ReportReasonNames[report.reason]}
+                      </span>
+                      {report.details && <span className="block text-gray-400">“{report.details}”</span>}
+                    </li>
+                  ))}
+                </ul>
+
+                {filter === "open" ? (
+                  <div className="mt-4 flex flex-wrap items-start gap-3">
+                    <select
+                      value={selectedOutcome}
+                      onChange={(e) =>
+                        setOutcomes((prev) => ({ ...prev, [group.key]: e.target.value as ReportOutcome }))
+                      }
+                      disabled={busy}
+                      className={inputClassName}
+                    >
+                      {availableOutcomes.map((outcome) => (
+                        <option key={outcome} value={outcome}>
+                          {outcome === "dismissed" ? "Dismiss" : ReportOutcomeNames[outcome]}
+                        </option>
+                      ))}
+                    </select>
+                    {selectedOutcome === "user_suspended" && (
+                      <input
+                        type="date"
+                        value={suspendUntil[group.key] || ""}
+                        min={format(addDays(new Date(), 1), "yyyy-MM-dd")}
+                        onChange={(e) => setSuspendUntil((prev) => ({ ...prev, [group.key]: e.target.value }))}
+                        title="Suspended until"
+                        className={inputClassName}
+                      />
+                    )}
+                    <input
+                      type="text"
+                      value={notes[group.key] || ""}
+                      onChange={(e) => setNotes((prev) => ({ ...prev, [group.key]: e.target.value }))}
+                      maxLength={500}
+                      placeholder={
+                        selectedOutcome === "dismissed"
+                          ? "Note for the record (optional)"
+                          : "Note, shown to the user (optional)"
+                      }
+                      className={`${inputClassName} flex-1 min-w-[16rem]`}
+                    />
+                    <button
+                      onClick={() => resolve(group)}
+                      disabled={busy}
+                      className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 rounded text-sm font-medium disabled:bg-gray-600"
+                    >
+                      {busy ? "Resolving..." : "Resolve"}
+                    </button>
+                  </div>
+                ) : (
+                  first.outcome && (
+                    <p className="mt-3 text-sm text-gray-400">
+                      <span className="font-semibold text-gray-200">{ReportOutcomeNames[first.outcome]}</span>
+                      {first.resolved_at && ` ${formatDistanceToNow(new Date(first.resolved_at), { addSuffix: true })}`}
+                      {first.resolution_note && `: ${first.resolution_note}`}
+                    </p>
+                  )
+                )}
+              </section>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,612 @@
+// src/app/admin/retention/page.tsx
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
+import { format, formatDistanceToNow, isPast } from "date-fns";
+import {
+  CategoryNames,
+  DisposalOutcome,
+  DisposalOutcomeNames,
+  ItemDisposal,
+  ItemRetentionStatus,
+  RetentionRule,
+} from "@/types/database";
+import { hasPermission } from "@/lib/auth/roles";
+import { useAdminCheck } from "@/components/admin/useAdminCheck";
+
+interface Category {
+  id: number;
+  name: string;
+}
+
+// item_disposals row joined with the item title and who recorded it
+interface DisposalWithItem extends ItemDisposal {
+  item: { title: string } | null;
+  disposer: { full_name: string | null } | null;
+}
+
+type RuleDraft = Pick<
+  RetentionRule,
+  "retention_days" | "warning_days" | "disposal_outcome" | "disposal_destination" | "is_active"
+>;
+
+const DISPOSAL_OUTCOMES = Object.keys(DisposalOutcomeNames) as DisposalOutcome[];
+
+const inputClassName = "bg-gray-700 border border-gray-600 rounded p-2 text-sm text-white";
+
+const categoryLabel = (name?: string) =>
+  name ? CategoryNames[name as keyof typeof CategoryNames] || name : "Unknown";
+
+export default function RetentionPage() {
+  const supabase = createClientComponentClient();
+  const role = useAdminCheck("recordDisposals");
+  const roleChecked = role !== null;
+  // Security staff record disposals at the desk; only admins set the rules
+  const canManageRules = hasPermission(role, "manageRetention");
+
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [rules, setRules] = useState<RetentionRule[]>([]);
+  const [queue, setQueue] = useState<ItemRetentionStatus[]>([]);
+  const [disposals, setDisposals] = useState<DisposalWithItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  // Unsaved edits, keyed by rule id ("new" for the add-rule form)
+  const [ruleDrafts, setRuleDrafts] = useState<Record<string, RuleDraft>>({});
+  const [newRuleCategoryId, setNewRuleCategoryId] = useState("");
+  const [disposing, setDisposing] = useState<{
+    item: ItemRetentionStatus;
+    outcome: DisposalOutcome;
+    destination: string;
+    notes: string;
+  } | null>(null);
+
+  const fetchData = useCallback(async () => {
+    setError(null);
+    const [categoriesResult, rulesResult, queueResult, disposalsResult] = await Promise.all([
+      supabase.from("categories").select("id, name").order("name"),
+      supabase.from("retention_rules").select("*"),
+      supabase.from("item_retention_status").select("*").order("disposal_due_at", { ascending: true }).limit(200),
+      supabase
+        .from("item_disposals")
+        .select("*, item:items(title), disposer:profiles!disposed_by(full_name)")
+        .order("disposed_at", { ascending: false })
+        .limit(50),
+    ]);
+
+    const firstError =
+      categoriesResult.error || rulesResult.error || queueResult.error || disposalsResult.error;
+    if (firstError) {
+      console.error("Error loading retention data:", firstError);
+      setError(`Error loading retention data: ${firstError.message}`);
+    }
+    setCategories((categoriesResult.data || []) as Category[]);
+    setRules((rulesResult.data || []) as RetentionRule[]);
+    setQueue((queueResult.data || []) as ItemRetentionStatus[]);
+    setDisposals((disposalsResult.data || []) as DisposalWithItem[]);
+    setLoading(false);
+  }, [supabase]);
+
+  useEffect(() => {
+    if (!roleChecked) return;
+    fetchData();
+  }, [roleChecked, fetchData]);
+
+  const categoryNameById = useMemo(
+    () => Object.fromEntries(categories.map((category) => [category.id, category.name])),
+    [categories]
+  );
+  const categoriesWithoutRule = categories.filter(
+    (category) => !rules.some((rule) => rule.category_id === category.id)
+  );
+
+  const runAction = async (action: () => PromiseLike<{ error: { message: string } | null }>, success: string) => {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    const { error: actionError } = await action();
+    setBusy(false);
+    if (actionError) {
+      setError(actionError.message);
+      return false;
+    }
+    setMessage(success);
+    await fetchData();
+    return true;
+  };
+
+  const draftFor = (rule: RetentionRule): RuleDraft => ruleDrafts[rule.id] ?? rule;
+  const newRuleDraft: RuleDraft = ruleDrafts.new ?? {
+    retention_days: 30,
+    warning_days: 3,
+    disposal_outcome: "donated",
+    disposal_destination: null,
+    is_active: true,
+  };
+  const updateDraft = (key: string, current: RuleDraft, patch: Partial<RuleDraft>) =>
+    setRuleDrafts((drafts) => ({ ...drafts, [key]: { ...current, ...patch } }));
+
+  const clearDraft = (key: string) =>
+    setRuleDrafts((drafts) => {
+      const next = { ...drafts };
+      delete next[key];
+      return next;
+    });
+
+  const validateDraft = (draft: RuleDraft) => {
+    if (!Number.isInteger(draft.retention_days) || draft.retention_days < 1) {
+      return "Retention must be at least one day.";
+    }
+    if (!Number.isInteger(draft.warning_days) || draft.warning_days < 0 || draft.warning_days >= draft.retention_days) {
+      return "The warning must come before the deadline.";
+    }
+    return null;
+  };
+
+  const saveRule = async (rule: RetentionRule) => {
+    const draft = draftFor(rule);
+    const validationError = validateDraft(draft);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    const ok = await runAction(
+      () =>
+        supabase
+          .from("retention_rules")
+          .update({ ...draft, disposal_destination: draft.disposal_destination?.trim() || null })
+          .eq("id", rule.id),
+      "Rule saved."
+    );
+    if (ok) clearDraft(rule.id);
+  };
+
+  const addRule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const validationError = validateDraft(newRuleDraft);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    const ok = await runAction(
+      () =>
+        supabase.from("retention_rules").insert({
+          ...newRuleDraft,
+          category_id: Number(newRuleCategoryId),
+          disposal_destination: newRuleDraft.disposal_destination?.trim() || null,
+        }),
+      "Rule added."
+    );
+    if (ok) {
+      setNewRuleCategoryId("");
+      clearDraft("new");
+    }
+  };
+
+  const deleteRule = async (rule: RetentionRule) => {
+    if (!confirm(`Delete the retention rule for ${categoryLabel(categoryNameById[rule.category_id])}?`)) return;
+    await runAction(() => supabase.from("retention_rules").delete().eq("id", rule.id), "Rule deleted.");
+  };
+
+  const runRetentionNow = async () => {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    const { data, error: runError } = await supabase.rpc("apply_retention_rules").single();
+    setBusy(false);
+    if (runError) {
+      setError(runError.message);
+      return;
+    }
+    const { warned, disposed } = data as { warned: number; disposed: number };
+    setMessage(`Retention run complete: ${warned} warned, ${disposed} disposed of.`);
+    await fetchData();
+  };
+
+  const recordDisposal = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!disposing) return;
+    const ok = await runAction(
+      () =>
+        supabase.rpc("record_item_disposal", {
+          p_item_id: disposing.item.item_id,
+          p_outcome: disposing.outcome,
+          p_destination: disposing.destination || null,
+          p_notes: disposing.notes || null,
+        }),
+      "Disposal recorded and item archived."
+    );
+    if (ok) setDisposing(null);
+  };
+
+  const queueStatus = (row: ItemRetentionStatus) => {
+    if (row.on_hold) return { label: "On hold (open claim)", className: "bg-blue-500" };
+    if (isPast(new Date(row.disposal_due_at))) return { label: "Overdue", className: "bg-red-500" };
+    if (row.retention_warned_at) return { label: "Warned", className: "bg-yellow-500" };
+    if (isPast(new Date(row.warn_from))) return { label: "Warning due", className: "bg-orange-500" };
+    return { label: "Within retention", className: "bg-gray-500" };
+  };
+
+  if (!roleChecked) {
+    return <div className="p-6 bg-gray-900 min-h-screen text-white">Checking access...</div>;
+  }
+
+  return (
+    <div className="p-6 bg-gray-900 min-h-screen text-white">
+      <Link href="/admin" className="text-sm text-indigo-300 hover:underline">
+        ← Admin Dashboard
+      </Link>
+      <div className="flex flex-wrap items-center justify-between gap-4 mt-2 mb-6">
+        <h1 className="text-3xl font-bold">Retention & Disposal</h1>
+        {canManageRules && (
+          <button
+            onClick={runRetentionNow}
+            disabled={busy}
+            className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 rounded text-sm font-medium disabled:bg-gray-600"
+          >
+            Run retention now
+          </button>
+        )}
+      </div>
+
+      {error && <div className="mb-4 p-3 rounded bg-red-900 text-red-200">{error}</div>}
+      {message && <div className="mb-4 p-3 rounded bg-green-900 text-green-200">{message}</div>}
+
+      {/* Rules Section */}
+      {canManageRules && (
+        <section className="mb-8">
+          <h2 className="text-2xl font-semibold mb-4">Rules by Category</h2>
+          <div className="overflow-x-auto bg-gray-800 rounded-lg shadow-md">
+            <table className="min-w-full">
+              <thead className="bg-gray-700">
+                <tr>
+                  {["Category", "Keep (days)", "Warn (days before)", "Outcome", "Destination", "Active", "Actions"].map(
+                    (heading) => (
+                      <th
+                        key={heading}
+                        className="p-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider"
+                      >
+                        {heading}
+                      </th>
+                    )
+                  )}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {rules.map((rule) => {
+                  const draft = draftFor(rule);
+                  const dirty = rule.id in ruleDrafts;
+                  return (
+                    <tr key={rule.id}>
+                      <td className="p-3 text-sm">{categoryLabel(categoryNameById[rule.category_id])}</td>
+                      <td className="p-3">
+                        <input
+                          type="number"
+                          min={1}
+                          value={draft.retention_days}
+                          onChange={(e) => updateDraft(rule.id, draft, { retention_days: Number(e.target.value) })}
+                          className={`${inputClassName} w-24`}
+                        />
+                      </td>
+                      <td className="p-3">
+                        <input
+                          type="number"
+                          min={0}
+                          value={draft.warning_days}
+                          onChange={(e) => updateDraft(rule.id, draft, { warning_days: Number(e.target.value) })}
+                          className={`${inputClassName} w-24`}
+                        />
+                      </td>
+                      <td className="p-3">
+                        <select
+                          value={draft.disposal_outcome}
+                          onChange={(e) =>
+                            updateDraft(rule.id, draft, { disposal_outcome: e.target.value as DisposalOutcome })
+                          }
+                          className={inputClassName}
+                        >
+                          {DISPOSAL_OUTCOMES.map((outcome) => (
+                            <option key={outcome} value={outcome}>
+                              {DisposalOutcomeNames[outcome]}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="p-3">
+                        <input
+                          type="text"
+                          value={draft.disposal_destination || ""}
+                          onChange={(e) => updateDraft(rule.id, draft, { disposal_destination: e.target.value })}
+                          placeholder="e.g. Registrar's Office"
+                          maxLength={200}
+                          className={inputClassName}
+                        />
+                      </td>
+                      <td className="p-3">
+                        <input
+                          type="checkbox"
+                          checked={draft.is_active}
+                          onChange={(e) => updateDraft(rule.id, draft, { is_active: e.target.checked })}
+                        />
+                      </td>
+                      <td className="p-3 whitespace-nowrap text-sm">
+                        <button
+                          onClick={() => saveRule(rule)}
+                          disabled={!dirty || busy}
+                          className="text-indigo-400 hover:text-indigo-300 font-medium mr-2 disabled:text-gray-500"
+                        >
+                          Save
+                        </button>
+                        <button
+                          onClick={() => deleteRule(rule)}
+                          disabled={busy}
+                          className="text-red-400 hover:text-red-300 font-medium"
+                        >
+                          Delete
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {categoriesWithoutRule.length > 0 && (
+            <form onSubmit={addRule} className="flex flex-wrap items-center gap-3 mt-4">
+              <select
+                value={newRuleCategoryId}
+                onChange={(e) => setNewRuleCategoryId(e.target.value)}
+                className={inputClassName}
+                required
+              >
+                <option value="">Add rule for category...</option>
+                {categoriesWithoutRule.map((category) => (
+                  <option key={category.id} value={category.id}>
+                    {categoryLabel(category.name)}
+                  </option>
+                ))}
+              </select>
+              <label className="text-sm text-gray-300">
+                Keep{" "}
+                <input
+                  type="number"
+                  min={1}
+                  value={newRuleDraft.retention_days}
+                  onChange={(e) => updateDraft("new", newRuleDraft, { retention_days: Number(e.target.value) })}
+                  className={`${inputClassName} w-20`}
+                />{" "}
+                days
+              </label>
+              <label className="text-sm text-gray-300">
+                Warn{" "}
+                <input
+                  type="number"
+                  min={0}
+                  value={newRuleDraft.warning_days}
+                  onChange={(e) => updateDraft("new", newRuleDraft, { warning_days: Number(e.target.value) })}
+                  className={`${inputClassName} w-20`}
+                />{" "}
+                days before
+              </label>
+              <select
+                value={newRuleDraft.disposal_outcome}
+                onChange={(e) =>
+                  updateDraft("new", newRuleDraft, { disposal_outcome: e.target.value as DisposalOutcome })
+                }
+                className={inputClassName}
+              >
+                {DISPOSAL_OUTCOMES.map((outcome) => (
+                  <option key={outcome} value={outcome}>
+                    {DisposalOutcomeNames[outcome]}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={newRuleDraft.disposal_destination || ""}
+                onChange={(e) => updateDraft("new", newRuleDraft, { disposal_destination: e.target.value })}
+                placeholder="Destination (optional)"
+                maxLength={200}
+                className={inputClassName}
+              />
+              <button
+                type="submit"
+                disabled={busy}
+                className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 rounded text-sm font-medium disabled:bg-gray-600"
+              >
+                Add rule
+              </button>
+            </form>
+          )}
+        </section>
+      )}
+
+      {/* Deadline Queue Section */}
+      <section className="mb-8">
+        <h2 className="text-2xl font-semibold mb-4">Upcoming Deadlines</h2>
+        {loading ? (
+          <p>Loading deadlines...</p>
+        ) : queue.length === 0 ? (
+          <p className="text-gray-400 text-center py-8">No unclaimed found items are covered by a rule.</p>
+        ) : (
+          <div className="overflow-x-auto bg-gray-800 rounded-lg shadow-md">
+            <table className="min-w-full">
+              <thead className="bg-gray-700">
+                <tr>
+                  {["Item", "Category", "Disposal due", "Outcome", "Status", "Actions"].map((heading) => (
+                    <th
+                      key={heading}
+                      className="p-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider"
+                    >
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {queue.map((row) => {
+                  const status = queueStatus(row);
+                  return (
+                    <tr key={row.item_id}>
+                      <td className="p-3 text-sm text-indigo-400 font-medium">
+                        <Link href={`/item/${row.item_id}`} target="_blank">
+                          {row.title}
+                        </Link>
+                        {row.in_custody && <span className="ml-2 text-xs text-gray-400">(in custody)</span>}
+                      </td>
+                      <td className="p-3 whitespace-nowrap text-sm text-gray-300">
+                        {categoryLabel(categoryNameById[row.category_id])}
+                      </td>
+                      <td className="p-3 whitespace-nowrap text-sm text-gray-300">
+                        {format(new Date(row.disposal_due_at), "PP")}
+                        <span className="block text-xs text-gray-500">
+                          {formatDistanceToNow(new Date(row.disposal_due_at), { addSuffix: true })}
+                        </span>
+                      </td>
+                      <td className="p-3 whitespace-nowrap text-sm text-gray-300">
+                        {DisposalOutcomeNames[row.disposal_outcome]}
+                        {row.disposal_destination && (
+                          <span className="block text-xs text-gray-500">{row.disposal_destination}</span>
+                        )}
+                      </td>
+                      <td className="p-3 whitespace-nowrap text-sm">
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-semibold text-white ${status.className}`}>
+                          {status.label}
+                        </span>
+                      </td>
+                      <td className="p-3 whitespace-nowrap text-sm">
+                        <button
+                          onClick={() =>
+                            setDisposing({
+                              item: row,
+                              outcome: row.disposal_outcome,
+                              destination: row.disposal_destination || "",
+                              notes: "",
+                            })
+                          }
+                          disabled={row.on_hold}
+                          className="text-yellow-400 hover:text-yellow-300 font-medium disabled:text-gray-500"
+                        >
+                          Record disposal
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      {/* Disposal Log Section */}
+      <section className="mb-8">
+        <h2 className="text-2xl font-semibold mb-4">Recent Disposals</h2>
+        {disposals.length === 0 ? (
+          <p className="text-gray-400 text-center py-8">No disposals recorded yet.</p>
+        ) : (
+          <div className="overflow-x-auto bg-gray-800 rounded-lg shadow-md">
+            <table className="min-w-full">
+              <thead className="bg-gray-700">
+                <tr>
+                  {["Item", "Outcome", "Destination", "Recorded by", "When", "Notes"].map((heading) => (
+                    <th
+                      key={heading}
+                      className="p-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider"
+                    >
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {disposals.map((disposal) => (
+                  <tr key={disposal.id}>
+                    <td className="p-3 text-sm text-indigo-400 font-medium">
+                      <Link href={`/item/${disposal.item_id}`} target="_blank">
+                        {disposal.item?.title || "Deleted item"}
+                      </Link>
+                    </td>
+                    <td className="p-3 whitespace-nowrap text-sm text-gray-300">
+                      {DisposalOutcomeNames[disposal.outcome]}
+                    </td>
+                    <td className="p-3 text-sm text-gray-300">{disposal.destination || "—"}</td>
+                    <td className="p-3 whitespace-nowrap text-sm text-gray-300">
+                      {disposal.is_automatic ? "Retention job" : disposal.disposer?.full_name || "Unknown"}
+                    </td>
+                    <td className="p-3 whitespace-nowrap text-sm text-gray-400">
+                      {format(new Date(disposal.disposed_at), "PPp")}
+                    </td>
+                    <td className="p-3 text-sm text-gray-400">{disposal.notes || "—"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      {disposing && (
+        <div className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-60 z-50 p-4">
+          <form onSubmit={recordDisposal} className="bg-gray-800 text-white rounded-lg p-6 max-w-md w-full space-y-4">
+            <div>
+              <h2 className="text-xl font-bold">Record Disposal</h2>
+              <p className="text-sm text-gray-400">{disposing.item.title}</p>
+            </div>
+            <select
+              value={disposing.outcome}
+              onChange={(e) => setDisposing({ ...disposing, outcome: e.target.value as DisposalOutcome })}
+              className={`${inputClassName} w-full`}
+            >
+              {DISPOSAL_OUTCOMES.map((outcome) => (
+                <option key={outcome} value={outcome}>
+                  {DisposalOutcomeNames[outcome]}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={disposing.destination}
+              onChange={(e) => setDisposing({ ...disposing, destination: e.target.value })}
+              placeholder="Destination (e.g. Registrar's Office, charity name)"
+              maxLength={200}
+              className={`${inputClassName} w-full`}
+            />
+            <textarea
+              value={disposing.notes}
+              onChange={(e) => setDisposing({ ...disposing, notes: e.target.value })}
+              placeholder="Notes (who received it, reference number...)"
+              maxLength={500}
+              rows={3}
+              className={`${inputClassName} w-full`}
+            />
+            <p className="text-xs text-gray-400">
+              The item will be archived, released from custody and the reporter notified.
+            </p>
+            <div className="flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => setDisposing(null)}
+                className="px-4 py-2 bg-gray-600 hover:bg-gray-700 rounded text-sm"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={busy}
+                className="px-4 py-2 bg-yellow-600 hover:bg-yellow-700 rounded text-sm font-medium disabled:bg-gray-600"
+              >
+                Dispose & archive
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+// src/app/admin/roles/page.tsx
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
+import { Profile, UserRole, UserRoleValues } from "@/types/database";
+import { USER_ROLE_LABELS } from "@/lib/auth/roles";
+import { useAdminCheck } from "@/components/admin/useAdminCheck";
+
+type RoleRow = Pick<Profile, "id" | "full_name" | "avatar_url"> & { role: UserRole };
+
+const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  user: "Reports items and makes claims.",
+  moderator: "Decides claims on any item, flags fraud, edits item reports and reviews matches.",
+  security_staff: "Runs the custody desk, confirms handovers and answers security chats.",
+  admin: "Everything, including retention rules and role assignments.",
+};
+
+const inputClassName = "bg-gray-700 border border-gray-600 rounded p-2 text-sm text-white";
+
+export default function StaffRolesPage() {
+  const supabase = createClientComponentClient();
+  const roleChecked = useAdminCheck("manageRoles") !== null;
+
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [staff, setStaff] = useState<RoleRow[]>([]);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [searchResults, setSearchResults] = useState<RoleRow[] | null>(null);
+  // Role picked in a row's select but not saved yet, keyed by user id
+  const [pendingRoles, setPendingRoles] = useState<Record<string, UserRole>>({});
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fetchStaff = useCallback(async () => {
+    const { data, error: staffError } = await supabase
+      .from("profiles")
+      .select("id, full_name, avatar_url, role")
+      .neq("role", "user")
+      .order("role")
+      .order("full_name");
+    if (staffError) {
+      console.error("Error loading staff:", staffError);
+      setError(`Error loading staff: ${staffError.message}`);
+    } else {
+      setStaff((data || []) as RoleRow[]);
+    }
+    setLoading(false);
+  }, [supabase]);
+
+  useEffect(() => {
+    if (!roleChecked) return;
+    supabase.auth.getUser().then(({ data: { user } }) => setCurrentUserId(user?.id || null));
+    fetchStaff();
+  }, [roleChecked, supabase, fetchStaff]);
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const term = searchTerm.trim();
+    if (!term) {
+      setSearchResults(null);
+      return;
+    }
+    setError(null);
+    // Escape LIKE wildcards so names are matched literally
+    const pattern = `%${term.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+    const { data, error: searchError } = await supabase
+      .from("profiles")
+      .select("id, full_name, avatar_url, role")
+      .ilike("full_name", pattern)
+      .order("full_name")
+      .limit(20);
+    if (searchError) {
+      setError(`Search failed: ${searchError.message}`);
+      return;
+    }
+    setSearchResults((data || []) as RoleRow[]);
+  };
+
+  const saveRole = async (row: RoleRow) => {
+    const role = pendingRoles[row.id];
+    if (!role || role === row.role) return;
+    if (
+      row.role === "admin" &&
+      !confirm(`Remove admin rights from ${row.full_name || "this user"}?`)
+    ) {
+      return;
+    }
+
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    const { error: roleError } = await supabase.rpc("set_user_role", {
+      p_user_id: row.id,
+      p_role: role,
+    });
+    setBusy(false);
+    if (roleError) {
+      setError(roleError.message);
+      return;
+    }
+
+    setMessage(`${row.full_name || "User"} is now ${USER_ROLE_LABELS[role].toLowerCase()}.`);
+    setPendingRoles((roles) => {
+      const next = { ...roles };
+      delete next[row.id];
+      return next;
+    });
+    setSearchResults((results) =>
+      results ? results.map((result) => (result.id === row.id ? { ...result, role } : result)) : results
+    );
+    await fetchStaff();
+  };
+
+  const renderTable = (rows: RoleRow[]) => (
+    <div className="overflow-x-auto bg-gray-800 rounded-lg shadow-md">
+      <table className="min-w-full">
+        <thead className="bg-gray-700">
+          <tr>
+            {["User", "Role", "Actions"].map((heading) => (
+              <th
+                key={heading}
+                className="p-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider"
+              >
+                {heading}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-700">
+          {rows.map((row) => {
+            const selectedRole = pendingRoles[row.id] ?? row.role;
+            const isSelf = row.id === currentUserId;
+            return (
+              <tr key={row.id}>
+                <td className="p-3 text-sm">
+                  {row.full_name || "Unnamed user"}
+                  {isSelf && <span className="ml-2 text-xs text-gray-400">(you)</span>}
+                  <span className="block text-xs text-gray-500">ID: ...{row.id.slice(-6)}</span>
+                </td>
+                <td className="p-3">
+                  <select
+                    value={selectedRole}
+                    onChange={(e) =>
+                      setPendingRoles((roles) => ({ ...roles, [row.id]: e.target.value as UserRole }))
+                    }
+                    disabled={isSelf}
+                    title={isSelf ? "Another admin must change your role" : undefined}
+                    className={inputClassName}
+                  >
+                    {UserRoleValues.map((role) => (
+                      <option key={role} value={role}>
+                        {USER_ROLE_LABELS[role]}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+                <td className="p-3 whitespace-nowrap text-sm">
+                  <button
+                    onClick={() => saveRole(row)}
+                    disabled={busy || selectedRole === row.role}
+                    className="text-indigo-400 hover:text-indigo-300 font-medium disabled:text-gray-500"
+                  >
+                    Save
+                  </button>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+
+  if (!roleChecked) {
+    return <div className="p-6 bg-gray-900 min-h-screen text-white">Checking access...</div>;
+  }
+
+  return (
+    <div className="p-6 bg-gray-900 min-h-screen text-white">
+      <Link href="/admin" className="text-sm text-indigo-300 hover:underline">
+        ← Admin Dashboard
+      </Link>
+      <h1 className="text-3xl font-bold mt-2 mb-6">Staff Roles</h1>
+
+      {error && <div className="mb-4 p-3 rounded bg-red-900 text-red-200">{error}</div>}
+      {message && <div className="mb-4 p-3 rounded bg-green-900 text-green-200">{message}</div>}
+
+      <section className="mb-8">
+        <dl className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+          {UserRoleValues.map((role) => (
+            <div key={role} className="bg-gray-800 rounded-lg p-3">
+              <dt className="font-semibold">{USER_ROLE_LABELS[role]}</dt>
+              <dd className="text-gray-400">{ROLE_DESCRIPTIONS[role]}</dd>
+            </div>
+          ))}
+        </dl>
+      </section>
+
+      <section className="mb-8">
+        <h2 className="text-2xl font-semibold mb-4">Current Staff</h2>
+        {loading ? <p>Loading staff...</p> : renderTable(staff)}
+      </section>
+
+      <section className="mb-8">
+        <h2 className="text-2xl font-semibold mb-4">Find a User</h2>
+        <form onSubmit={handleSearch} className="flex flex-wrap gap-3 mb-4">
+          <input
+            type="text"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            placeholder="Search by name"
+            className={`${inputClassName} flex-1 min-w-[16rem]`}
+          />
+          <button
+            type="submit"
+            className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 rounded text-sm font-medium"
+          >
+            Search
+          </button>
+        </form>
+        {searchResults &&
+          (searchResults.length === 0 ? (
+            <p className="text-gray-400">No users match that name.</p>
+          ) : (
+            renderTable(searchResults)
+          ))}
+      </section>
+    </div>
+  );
+}
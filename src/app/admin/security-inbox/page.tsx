@@ -0,0 +1,319 @@
+// src/app/admin/security-inbox/page.tsx
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
+import { formatDistanceToNow } from "date-fns";
+import {
+  Profile,
+  SecurityConversationStatus,
+  SecurityConversationStatusNames,
+  SecurityInboxEntry,
+} from "@/types/database";
+import { useAdminCheck } from "@/components/admin/useAdminCheck";
+
+type StaffMember = Pick<Profile, "id" | "full_name" | "is_on_duty">;
+
+type InboxFilter = SecurityConversationStatus | "mine" | "unassigned" | "all";
+
+const FILTER_LABELS: Record<InboxFilter, string> = {
+  open: "Open",
+  waiting_on_student: "Waiting on student",
+  mine: "Assigned to me",
+  unassigned: "Unassigned",
+  closed: "Closed",
+  all: "All",
+};
+
+const STATUS_BADGE_CLASSES: Record<SecurityConversationStatus, string> = {
+  open: "bg-orange-500",
+  waiting_on_student: "bg-blue-500",
+  closed: "bg-gray-500",
+};
+
+const inputClassName = "bg-gray-700 border border-gray-600 rounded p-2 text-sm text-white";
+
+export default function SecurityInboxPage() {
+  const supabase = createClientComponentClient();
+  const roleChecked = useAdminCheck("securityChats") !== null;
+
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [entries, setEntries] = useState<SecurityInboxEntry[]>([]);
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [filter, setFilter] = useState<InboxFilter>("open");
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchInbox = useCallback(async () => {
+    const { data, error: inboxError } = await supabase
+      .from("security_inbox")
+      .select("*")
+      .order("updated_at", { ascending: false });
+    if (inboxError) {
+      console.error("Error loading security inbox:", inboxError);
+      setError(`Error loading security inbox: ${inboxError.message}`);
+    } else {
+      setEntries((data || []) as SecurityInboxEntry[]);
+    }
+    setLoading(false);
+  }, [supabase]);
+
+  const fetchStaff = useCallback(async () => {
+    // Admins pass is_security_staff, so they can be assigned security chats as well
+    const { data, error: staffError } = await supabase
+      .from("profiles")
+      .select("id, full_name, is_on_duty")
+      .in("role", ["security_staff", "admin"])
+      .order("full_name");
+    if (staffError) {
+      console.error("Error loading security staff:", staffError);
+    } else {
+      setStaff((data || []) as StaffMember[]);
+    }
+  }, [supabase]);
+
+  useEffect(() => {
+    if (!roleChecked) return;
+    supabase.auth.getUser().then(({ data: { user } }) => setCurrentUserId(user?.id || null));
+    fetchInbox();
+    fetchStaff();
+  }, [roleChecked, supabase, fetchInbox, fetchStaff]);
+
+  const visibleEntries = useMemo(
+    () =>
+      entries.filter((entry) => {
+        switch (filter) {
+          case "all":
+            return true;
+          case "mine":
+            return entry.assigned_to === currentUserId && entry.status !== "closed";
+          case "unassigned":
+            return !entry.assigned_to && entry.status !== "closed";
+          default:
+            return entry.status === filter;
+        }
+      }),
+    [entries, filter, currentUserId]
+  );
+
+  const counts = useMemo(() => {
+    const open = entries.filter((entry) => entry.status === "open");
+    return {
+      open: open.length,
+      unassigned: open.filter((entry) => !entry.assigned_to).length,
+    };
+  }, [entries]);
+
+  const me = staff.find((member) => member.id === currentUserId);
+
+  const toggleOnDuty = async () => {
+    if (!currentUserId) return;
+    setError(null);
+    const { error: dutyError } = await supabase
+      .from("profiles")
+      .update({ is_on_duty: !me?.is_on_duty })
+      .eq("id", currentUserId);
+    if (dutyError) {
+      setError(`Could not update duty status: ${dutyError.message}`);
+      return;
+    }
+    await fetchStaff();
+  };
+
+  const assign = async (entry: SecurityInboxEntry, assigneeId: string | null) => {
+    setBusyId(entry.conversation_id);
+    setError(null);
+    const { error: assignError } = await supabase.rpc("assign_security_conversation", {
+      p_conversation_id: entry.conversation_id,
+      p_assignee_id: assigneeId,
+    });
+    setBusyId(null);
+    if (assignError) {
+      setError(assignError.message);
+      return;
+    }
+    await fetchInbox();
+  };
+
+  const setStatus = async (entry: SecurityInboxEntry, status: SecurityConversationStatus) => {
+    setBusyId(entry.conversation_id);
+    setError(null);
+    const { error: statusError } = await supabase.rpc("set_security_conversation_status", {
+      p_conversation_id: entry.conversation_id,
+      p_status: status,
+    });
+    setBusyId(null);
+    if (statusError) {
+      setError(statusError.message);
+      return;
+    }
+    await fetchInbox();
+  };
+
+  if (!roleChecked) {
+    return <div className="p-6 bg-gray-900 min-h-screen text-white">Checking access...</div>;
+  }
+
+  return (
+    <div className="p-6 bg-gray-900 min-h-screen text-white">
+      <Link href="/admin" className="text-sm text-indigo-300 hover:underline">
+        ← Admin Dashboard
+      </Link>
+      <div className="flex flex-wrap items-center justify-between gap-3 mt-2 mb-6">
+        <h1 className="text-3xl font-bold">Security Inbox</h1>
+        <div className="flex items-center gap-3 text-sm">
+          <span className="text-gray-400">
+            {counts.open} open · {counts.unassigned} unassigned
+          </span>
+          <button
+            onClick={toggleOnDuty}
+            className={`px-3 py-1.5 rounded-md font-medium ${
+              me?.is_on_duty ? "bg-green-700 hover:bg-green-800" : "bg-gray-700 hover:bg-gray-600"
+            }`}
+            title="On-duty staff are notified of new messages in unassigned chats"
+          >
+            {me?.is_on_duty ? "On duty" : "Off duty"}
+          </button>
+          <button
+            onClick={fetchInbox}
+            className="px-3 py-1.5 rounded-md bg-indigo-600 hover:bg-indigo-700 font-medium"
+          >
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="mb-4 p-3 rounded bg-red-900 text-red-200">{error}</div>}
+
+      <nav className="flex flex-wrap gap-2 mb-4 text-sm">
+        {(Object.keys(FILTER_LABELS) as InboxFilter[]).map((key) => (
+          <button
+            key={key}
+            onClick={() => setFilter(key)}
+            className={`px-3 py-1.5 rounded-md ${
+              filter === key ? "bg-indigo-600 text-white" : "bg-gray-800 hover:bg-gray-700 text-gray-300"
+            }`}
+          >
+            {FILTER_LABELS[key]}
+          </button>
+        ))}
+      </nav>
+
+      {loading ? (
+        <p>Loading conversations...</p>
+      ) : visibleEntries.length === 0 ? (
+        <p className="text-gray-400">No conversations here.</p>
+      ) : (
+        <div className="overflow-x-auto bg-gray-800 rounded-lg shadow-md">
+          <table className="min-w-full">
+            <thead className="bg-gray-700">
+              <tr>
+                {["Conversation", "Status", "Handled by", "Last activity", "Actions"].map((heading) => (
+                  <th
+                    key={heading}
+                    className="p-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider"
+                  >
+                    {heading}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-700">
+              {visibleEntries.map((entry) => {
+                const busy = busyId === entry.conversation_id;
+                return (
+                  <tr key={entry.conversation_id}>
+                    <td className="p-3 text-sm max-w-md">
+                      <span className="font-medium">{entry.item_title}</span>
+                      <span className="block text-xs text-gray-400">
+                        From {entry.creator_name || "Unnamed user"}
+                      </span>
+                      {entry.last_message_body && (
+                        <span className="block text-xs text-gray-500 truncate">
+                          {entry.last_message_sender_id === entry.creator_id ? "" : "Staff: "}
+                          {entry.last_message_body}
+                        </span>
+                      )}
+                    </td>
+                    <td className="p-3 whitespace-nowrap">
+                      <span
+                        className={`px-2 py-0.5 rounded-full text-xs font-semibold text-white ${
+                          STATUS_BADGE_CLASSES[entry.status]
+                        }`}
+                      >
+                        {SecurityConversationStatusNames[entry.status]}
+                      </span>
+                    </td>
+                    <td className="p-3 text-sm">
+                      <select
+                        value={entry.assigned_to || ""}
+                        onChange={(e) => assign(entry, e.target.value || null)}
+                        disabled={busy}
+                        className={inputClassName}
+                      >
+                        <option value="">Unassigned</option>
+                        {staff.map((member) => (
+                          <option key={member.id} value={member.id}>
+                            {member.full_name || "Unnamed staff"}
+                            {member.id === currentUserId ? " (you)" : ""}
+                            {member.is_on_duty ? " · on duty" : ""}
+                          </option>
+                        ))}
+                      </select>
+                      {entry.assigned_at && (
+                        <span className="block text-xs text-gray-500 mt-1">
+                          since {formatDistanceToNow(new Date(entry.assigned_at), { addSuffix: true })}
+                        </span>
+                      )}
+                    </td>
+                    <td className="p-3 whitespace-nowrap text-sm text-gray-300">
+                      {formatDistanceToNow(new Date(entry.last_message_at || entry.updated_at), {
+                        addSuffix: true,
+                      })}
+                    </td>
+                    <td className="p-3 whitespace-nowrap text-sm space-x-3">
+                      <Link
+                        href={`/chat/${entry.conversation_id}`}
+                        className="text-indigo-400 hover:text-indigo-300 font-medium"
+                      >
+                        Open chat
+                      </Link>
+                      {entry.assigned_to !== currentUserId && currentUserId && (
+                        <button
+                          onClick={() => assign(entry, currentUserId)}
+                          disabled={busy}
+                          className="text-indigo-400 hover:text-indigo-300 font-medium disabled:text-gray-500"
+                        >
+                          Assign to me
+                        </button>
+                      )}
+                      {entry.status === "closed" ? (
+                        <button
+                          onClick={() => setStatus(entry, "open")}
+                          disabled={busy}
+                          className="text-yellow-400 hover:text-yellow-300 font-medium disabled:text-gray-500"
+                        >
+                          Reopen
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() => setStatus(entry, "closed")}
+                          disabled={busy}
+                          className="text-red-400 hover:text-red-300 font-medium disabled:text-gray-500"
+                        >
+                          Close
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,536 @@
+// src/app/admin/users/[id]/page.tsx
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
+import { addDays, format, formatDistanceToNow } from "date-fns";
+import {
+  AdminUserConversation,
+  AdminUserRow,
+  Claim,
+  Item,
+  SanctionKind,
+  UserRole,
+  UserRoleValues,
+  UserSanction,
+} from "@/types/database";
+import { USER_ROLE_LABELS } from "@/lib/auth/roles";
+import { useAdminCheck } from "@/components/admin/useAdminCheck";
+import KpiCard from "@/components/admin/KpiCard";
+import SanctionBadge from "@/components/admin/SanctionBadge";
+
+type UserItem = Pick<Item, "id" | "title" | "status" | "created_at">;
+type UserClaim = Pick<Claim, "id" | "item_id" | "status" | "date_claimed"> & {
+  items: Pick<Item, "title"> | null;
+};
+
+// Quick picks for a suspension's length; "custom" shows a date input
+const SUSPENSION_LENGTHS = [
+  { value: "1", label: "1 day" },
+  { value: "3", label: "3 days" },
+  { value: "7", label: "1 week" },
+  { value: "30", label: "30 days" },
+  { value: "custom", label: "Until a date..." },
+];
+
+const inputClassName = "bg-gray-700 border border-gray-600 rounded p-2 text-sm text-white";
+
+const thClassName = "p-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider";
+
+const isActive = (sanction: UserSanction) =>
+  !sanction.lifted_at && (!sanction.expires_at || new Date(sanction.expires_at) > new Date());
+
+export default function AdminUserDetailPage() {
+  const supabase = createClientComponentClient();
+  const roleChecked = useAdminCheck("manageUsers") !== null;
+  const { id } = useParams<{ id: string }>();
+
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [user, setUser] = useState<AdminUserRow | null>(null);
+  const [items, setItems] = useState<UserItem[]>([]);
+  const [claims, setClaims] = useState<UserClaim[]>([]);
+  const [conversations, setConversations] = useState<AdminUserConversation[]>([]);
+  const [sanctions, setSanctions] = useState<UserSanction[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const [pendingRole, setPendingRole] = useState<UserRole | null>(null);
+  const [sanctionKind, setSanctionKind] = useState<SanctionKind>("suspension");
+  const [suspensionLength, setSuspensionLength] = useState("7");
+  const [customUntil, setCustomUntil] = useState("");
+  const [reason, setReason] = useState("");
+
+  const fetchUser = useCallback(async () => {
+    const [userResult, itemsResult, claimsResult, conversationsResult, sanctionsResult] =
+      await Promise.all([
+        supabase.rpc("admin_search_users", { p_user_id: id, p_limit: 1 }),
+        supabase
+          .from("items")
+          .select("id, title, status, created_at")
+          .eq("user_id", id)
+          .order("created_at", { ascending: false })
+          .limit(50),
+        supabase
+          .from("claims")
+          .select("id, item_id, status, date_claimed, items(title)")
+          .eq("claimer_id", id)
+          .order("date_claimed", { ascending: false })
+          .limit(50),
+        supabase.rpc("admin_user_conversations", { p_user_id: id }),
+        supabase
+          .from("user_sanctions")
+          .select("*")
+          .eq("user_id", id)
+          .order("created_at", { ascending: false }),
+      ]);
+
+    const fetchError =
+      userResult.error ||
+      itemsResult.error ||
+      claimsResult.error ||
+      conversationsResult.error ||
+      sanctionsResult.error;
+    if (fetchError) {
+      console.error("Error loading user:", fetchError);
+      setError(`Error loading user: ${fetchError.message}`);
+    } else {
+      setUser(((userResult.data as AdminUserRow[]) || [])[0] ?? null);
+      setItems((itemsResult.data || []) as UserItem[]);
+      setClaims((claimsResult.data || []) as unknown as UserClaim[]);
+      setConversations((conversationsResult.data as AdminUserConversation[]) || []);
+      setSanctions((sanctionsResult.data as UserSanction[]) || []);
+    }
+    setLoading(false);
+  }, [supabase, id]);
+
+  useEffect(() => {
+    if (!roleChecked) return;
+    supabase.auth.getUser().then(({ data: { user } }) => setCurrentUserId(user?.id || null));
+    fetchUser();
+  }, [roleChecked, supabase, fetchUser]);
+
+  const saveRole = async () => {
+    if (!user || !pendingRole || pendingRole === user.role) return;
+    if (user.role === "admin" && !confirm(`Remove admin rights from ${user.full_name || "this user"}?`)) {
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    const { error: roleError } = await supabase.rpc("set_user_role", {
+      p_user_id: user.id,
+      p_role: pendingRole,
+    });
+    setBusy(false);
+    if (roleError) {
+      setError(roleError.message);
+      return;
+    }
+    setMessage(`${user.full_name || "User"} is now ${USER_ROLE_LABELS[pendingRole].toLowerCase()}.`);
+    setPendingRole(null);
+    await fetchUser();
+  };
+
+  const expiresAt = (): string | null => {
+    if (sanctionKind === "suspension" && suspensionLength !== "custom") {
+      return addDays(new Date(), Number(suspensionLength)).toISOString();
+    }
+    // A chosen date lasts to the end of that day
+    return customUntil ? new Date(`${customUntil}T23:59:59`).toISOString() : null;
+  };
+
+  const applySanction = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+    const until = expiresAt();
+    if (sanctionKind === "suspension" && !until) {
+      setError("Pick when the suspension ends.");
+      return;
+    }
+    if (
+      !confirm(
+        sanctionKind === "ban" && !until
+          ? `Ban ${user.full_name || "this user"} permanently?`
+          : `${sanctionKind === "ban" ? "Ban" : "Suspend"} ${user.full_name || "this user"} until ${format(new Date(until as string), "PPp")}?`
+      )
+    ) {
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    const { error: sanctionError } = await supabase.rpc("sanction_user", {
+      p_user_id: user.id,
+      p_kind: sanctionKind,
+      p_reason: reason.trim(),
+      p_expires_at: until,
+    });
+    setBusy(false);
+    if (sanctionError) {
+      setError(sanctionError.message);
+      return;
+    }
+    setMessage(`${user.full_name || "User"} has been ${sanctionKind === "ban" ? "banned" : "suspended"}.`);
+    setReason("");
+    await fetchUser();
+  };
+
+  const liftSanction = async (sanction: UserSanction) => {
+    const note = window.prompt(`Lift this ${sanction.kind}? Add a note for the record (optional):`, "");
+    if (note === null) return;
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    const { error: liftError } = await supabase.rpc("lift_user_sanction", {
+      p_sanction_id: sanction.id,
+      p_note: note,
+    });
+    setBusy(false);
+    if (liftError) {
+      setError(liftError.message);
+      return;
+    }
+    setMessage(`The ${sanction.kind} has been lifted.`);
+    await fetchUser();
+  };
+
+  if (!roleChecked || loading) {
+    return (
+      <div className="p-6 bg-gray-900 min-h-screen text-white">
+        {roleChecked ? "Loading user..." : "Checking access..."}
+      </div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <div className="p-6 bg-gray-900 min-h-screen text-white">
+        <Link href="/admin/users" className="text-sm text-indigo-300 hover:underline">
+          ← Users
+        </Link>
+        {error && <div className="mt-4 p-3 rounded bg-red-900 text-red-200">{error}</div>}
+        <p className="mt-4">User not found.</p>
+      </div>
+    );
+  }
+
+  const isSelf = user.id === currentUserId;
+  const selectedRole = pendingRole ?? user.role;
+  const claimsRetracted = user.claims_total - user.claims_pending - user.claims_approved - user.claims_rejected;
+
+  return (
+    <div className="p-6 bg-gray-900 min-h-screen text-white">
+      <Link href="/admin/users" className="text-sm text-indigo-300 hover:underline">
+        ← Users
+      </Link>
+      <div className="flex flex-wrap items-center gap-3 mt-2 mb-1">
+        <h1 className="text-3xl font-bold">{user.full_name || "Unnamed user"}</h1>
+        {user.sanction_kind && <SanctionBadge kind={user.sanction_kind} expiresAt={user.sanction_expires_at} />}
+      </div>
+      <p className="text-sm text-gray-400 mb-6">
+        {user.email || "No email"} · ID {user.id} · joined {format(new Date(user.created_at), "PP")} · last
+        sign-in{" "}
+        {user.last_sign_in_at
+          ? formatDistanceToNow(new Date(user.last_sign_in_at), { addSuffix: true })
+          : "never"}
+      </p>
+
+      {error && <div className="mb-4 p-3 rounded bg-red-900 text-red-200">{error}</div>}
+      {message && <div className="mb-4 p-3 rounded bg-green-900 text-green-200">{message}</div>}
+
+      {/* Activity summary */}
+      <section className="mb-8 grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+        <KpiCard title="Items Reported" value={user.items_reported} />
+        <KpiCard title="Claims Made" value={user.claims_total} />
+        <KpiCard title="Approved" value={user.claims_approved} highlight={true} />
+        <KpiCard title="Rejected" value={user.claims_rejected} />
+        <KpiCard
+          title="Pending"
+          value={user.claims_pending}
+          hint={claimsRetracted > 0 ? `${claimsRetracted} retracted` : undefined}
+        />
+        <KpiCard title="Chats Started" value={user.conversations_count} />
+      </section>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+        {/* Role */}
+        <section className="bg-gray-800 rounded-lg p-4">
+          <h2 className="text-xl font-semibold mb-3">Role</h2>
+          <div className="flex flex-wrap gap-3 items-center">
+            <select
+              value={selectedRole}
+              onChange={(e) => setPendingRole(e.target.value as UserRole)}
+              disabled={isSelf}
+              title={isSelf ? "Another admin must change your role" : undefined}
+              className={inputClassName}
+            >
+              {UserRoleValues.map((role) => (
+                <option key={role} value={role}>
+                  {USER_ROLE_LABELS[role]}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={saveRole}
+              disabled={busy || selectedRole === user.role}
+              className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 rounded text-sm font-medium disabled:bg-gray-600"
+            >
+              Save role
+            </button>
+          </div>
+        </section>
+
+        {/* Suspend or ban */}
+        <section className="bg-gray-800 rounded-lg p-4">
+          <h2 className="text-xl font-semibold mb-1">Suspend or Ban</h2>
+          <p className="text-sm text-gray-400 mb-3">
+            Restricted users can still browse, but cannot report items, make claims or send messages.
+          </p>
+          {user.role === "admin" ? (
+            <p className="text-sm text-gray-400">Admins cannot be restricted. Change their role first.</p>
+          ) : (
+            <form onSubmit={applySanction} className="space-y-3">
+              <div className="flex flex-wrap gap-3">
+                <select
+                  value={sanctionKind}
+                  onChange={(e) => setSanctionKind(e.target.value as SanctionKind)}
+                  className={inputClassName}
+                >
+                  <option value="suspension">Suspend</option>
+                  <option value="ban">Ban</option>
+                </select>
+                {sanctionKind === "suspension" && (
+                  <select
+                    value={suspensionLength}
+                    onChange={(e) => setSuspensionLength(e.target.value)}
+                    className={inputClassName}
+                  >
+                    {SUSPENSION_LENGTHS.map((length) => (
+                      <option key={length.value} value={length.value}>
+                        {length.label}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                {(sanctionKind === "ban" || suspensionLength === "custom") && (
+                  <input
+                    type="date"
+                    value={customUntil}
+                    min={format(addDays(new Date(), 1), "yyyy-MM-dd")}
+                    onChange={(e) => setCustomUntil(e.target.value)}
+                    required={sanctionKind === "suspension"}
+                    title={sanctionKind === "ban" ? "Leave empty for a permanent ban" : undefined}
+                    className={inputClassName}
+                  />
+                )}
+              </div>
+              <textarea
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Reason (shown to the user)"
+                required
+                minLength={3}
+                maxLength={500}
+                rows={2}
+                className={`${inputClassName} w-full`}
+              />
+              <button
+                type="submit"
+                disabled={busy || reason.trim().length < 3}
+                className="px-4 py-2 bg-red-600 hover:bg-red-700 rounded text-sm font-medium disabled:bg-gray-600"
+              >
+                {sanctionKind === "ban" ? "Ban user" : "Suspend user"}
+              </button>
+            </form>
+          )}
+        </section>
+      </div>
+
+      {/* Sanction history */}
+      {sanctions.length > 0 && (
+        <section className="mb-8">
+          <h2 className="text-2xl font-semibold mb-4">Suspensions and Bans</h2>
+          <div className="overflow-x-auto bg-gray-800 rounded-lg shadow-md">
+            <table className="min-w-full">
+              <thead className="bg-gray-700">
+                <tr>
+                  {["Type", "Reason", "Issued", "Ends", "Status", ""].map((heading) => (
+                    <th key={heading} className={thClassName}>
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {sanctions.map((sanction) => (
+                  <tr key={sanction.id}>
+                    <td className="p-3 text-sm capitalize">{sanction.kind}</td>
+                    <td className="p-3 text-sm text-gray-300">{sanction.reason}</td>
+                    <td className="p-3 whitespace-nowrap text-sm text-gray-400">
+                      {format(new Date(sanction.created_at), "PPp")}
+                    </td>
+                    <td className="p-3 whitespace-nowrap text-sm text-gray-400">
+                      {sanction.expires_at ? format(new Date(sanction.expires_at), "PPp") : "Never"}
+                    </td>
+                    <td className="p-3 text-sm">
+                      {sanction.lifted_at ? (
+                        <span className="text-gray-400">
+                          Lifted {format(new Date(sanction.lifted_at), "PP")}
+                          {sanction.lift_note && `: ${sanction.lift_note}`}
+                        </span>
+                      ) : isActive(sanction) ? (
+                        <span className="text-red-300">Active</span>
+                      ) : (
+                        <span className="text-gray-400">Expired</span>
+                      )}
+                    </td>
+                    <td className="p-3 whitespace-nowrap text-sm">
+                      {isActive(sanction) && (
+                        <button
+                          onClick={() => liftSanction(sanction)}
+                          disabled={busy}
+                          className="text-indigo-400 hover:text-indigo-300 font-medium disabled:text-gray-500"
+                        >
+                          Lift
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+        {/* Items reported */}
+        <section>
+          <h2 className="text-2xl font-semibold mb-4">Items Reported</h2>
+          {items.length === 0 ? (
+            <p className="text-gray-400">No items reported.</p>
+          ) : (
+            <div className="overflow-x-auto bg-gray-800 rounded-lg shadow-md">
+              <table className="min-w-full">
+                <thead className="bg-gray-700">
+                  <tr>
+                    {["Title", "Status", "Reported"].map((heading) => (
+                      <th key={heading} className={thClassName}>
+                        {heading}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-700">
+                  {items.map((item) => (
+                    <tr key={item.id}>
+                      <td className="p-3 text-sm">
+                        <Link href={`/item/${item.id}`} className="text-indigo-400 hover:text-indigo-300">
+                          {item.title}
+                        </Link>
+                      </td>
+                      <td className="p-3 text-sm capitalize text-gray-300">{item.status}</td>
+                      <td className="p-3 whitespace-nowrap text-sm text-gray-400">
+                        {item.created_at && format(new Date(item.created_at), "PP")}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+
+        {/* Claims made */}
+        <section>
+          <h2 className="text-2xl font-semibold mb-4">Claims Made</h2>
+          {claims.length === 0 ? (
+            <p className="text-gray-400">No claims made.</p>
+          ) : (
+            <div className="overflow-x-auto bg-gray-800 rounded-lg shadow-md">
+              <table className="min-w-full">
+                <thead className="bg-gray-700">
+                  <tr>
+                    {["Item", "Outcome", "Claimed"].map((heading) => (
+                      <th key={heading} className={thClassName}>
+                        {heading}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-700">
+                  {claims.map((claim) => (
+                    <tr key={claim.id}>
+                      <td className="p-3 text-sm">
+                        <Link href={`/item/${claim.item_id}`} className="text-indigo-400 hover:text-indigo-300">
+                          {claim.items?.title || "Deleted item"}
+                        </Link>
+                      </td>
+                      <td className="p-3 text-sm capitalize text-gray-300">{claim.status}</td>
+                      <td className="p-3 whitespace-nowrap text-sm text-gray-400">
+                        {format(new Date(claim.date_claimed), "PP")}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+      </div>
+
+      {/* Conversations */}
+      <section className="mb-8">
+        <h2 className="text-2xl font-semibold mb-1">Conversations</h2>
+        <p className="text-sm text-gray-400 mb-4">Message counts only; chat content stays private.</p>
+        {conversations.length === 0 ? (
+          <p className="text-gray-400">No conversations.</p>
+        ) : (
+          <div className="overflow-x-auto bg-gray-800 rounded-lg shadow-md">
+            <table className="min-w-full">
+              <thead className="bg-gray-700">
+                <tr>
+                  {["Item", "Type", "Started By", "Messages", "Last Message"].map((heading) => (
+                    <th key={heading} className={thClassName}>
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {conversations.map((conversation) => (
+                  <tr key={conversation.id}>
+                    <td className="p-3 text-sm">
+                      <Link
+                        href={`/item/${conversation.item_id}`}
+                        className="text-indigo-400 hover:text-indigo-300"
+                      >
+                        {conversation.item_title || "Deleted item"}
+                      </Link>
+                    </td>
+                    <td className="p-3 whitespace-nowrap text-sm text-gray-300">
+                      {conversation.type === "user-to-security" ? "With security" : "With reporter"}
+                    </td>
+                    <td className="p-3 whitespace-nowrap text-sm text-gray-300">
+                      {conversation.started_by_user ? "This user" : "Other user"}
+                    </td>
+                    <td className="p-3 whitespace-nowrap text-sm text-gray-300">{conversation.message_count}</td>
+                    <td className="p-3 whitespace-nowrap text-sm text-gray-400">
+                      {conversation.last_message_at
+                        ? formatDistanceToNow(new Date(conversation.last_message_at), { addSuffix: true })
+                        : "No messages"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
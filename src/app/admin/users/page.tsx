@@ -0,0 +1,207 @@
+// src/app/admin/users/page.tsx
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
+import { format, formatDistanceToNow } from "date-fns";
+import { AdminUserRow, UserRole, UserRoleValues } from "@/types/database";
+import { USER_ROLE_LABELS } from "@/lib/auth/roles";
+import { useAdminCheck } from "@/components/admin/useAdminCheck";
+import SanctionBadge from "@/components/admin/SanctionBadge";
+
+const USERS_PER_PAGE = 25;
+
+const inputClassName = "bg-gray-700 border border-gray-600 rounded p-2 text-sm text-white";
+
+type SanctionFilter = "" | "restricted" | "unrestricted";
+
+export default function AdminUsersPage() {
+  const supabase = createClientComponentClient();
+  const roleChecked = useAdminCheck("manageUsers") !== null;
+
+  const [searchTerm, setSearchTerm] = useState("");
+  const [roleFilter, setRoleFilter] = useState<UserRole | "">("");
+  const [sanctionFilter, setSanctionFilter] = useState<SanctionFilter>("");
+  const [currentPage, setCurrentPage] = useState(1);
+  const [users, setUsers] = useState<AdminUserRow[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const totalPages = Math.max(1, Math.ceil(totalCount / USERS_PER_PAGE));
+
+  useEffect(() => {
+    if (!roleChecked) return;
+
+    // Debounced so typing in the search box doesn't fire a query per keystroke
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      setError(null);
+      const { data, error: fetchError } = await supabase.rpc("admin_search_users", {
+        p_search: searchTerm.trim() || null,
+        p_role: roleFilter || null,
+        p_sanctioned: sanctionFilter === "" ? null : sanctionFilter === "restricted",
+        p_limit: USERS_PER_PAGE,
+        p_offset: (currentPage - 1) * USERS_PER_PAGE,
+      });
+      if (fetchError) {
+        console.error("Error loading users:", fetchError);
+        setError(`Error loading users: ${fetchError.message}`);
+      } else {
+        const rows = (data as AdminUserRow[]) || [];
+        setUsers(rows);
+        setTotalCount(rows[0]?.total_count ?? 0);
+      }
+      setLoading(false);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [roleChecked, supabase, searchTerm, roleFilter, sanctionFilter, currentPage]);
+
+  if (!roleChecked) {
+    return <div className="p-6 bg-gray-900 min-h-screen text-white">Checking access...</div>;
+  }
+
+  return (
+    <div className="p-6 bg-gray-900 min-h-screen text-white">
+      <Link href="/admin" className="text-sm text-indigo-300 hover:underline">
+        ← Admin Dashboard
+      </Link>
+      <h1 className="text-3xl font-bold mt-2 mb-6">Users</h1>
+
+      {error && <div className="mb-4 p-3 rounded bg-red-900 text-red-200">{error}</div>}
+
+      <div className="flex flex-wrap gap-3 mb-4">
+        <input
+          type="text"
+          value={searchTerm}
+          onChange={(e) => {
+            setSearchTerm(e.target.value);
+            setCurrentPage(1);
+          }}
+          placeholder="Search by name, email or user ID"
+          className={`${inputClassName} flex-1 min-w-[16rem]`}
+        />
+        <select
+          value={roleFilter}
+          onChange={(e) => {
+            setRoleFilter(e.target.value as UserRole | "");
+            setCurrentPage(1);
+          }}
+          className={inputClassName}
+        >
+          <option value="">All roles</option>
+          {UserRoleValues.map((role) => (
+            <option key={role} value={role}>
+              {USER_ROLE_LABELS[role]}
+            </option>
+          ))}
+        </select>
+        <select
+          value={sanctionFilter}
+          onChange={(e) => {
+            setSanctionFilter(e.target.value as SanctionFilter);
+            setCurrentPage(1);
+          }}
+          className={inputClassName}
+        >
+          <option value="">Any standing</option>
+          <option value="restricted">Suspended or banned</option>
+          <option value="unrestricted">In good standing</option>
+        </select>
+      </div>
+
+      {loading ? (
+        <p>Loading users...</p>
+      ) : (
+        <div className="overflow-x-auto bg-gray-800 rounded-lg shadow-md">
+          <table className="min-w-full">
+            <thead className="bg-gray-700">
+              <tr>
+                {["User", "Role", "Items", "Claims", "Joined", "Last Sign-in", "Standing"].map((heading) => (
+                  <th
+                    key={heading}
+                    className="p-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider"
+                  >
+                    {heading}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-700">
+              {users.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="p-3 text-sm text-gray-400 text-center">
+                    No users match these filters.
+                  </td>
+                </tr>
+              ) : (
+                users.map((user) => (
+                  <tr key={user.id} className="hover:bg-gray-750 transition-colors">
+                    <td className="p-3 text-sm">
+                      <Link
+                        href={`/admin/users/${user.id}`}
+                        className="text-indigo-400 hover:text-indigo-300 font-medium"
+                      >
+                        {user.full_name || "Unnamed user"}
+                      </Link>
+                      <span className="block text-xs text-gray-500">{user.email || `ID: ...${user.id.slice(-6)}`}</span>
+                    </td>
+                    <td className="p-3 whitespace-nowrap text-sm text-gray-300">{USER_ROLE_LABELS[user.role]}</td>
+                    <td className="p-3 whitespace-nowrap text-sm text-gray-300">{user.items_reported}</td>
+                    <td className="p-3 whitespace-nowrap text-sm text-gray-300">
+                      {user.claims_total}
+                      {user.claims_total > 0 && (
+                        <span className="text-xs text-gray-500">
+                          {" "}
+                          ({user.claims_approved} approved, {user.claims_rejected} rejected)
+                        </span>
+                      )}
+                    </td>
+                    <td className="p-3 whitespace-nowrap text-sm text-gray-400">
+                      {format(new Date(user.created_at), "PP")}
+                    </td>
+                    <td className="p-3 whitespace-nowrap text-sm text-gray-400">
+                      {user.last_sign_in_at
+                        ? formatDistanceToNow(new Date(user.last_sign_in_at), { addSuffix: true })
+                        : "Never"}
+                    </td>
+                    <td className="p-3 whitespace-nowrap text-sm">
+                      {user.sanction_kind ? (
+                        <SanctionBadge kind={user.sanction_kind} expiresAt={user.sanction_expires_at} />
+                      ) : (
+                        <span className="text-gray-400">Good</span>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {totalPages > 1 && (
+        <div className="mt-6 flex justify-between items-center">
+          <button
+            onClick={() => setCurrentPage((prev) => Math.max(1, prev - 1))}
+            disabled={currentPage === 1}
+            className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 rounded disabled:opacity-50 transition-colors"
+          >
+            Previous
+          </button>
+          <span className="text-sm text-gray-400">
+            Page {currentPage} of {totalPages} ({totalCount} users)
+          </span>
+          <button
+            onClick={() => setCurrentPage((prev) => Math.min(totalPages, prev + 1))}
+            disabled={currentPage === totalPages}
+            className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 rounded disabled:opacity-50 transition-colors"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
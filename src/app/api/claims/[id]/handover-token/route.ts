@@ -0,0 +1,57 @@
+// src/app/api/claims/[id]/handover-token/route.ts
+// Issues a signed one-time handover token for the caller's approved claim.
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs";
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+import {
+  HANDOVER_TOKEN_TTL_MINUTES,
+  HandoverTokenError,
+  signHandoverToken,
+} from "@/lib/handover/token";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: claimId } = await params;
+  const supabase = createRouteHandlerClient({ cookies });
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  // The RPC checks ownership and claim state, and revokes any earlier token
+  const { data: tokenRow, error } = await supabase.rpc("issue_handover_token", {
+    p_claim_id: claimId,
+    p_ttl_minutes: HANDOVER_TOKEN_TTL_MINUTES,
+  });
+
+  if (error) {
+    const status = error.code === "P0002" ? 404 : error.code === "55000" ? 409 : 500;
+    return NextResponse.json({ error: error.message }, { status });
+  }
+
+  try {
+    const token = signHandoverToken({
+      tokenId: tokenRow.id,
+      claimId: tokenRow.claim_id,
+      expiresAt: tokenRow.expires_at,
+    });
+    const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000";
+    return NextResponse.json({
+      token,
+      url: `${siteUrl}/handover/${token}`,
+      expiresAt: tokenRow.expires_at,
+    });
+  } catch (err) {
+    if (err instanceof HandoverTokenError) {
+      console.error("Handover token signing error:", err.message);
+      return NextResponse.json({ error: "Handover codes are not configured" }, { status: 500 });
+    }
+    throw err;
+  }
+}
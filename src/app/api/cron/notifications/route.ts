@@ -0,0 +1,36 @@
+// src/app/api/cron/notifications/route.ts
+// Runs one pass of the email delivery worker. Called by the scheduler (see vercel.json)
+// with `Authorization: Bearer <CRON_SECRET>`; anyone else gets a 401.
+import { NextResponse } from "next/server";
+import { isAuthorizedCronRequest } from "@/lib/cron/authorize";
+import { deliverPendingNotifications } from "@/lib/email/deliverNotifications";
+import { createSmtpTransport, EmailConfigError } from "@/lib/email/transport";
+import { createSupabaseAdminClient } from "@/lib/supabase/admin";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let transport;
+  try {
+    transport = createSmtpTransport();
+  } catch (err) {
+    if (err instanceof EmailConfigError) {
+      return NextResponse.json({ error: err.message }, { status: 500 });
+    }
+    throw err;
+  }
+
+  try {
+    const stats = await deliverPendingNotifications(createSupabaseAdminClient(), transport, {
+      siteUrl: process.env.NEXT_PUBLIC_SITE_URL || new URL(request.url).origin,
+    });
+    return NextResponse.json(stats);
+  } catch (err) {
+    console.error("Notification delivery run failed:", err);
+    return NextResponse.json({ error: "Notification delivery run failed" }, { status: 500 });
+  }
+}
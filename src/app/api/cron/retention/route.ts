@@ -0,0 +1,25 @@
+// src/app/api/cron/retention/route.ts
+// Daily retention run: sends deadline warnings and disposes of unclaimed found items whose
+// retention period has ended (see apply_retention_rules in the SQL script).
+import { NextResponse } from "next/server";
+import { isAuthorizedCronRequest } from "@/lib/cron/authorize";
+import { createSupabaseAdminClient } from "@/lib/supabase/admin";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { data, error } = await createSupabaseAdminClient()
+    .rpc("apply_retention_rules")
+    .single();
+
+  if (error) {
+    console.error("Retention run failed:", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json(data);
+}
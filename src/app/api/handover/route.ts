@@ -0,0 +1,55 @@
+// src/app/api/handover/route.ts
+// Confirms a handover: checks the token signature, then lets the database consume it.
+// redeem_handover_token is not callable by users, so the signature check here cannot be skipped.
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs";
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+import { HandoverTokenError, verifyHandoverToken } from "@/lib/handover/token";
+import { createSupabaseAdminClient } from "@/lib/supabase/admin";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  const supabase = createRouteHandlerClient({ cookies });
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  let body: { token?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  if (typeof body.token !== "string") {
+    return NextResponse.json({ error: "Missing handover token" }, { status: 400 });
+  }
+
+  let payload;
+  try {
+    payload = verifyHandoverToken(body.token);
+  } catch (err) {
+    if (err instanceof HandoverTokenError) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
+    throw err;
+  }
+
+  // One-time use, permissions and the claim/item updates are enforced in one transaction
+  const { data: claim, error } = await createSupabaseAdminClient().rpc("redeem_handover_token", {
+    p_token_id: payload.tokenId,
+    p_claim_id: payload.claimId,
+    p_actor_id: user.id,
+  });
+
+  if (error) {
+    const status =
+      error.code === "42501" ? 403 : error.code === "P0002" ? 404 : error.code === "55000" ? 409 : 500;
+    return NextResponse.json({ error: error.message }, { status });
+  }
+
+  return NextResponse.json({ claim });
+}
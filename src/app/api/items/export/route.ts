@@ -0,0 +1,93 @@
+// src/app/api/items/export/route.ts
+// Downloads the admin console's filtered items table as CSV or XLSX. Filtering, claim counts
+// and custody details come from export_items, which also checks the caller is staff.
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs";
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+import { Workbook } from "exceljs";
+import { format } from "date-fns";
+import { EXPORT_COLUMNS } from "@/lib/items/importExport";
+import { toCsv } from "@/lib/spreadsheets/csv";
+import { ItemExportRow, ItemStatus, ItemStatusValues } from "@/types/database";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+const DATE_PARAM = /^\d{4}-\d{2}-\d{2}$/;
+const UUID_PARAM = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// GET /api/items/export?format=csv|xlsx&status=&category=&userId=&q=&from=&to=
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const supabase = createRouteHandlerClient({ cookies });
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const fileFormat = searchParams.get("format") === "xlsx" ? "xlsx" : "csv";
+  const status = searchParams.get("status");
+  const userId = searchParams.get("userId")?.trim();
+  const from = searchParams.get("from");
+  const to = searchParams.get("to");
+  if (status && !ItemStatusValues.includes(status as ItemStatus)) {
+    return NextResponse.json({ error: "Unknown status" }, { status: 400 });
+  }
+  if (userId && !UUID_PARAM.test(userId)) {
+    return NextResponse.json({ error: "User ID must be a UUID" }, { status: 400 });
+  }
+  if ((from && !DATE_PARAM.test(from)) || (to && !DATE_PARAM.test(to))) {
+    return NextResponse.json({ error: "Dates must be YYYY-MM-DD" }, { status: 400 });
+  }
+
+  const { data, error } = await supabase.rpc("export_items", {
+    p_status: status || null,
+    p_category: searchParams.get("category") || null,
+    p_user_id: userId || null,
+    p_search: searchParams.get("q") || null,
+    p_created_from: from || null,
+    p_created_to: to || null,
+  });
+  if (error) {
+    if (error.code === "42501") {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    console.error("Item export error:", error);
+    return NextResponse.json({ error: "Failed to export items" }, { status: 500 });
+  }
+
+  const rows = (data || []) as ItemExportRow[];
+  const filename = `campus-laft-items-${format(new Date(), "yyyy-MM-dd")}.${fileFormat}`;
+
+  if (fileFormat === "csv") {
+    const csv = toCsv([
+      EXPORT_COLUMNS.map((column) => column.header),
+      ...rows.map((row) => EXPORT_COLUMNS.map((column) => column.value(row))),
+    ]);
+    // The byte order mark makes Excel read the file as UTF-8
+    return new NextResponse(`\uFEFF${csv}`, {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  }
+
+  const workbook = new Workbook();
+  const sheet = workbook.addWorksheet("Items", { views: [{ state: "frozen", ySplit: 1 }] });
+  sheet.columns = EXPORT_COLUMNS.map((column) => ({ header: column.header, width: column.width }));
+  sheet.getRow(1).font = { bold: true };
+  rows.forEach((row) => sheet.addRow(EXPORT_COLUMNS.map((column) => column.value(row) ?? null)));
+  const buffer = await workbook.xlsx.writeBuffer();
+
+  return new NextResponse(buffer as ArrayBuffer, {
+    headers: {
+      "Content-Type": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
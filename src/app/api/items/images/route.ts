@@ -0,0 +1,105 @@
+// src/app/api/items/images/route.ts
+// Processes item photos before they are stored: resized WebP copies, no EXIF location data
+// and a blurhash placeholder. Files are uploaded to item-images under <user id>/<image id>/
+// with the caller's session, so the bucket's folder policy still applies.
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs";
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+import { randomUUID } from "crypto";
+import { ItemImage } from "@/types/database";
+import { MAX_ITEM_IMAGES, MAX_ITEM_IMAGE_BYTES } from "@/lib/images/itemImages";
+import {
+  ImageProcessingError,
+  ProcessedImageFile,
+  processItemImage,
+} from "@/lib/images/processItemImage";
+
+export const dynamic = "force-dynamic";
+// sharp is a native module
+export const runtime = "nodejs";
+
+const BUCKET = "item-images";
+
+export async function POST(request: Request) {
+  const supabase = createRouteHandlerClient({ cookies });
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  let files: File[];
+  try {
+    const form = await request.formData();
+    files = form.getAll("files").filter((entry): entry is File => entry instanceof File);
+  } catch {
+    return NextResponse.json({ error: "Expected multipart form data" }, { status: 400 });
+  }
+  if (files.length === 0) {
+    return NextResponse.json({ error: "No images provided" }, { status: 400 });
+  }
+  if (files.length > MAX_ITEM_IMAGES) {
+    return NextResponse.json({ error: `At most ${MAX_ITEM_IMAGES} images are allowed` }, { status: 400 });
+  }
+  const oversized = files.find((file) => file.size > MAX_ITEM_IMAGE_BYTES);
+  if (oversized) {
+    return NextResponse.json({ error: `${oversized.name} is larger than 5MB` }, { status: 400 });
+  }
+
+  const images: ItemImage[] = [];
+  const paths: string[] = [];
+
+  const store = async (folder: string, file: ProcessedImageFile) => {
+    const path = `${folder}/${file.suffix}.webp`;
+    const { error } = await supabase.storage.from(BUCKET).upload(path, file.buffer, {
+      contentType: "image/webp",
+      // Every upload gets a new folder, so the files never change
+      cacheControl: "31536000",
+      upsert: false,
+    });
+    if (error) throw error;
+    paths.push(path);
+    return supabase.storage.from(BUCKET).getPublicUrl(path).data.publicUrl;
+  };
+
+  try {
+    for (const file of files) {
+      let processed;
+      try {
+        processed = await processItemImage(Buffer.from(await file.arrayBuffer()));
+      } catch (err) {
+        if (err instanceof ImageProcessingError) {
+          throw new ImageProcessingError(`${file.name}: ${err.message}`);
+        }
+        throw err;
+      }
+
+      const folder = `${user.id}/${randomUUID()}`;
+      const url = await store(folder, processed.full);
+      const variants = [];
+      for (const variant of processed.variants) {
+        variants.push({ width: variant.width, url: await store(folder, variant) });
+      }
+      images.push({
+        url,
+        width: processed.width,
+        height: processed.height,
+        blurhash: processed.blurhash,
+        phash: processed.phash,
+        variants,
+      });
+    }
+  } catch (err) {
+    if (paths.length > 0) {
+      await supabase.storage.from(BUCKET).remove(paths);
+    }
+    if (err instanceof ImageProcessingError) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
+    console.error("Item image processing error:", err);
+    return NextResponse.json({ error: "Could not process images" }, { status: 500 });
+  }
+
+  return NextResponse.json({ images, paths });
+}
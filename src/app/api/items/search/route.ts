@@ -0,0 +1,36 @@
+// src/app/api/items/search/route.ts
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs";
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+import { filterItems, InvalidCursorError } from "@/lib/search/filterItems";
+import { searchParamsToFilters } from "@/lib/search/searchParams";
+
+export const dynamic = "force-dynamic";
+
+const DEFAULT_LIMIT = 12;
+const MAX_LIMIT = 50;
+
+// GET /api/items/search?q=&category=&status=&from=&to=&location=&near=&radius=&hasLocation=&cursor=&limit=
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const supabase = createRouteHandlerClient({ cookies });
+
+  const requestedLimit = parseInt(searchParams.get("limit") || "", 10);
+  const limit = Number.isNaN(requestedLimit)
+    ? DEFAULT_LIMIT
+    : Math.min(Math.max(requestedLimit, 1), MAX_LIMIT);
+
+  try {
+    const result = await filterItems(supabase, searchParamsToFilters(searchParams), {
+      cursor: searchParams.get("cursor"),
+      limit,
+    });
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Item search error:", error);
+    return NextResponse.json({ error: "Failed to search items" }, { status: 500 });
+  }
+}
@@ -0,0 +1,134 @@
+// src/app/api/profile/route.ts
+// Reads and writes the signed-in user's profile. Contact fields are encrypted here,
+// on the server, so plaintext never reaches the database.
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs";
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+import {
+  decryptProfileContact,
+  encryptProfileContact,
+  ProfileContactFields,
+} from "@/lib/encryption";
+
+export const dynamic = "force-dynamic";
+
+// Columns the client is allowed to change through this route
+const EDITABLE_FIELDS = ["full_name", "avatar_url"] as const;
+const CONTACT_FIELDS = ["mobile_number", "physical_address"] as const;
+const PREFERENCE_FIELDS = ["allow_email_notifications"] as const;
+
+// Decrypts contact fields and drops server-only columns before a row leaves the route
+function toClientProfile(userId: string, row: Record<string, unknown>) {
+  const profile = decryptProfileContact(userId, row as ProfileContactFields);
+  delete (profile as Record<string, unknown>).mobile_number_bidx;
+  return profile;
+}
+
+export async function GET() {
+  const supabase = createRouteHandlerClient({ cookies });
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const { data: profile, error } = await supabase
+    .from("profiles")
+    .select("*")
+    .eq("id", user.id)
+    .maybeSingle();
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+  if (!profile) {
+    return NextResponse.json({ profile: null });
+  }
+
+  try {
+    return NextResponse.json({ profile: toClientProfile(user.id, profile) });
+  } catch (err) {
+    console.error("Profile decryption error:", err);
+    return NextResponse.json(
+      { error: "Could not read your contact details" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: Request) {
+  const supabase = createRouteHandlerClient({ cookies });
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const update: Record<string, string | boolean | null> = {};
+  for (const field of EDITABLE_FIELDS) {
+    if (field in body) {
+      const value = body[field];
+      update[field] = typeof value === "string" && value.trim() ? value.trim() : null;
+    }
+  }
+
+  for (const field of PREFERENCE_FIELDS) {
+    if (field in body) {
+      if (typeof body[field] !== "boolean") {
+        return NextResponse.json({ error: `${field} must be true or false` }, { status: 400 });
+      }
+      update[field] = body[field];
+    }
+  }
+
+  const contact: ProfileContactFields = {};
+  for (const field of CONTACT_FIELDS) {
+    if (field in body) {
+      const value = body[field];
+      contact[field] = typeof value === "string" ? value : null;
+    }
+  }
+
+  try {
+    Object.assign(update, encryptProfileContact(user.id, contact));
+  } catch (err) {
+    console.error("Profile encryption error:", err);
+    return NextResponse.json(
+      { error: "Could not secure your contact details" },
+      { status: 500 }
+    );
+  }
+
+  if (Object.keys(update).length === 0) {
+    return NextResponse.json({ error: "Nothing to update" }, { status: 400 });
+  }
+
+  const { data: profile, error } = await supabase
+    .from("profiles")
+    .update(update)
+    .eq("id", user.id)
+    .select("*")
+    .single();
+
+  if (error) {
+    // mobile_number_bidx carries the uniqueness rule for the encrypted mobile number
+    if (error.code === "23505") {
+      return NextResponse.json(
+        { error: "This mobile number is already registered to another account." },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ profile: toClientProfile(user.id, profile) });
+}
@@ -2,6 +2,7 @@
 import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs";
 import { cookies } from "next/headers";
 import { NextResponse } from "next/server";
+import { encryptProfileContact } from "@/lib/encryption";
 
 export const dynamic = "force-dynamic";
 
@@ -23,6 +24,16 @@ export async function GET(request: Request) {
           .single();
 
         if (!profile) {
+          // Email is stored encrypted; if the keys are missing we create the profile without it
+          let contact = {};
+          try {
+            contact = encryptProfileContact(session.user.id, {
+              email: session.user.email || null,
+            });
+          } catch (encryptionError) {
+            console.error("Email encryption error:", encryptionError);
+          }
+
           // Create profile with email as initial full_name
           const { error: insertError } = await supabase
             .from("profiles")
@@ -30,7 +41,7 @@ export async function GET(request: Request) {
               {
                 id: session.user.id,
                 full_name: session.user.email?.split('@')[0] || null,
-                email: session.user.email,
+                ...contact,
               },
             ]);
 
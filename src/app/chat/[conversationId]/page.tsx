@@ -1,16 +1,30 @@
 "use client";
 
-import React, { useState, useEffect, useRef, ChangeEvent } from "react";
+import React, { useState, useEffect, useMemo, useRef, ChangeEvent } from "react";
 import { useParams, useRouter } from "next/navigation";
 import { createSupabaseBrowserClient } from "@/lib/supabase/client";
 import {
   sendMessage,
+  sendTypingEvent,
   subscribeToMessages,
-  ExtendedMessage,
-  MessageAttachment,
+  subscribeToTyping,
 } from "@/lib/supabase/client";
+import {
+  ATTACHMENT_URL_TTL_SECONDS,
+  attachmentKey,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  signAttachmentUrls,
+  validateAttachment,
+} from "@/lib/chat/attachments";
+import { ConversationRead, Message, MessageAttachment } from "@/types/database";
+import ReportButton from "@/components/ReportButton";
+import type { RealtimeChannel } from "@supabase/supabase-js";
 import Image from "next/image";
 
+// How long a "typing" broadcast keeps the indicator up, and how often one is sent while typing
+const TYPING_TIMEOUT_MS = 4000;
+const TYPING_THROTTLE_MS = 2000;
+
 export default function ChatPage() {
   const supabase = createSupabaseBrowserClient();
   const router = useRouter();
@@ -18,7 +32,7 @@ export default function ChatPage() {
   const convId = Array.isArray(conversationId)
     ? conversationId[0]
     : conversationId;
-  const [messages, setMessages] = useState<ExtendedMessage[]>([]);
+  const [messages, setMessages] = useState<Message[]>([]);
   const [body, setBody] = useState("");
   const [files, setFiles] = useState<File[]>([]);
   const [previews, setPreviews] = useState<string[]>([]);
@@ -35,11 +49,21 @@ export default function ChatPage() {
     full_name: string;
     role: string;
   } | null>(null);
+  const [reads, setReads] = useState<ConversationRead[]>([]);
+  // Signed URLs for private attachments, keyed by storage path
+  const [attachmentUrls, setAttachmentUrls] = useState<Record<string, string>>({});
+  const [sendError, setSendError] = useState<string | null>(null);
+  const [sending, setSending] = useState(false);
+  // Participants currently typing, by user id
+  const [typingUsers, setTypingUsers] = useState<{ [id: string]: string }>({});
+  const typingTimeouts = useRef<{ [id: string]: ReturnType<typeof setTimeout> }>({});
+  const typingChannel = useRef<RealtimeChannel | null>(null);
+  const lastTypingSentAt = useRef(0);
   const bottomRef = useRef<HTMLDivElement>(null); // Load initial messages & subscribe to realtime
   useEffect(() => {
     if (!convId || typeof convId !== "string" || convId.trim() === "") return;
 
-    // Fetch existing messages
+    // Fetch existing messages and everyone's read state
     const fetchMessages = async () => {
       const { data, error } = await supabase
         .from("messages")
@@ -49,6 +73,13 @@ export default function ChatPage() {
 
       if (error) console.error(error);
       else setMessages(data || []);
+
+      const { data: readData, error: readError } = await supabase
+        .from("conversation_reads")
+        .select("*")
+        .eq("conversation_id", convId);
+      if (readError) console.error(readError);
+      else setReads((readData || []) as ConversationRead[]);
     };
 
     fetchMessages();
@@ -64,10 +95,10 @@ export default function ChatPage() {
         setMessages((prev) => {
           // Check if message already exists to avoid duplicates
           const messageExists = prev.some(
-            (m) => m.id === (msg as ExtendedMessage).id
+            (m) => m.id === (msg as Message).id
           );
           if (messageExists) return prev;
-          return [...prev, msg as ExtendedMessage];
+          return [...prev, msg as Message];
         });
       });
     } catch (error) {
@@ -118,18 +149,25 @@ export default function ChatPage() {
         // If current user is item owner, other participant is creator
         otherParticipantId =
           conv.creator_id === user.id ? conv.item.user_id : conv.creator_id;
+      } else if (conv.creator_id !== user.id) {
+        // Security staff answering a security chat talk to the user who opened it
+        otherParticipantId = conv.creator_id;
+      } else if (conv.assigned_to) {
+        // The staff member handling this chat from the security inbox
+        otherParticipantId = conv.assigned_to;
       } else {
-        // For security chats, get admin user
-        const { data: adminUsers } = await supabase
+        // For security chats, show a security staff member (or an admin if there are none)
+        const { data: staffUsers } = await supabase
           .from("profiles")
-          .select("id")
-          .eq("role", "admin")
-          .limit(1);
+          .select("id, role")
+          .in("role", ["security_staff", "admin"]);
 
-        if (adminUsers && adminUsers.length > 0) {
-          otherParticipantId = adminUsers[0].id;
+        const deskUser =
+          staffUsers?.find((u) => u.role === "security_staff") || staffUsers?.[0];
+        if (deskUser) {
+          otherParticipantId = deskUser.id;
         } else {
-          console.error("No admin user found for security chat");
+          console.error("No security staff found for security chat");
           return;
         }
       }
@@ -140,10 +178,7 @@ export default function ChatPage() {
         conv.item.user_id,
         otherParticipantId,
       ]);
-      messages.forEach((msg) => {
-        userIds.add(msg.sender_id);
-        if (msg.recipient_id) userIds.add(msg.recipient_id);
-      });
+      messages.forEach((msg) => userIds.add(msg.sender_id));
 
       // 5. Fetch user info
       const { data: users } = await supabase
@@ -179,30 +214,136 @@ export default function ChatPage() {
     fetchUsersAndConversation();
   }, [convId, messages, supabase]);
 
-  // Mark messages as seen
+  // currentUser is rebuilt on every poll, so effects below key off the id only
+  const currentUserId = currentUser?.id;
+
+  // Mark the conversation read whenever someone else's message is newer than our read receipt
+  const myLastReadAt = reads.find((read) => read.user_id === currentUserId)?.last_read_at;
   useEffect(() => {
-    if (!convId || !currentUser) return;
-    const unseen = messages.filter(
-      (msg: ExtendedMessage) =>
-        msg.recipient_id === currentUser.id && !msg.read_at
+    if (!convId || !currentUserId) return;
+    const hasUnread = messages.some(
+      (msg) =>
+        msg.sender_id !== currentUserId &&
+        (!myLastReadAt || new Date(msg.created_at) > new Date(myLastReadAt))
     );
-    if (unseen.length > 0) {
-      const ids = unseen.map((msg: ExtendedMessage) => msg.id);
-      supabase
-        .from("messages")
-        .update({ read_at: new Date().toISOString() })
-        .in("id", ids);
+    if (!hasUnread) return;
+    supabase
+      .rpc("mark_conversation_read", { p_conversation_id: convId })
+      .then(({ data, error }) => {
+        if (error) {
+          console.error("Failed to mark conversation read:", error);
+          return;
+        }
+        setReads((current) => [
+          ...current.filter((read) => read.user_id !== currentUserId),
+          { conversation_id: convId, user_id: currentUserId, last_read_at: data as string },
+        ]);
+      });
+  }, [messages, convId, currentUserId, myLastReadAt, supabase]);
+
+  // The last of our messages that another participant has read, and who read it
+  const seenMarker = useMemo(() => {
+    if (!currentUserId) return null;
+    let marker: { messageId: string; readerIds: string[] } | null = null;
+    for (const msg of messages) {
+      if (msg.sender_id !== currentUserId) continue;
+      const readerIds = reads
+        .filter(
+          (read) =>
+            read.user_id !== currentUserId &&
+            new Date(read.last_read_at) >= new Date(msg.created_at)
+        )
+        .map((read) => read.user_id);
+      if (readerIds.length > 0) marker = { messageId: msg.id, readerIds };
+    }
+    return marker;
+  }, [messages, reads, currentUserId]);
+
+  // Typing indicators over Realtime broadcast
+  useEffect(() => {
+    if (!convId || !currentUserId) return;
+    const timeouts = typingTimeouts.current;
+    const channel = subscribeToTyping(supabase, convId, ({ user_id, full_name }) => {
+      setTypingUsers((current) => ({ ...current, [user_id]: full_name }));
+      clearTimeout(timeouts[user_id]);
+      timeouts[user_id] = setTimeout(() => {
+        setTypingUsers((current) => {
+          const next = { ...current };
+          delete next[user_id];
+          return next;
+        });
+      }, TYPING_TIMEOUT_MS);
+    });
+    typingChannel.current = channel;
+
+    return () => {
+      typingChannel.current = null;
+      Object.values(timeouts).forEach(clearTimeout);
+      supabase.removeChannel(channel);
+    };
+  }, [convId, currentUserId, supabase]);
+
+  // A new message from someone ends their typing indicator
+  useEffect(() => {
+    const last = messages[messages.length - 1];
+    if (!last) return;
+    setTypingUsers((current) => {
+      if (!(last.sender_id in current)) return current;
+      const next = { ...current };
+      delete next[last.sender_id];
+      return next;
+    });
+  }, [messages]);
+
+  const handleBodyChange = (e: ChangeEvent<HTMLTextAreaElement>) => {
+    setBody(e.target.value);
+    const now = Date.now();
+    if (!typingChannel.current || !currentUser || now - lastTypingSentAt.current < TYPING_THROTTLE_MS) {
+      return;
     }
-  }, [messages, convId, currentUser, supabase]);
+    lastTypingSentAt.current = now;
+    sendTypingEvent(typingChannel.current, {
+      user_id: currentUser.id,
+      full_name: currentUser.full_name,
+    });
+  };
 
   // Auto-scroll
   useEffect(() => {
     bottomRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages]);
 
-  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+  // Sign every attachment in the conversation (both buckets are private) and re-sign before
+  // the URLs expire
+  const attachmentKeys = messages
+    .flatMap((msg) => (msg.attachments || []).map(attachmentKey))
+    .join("|");
+  useEffect(() => {
+    if (!attachmentKeys) return;
+    const keys = attachmentKeys.split("|");
+    const refreshUrls = () =>
+      signAttachmentUrls(supabase, keys)
+        .then(setAttachmentUrls)
+        .catch((error) => console.error("Failed to sign attachment URLs:", error));
+    refreshUrls();
+    const refreshInterval = setInterval(refreshUrls, (ATTACHMENT_URL_TTL_SECONDS - 60) * 1000);
+    return () => clearInterval(refreshInterval);
+  }, [attachmentKeys, supabase]);
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
     if (!e.target.files) return;
-    const list = Array.from(e.target.files).slice(0, 5);
+    const list = Array.from(e.target.files).slice(0, MAX_ATTACHMENTS_PER_MESSAGE);
+    setSendError(null);
+    try {
+      // Checked again (and stripped) on send; this just reports bad files early
+      await Promise.all(list.map(validateAttachment));
+    } catch (err: unknown) {
+      setSendError((err as Error).message);
+      e.target.value = "";
+      setFiles([]);
+      setPreviews([]);
+      return;
+    }
     setFiles(list);
     setPreviews(list.map((f) => URL.createObjectURL(f)));
   };
@@ -216,6 +357,8 @@ export default function ChatPage() {
       router.push("/auth");
       return;
     }
+    setSending(true);
+    setSendError(null);
     try {
       await sendMessage(supabase, convId, user.id, body, files);
       setBody("");
@@ -228,6 +371,9 @@ export default function ChatPage() {
         JSON.stringify(err),
         (err as Error)?.message
       );
+      setSendError((err as Error)?.message || "Failed to send message.");
+    } finally {
+      setSending(false);
     }
   };
 
@@ -286,7 +432,7 @@ export default function ChatPage() {
             {partner.role === "admin" && (
               <span className="ml-2 badge bg-red-500 text-white px-2 py-1 rounded">Admin</span>
             )}
-            {partner.role === "security" && (
+            {partner.role === "security_staff" && (
               <span className="ml-2 badge bg-blue-500 text-white px-2 py-1 rounded">Security</span>
             )}
           </div>
@@ -294,12 +440,12 @@ export default function ChatPage() {
       </div>
       {/* Chat area */}
       <div className="flex-1 overflow-auto px-2 py-2 sm:px-6 sm:py-4 space-y-2 bg-white/60 dark:bg-gray-900/60 rounded-lg">
-        {messages.map((msg: ExtendedMessage) => {
+        {messages.map((msg: Message) => {
           const isSender = msg.sender_id === currentUser?.id;
           return (
             <div
               key={msg.id}
-              className={`flex ${isSender ? "justify-end" : "justify-start"}`}
+              className={`flex flex-col ${isSender ? "items-end" : "items-start"}`}
             >
               <div
                 className={`max-w-[70%] px-4 py-2 rounded-2xl shadow-md text-sm break-words
@@ -316,47 +462,78 @@ export default function ChatPage() {
                   {userMap[msg.sender_id]?.role === "admin" && (
                     <span className="ml-1 badge bg-red-500 text-white px-1 rounded">Admin</span>
                   )}
-                  {userMap[msg.sender_id]?.role === "security" && (
+                  {userMap[msg.sender_id]?.role === "security_staff" && (
                     <span className="ml-1 badge bg-blue-500 text-white px-1 rounded">Security</span>
                   )}
                   <span className="ml-auto text-xs text-gray-300 dark:text-gray-400">
                     {new Date(msg.created_at).toLocaleTimeString()}
                   </span>
-                  {isSender && msg.read_at && (
-                    <span className="ml-2 text-green-300 text-xs">Seen</span>
-                  )}
                 </div>
                 <div>{msg.body}</div>
-                {msg.attachments?.map((att: MessageAttachment, idx: number) => (
-                  <div key={idx} className="mt-2 max-h-40 relative w-full h-40">
-                    <Image
-                      src={att.url}
-                      alt="attachment"
-                      fill
-                      sizes="(max-width: 600px) 100vw"
-                      className="object-contain rounded-lg border"
-                    />
-                  </div>
-                ))}
+                {msg.attachments?.map((att: MessageAttachment, idx: number) => {
+                  const src = attachmentUrls[attachmentKey(att)];
+                  return (
+                    <div key={idx} className="mt-2 max-h-40 relative w-full h-40">
+                      {src ? (
+                        // Signed URLs expire, so they bypass the image optimizer's cache
+                        <Image
+                          src={src}
+                          alt={att.name || "attachment"}
+                          fill
+                          unoptimized
+                          sizes="(max-width: 600px) 100vw"
+                          className="object-contain rounded-lg border"
+                        />
+                      ) : (
+                        <div className="w-full h-full rounded-lg border animate-pulse bg-gray-300/40" />
+                      )}
+                    </div>
+                  );
+                })}
               </div>
+              {!isSender && currentUser && (
+                <div className="mt-1 pl-1">
+                  <ReportButton targetType="message" targetId={msg.id} />
+                </div>
+              )}
+              {seenMarker?.messageId === msg.id && (
+                <div className="text-xs text-gray-500 dark:text-gray-400 mt-1 pr-1">
+                  {seenMarker.readerIds.length === 1 && seenMarker.readerIds[0] === partner?.id
+                    ? "Seen"
+                    : `Seen by ${seenMarker.readerIds
+                        .map((id) => userMap[id]?.full_name || "staff")
+                        .join(", ")}`}
+                </div>
+              )}
             </div>
           );
         })}
+        {Object.keys(typingUsers).length > 0 && (
+          <div className="text-xs italic text-gray-500 dark:text-gray-400 px-2">
+            {Object.values(typingUsers).join(", ")}{" "}
+            {Object.keys(typingUsers).length === 1 ? "is" : "are"} typing...
+          </div>
+        )}
         <div ref={bottomRef} />
       </div>
       {/* Message input area */}
       <div className="border-t pt-4 px-4 bg-white/80 dark:bg-gray-900/80 rounded-b-lg">
         <textarea
           value={body}
-          onChange={(e) => setBody(e.target.value)}
+          onChange={handleBodyChange}
           placeholder="Type your message..."
           className="w-full p-2 border rounded mb-2 dark:bg-gray-700 dark:text-white resize-none focus:ring-2 focus:ring-indigo-400"
           rows={3}
         />
+        {sendError && (
+          <div className="mb-2 p-2 rounded bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-200 text-sm">
+            {sendError}
+          </div>
+        )}
         <input
           type="file"
           multiple
-          accept="image/*"
+          accept="image/jpeg,image/png,image/webp"
           onChange={handleFileChange}
           className="mb-2"
         />
@@ -375,9 +552,10 @@ export default function ChatPage() {
         </div>
         <button
           onClick={handleSend}
-          className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded shadow-md w-full sm:w-auto"
+          disabled={sending}
+          className="bg-indigo-600 hover:bg-indigo-700 disabled:opacity-60 text-white px-4 py-2 rounded shadow-md w-full sm:w-auto"
         >
-          Send
+          {sending ? "Sending..." : "Send"}
         </button>
       </div>
     </div>
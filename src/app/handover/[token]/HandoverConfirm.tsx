@@ -0,0 +1,64 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+
+interface HandoverConfirmProps {
+  token: string;
+  itemId: string;
+}
+
+export default function HandoverConfirm({ token, itemId }: HandoverConfirmProps) {
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [done, setDone] = useState(false);
+
+  const handleConfirm = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/handover", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token }),
+      });
+      const body = await response.json();
+      if (!response.ok) throw new Error(body.error || "Failed to confirm handover");
+      setDone(true);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (done) {
+    return (
+      <div className="space-y-3 text-center">
+        <p className="text-green-400 font-semibold">
+          Handover recorded. The claim is resolved and the item has been archived.
+        </p>
+        <Link href={`/item/${itemId}`} className="text-indigo-400 underline">
+          Back to the item
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {error && (
+        <p className="text-red-300 bg-red-900 bg-opacity-30 p-3 rounded-lg border border-red-800">
+          {error}
+        </p>
+      )}
+      <button
+        onClick={handleConfirm}
+        disabled={submitting}
+        className="w-full bg-gradient-to-r from-green-600 to-green-500 hover:from-green-700 hover:to-green-600 text-white font-bold py-3 px-6 rounded-lg shadow-lg transition-all duration-200 disabled:opacity-50"
+      >
+        {submitting ? "Confirming..." : "Confirm handover"}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+import Link from "next/link";
+import { createServerComponentClient } from "@supabase/auth-helpers-nextjs";
+import { cookies } from "next/headers";
+import { format } from "date-fns";
+import { HandoverTokenError, verifyHandoverToken } from "@/lib/handover/token";
+import { hasPermission } from "@/lib/auth/roles";
+import { createSupabaseAdminClient } from "@/lib/supabase/admin";
+import HandoverConfirm from "./HandoverConfirm";
+
+export const dynamic = "force-dynamic";
+
+interface HandoverPageProps {
+  params: Promise<{ token: string }>;
+}
+
+interface HandoverClaim {
+  id: string;
+  status: string;
+  claimer_id: string;
+  claim_description: string;
+  date_resolved: string | null;
+  item: { id: string; title: string; user_id: string; status: string } | null;
+  claimer: { full_name: string | null } | null;
+}
+
+function HandoverMessage({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <main className="container mx-auto px-4 py-12 max-w-lg">
+      <div className="bg-gradient-to-r from-gray-800 to-gray-900 border border-gray-700 rounded-xl shadow-2xl p-6 space-y-4 text-gray-300">
+        <h1 className="text-2xl font-bold text-white">{title}</h1>
+        {children}
+      </div>
+    </main>
+  );
+}
+
+// Scanned by the finder or the security desk from the claimer's QR code
+export default async function HandoverPage({ params }: HandoverPageProps) {
+  const { token } = await params;
+
+  let payload;
+  try {
+    payload = verifyHandoverToken(decodeURIComponent(token));
+  } catch (err) {
+    if (!(err instanceof HandoverTokenError)) throw err;
+    return (
+      <HandoverMessage title="Invalid handover code">
+        <p>{err.message}</p>
+      </HandoverMessage>
+    );
+  }
+
+  const supabase = createServerComponentClient({ cookies });
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return (
+      <HandoverMessage title="Sign in to confirm the handover">
+        <p>Only the person who reported the item or security staff can confirm a handover.</p>
+        <Link href="/auth" className="text-indigo-400 underline">
+          Sign in
+        </Link>
+      </HandoverMessage>
+    );
+  }
+
+  const [{ data: claim }, { data: tokenRow }, { data: profile }] = await Promise.all([
+    supabase
+      .from("claims")
+      .select(
+        "id, status, claimer_id, claim_description, date_resolved, item:items(id, title, user_id, status), claimer:profiles!claimer_id(full_name)"
+      )
+      .eq("id", payload.claimId)
+      .maybeSingle(),
+    // Only claimers can read token rows; the signature checked above proves this one was issued
+    createSupabaseAdminClient()
+      .from("handover_tokens")
+      .select("used_at, revoked_at, expires_at")
+      .eq("id", payload.tokenId)
+      .maybeSingle(),
+    supabase.from("profiles").select("role").eq("id", user.id).maybeSingle(),
+  ]);
+
+  const handoverClaim = claim as unknown as HandoverClaim | null;
+  const canConfirm =
+    !!handoverClaim?.item &&
+    (handoverClaim.item.user_id === user.id || hasPermission(profile?.role, "confirmHandover"));
+
+  if (!handoverClaim?.item || !tokenRow) {
+    return (
+      <HandoverMessage title="Handover not available">
+        <p>Only the person who reported the item or security staff can confirm a handover.</p>
+      </HandoverMessage>
+    );
+  }
+
+  if (handoverClaim.claimer_id === user.id) {
+    return (
+      <HandoverMessage title="Show this code to the finder">
+        <p>
+          The finder or the security desk scans this code to confirm that you received{" "}
+          <span className="font-semibold text-white">{handoverClaim.item.title}</span>.
+        </p>
+      </HandoverMessage>
+    );
+  }
+
+  if (handoverClaim.date_resolved) {
+    return (
+      <HandoverMessage title="Already handed over">
+        <p>
+          This item was handed over on {format(new Date(handoverClaim.date_resolved), "PPpp")}.
+        </p>
+      </HandoverMessage>
+    );
+  }
+
+  const tokenProblem = tokenRow.used_at
+    ? "This handover code has already been used."
+    : tokenRow.revoked_at
+    ? "This handover code was replaced by a newer one. Ask the claimer to show their latest code."
+    : null;
+
+  return (
+    <HandoverMessage title="Confirm handover">
+      <dl className="space-y-2">
+        <div>
+          <dt className="text-sm text-gray-400">Item</dt>
+          <dd className="font-semibold text-white">
+            <Link href={`/item/${handoverClaim.item.id}`} className="hover:underline">
+              {handoverClaim.item.title}
+            </Link>
+          </dd>
+        </div>
+        <div>
+          <dt className="text-sm text-gray-400">Claimer</dt>
+          <dd className="text-white">{handoverClaim.claimer?.full_name || "Unknown user"}</dd>
+        </div>
+        <div>
+          <dt className="text-sm text-gray-400">Claim</dt>
+          <dd className="italic">&ldquo;{handoverClaim.claim_description}&rdquo;</dd>
+        </div>
+        <div>
+          <dt className="text-sm text-gray-400">Code valid until</dt>
+          <dd>{format(new Date(tokenRow.expires_at), "PPpp")}</dd>
+        </div>
+      </dl>
+      {tokenProblem ? (
+        <p className="text-red-300">{tokenProblem}</p>
+      ) : handoverClaim.status !== "approved" ? (
+        <p className="text-red-300">This claim is not approved, so the item cannot be handed over.</p>
+      ) : canConfirm ? (
+        <HandoverConfirm token={decodeURIComponent(token)} itemId={handoverClaim.item.id} />
+      ) : (
+        <p>Only the person who reported the item or security staff can confirm a handover.</p>
+      )}
+    </HandoverMessage>
+  );
+}
@@ -4,14 +4,19 @@ import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { QRCodeCanvas } from "qrcode.react";
 import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
-import { Item } from "@/types/database";
+import { Item, ItemVerificationQuestion } from "@/types/database";
 import type { User } from "@supabase/supabase-js";
 import ChatInitiator from "@/components/ChatInitiator";
+import VerificationQuestionsEditor from "@/components/VerificationQuestionsEditor";
+import ReportButton from "@/components/ReportButton";
+import { hasPermission } from "@/lib/auth/roles";
 
 interface UserClaim {
   id: string;
   status: string;
   claim_description: string;
+  adjudication_note: string | null;
+  date_resolved: string | null;
 }
 
 interface ItemDetailActionsProps {
@@ -36,6 +41,18 @@ export default function ItemDetailActions({
   const [userClaim, setUserClaim] = useState<UserClaim | null>(null);
   const [pendingClaimsCount, setPendingClaimsCount] = useState<number>(0);
   const [userRole, setUserRole] = useState<string | null>(null);
+  const [handover, setHandover] = useState<{
+    url: string;
+    expiresAt: string;
+  } | null>(null);
+  const [handoverError, setHandoverError] = useState("");
+  const [loadingHandover, setLoadingHandover] = useState(false);
+  const [verificationQuestions, setVerificationQuestions] = useState<
+    Pick<ItemVerificationQuestion, "id" | "question">[]
+  >([]);
+  const [verificationAnswers, setVerificationAnswers] = useState<
+    Record<string, string>
+  >({});
   const router = useRouter();
   const supabase = createClientComponentClient();
   // Fetch claims for this item/user on mount
@@ -45,7 +62,7 @@ export default function ItemDetailActions({
       // Fetch user's claim for this item
       const { data: userClaims } = await supabase
         .from("claims")
-        .select("id, status, claim_description")
+        .select("id, status, claim_description, adjudication_note, date_resolved")
         .eq("item_id", item.id)
         .eq("claimer_id", user.id)
         .order("created_at", { ascending: false })
@@ -74,6 +91,21 @@ export default function ItemDetailActions({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [user, item.id, isOwner]);
 
+  // Questions the claimer has to answer in the claim modal
+  useEffect(() => {
+    if (!showClaimModal) return;
+    const fetchQuestions = async () => {
+      const { data } = await supabase
+        .from("item_verification_questions")
+        .select("id, question")
+        .eq("item_id", item.id)
+        .order("position", { ascending: true });
+      setVerificationQuestions(data || []);
+    };
+    fetchQuestions();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [showClaimModal, item.id]);
+
   const handleDelete = async () => {
     if (
       !confirm(
@@ -95,6 +127,26 @@ export default function ItemDetailActions({
     }
   };
 
+  // Each request issues a new one-time code and invalidates the previous one
+  const handleShowHandoverCode = async () => {
+    if (!userClaim) return;
+    setLoadingHandover(true);
+    setHandoverError("");
+    try {
+      const response = await fetch(
+        `/api/claims/${userClaim.id}/handover-token`,
+        { method: "POST" }
+      );
+      const body = await response.json();
+      if (!response.ok) throw new Error(body.error || "Failed to create handover code");
+      setHandover({ url: body.url, expiresAt: body.expiresAt });
+    } catch (err) {
+      setHandoverError((err as Error).message);
+    } finally {
+      setLoadingHandover(false);
+    }
+  };
+
   const handleClaim = async () => {
     setClaimError("");
     setClaimSuccess(false);
@@ -111,21 +163,27 @@ export default function ItemDetailActions({
       setClaimError("You have already submitted a claim for this item.");
       return;
     }
-    // Insert claim into Supabase
-    const { data: inserted, error } = await supabase
-      .from("claims")
-      .insert({
-        item_id: item.id,
-        claimer_id: user.id,
-        claim_description: claimText,
-        // security turn-in now managed by admins; no user input
-      })
-      .select();
+    if (
+      verificationQuestions.some(
+        (question) => !verificationAnswers[question.id]?.trim()
+      )
+    ) {
+      setClaimError("Please answer every verification question.");
+      return;
+    }
+    // Claim and answers are stored together; the answers are scored server-side
+    const { data: insertedClaim, error } = await supabase.rpc("submit_claim", {
+      p_item_id: item.id,
+      p_claim_description: claimText,
+      p_answers: verificationQuestions.map((question) => ({
+        question_id: question.id,
+        answer: verificationAnswers[question.id].trim(),
+      })),
+    });
     if (error) {
       setClaimError(error.message || "Failed to submit claim.");
     } else {
       // Create notification for item owner
-      const insertedClaim = inserted && inserted[0];
       if (insertedClaim) {
         await supabase.from("notifications").insert({
           user_id: item.user_id,
@@ -141,10 +199,11 @@ export default function ItemDetailActions({
       setClaimSuccess(true);
       setShowClaimModal(false);
       setClaimText("");
+      setVerificationAnswers({});
       // Refetch claim status
       const { data: userClaims } = await supabase
         .from("claims")
-        .select("id, status, claim_description")
+        .select("id, status, claim_description, adjudication_note, date_resolved")
         .eq("item_id", item.id)
         .eq("claimer_id", user.id)
         .order("created_at", { ascending: false })
@@ -184,7 +243,7 @@ export default function ItemDetailActions({
 
           {/* User's Claim Status (Non-owner, if claimed) */}
           {!isOwner && userClaim ? (
-            <div className="w-full bg-gray-800 rounded-xl border border-gray-700 shadow-lg overflow-hidden mb-6">
+            <div id="claims" className="scroll-mt-20 w-full bg-gray-800 rounded-xl border border-gray-700 shadow-lg overflow-hidden mb-6">
               <div className="p-4 border-b border-gray-700 bg-gradient-to-r from-gray-800 to-gray-900">
                 <h3 className="text-base font-semibold text-white mb-1">
                   Your Claim Status
@@ -217,6 +276,14 @@ export default function ItemDetailActions({
                 <blockquote className="bg-gray-900 rounded-lg p-3 text-gray-300 italic border-l-4 border-indigo-500 mb-3">
                   &quot;{userClaim.claim_description}&quot;
                 </blockquote>
+                {userClaim.adjudication_note && (
+                  <p className="text-sm text-gray-400 mb-3">
+                    <span className="font-semibold text-gray-300">
+                      Note from the reporter:{" "}
+                    </span>
+                    {userClaim.adjudication_note}
+                  </p>
+                )}
                 {userClaim.status === "rejected" && (
                   <div className="flex items-center gap-2 text-sm text-red-300 bg-red-900 bg-opacity-30 p-3 rounded-lg border border-red-800">
                     <svg
@@ -239,6 +306,48 @@ export default function ItemDetailActions({
                   </div>
                 )}
 
+                {/* Handover QR for approved claims */}
+                {userClaim.status === "approved" && (
+                  <div className="mt-4 space-y-3">
+                    {userClaim.date_resolved ? (
+                      <p className="text-sm text-green-300">
+                        Handed over on{" "}
+                        {new Date(userClaim.date_resolved).toLocaleString()}.
+                      </p>
+                    ) : handover ? (
+                      <div className="flex flex-col items-center gap-2">
+                        <div className="bg-white p-3 rounded-lg shadow-inner">
+                          <QRCodeCanvas value={handover.url} size={180} />
+                        </div>
+                        <p className="text-sm text-gray-400 text-center">
+                          Show this code to the finder or the security desk
+                          when you pick up the item. It can be used once and
+                          expires at{" "}
+                          {new Date(handover.expiresAt).toLocaleTimeString()}.
+                        </p>
+                        <button
+                          className="text-sm text-indigo-400 hover:underline"
+                          onClick={handleShowHandoverCode}
+                          disabled={loadingHandover}
+                        >
+                          Get a new code
+                        </button>
+                      </div>
+                    ) : (
+                      <button
+                        className="w-full bg-gradient-to-r from-green-600 to-green-500 hover:from-green-700 hover:to-green-600 text-white font-bold py-3 px-6 rounded-lg shadow-lg transition-all duration-200 disabled:opacity-50"
+                        onClick={handleShowHandoverCode}
+                        disabled={loadingHandover}
+                      >
+                        {loadingHandover ? "Creating code..." : "Show handover QR code"}
+                      </button>
+                    )}
+                    {handoverError && (
+                      <p className="text-sm text-red-300">{handoverError}</p>
+                    )}
+                  </div>
+                )}
+
                 {/* Chat Button for rejected claims */}
                 {userClaim.status === "rejected" && (
                   <div className="mt-4">
@@ -300,7 +409,7 @@ export default function ItemDetailActions({
                     {deleting ? "Deleting..." : "Delete"}
                   </button>{" "}
                   {/* Chat with Security Button (Owner) */}
-                  {userRole !== "admin" && (
+                  {!hasPermission(userRole, "securityChats") && (
                     <div className="flex-1 sm:flex-auto">
                       <ChatInitiator itemId={item.id} turnInToSecurity={true} />
                     </div>
@@ -347,7 +456,23 @@ export default function ItemDetailActions({
                 </>
               )}
             </div>
+            {/* Report a fake or abusive listing (Non-owner) */}
+            {user && !isOwner && (
+              <div className="mt-4 text-right">
+                <ReportButton targetType="item" targetId={item.id} />
+              </div>
+            )}
           </div>{/* End of Action Buttons Section Card */}
+
+          {/* Verification Questions (reporter or moderator, found items) */}
+          {(isOwner || hasPermission(userRole, "reviewClaims")) && item.status === "found" && (
+            <div className="mt-6 bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 border border-gray-200 dark:border-gray-700">
+              <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
+                Verification Questions
+              </h3>
+              <VerificationQuestionsEditor itemId={item.id} />
+            </div>
+          )}
         </div>{/* End of Left Column */}
 
         {/* Right Column: QR Code */}
@@ -411,6 +536,32 @@ export default function ItemDetailActions({
                 value={claimText}
                 onChange={(e) => setClaimText(e.target.value)}
               />
+              {verificationQuestions.length > 0 && (
+                <div className="space-y-3 mb-4">
+                  <p className="text-sm font-semibold text-gray-300">
+                    The finder asked a few questions to confirm ownership:
+                  </p>
+                  {verificationQuestions.map((question) => (
+                    <label key={question.id} className="block">
+                      <span className="block text-sm text-gray-400 mb-1">
+                        {question.question}
+                      </span>
+                      <input
+                        type="text"
+                        maxLength={500}
+                        className="w-full bg-gray-900 border border-gray-700 rounded-lg px-4 py-2 text-white focus:outline-none focus:border-indigo-500 transition"
+                        value={verificationAnswers[question.id] || ""}
+                        onChange={(e) =>
+                          setVerificationAnswers((prev) => ({
+                            ...prev,
+                            [question.id]: e.target.value,
+                          }))
+                        }
+                      />
+                    </label>
+                  ))}
+                </div>
+              )}
               {/* Informational note for campus security handover */}
               <p className="text-gray-400 text-sm mb-4">
                 If this item has already been turned over to campus
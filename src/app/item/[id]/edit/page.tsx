@@ -5,9 +5,17 @@ import { useForm, SubmitHandler } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { reportItemSchema, ReportItemFormData } from "@/lib/schemas";
 import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
-import { Item, CategoryNames } from "@/types/database";
+import { Item, ItemImage, CategoryNames } from "@/types/database";
+import { uploadItemImages } from "@/lib/images/itemImages";
 
 import Image from "next/image";
+import dynamic from "next/dynamic";
+
+// Leaflet touches `window` on import, so the map only renders on the client
+const LocationPicker = dynamic(() => import("@/components/map/LocationPicker"), {
+  ssr: false,
+  loading: () => <div className="h-72 rounded-md bg-gray-100 dark:bg-gray-700 animate-pulse" />,
+});
 
 export default function EditItemPage() {
   const supabase = createClientComponentClient();
@@ -43,10 +51,14 @@ export default function EditItemPage() {
       description: '',
       locationDescription: '',
       dateLostOrFound: '',
+      lat: null,
+      lng: null,
     },
   });
 
   const currentStatus = watch('status');
+  const pinLat = watch('lat');
+  const pinLng = watch('lng');
 
   // Fetch item and user on mount
   useEffect(() => {
@@ -88,6 +100,8 @@ export default function EditItemPage() {
         description: data.description || '',
         locationDescription: data.location_description || '',
         dateLostOrFound: data.date_lost_or_found || '',
+        lat: data.lat ?? null,
+        lng: data.lng ?? null,
       });
 
       setLoading(false);
@@ -118,42 +132,24 @@ export default function EditItemPage() {
       setServerError("User not authenticated or item not loaded.");
       return;
     }
-    let imageUrls: string[] = [...existingImageUrls];
+    let newImages: ItemImage[] = [];
     let uploadedFilePaths: string[] = [];
-    // Upload new images if selected
+
+    // Process and upload new images if selected (resized WebP copies, EXIF stripped)
     if (selectedFiles.length > 0) {
-      for (const file of selectedFiles) {
-        const fileName = `${userId}/${Date.now()}_${file.name.replace(/\s/g, '_')}`;
-        try {
-          const { data: uploadData, error: uploadError } = await supabase.storage
-            .from('item-images')
-            .upload(fileName, file, {
-              cacheControl: '3600',
-              upsert: false,
-            });
-          if (uploadError) {
-            setServerError("Failed to upload image: " + uploadError.message);
-            return;
-          }
-          if (!uploadData || !uploadData.path) {
-            setServerError("Failed to get image path after upload. Please try again.");
-            return;
-          }
-          uploadedFilePaths.push(uploadData.path);
-          const { data: urlData } = supabase.storage
-            .from('item-images')
-            .getPublicUrl(uploadData.path);
-          if (!urlData || !urlData.publicUrl) {
-            setServerError("Failed to retrieve image URL after upload. Please try again.");
-            return;
-          }
-          imageUrls.push(urlData.publicUrl);
-        } catch (e: any) {
-          setServerError("Unexpected error during image upload: " + (e?.message || e));
-          return;
-        }
+      try {
+        ({ images: newImages, paths: uploadedFilePaths } = await uploadItemImages(selectedFiles));
+      } catch (e: unknown) {
+        setServerError("Failed to upload images: " + (e instanceof Error ? e.message : String(e)));
+        return;
       }
     }
+    const imageUrls = [...existingImageUrls, ...newImages.map((image) => image.url)];
+    // Keep processed sizes only for photos that are still attached
+    const imageVariants = [
+      ...(item.image_variants || []).filter((image) => existingImageUrls.includes(image.url)),
+      ...newImages,
+    ];
     // Convert category string to category_id
     let category_id: number | undefined;
     const categoryKeys = Object.keys(CategoryNames);
@@ -179,10 +175,13 @@ export default function EditItemPage() {
       description: data.description,
       category_id: category_id, // Use category_id here
       location_description: data.locationDescription,
+      lat: data.lat ?? null,
+      lng: data.lng ?? null,
       date_lost_or_found: new Date(data.dateLostOrFound).toISOString(),
       status: data.status,
       is_urgent: data.isUrgent || false,
       image_urls: imageUrls,
+      image_variants: imageVariants,
       turn_in_to_security: data.turnInToSecurity || false,
     };
     // Update item
@@ -280,6 +279,21 @@ export default function EditItemPage() {
           />
           {errors.locationDescription && <p className="mt-1 text-xs text-red-500">{errors.locationDescription.message}</p>}
         </div>
+        <div>
+          <span className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            Pin on Campus Map (optional)
+          </span>
+          <p className="mb-2 text-xs text-gray-500 dark:text-gray-400">
+            Click the map where the item was {currentStatus === 'lost' ? 'lost' : 'found'}.
+          </p>
+          <LocationPicker
+            value={typeof pinLat === 'number' && typeof pinLng === 'number' ? { lat: pinLat, lng: pinLng } : null}
+            onChange={(point) => {
+              setValue('lat', point?.lat ?? null);
+              setValue('lng', point?.lng ?? null);
+            }}
+          />
+        </div>
         <div>
           <label htmlFor="dateLostOrFound" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
             Date {currentStatus === 'lost' ? 'Lost' : 'Found'} <span className="text-red-500">*</span>
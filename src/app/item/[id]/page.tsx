@@ -10,6 +10,9 @@ import { format } from "date-fns";
 import ItemDetailActions from "./ItemDetailActions";
 import { UserCircleIcon, MapPinIcon, CalendarDaysIcon, ChatBubbleLeftEllipsisIcon } from '@heroicons/react/24/outline';
 import ManageClaimsClient from "@/components/ManageClaimsClient";
+import { hasPermission } from "@/lib/auth/roles";
+import PossibleMatches, { MatchWithCandidate } from "@/components/PossibleMatches";
+import DuplicateItemsPanel from "@/components/DuplicateItemsPanel";
 
 // Explicitly type the 'user' property that is added to 'Item' by the join
 interface ItemWithUser extends Item {
@@ -47,7 +50,8 @@ async function getItemData(itemId: string, supabase: SupabaseClient) {
       `
       *,
       claimer:profiles!claimer_id(id, full_name, avatar_url),
-      resolver:profiles!resolved_by_user_id(id, full_name, avatar_url)
+      resolver:profiles!resolved_by_user_id(id, full_name, avatar_url),
+      verification_answers:claim_verification_answers(id, claim_id, question_id, answer, score, question:item_verification_questions(question, position))
     `
     )
     .eq("item_id", itemId)
@@ -73,6 +77,38 @@ async function getItemData(itemId: string, supabase: SupabaseClient) {
   return { item, claims: claims || [], claimsError };
 }
 
+const MATCH_CANDIDATE_COLUMNS =
+  "id, title, status, location_description, date_lost_or_found";
+
+// Ranked candidates from the match engine, seen from this item's side of the pair
+async function getItemMatches(
+  item: Item,
+  supabase: SupabaseClient
+): Promise<MatchWithCandidate[]> {
+  const ownColumn = item.status === "found" ? "found_item_id" : "lost_item_id";
+  const { data, error } = await supabase
+    .from("item_matches")
+    .select(
+      `*, lost_item:items!lost_item_id(${MATCH_CANDIDATE_COLUMNS}), found_item:items!found_item_id(${MATCH_CANDIDATE_COLUMNS})`
+    )
+    .eq(ownColumn, item.id)
+    .order("score", { ascending: false })
+    .limit(5);
+
+  if (error) {
+    console.error("Error fetching item matches:", error.message);
+    return [];
+  }
+
+  return (data || []).map((match) => {
+    const { lost_item, found_item, ...rest } = match;
+    return {
+      ...rest,
+      candidate: item.status === "found" ? lost_item : found_item,
+    } as MatchWithCandidate;
+  });
+}
+
 export default async function ItemDetailPage({ params }: ItemDetailPageProps) {
   const supabase = createServerComponentClient({ cookies });
   const {
@@ -90,6 +126,33 @@ export default async function ItemDetailPage({ params }: ItemDetailPageProps) {
   }
 
   const isOwner = !!user && user.id === item.user_id;
+  const { data: viewerProfile } = user
+    ? await supabase.from("profiles").select("role").eq("id", user.id).maybeSingle()
+    : { data: null };
+  const isModerator = hasPermission(viewerProfile?.role, "reviewClaims");
+
+  // RLS only lets the reporter and moderators load a hidden listing. The reporter gets the
+  // notice without the removed content; moderators still see everything to review it.
+  if (item.hidden_at && !isModerator) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-indigo-50/30 dark:from-gray-900 dark:via-gray-800 dark:to-indigo-900/20">
+        <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-12 space-y-6">
+          <div className="p-4 rounded-xl bg-red-50 border border-red-200 text-red-800 dark:bg-red-900/20 dark:border-red-700/50 dark:text-red-300">
+            A moderator removed this listing on {format(new Date(item.hidden_at), "PPP")} after it was reported.
+            It is no longer shown to other users.
+          </div>
+          <Link href="/" className="inline-block font-medium text-indigo-600 dark:text-indigo-400 hover:underline">
+            Back to Browse
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const matches =
+    isOwner && (item.status === "lost" || item.status === "found")
+      ? await getItemMatches(item, supabase)
+      : [];
   const itemUrl = `${
     process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000"
   }/item/${item.id}`;
@@ -120,6 +183,21 @@ export default async function ItemDetailPage({ params }: ItemDetailPageProps) {
           </Link>
         </nav>
 
+        {item.merged_into_id && (
+          <div className="mb-6 p-4 rounded-xl bg-amber-50 border border-amber-200 text-amber-800 dark:bg-amber-900/20 dark:border-amber-700/50 dark:text-amber-300">
+            This report was a duplicate and has been merged.{" "}
+            <Link href={`/item/${item.merged_into_id}`} className="font-medium underline">
+              View the current report
+            </Link>
+          </div>
+        )}
+
+        {item.hidden_at && (
+          <div className="mb-6 p-4 rounded-xl bg-red-50 border border-red-200 text-red-800 dark:bg-red-900/20 dark:border-red-700/50 dark:text-red-300">
+            A moderator removed this listing on {format(new Date(item.hidden_at), "PPP")} after it was reported.
+          </div>
+        )}
+
         {/* Main Content Card */}
         <div className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm rounded-2xl shadow-xl border border-white/20 dark:border-gray-700/30 overflow-hidden">
           <div className="lg:grid lg:grid-cols-12 lg:gap-0">
@@ -130,6 +208,7 @@ export default async function ItemDetailPage({ params }: ItemDetailPageProps) {
                   <ImageGallery
                     primaryImage={item.image_url}
                     images={item.image_urls || []}
+                    processedImages={item.image_variants}
                     itemTitle={item.title}
                   />
                   {/* Status overlay - improved styling */}
@@ -261,6 +340,14 @@ export default async function ItemDetailPage({ params }: ItemDetailPageProps) {
                 <ItemDetailActions item={item} user={user} isOwner={isOwner} itemUrl={itemUrl} />
               </section>
 
+              {/* Possible Matches Section (for owner) */}
+              {isOwner && <PossibleMatches matches={matches} />}
+
+              {/* Duplicate reports of the same item (for moderators) */}
+              {isModerator && !item.merged_into_id && (item.status === "lost" || item.status === "found") && (
+                <DuplicateItemsPanel itemId={item.id} itemTitle={item.title} />
+              )}
+
               {/* Reported By Section (if not owner and item has a poster) */}
               {!isOwner && item.user && (
                 <section aria-labelledby="item-poster-heading" className="bg-gray-50/50 dark:bg-gray-800/30 p-6 rounded-xl shadow-md border border-gray-200 dark:border-gray-700/50">
@@ -285,15 +372,16 @@ export default async function ItemDetailPage({ params }: ItemDetailPageProps) {
                 </section>
               )}
 
-              {/* Claims Section (for owner) */}
-              {isOwner && (
-                <section aria-labelledby="manage-claims-heading" className="bg-gray-50/50 dark:bg-gray-800/30 p-6 rounded-xl shadow-md border border-gray-200 dark:border-gray-700/50">
+              {/* Claims Section (for owner, and moderators reviewing claims) */}
+              {(isOwner || isModerator) && (
+                <section id="claims" aria-labelledby="manage-claims-heading" className="scroll-mt-20 bg-gray-50/50 dark:bg-gray-800/30 p-6 rounded-xl shadow-md border border-gray-200 dark:border-gray-700/50">
                   {/* ManageClaimsClient likely has its own H2, or you can add one here */}
                   <ManageClaimsClient
                     itemId={item.id}
                     claims={claims} /* Corrected prop name */
                     itemStatus={item.status as ItemStatus}
                     isOwner={isOwner} /* Added missing prop */
+                    isModerator={isModerator}
                     currentUserId={user?.id} /* Added missing prop */
                   />
                 </section>
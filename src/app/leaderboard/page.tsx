@@ -0,0 +1,104 @@
+'use client';
+import { useEffect, useMemo, useState } from 'react';
+import Image from 'next/image';
+import { createSupabaseBrowserClient } from '@/lib/supabase/client';
+import { recentSemesters } from '@/lib/points/semester';
+import { LeaderboardEntry } from '@/types/database';
+
+const SEMESTERS_SHOWN = 6;
+
+export default function LeaderboardPage() {
+  const semesters = useMemo(() => recentSemesters(SEMESTERS_SHOWN), []);
+  const [semesterKey, setSemesterKey] = useState(semesters[0].key);
+  const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const supabase = useMemo(() => createSupabaseBrowserClient(), []);
+
+  const semester = semesters.find(s => s.key === semesterKey) || semesters[0];
+
+  useEffect(() => {
+    supabase.auth.getUser().then(({ data: { user } }) => setCurrentUserId(user?.id || null));
+  }, [supabase]);
+
+  useEffect(() => {
+    const fetchLeaderboard = async () => {
+      setLoading(true);
+      setError(null);
+      const { data, error } = await supabase.rpc('points_leaderboard', {
+        p_from: semester.start.toISOString(),
+        p_to: semester.end.toISOString(),
+        p_limit: 50,
+      });
+      if (error) {
+        setError(error.message);
+        setEntries([]);
+      } else {
+        setEntries((data || []) as LeaderboardEntry[]);
+      }
+      setLoading(false);
+    };
+    fetchLeaderboard();
+  }, [supabase, semester]);
+
+  return (
+    <div className="container mx-auto max-w-2xl p-6">
+      <h1 className="text-3xl font-bold mb-2 text-center">Leaderboard</h1>
+      <p className="text-center text-sm text-gray-500 dark:text-gray-400 mb-6">
+        Points for returning found items to their owners. Fast returns earn a bonus; rejected or fraudulent claims cost points.
+      </p>
+
+      <div className="flex justify-center mb-6">
+        <select
+          value={semesterKey}
+          onChange={e => setSemesterKey(e.target.value)}
+          className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm dark:bg-gray-700 dark:text-white"
+        >
+          {semesters.map(s => (
+            <option key={s.key} value={s.key}>{s.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {loading && <div className="text-center">Loading...</div>}
+      {error && <div className="text-center text-red-500">{error}</div>}
+      {!loading && !error && entries.length === 0 && (
+        <div className="text-center text-gray-500">No points have been earned in {semester.label} yet.</div>
+      )}
+      {!loading && entries.length > 0 && (
+        <ol className="space-y-2">
+          {entries.map(entry => (
+            <li
+              key={entry.user_id}
+              className={`flex items-center gap-4 p-4 rounded-lg shadow border bg-white dark:bg-gray-800 ${entry.user_id === currentUserId ? 'border-indigo-400 dark:border-indigo-500' : 'border-gray-200 dark:border-gray-700'}`}
+            >
+              <span className={`w-8 text-center text-lg font-bold ${entry.rank <= 3 ? 'text-indigo-500' : 'text-gray-400'}`}>
+                {entry.rank}
+              </span>
+              <div className="relative w-10 h-10 rounded-full overflow-hidden bg-gray-200 dark:bg-gray-700 flex items-center justify-center flex-shrink-0">
+                {entry.avatar_url ? (
+                  <Image src={entry.avatar_url} alt={entry.full_name || 'User'} fill className="object-cover" />
+                ) : (
+                  <span className="font-bold text-gray-500 dark:text-gray-400">
+                    {entry.full_name ? entry.full_name[0].toUpperCase() : '?'}
+                  </span>
+                )}
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="font-semibold truncate">
+                  {entry.full_name || 'Anonymous'}
+                  {entry.user_id === currentUserId && <span className="ml-2 text-xs text-indigo-500">(you)</span>}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {entry.items_returned} {entry.items_returned === 1 ? 'item' : 'items'} returned
+                </p>
+              </div>
+              <span className="text-xl font-bold">{entry.points}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,267 @@
+"use client";
+
+import { Suspense, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import dynamic from "next/dynamic";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { SearchBar } from "@/components/SearchBar";
+import { FilterControls, FilterState } from "@/components/FilterControls";
+import type { SearchItem, SearchResult } from "@/lib/search/filterItems";
+import {
+  filtersToSearchParams,
+  searchParamsToFilters,
+} from "@/lib/search/searchParams";
+import type { LatLng } from "@/lib/geo/campus";
+
+// Leaflet touches `window` on import, so the map only renders on the client
+const ItemsMap = dynamic(() => import("@/components/map/ItemsMap"), {
+  ssr: false,
+  loading: () => (
+    <div className="h-full w-full rounded-lg bg-gray-100 dark:bg-gray-700 animate-pulse" />
+  ),
+});
+
+// The search route caps pages at 50; the map pulls a few pages and stops there
+const PAGE_SIZE = 50;
+const MAX_MAP_ITEMS = 500;
+
+const RADIUS_OPTIONS = [50, 100, 150, 300, 500];
+const DEFAULT_RADIUS = 150;
+
+// Filter keys owned by FilterControls; the rest of the query string is left alone when they change
+const FILTER_CONTROL_KEYS = ["category", "status", "from", "to"];
+
+export default function MapPage() {
+  // useSearchParams needs a Suspense boundary for the page to prerender
+  return (
+    <Suspense
+      fallback={
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-indigo-500"></div>
+        </div>
+      }
+    >
+      <MapPageContent />
+    </Suspense>
+  );
+}
+
+function MapPageContent() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  // Same query string as the home page, plus near/radius for the radius search
+  const filters = useMemo(
+    () => searchParamsToFilters(searchParams),
+    [searchParams]
+  );
+
+  const [items, setItems] = useState<SearchItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [fetchError, setFetchError] = useState<string | null>(null);
+  const [pickingNear, setPickingNear] = useState(false);
+  const [radius, setRadius] = useState(
+    () => filters.near?.radiusMeters ?? DEFAULT_RADIUS
+  );
+
+  const searchParamsRef = useRef(searchParams);
+  searchParamsRef.current = searchParams;
+
+  const updateSearchParams = useCallback(
+    (mutate: (params: URLSearchParams) => void) => {
+      const current = searchParamsRef.current.toString();
+      const params = new URLSearchParams(current);
+      mutate(params);
+      const next = params.toString();
+      if (next === current) return;
+      router.replace(next ? `${pathname}?${next}` : pathname, {
+        scroll: false,
+      });
+    },
+    [router, pathname]
+  );
+
+  const handleSearch = useCallback(
+    (term: string) =>
+      updateSearchParams((params) => {
+        if (term.trim()) params.set("q", term.trim());
+        else params.delete("q");
+      }),
+    [updateSearchParams]
+  );
+
+  const handleFilterChange = useCallback(
+    (newFilters: FilterState) =>
+      updateSearchParams((params) => {
+        FILTER_CONTROL_KEYS.forEach((key) => params.delete(key));
+        filtersToSearchParams(newFilters, params);
+      }),
+    [updateSearchParams]
+  );
+
+  const setNear = (center: LatLng | null, radiusMeters: number) =>
+    updateSearchParams((params) => {
+      if (center) {
+        params.set("near", `${center.lat.toFixed(6)},${center.lng.toFixed(6)}`);
+        params.set("radius", String(radiusMeters));
+      } else {
+        params.delete("near");
+        params.delete("radius");
+      }
+    });
+
+  const apiQuery = useMemo(
+    () => filtersToSearchParams({ ...filters, hasLocation: true }).toString(),
+    [filters]
+  );
+
+  // Loads every page up to MAX_MAP_ITEMS; markers are clustered client side
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoading(true);
+    setFetchError(null);
+
+    const load = async () => {
+      const collected: SearchItem[] = [];
+      let cursor: string | null = null;
+      let resultTotal = 0;
+      do {
+        const params = new URLSearchParams(apiQuery);
+        params.set("limit", String(PAGE_SIZE));
+        if (cursor) params.set("cursor", cursor);
+
+        const response = await fetch(`/api/items/search?${params}`, {
+          signal: controller.signal,
+        });
+        const body = await response.json();
+        if (!response.ok) throw new Error(body.error || "Failed to load items");
+
+        const result = body as SearchResult;
+        collected.push(...result.items);
+        resultTotal = result.total;
+        cursor = result.nextCursor;
+      } while (cursor && collected.length < MAX_MAP_ITEMS);
+
+      setItems(collected);
+      setTotal(resultTotal);
+      setLoading(false);
+    };
+
+    load().catch((error) => {
+      if (controller.signal.aborted) return;
+      console.error("Error fetching map items:", error);
+      setFetchError((error as Error).message);
+      setItems([]);
+      setTotal(0);
+      setLoading(false);
+    });
+
+    return () => controller.abort();
+  }, [apiQuery]);
+
+  // Seeds FilterControls from the URL once, on first render
+  const [initialFilterState] = useState<FilterState>(() => ({
+    category: filters.category || [],
+    status: filters.status || [],
+    dateRange: {
+      start: filters.dateRange?.start || null,
+      end: filters.dateRange?.end || null,
+    },
+  }));
+
+  return (
+    <main className="container mx-auto px-4 py-8">
+      <h1 className="text-3xl font-bold text-center mb-8 text-gray-800 dark:text-white">
+        Campus Map
+      </h1>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+        <div className="md:col-span-1">
+          <div className="space-y-4">
+            <SearchBar
+              initialValue={filters.searchQuery || ""}
+              onSearch={handleSearch}
+            />
+            <FilterControls
+              initialFilters={initialFilterState}
+              onFilterChange={handleFilterChange}
+            />
+
+            <div className="bg-white dark:bg-gray-800 p-4 rounded-lg shadow space-y-3">
+              <h2 className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+                Near this spot
+              </h2>
+              <label className="block text-xs text-gray-500 dark:text-gray-400">
+                Radius
+                <select
+                  value={radius}
+                  onChange={(e) => {
+                    const next = Number(e.target.value);
+                    setRadius(next);
+                    if (filters.near) setNear(filters.near, next);
+                  }}
+                  className="mt-1 block w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-sm dark:bg-gray-700 dark:text-white"
+                >
+                  {RADIUS_OPTIONS.map((option) => (
+                    <option key={option} value={option}>
+                      {option} m
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <button
+                type="button"
+                onClick={() => setPickingNear((picking) => !picking)}
+                className={`w-full px-3 py-2 rounded-md text-sm font-medium ${
+                  pickingNear
+                    ? "bg-amber-500 text-white"
+                    : "bg-indigo-600 text-white hover:bg-indigo-700"
+                }`}
+              >
+                {pickingNear ? "Click a spot on the map..." : "Pick a spot"}
+              </button>
+              {filters.near && (
+                <button
+                  type="button"
+                  onClick={() => setNear(null, radius)}
+                  className="w-full px-3 py-2 rounded-md text-sm font-medium bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600"
+                >
+                  Clear spot
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="md:col-span-3">
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-2">
+            {loading
+              ? "Loading items..."
+              : fetchError
+              ? fetchError
+              : `Showing ${items.length} of ${total} pinned items`}
+          </p>
+          <div className="h-[70vh] rounded-lg overflow-hidden shadow">
+            <ItemsMap
+              items={items}
+              near={
+                filters.near
+                  ? {
+                      center: { lat: filters.near.lat, lng: filters.near.lng },
+                      radiusMeters: filters.near.radiusMeters,
+                    }
+                  : null
+              }
+              pickingNear={pickingNear}
+              onPickNear={(center) => {
+                setPickingNear(false);
+                setNear(center, radius);
+              }}
+            />
+          </div>
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -4,6 +4,9 @@ import { useRouter } from "next/navigation";
 import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
 import Image from "next/image";
 import Link from "next/link";
+import { hasPermission } from "@/lib/auth/roles";
+import { subscribeToUnreadChanges } from "@/lib/supabase/client";
+import { UnreadMessageCount } from "@/types/database";
 
 // Function to generate a unique 4-digit identifier from UUID
 function generateItemId(uuid: string): string {
@@ -36,6 +39,8 @@ export default function MessagesPage() {
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [userId, setUserId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  // Unread messages per conversation id
+  const [unreadCounts, setUnreadCounts] = useState<Record<string, number>>({});
   const router = useRouter();
   useEffect(() => {
     async function fetchConversations() {
@@ -79,7 +84,7 @@ export default function MessagesPage() {
           .eq("item.user_id", user.id)
           .neq("creator_id", user.id); // Exclude conversations user already created
 
-      // 3. As admin for security chats
+      // 3. As security staff for security chats
       const { data: userProfile } = await supabase
         .from("profiles")
         .select("role")
@@ -87,7 +92,7 @@ export default function MessagesPage() {
         .single();
 
       let securityConversations: Conversation[] = [];
-      if (userProfile?.role === "admin") {
+      if (hasPermission(userProfile?.role, "securityChats")) {
         const { data: adminConversations } = await supabase
           .from("conversations")
           .select(
@@ -168,20 +173,21 @@ export default function MessagesPage() {
               } else {
                 // user-to-security conversation
                 if (isCurrentUserCreator) {
-                  // Current user contacted security - get a security user (admin)
+                  // Current user contacted security - show security staff (or an admin if there are none)
                   const { data: securityUsers } = await supabase
                     .from("profiles")
-                    .select("id, full_name, avatar_url")
-                    .eq("role", "admin")
-                    .limit(1);
+                    .select("id, role")
+                    .in("role", ["security_staff", "admin"]);
 
-                  if (securityUsers && securityUsers.length > 0) {
-                    otherParticipantId = securityUsers[0].id;
+                  const deskUser =
+                    securityUsers?.find((u) => u.role === "security_staff") || securityUsers?.[0];
+                  if (deskUser) {
+                    otherParticipantId = deskUser.id;
                   } else {
                     return null; // Skip if no security user found
                   }
                 } else {
-                  // Current user is admin, so the other participant is the creator
+                  // Current user is security staff, so the other participant is the creator
                   otherParticipantId = conv.creator_id;
                 }
               }
@@ -212,6 +218,28 @@ export default function MessagesPage() {
     fetchConversations();
   }, [supabase, router]);
 
+  useEffect(() => {
+    if (!userId) return;
+    const fetchUnreadCounts = async () => {
+      const { data, error } = await supabase.rpc("get_unread_message_counts");
+      if (error) {
+        console.error("Error fetching unread counts:", error);
+        return;
+      }
+      const counts: Record<string, number> = {};
+      ((data || []) as UnreadMessageCount[]).forEach((row) => {
+        counts[row.conversation_id] = Number(row.unread_count);
+      });
+      setUnreadCounts(counts);
+    };
+    fetchUnreadCounts();
+
+    const channel = subscribeToUnreadChanges(supabase, userId, fetchUnreadCounts);
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [supabase, userId]);
+
   if (loading) return <div className="p-8 text-center">Loading...</div>;
   if (!userId) return null;
 
@@ -239,7 +267,14 @@ export default function MessagesPage() {
                   className="rounded-full object-cover"
                 />
                 <div className="flex-1">
-                  <div className="font-semibold text-lg">{other.full_name}</div>{" "}
+                  <div className="font-semibold text-lg flex items-center gap-2">
+                    {other.full_name}
+                    {unreadCounts[conv.id] > 0 && (
+                      <span className="bg-red-600 text-white text-xs font-bold rounded-full px-2 py-0.5">
+                        {unreadCounts[conv.id]} new
+                      </span>
+                    )}
+                  </div>{" "}
                   <div className="text-sm text-gray-500">
                     {conv.type === "user-to-poster"
                       ? `About item: ${
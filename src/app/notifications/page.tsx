@@ -1,15 +1,22 @@
 'use client';
-import { useEffect, useState } from 'react';
-import { useRouter } from 'next/navigation';
+import { useEffect, useMemo, useState } from 'react';
 import Link from 'next/link';
 import { createSupabaseBrowserClient } from '@/lib/supabase/client';
+import { NOTIFICATION_TYPE_LABELS, notificationHref } from '@/lib/notifications/format';
+import { Notification, NotificationType, NotificationTypeValues } from '@/types/database';
+
+const PAGE_SIZE = 20;
 
 export default function NotificationsPage() {
-  const [notifications, setNotifications] = useState<any[]>([]);
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [typeFilter, setTypeFilter] = useState<NotificationType | ''>('');
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const router = useRouter();
-  const supabase = createSupabaseBrowserClient();
+  const supabase = useMemo(() => createSupabaseBrowserClient(), []);
 
   useEffect(() => {
     const fetchNotifications = async () => {
@@ -21,65 +28,154 @@ export default function NotificationsPage() {
         setLoading(false);
         return;
       }
-      const { data, error } = await supabase
+      let query = supabase
         .from('notifications')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: false });
+        .select('*', { count: 'exact' })
+        .eq('user_id', user.id);
+      if (typeFilter) query = query.eq('type', typeFilter);
+      if (unreadOnly) query = query.is('read_at', null);
+
+      const { data, count, error } = await query
+        .order('created_at', { ascending: false })
+        .range(page * PAGE_SIZE, page * PAGE_SIZE + PAGE_SIZE - 1);
       if (error) {
         setError(error.message);
       } else {
-        setNotifications(data || []);
+        setNotifications((data || []) as Notification[]);
+        setTotal(count || 0);
       }
       setLoading(false);
     };
     fetchNotifications();
-  }, []);
+  }, [supabase, page, typeFilter, unreadOnly, reloadKey]);
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
 
   const markAsRead = async (id: string) => {
-    await supabase.from('notifications').update({ is_read: true }).eq('id', id);
-    setNotifications(notifications => notifications.map(n => n.id === id ? { ...n, is_read: true } : n));
+    const { error } = await supabase.rpc('mark_notifications_read', { p_ids: [id] });
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    const readAt = new Date().toISOString();
+    setNotifications(notifications => notifications.map(n => n.id === id ? { ...n, read_at: readAt } : n));
+  };
+
+  const markAllAsRead = async () => {
+    const { error } = await supabase.rpc('mark_notifications_read', {});
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    // With "unread only" the current page empties, so start over from the first page
+    setPage(0);
+    setReloadKey(key => key + 1);
   };
 
   return (
     <div className="container mx-auto max-w-2xl p-6">
       <h1 className="text-3xl font-bold mb-6 text-center">Notifications</h1>
+
+      <div className="flex flex-wrap items-center gap-3 mb-6">
+        <select
+          value={typeFilter}
+          onChange={e => {
+            setTypeFilter(e.target.value as NotificationType | '');
+            setPage(0);
+          }}
+          className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm dark:bg-gray-700 dark:text-white"
+        >
+          <option value="">All types</option>
+          {NotificationTypeValues.map(type => (
+            <option key={type} value={type}>{NOTIFICATION_TYPE_LABELS[type]}</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={unreadOnly}
+            onChange={e => {
+              setUnreadOnly(e.target.checked);
+              setPage(0);
+            }}
+          />
+          Unread only
+        </label>
+        <button
+          className="ml-auto px-3 py-1 text-sm bg-indigo-500 hover:bg-indigo-600 text-white rounded"
+          onClick={markAllAsRead}
+        >
+          Mark all as read
+        </button>
+      </div>
+
       {loading && <div className="text-center">Loading...</div>}
       {error && <div className="text-center text-red-500">{error}</div>}
-      {!loading && notifications.length === 0 && (
-        <div className="text-center text-gray-500">No notifications yet.</div>
+      {!loading && !error && notifications.length === 0 && (
+        <div className="text-center text-gray-500">
+          {typeFilter || unreadOnly ? 'No notifications match these filters.' : 'No notifications yet.'}
+        </div>
       )}
       <div className="space-y-4">
-        {notifications.map(n => (
-          <div
-            key={n.id}
-            className={`p-4 rounded-lg shadow border flex flex-col gap-2 transition bg-white dark:bg-gray-800 ${n.is_read ? 'opacity-70' : 'bg-indigo-50 dark:bg-indigo-900 border-indigo-200 dark:border-indigo-700'}`}
-          >
-            <div className="flex items-center gap-2">
-              <span className={`inline-block w-2 h-2 rounded-full ${n.is_read ? 'bg-gray-400' : 'bg-indigo-500 animate-pulse'}`}></span>
-              <span className="font-semibold text-lg">{n.title}</span>
-              <span className="ml-auto text-xs text-gray-400">{new Date(n.created_at).toLocaleString()}</span>
+        {notifications.map(n => {
+          const href = notificationHref(n);
+          return (
+            <div
+              key={n.id}
+              className={`p-4 rounded-lg shadow border flex flex-col gap-2 transition bg-white dark:bg-gray-800 ${n.read_at ? 'opacity-70' : 'bg-indigo-50 dark:bg-indigo-900 border-indigo-200 dark:border-indigo-700'}`}
+            >
+              <div className="flex items-center gap-2">
+                <span className={`inline-block w-2 h-2 rounded-full ${n.read_at ? 'bg-gray-400' : 'bg-indigo-500 animate-pulse'}`}></span>
+                <span className="font-semibold text-lg">{n.title}</span>
+                <span className="ml-auto text-xs text-gray-400">{new Date(n.created_at).toLocaleString()}</span>
+              </div>
+              <div className="text-xs text-gray-500 dark:text-gray-400">{NOTIFICATION_TYPE_LABELS[n.type]}</div>
+              <div className="text-gray-700 dark:text-gray-200">{n.message}</div>
+              <div className="flex gap-3 mt-2">
+                {href && (
+                  <Link
+                    href={href}
+                    onClick={() => { if (!n.read_at) markAsRead(n.id); }}
+                    className="text-indigo-600 hover:underline text-sm"
+                  >
+                    {n.conversation_id ? 'Open Chat' : n.claim_id ? 'View Claim' : 'View Item'}
+                  </Link>
+                )}
+                {!n.read_at && (
+                  <button
+                    className="ml-auto px-3 py-1 text-xs bg-indigo-500 hover:bg-indigo-600 text-white rounded"
+                    onClick={() => markAsRead(n.id)}
+                  >
+                    Mark as read
+                  </button>
+                )}
+              </div>
             </div>
-            <div className="text-gray-700 dark:text-gray-200">{n.message}</div>
-            <div className="flex gap-3 mt-2">
-              {n.item_id && (
-                <Link href={`/item/${n.item_id}`} className="text-indigo-600 hover:underline text-sm">View Item</Link>
-              )}
-              {n.claim_id && (
-                <Link href={`/item/${n.item_id}`} className="text-indigo-600 hover:underline text-sm">View Claim</Link>
-              )}
-              {!n.is_read && (
-                <button
-                  className="ml-auto px-3 py-1 text-xs bg-indigo-500 hover:bg-indigo-600 text-white rounded"
-                  onClick={() => markAsRead(n.id)}
-                >
-                  Mark as read
-                </button>
-              )}
-            </div>
-          </div>
-        ))}
+          );
+        })}
       </div>
+
+      {total > PAGE_SIZE && (
+        <div className="flex items-center justify-between mt-6">
+          <button
+            className="px-3 py-1 text-sm rounded bg-gray-200 dark:bg-gray-700 disabled:opacity-50"
+            onClick={() => setPage(p => p - 1)}
+            disabled={page === 0 || loading}
+          >
+            Previous
+          </button>
+          <span className="text-sm text-gray-500 dark:text-gray-400">
+            Page {page + 1} of {pageCount}
+          </span>
+          <button
+            className="px-3 py-1 text-sm rounded bg-gray-200 dark:bg-gray-700 disabled:opacity-50"
+            onClick={() => setPage(p => p + 1)}
+            disabled={page + 1 >= pageCount || loading}
+          >
+            Next
+          </button>
+        </div>
+      )}
     </div>
   );
-} 
\ No newline at end of file
+}
@@ -1,15 +1,28 @@
 "use client";
 
-import { useState, useEffect, useMemo } from "react";
+import {
+  Suspense,
+  useState,
+  useEffect,
+  useMemo,
+  useCallback,
+  useRef,
+} from "react";
 import Image from "next/image";
 import Link from "next/link";
-import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
 import { CategoryNames } from "@/types/database";
 import { formatDistanceToNow } from "date-fns";
 import { SearchBar } from "@/components/SearchBar";
 import { FilterControls, FilterState } from "@/components/FilterControls";
-import { applyFilters, applySearch, ExtendedItem } from "@/utils/filters";
+import { SaveSearchButton } from "@/components/SaveSearchButton";
 import ClientOnly from "@/components/ClientOnly";
+import type { SearchItem, SearchResult } from "@/lib/search/filterItems";
+import { blurhashDataUrl, findItemImage, itemImageSrc } from "@/lib/images/itemImages";
+import {
+  filtersToSearchParams,
+  searchParamsToFilters,
+} from "@/lib/search/searchParams";
 
 // Helper function to format date
 const formatDateAgo = (dateString: string | undefined) => {
@@ -32,91 +45,169 @@ const getCategoryName = (category?: string) => {
   );
 };
 
-// Add this type above the HomePage component
-interface ItemWithPoster extends ExtendedItem {
-  poster?: {
-    id: string;
-    full_name: string;
-    avatar_url: string | null;
-  };
-}
+const ITEMS_PER_PAGE = 12;
+
+// Filter keys owned by FilterControls; the rest of the query string is left alone when they change
+const FILTER_CONTROL_KEYS = ["category", "status", "from", "to"];
 
 export default function HomePage() {
-  const supabase = createClientComponentClient();
-  const [allItems, setAllItems] = useState<ItemWithPoster[]>([]);
-  const [searchTerm, setSearchTerm] = useState("");
-  const [activeFilters, setActiveFilters] = useState<FilterState>({
-    category: [],
-    status: [],
-    dateRange: { start: null, end: null },
-  });
+  // useSearchParams needs a Suspense boundary for the page to prerender
+  return (
+    <Suspense
+      fallback={
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-indigo-500"></div>
+        </div>
+      }
+    >
+      <HomePageContent />
+    </Suspense>
+  );
+}
+
+function HomePageContent() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  // The URL is the source of truth for search, filters and the lost/found tab
+  const filters = useMemo(
+    () => searchParamsToFilters(searchParams),
+    [searchParams]
+  );
+  const tabParam = searchParams.get("tab");
+  const statusTab: "all" | "lost" | "found" =
+    tabParam === "lost" || tabParam === "found" ? tabParam : "all";
+
+  const [items, setItems] = useState<SearchItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
-  const [currentPage, setCurrentPage] = useState(1);
-  const ITEMS_PER_PAGE = 10;
-  const [statusTab, setStatusTab] = useState<'all' | 'lost' | 'found'>('all');
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [fetchError, setFetchError] = useState<string | null>(null);
+
+  // Keep callbacks stable so the debounced SearchBar does not re-fire on every URL change
+  const searchParamsRef = useRef(searchParams);
+  searchParamsRef.current = searchParams;
+
+  const updateSearchParams = useCallback(
+    (mutate: (params: URLSearchParams) => void) => {
+      const current = searchParamsRef.current.toString();
+      const params = new URLSearchParams(current);
+      mutate(params);
+      const next = params.toString();
+      if (next === current) return;
+      router.replace(next ? `${pathname}?${next}` : pathname, {
+        scroll: false,
+      });
+    },
+    [router, pathname]
+  );
+
+  const handleSearch = useCallback(
+    (term: string) =>
+      updateSearchParams((params) => {
+        if (term.trim()) params.set("q", term.trim());
+        else params.delete("q");
+      }),
+    [updateSearchParams]
+  );
+
+  const handleFilterChange = useCallback(
+    (newFilters: FilterState) =>
+      updateSearchParams((params) => {
+        FILTER_CONTROL_KEYS.forEach((key) => params.delete(key));
+        filtersToSearchParams(newFilters, params);
+      }),
+    [updateSearchParams]
+  );
 
-  // Fetch all items and categories on component mount
+  const handleTabChange = (tab: "all" | "lost" | "found") =>
+    updateSearchParams((params) => {
+      if (tab === "all") params.delete("tab");
+      else params.set("tab", tab);
+    });
+
+  // Filters as searched; the lost/found tab overrides the status filters
+  const effectiveFilters = useMemo(
+    () => ({
+      ...filters,
+      status: statusTab === "all" ? filters.status : [statusTab],
+    }),
+    [filters, statusTab]
+  );
+
+  // Query sent to the search route
+  const apiQuery = useMemo(
+    () => filtersToSearchParams(effectiveFilters).toString(),
+    [effectiveFilters]
+  );
+
+  const fetchPage = useCallback(
+    async (cursor: string | null, signal?: AbortSignal) => {
+      const params = new URLSearchParams(apiQuery);
+      params.set("limit", String(ITEMS_PER_PAGE));
+      if (cursor) params.set("cursor", cursor);
+
+      const response = await fetch(`/api/items/search?${params}`, { signal });
+      const body = await response.json();
+      if (!response.ok) throw new Error(body.error || "Failed to load items");
+      return body as SearchResult;
+    },
+    [apiQuery]
+  );
+
+  // Reload from the first page whenever the query changes
   useEffect(() => {
-    const fetchData = async () => {
-      setLoading(true);
-      try {
-        // Fetch items with poster's profile (name)
-        const { data: itemsData, error: itemsError } = await supabase
-          .from("items")
-          .select(`*, poster:profiles!user_id(id, full_name, avatar_url)`)
-          .order("created_at", { ascending: false });
-
-        if (itemsError) throw itemsError;
-
-        // Map category_id to category string key for filtering
-        const idToCategoryKey = Object.keys(CategoryNames).reduce(
-          (acc, key, idx) => {
-            acc[idx + 1] = key; // Assumes category_id starts at 1 and increments
-            return acc;
-          },
-          {} as Record<number, string>
-        );
-        const processedItems = (itemsData || []).map((item) => ({
-          ...item,
-          category:
-            item.category || idToCategoryKey[item.category_id] || "other",
-        }));
-
-        console.log("Fetched items with mapped categories:", processedItems);
-        setAllItems(processedItems);
-      } catch (error) {
-        console.error("Error fetching data:", error);
-      } finally {
+    const controller = new AbortController();
+    setLoading(true);
+    setFetchError(null);
+
+    fetchPage(null, controller.signal)
+      .then((result) => {
+        setItems(result.items);
+        setTotal(result.total);
+        setNextCursor(result.nextCursor);
         setLoading(false);
-      }
-    };
-
-    fetchData();
-  }, [supabase]);
-
-  // Apply filters and search to items
-  const filteredItems = useMemo(() => {
-    let filtersToApply = { ...activeFilters };
-    if (statusTab === 'lost') {
-      filtersToApply = { ...filtersToApply, status: ['lost'] };
-    } else if (statusTab === 'found') {
-      filtersToApply = { ...filtersToApply, status: ['found'] };
+      })
+      .catch((error) => {
+        if (controller.signal.aborted) return;
+        console.error("Error fetching items:", error);
+        setFetchError((error as Error).message);
+        setItems([]);
+        setTotal(0);
+        setNextCursor(null);
+        setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [fetchPage]);
+
+  const loadMore = async () => {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    try {
+      const result = await fetchPage(nextCursor);
+      setItems((previous) => [...previous, ...result.items]);
+      setTotal(result.total);
+      setNextCursor(result.nextCursor);
+    } catch (error) {
+      console.error("Error fetching more items:", error);
+      setFetchError((error as Error).message);
+    } finally {
+      setLoadingMore(false);
     }
-    const filtered = applyFilters(allItems, filtersToApply);
-    const searchResults = applySearch(filtered, searchTerm);
-    return searchResults as ItemWithPoster[];
-  }, [allItems, activeFilters, searchTerm, statusTab]);
-
-  // Calculate pagination
-  const paginatedItems = useMemo(() => {
-    const startIndex = (currentPage - 1) * ITEMS_PER_PAGE;
-    return filteredItems.slice(startIndex, startIndex + ITEMS_PER_PAGE);
-  }, [filteredItems, currentPage]);
-
-  // Reset pagination when filters or search changes
-  useEffect(() => {
-    setCurrentPage(1);
-  }, [activeFilters, searchTerm]);
+  };
+
+  // Seeds FilterControls from the URL once, on first render
+  const [initialFilterState] = useState<FilterState>(() => ({
+    category: filters.category || [],
+    status: filters.status || [],
+    dateRange: {
+      start: filters.dateRange?.start || null,
+      end: filters.dateRange?.end || null,
+    },
+  }));
 
   return (
     <main className="container mx-auto px-4 py-8">
@@ -127,19 +218,19 @@ export default function HomePage() {
       <div className="flex justify-center gap-4 mb-6">
         <button
           className={`px-6 py-2 rounded-full font-semibold border transition-colors duration-200 ${statusTab === 'lost' ? 'bg-red-600 text-white border-red-700' : 'bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 border-gray-300 dark:border-gray-600 hover:bg-red-100 dark:hover:bg-red-900'}`}
-          onClick={() => setStatusTab('lost')}
+          onClick={() => handleTabChange('lost')}
         >
           Lost
         </button>
         <button
           className={`px-6 py-2 rounded-full font-semibold border transition-colors duration-200 ${statusTab === 'found' ? 'bg-green-600 text-white border-green-700' : 'bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 border-gray-300 dark:border-gray-600 hover:bg-green-100 dark:hover:bg-green-900'}`}
-          onClick={() => setStatusTab('found')}
+          onClick={() => handleTabChange('found')}
         >
           Found
         </button>
         <button
           className={`px-6 py-2 rounded-full font-semibold border transition-colors duration-200 ${statusTab === 'all' ? 'bg-indigo-600 text-white border-indigo-700' : 'bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 border-gray-300 dark:border-gray-600 hover:bg-indigo-100 dark:hover:bg-indigo-900'}`}
-          onClick={() => setStatusTab('all')}
+          onClick={() => handleTabChange('all')}
         >
           All
         </button>
@@ -148,8 +239,15 @@ export default function HomePage() {
       <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
         <div className="md:col-span-1">
           <div className="space-y-4">
-            <SearchBar onSearch={setSearchTerm} />
-            <FilterControls onFilterChange={setActiveFilters} />
+            <SearchBar
+              initialValue={filters.searchQuery || ""}
+              onSearch={handleSearch}
+            />
+            <FilterControls
+              initialFilters={initialFilterState}
+              onFilterChange={handleFilterChange}
+            />
+            <SaveSearchButton filters={effectiveFilters} />
           </div>
         </div>
 
@@ -158,7 +256,11 @@ export default function HomePage() {
             <div className="flex justify-center py-8">
               <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-indigo-500"></div>
             </div>
-          ) : filteredItems.length === 0 ? (
+          ) : fetchError && items.length === 0 ? (
+            <div className="text-center py-8">
+              <p className="text-red-500">{fetchError}</p>
+            </div>
+          ) : items.length === 0 ? (
             <div className="text-center py-8">
               <p className="text-gray-500 dark:text-gray-400">
                 No items found matching your criteria.
@@ -167,16 +269,18 @@ export default function HomePage() {
           ) : (
             <div>
               <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
-                Showing {paginatedItems.length} of {filteredItems.length} items
+                Showing {items.length} of {total} items
               </p>
 
               <ClientOnly>
                 <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
-                  {paginatedItems.map((item) => {
+                  {items.map((item) => {
                     const thumbnail =
                       item.image_urls && item.image_urls.length > 0
                         ? item.image_urls[0]
                         : item.image_url;
+                    // Processed photos have a card-sized copy and a blurhash placeholder
+                    const thumbnailImage = findItemImage(item, thumbnail);
 
                     // Base classes
                     const baseCardClasses =
@@ -283,9 +387,12 @@ export default function HomePage() {
                           {thumbnail ? (
                             <div className="relative w-full h-64 bg-gray-200 dark:bg-gray-700">
                               <Image
-                                src={thumbnail}
+                                src={itemImageSrc(thumbnailImage, thumbnail, 640)}
                                 alt={item.title}
                                 fill
+                                unoptimized={!!thumbnailImage}
+                                placeholder={thumbnailImage ? "blur" : "empty"}
+                                blurDataURL={blurhashDataUrl(thumbnailImage?.blurhash)}
                                 sizes="(max-width: 640px) 100vw, (max-width: 1024px) 50vw, 25vw"
                                 className="object-cover group-hover:scale-105 transition-transform duration-300"
                                 priority={true}
@@ -375,29 +482,15 @@ export default function HomePage() {
                     );
                   })}
                 </div>
-                {/* Pagination controls */}
-                {filteredItems.length > ITEMS_PER_PAGE && (
-                  <div className="flex justify-center gap-2 mt-6">
-                    <button
-                      onClick={() => setCurrentPage((p) => Math.max(1, p - 1))}
-                      disabled={currentPage === 1}
-                      className="px-4 py-2 bg-gray-700 rounded disabled:opacity-50"
-                    >
-                      Previous
-                    </button>
-                    <span className="px-4 py-2">
-                      Page {currentPage} of{" "}
-                      {Math.ceil(filteredItems.length / ITEMS_PER_PAGE)}
-                    </span>
+                {/* Cursor pagination: append the next page */}
+                {nextCursor && (
+                  <div className="flex justify-center mt-6">
                     <button
-                      onClick={() => setCurrentPage((p) => p + 1)}
-                      disabled={
-                        currentPage >=
-                        Math.ceil(filteredItems.length / ITEMS_PER_PAGE)
-                      }
+                      onClick={loadMore}
+                      disabled={loadingMore}
                       className="px-4 py-2 bg-gray-700 rounded disabled:opacity-50"
                     >
-                      Next
+                      {loadingMore ? "Loading..." : "Load more"}
                     </button>
                   </div>
                 )}
@@ -43,12 +43,17 @@ export default function CompleteProfile() {
         throw new Error("No user found");
       }
 
-      const { error: updateError } = await supabase
-        .from("profiles")
-        .update({ full_name: fullName })
-        .eq("id", user.id);
+      // Profile writes go through the API route, which handles encrypted fields
+      const response = await fetch("/api/profile", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ full_name: fullName }),
+      });
 
-      if (updateError) throw updateError;
+      if (!response.ok) {
+        const { error: updateError } = await response.json();
+        throw new Error(updateError || "Failed to save profile");
+      }
 
       router.push("/");
       router.refresh();
@@ -3,8 +3,15 @@
 import { useState, useEffect } from "react";
 import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
 import { User } from "@supabase/auth-js";
-import { Profile, ItemStatusValues } from "@/types/database";
+import { Profile, ItemStatusValues, PointsLedgerEntry, PointsReasonNames } from "@/types/database";
 import Image from "next/image";
+import Link from "next/link";
+import SavedSearchesManager from "@/components/SavedSearchesManager";
+
+// points_ledger row joined with the item it was awarded for
+interface PointsLedgerWithItem extends PointsLedgerEntry {
+  item: { title: string } | null;
+}
 
 export default function ProfilePage() {
   const supabase = createClientComponentClient();
@@ -24,6 +31,7 @@ export default function ProfilePage() {
   const [fullNameInput, setFullNameInput] = useState('');
   const [mobileNumberInput, setMobileNumberInput] = useState('');
   const [physicalAddressInput, setPhysicalAddressInput] = useState('');
+  const [emailNotificationsInput, setEmailNotificationsInput] = useState(true);
   const [avatarFile, setAvatarFile] = useState<File | null>(null);
   const [avatarPreview, setAvatarPreview] = useState<string | null>(null);
   const [newPassword, setNewPassword] = useState('');
@@ -33,7 +41,7 @@ export default function ProfilePage() {
   const [totalItemsReported, setTotalItemsReported] = useState(0);
   const [foundItemsCount, setFoundItemsCount] = useState(0);
   const [lostItemsCount, setLostItemsCount] = useState(0);
-  const [pointsEarned, setPointsEarned] = useState(0);
+  const [pointsHistory, setPointsHistory] = useState<PointsLedgerWithItem[]>([]);
 
   useEffect(() => {
     const fetchUserAndProfile = async () => {
@@ -52,23 +60,19 @@ export default function ProfilePage() {
         
         setUser(authUser);
         
-        // Get user profile
-        const { data: profileData, error: profileError } = await supabase
-          .from('profiles')
-          .select('*')
-          .eq('id', authUser.id)
-          .single();
+        // Get user profile (contact fields are decrypted server-side)
+        const profileResponse = await fetch('/api/profile');
+        const { profile: profileData, error: profileError } = await profileResponse.json();
         
-        if (profileError) {
+        if (!profileResponse.ok) {
           console.error("Profile fetch error:", profileError);
-          if (profileError.code !== 'PGRST116') { // Not found error
-            setError(`Error fetching profile: ${profileError.message}`);
-          }
+          setError(`Error fetching profile: ${profileError}`);
         } else if (profileData) {
           setProfile(profileData as Profile);
           setFullNameInput(profileData.full_name || '');
           setMobileNumberInput(profileData.mobile_number || '');
           setPhysicalAddressInput(profileData.physical_address || '');
+          setEmailNotificationsInput(profileData.allow_email_notifications ?? true);
           if (profileData.avatar_url) {
             setAvatarPreview(profileData.avatar_url);
           }
@@ -90,9 +94,20 @@ export default function ProfilePage() {
           setTotalItemsReported(totalItems);
           setFoundItemsCount(foundItems.length);
           setLostItemsCount(lostItems.length);
-          
-          // Calculate points based on 'found' items
-          setPointsEarned(foundItems.length * 5);
+        }
+        
+        // 2. Most recent points awards and penalties
+        const { data: ledgerData, error: ledgerError } = await supabase
+          .from('points_ledger')
+          .select('*, item:items(title)')
+          .eq('user_id', authUser.id)
+          .order('created_at', { ascending: false })
+          .limit(10);
+        
+        if (ledgerError) {
+          console.error("Points history fetch error:", ledgerError);
+        } else {
+          setPointsHistory((ledgerData || []) as PointsLedgerWithItem[]);
         }
       } catch (err: any) {
         console.error("Unexpected error:", err);
@@ -115,6 +130,7 @@ export default function ProfilePage() {
       setFullNameInput(profile.full_name || '');
       setMobileNumberInput(profile.mobile_number || '');
       setPhysicalAddressInput(profile.physical_address || '');
+      setEmailNotificationsInput(profile.allow_email_notifications ?? true);
       setNewPassword('');
       setConfirmPassword('');
       setAvatarFile(null);
@@ -190,28 +206,26 @@ export default function ProfilePage() {
         avatar_url = urlData.publicUrl;
       }
       
-      const { error: updateError } = await supabase
-        .from('profiles')
-        .update({
+      // 2. Save profile; the route encrypts contact fields before they are stored
+      const updateResponse = await fetch('/api/profile', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
           full_name: fullNameInput || null,
           mobile_number: mobileNumberInput || null,
           physical_address: physicalAddressInput || null,
+          allow_email_notifications: emailNotificationsInput,
           avatar_url: avatar_url || null,
-        })
-        .eq('id', user.id);
+        }),
+      });
+      const { profile: refreshedProfile, error: updateError } = await updateResponse.json();
       
-      if (updateError) {
-        setUpdateError(`Profile update failed: ${updateError.message}`);
+      if (!updateResponse.ok) {
+        setUpdateError(`Profile update failed: ${updateError}`);
         return;
       }
       
       // 3. Refresh profile data
-      const { data: refreshedProfile } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('id', user.id)
-        .single();
-        
       if (refreshedProfile) {
         setProfile(refreshedProfile);
       }
@@ -301,12 +315,46 @@ export default function ProfilePage() {
               <p className="text-2xl font-bold text-gray-800 dark:text-white">{lostItemsCount}</p>
             </div>
             <div className="bg-gray-100 dark:bg-gray-700 p-4 rounded-lg shadow">
-              <p className="text-sm text-gray-500 dark:text-gray-400">Points Earned</p>
-              <p className="text-2xl font-bold text-gray-800 dark:text-white">{pointsEarned}</p>
+              <p className="text-sm text-gray-500 dark:text-gray-400">Points Balance</p>
+              <p className="text-2xl font-bold text-gray-800 dark:text-white">{profile?.points ?? 0}</p>
             </div>
           </div>
+          
+          <div className="mt-6">
+            <h4 className="text-md font-medium text-gray-800 dark:text-white mb-3 flex justify-between items-center">
+              Points History
+              <Link href="/leaderboard" className="text-sm font-normal text-indigo-600 dark:text-indigo-400 hover:underline">
+                View leaderboard
+              </Link>
+            </h4>
+            {pointsHistory.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                No points yet. Report found items and help them get back to their owners to earn points.
+              </p>
+            ) : (
+              <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                {pointsHistory.map((entry) => (
+                  <li key={entry.id} className="py-2 flex items-center justify-between gap-4 text-sm">
+                    <div className="min-w-0">
+                      <p className="text-gray-800 dark:text-white">{PointsReasonNames[entry.reason]}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                        {entry.item?.title || entry.note || ''}
+                        {(entry.item?.title || entry.note) && ' · '}
+                        {new Date(entry.created_at).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <span className={`font-semibold ${entry.delta >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                      {entry.delta > 0 ? `+${entry.delta}` : entry.delta}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
         </div>
         
+        <SavedSearchesManager userId={user.id} />
+
         {/* Personal information section */}
         <div className="mt-6 border-t border-gray-200 dark:border-gray-700 pt-6">
           <h3 className="text-xl font-semibold text-gray-800 dark:text-white mb-4 flex justify-between items-center">
@@ -373,6 +421,19 @@ export default function ProfilePage() {
                 />
               </div>
               
+              <div className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  id="emailNotifications"
+                  checked={emailNotificationsInput}
+                  onChange={(e) => setEmailNotificationsInput(e.target.checked)}
+                  className="h-4 w-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+                />
+                <label htmlFor="emailNotifications" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Email me about claims, messages and possible matches
+                </label>
+              </div>
+              
               {editMode && (
                 <div className="mb-4">
                   <label htmlFor="avatarFile" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Profile Picture (JPG, PNG, WEBP, max 5MB)</label>
@@ -438,6 +499,7 @@ export default function ProfilePage() {
               <p><span className="font-medium">Email:</span> {user?.email || 'Not available'}</p>
               <p><span className="font-medium">Mobile Number:</span> {profile?.mobile_number || 'Not set'}</p>
               <p><span className="font-medium">Physical Address:</span> {profile?.physical_address || 'Not set'}</p>
+              <p><span className="font-medium">Email Notifications:</span> {profile?.allow_email_notifications === false ? 'Off' : 'On'}</p>
             </div>
           )}
         </div>
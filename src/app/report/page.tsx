@@ -7,19 +7,53 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { reportItemSchema, ReportItemFormData } from "@/lib/schemas";
 import { createSupabaseBrowserClient } from "@/lib/supabase/client";
 import { CategoryNames } from "@/types/database";
-import type { CategoryType, ItemStatus } from "@/types/database";
+import type { CategoryType, DuplicateCandidate, ItemImage, ItemStatus } from "@/types/database";
+import { uploadItemImages } from "@/lib/images/itemImages";
 import Image from "next/image";
+import Link from "next/link";
+import { format } from "date-fns";
+import dynamic from "next/dynamic";
+import {
+  VerificationQuestionDraft,
+  VerificationQuestionFields,
+  validateVerificationQuestions,
+} from "@/components/VerificationQuestionsEditor";
+
+// Leaflet touches `window` on import, so the map only renders on the client
+const LocationPicker = dynamic(() => import("@/components/map/LocationPicker"), {
+  ssr: false,
+  loading: () => (
+    <div className="h-72 rounded-md bg-gray-100 dark:bg-gray-700 animate-pulse" />
+  ),
+});
 
 export default function ReportPage() {
   const supabase = createSupabaseBrowserClient();
   const router = useRouter();
   const [serverError, setServerError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  // Set after a successful report so we can point the user at match engine results
+  const [reportedItem, setReportedItem] = useState<{
+    id: string;
+    matchCount: number;
+  } | null>(null);
   const [userId, setUserId] = useState<string | null>(null);
 
   // State for image handling
   const [imagePreviews, setImagePreviews] = useState<string[]>([]);
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+  // Private questions for claimers (found items only)
+  const [verificationQuestions, setVerificationQuestions] = useState<
+    VerificationQuestionDraft[]
+  >([]);
+  // Photos already processed for this submission, reused if the form is submitted again
+  const [pendingUpload, setPendingUpload] = useState<{
+    images: ItemImage[];
+    paths: string[];
+  } | null>(null);
+  // Existing reports that look like the same item, shown before anything is inserted
+  const [duplicates, setDuplicates] = useState<DuplicateCandidate[]>([]);
+  const [duplicatesAcknowledged, setDuplicatesAcknowledged] = useState(false);
 
   const {
     register,
@@ -27,6 +61,7 @@ export default function ReportPage() {
     formState: { errors, isSubmitting },
     reset,
     watch,
+    setValue,
     clearErrors,
   } = useForm<ReportItemFormData>({
     resolver: zodResolver(reportItemSchema),
@@ -39,10 +74,14 @@ export default function ReportPage() {
       description: "",
       locationDescription: "",
       dateLostOrFound: "",
+      lat: null,
+      lng: null,
     },
   });
 
   const currentStatus = watch("status");
+  const pinLat = watch("lat");
+  const pinLng = watch("lng");
 
   useEffect(() => {
     const getUser = async () => {
@@ -58,8 +97,16 @@ export default function ReportPage() {
     getUser();
   }, [supabase, router]);
 
+  const discardPendingUpload = async () => {
+    if (pendingUpload && pendingUpload.paths.length > 0) {
+      await supabase.storage.from("item-images").remove(pendingUpload.paths);
+    }
+    setPendingUpload(null);
+  };
+
   const handleImageChange = (event: ChangeEvent<HTMLInputElement>) => {
     clearErrors("imageFile");
+    discardPendingUpload();
     if (event.target.files) {
       const files = Array.from(event.target.files).slice(0, 5);
       setSelectedFiles(files);
@@ -94,81 +141,87 @@ export default function ReportPage() {
     }
   };
 
-  const onSubmit: SubmitHandler<ReportItemFormData> = async (data) => {
+  const submitReport = async (data: ReportItemFormData, skipDuplicateCheck: boolean) => {
     setServerError(null);
     setSuccessMessage(null);
+    setReportedItem(null);
 
     if (!userId) {
       setServerError("User not authenticated. Please log in.");
       return;
     }
 
-    const imageUrls: string[] = [];
-    const uploadedFilePaths: string[] = [];
-
-    // 1. Upload images if selected
-    if (selectedFiles.length > 0) {
-      for (const file of selectedFiles) {
-        const fileName = `${userId}/${Date.now()}_${file.name.replace(
-          /\s/g,
-          "_"
-        )}`;
-        try {
-          const { data: uploadData, error: uploadError } =
-            await supabase.storage.from("item-images").upload(fileName, file, {
-              cacheControl: "3600",
-              upsert: false,
-            });
-          if (uploadError) {
-            setServerError("Failed to upload image: " + uploadError.message);
-            return;
-          }
-          if (!uploadData || !uploadData.path) {
-            setServerError(
-              "Failed to get image path after upload. Please try again."
-            );
-            return;
-          }
-          uploadedFilePaths.push(uploadData.path);
-          const { data: urlData } = supabase.storage
-            .from("item-images")
-            .getPublicUrl(uploadData.path);
-          if (!urlData || !urlData.publicUrl) {
-            setServerError(
-              "Failed to retrieve image URL after upload. Please try again."
-            );
-            return;
-          }
-          imageUrls.push(urlData.publicUrl);
-        } catch (err: unknown) {
-          const msg = err instanceof Error ? err.message : String(err);
-          setServerError("Unexpected error during image upload: " + msg);
-          return;
+    const { questions: filledQuestions, error: questionsError } =
+      validateVerificationQuestions(
+        data.status === "found" ? verificationQuestions : []
+      );
+    if (questionsError) {
+      setServerError(questionsError);
+      return;
+    }
+
+    // 1. Process and upload images if selected (resized WebP copies, EXIF stripped)
+    let upload = pendingUpload;
+    if (!upload && selectedFiles.length > 0) {
+      try {
+        upload = await uploadItemImages(selectedFiles);
+        setPendingUpload(upload);
+      } catch (err: unknown) {
+        const msg = err instanceof Error ? err.message : String(err);
+        setServerError("Failed to upload images: " + msg);
+        return;
+      }
+    }
+    const images = upload?.images || [];
+    const uploadedFilePaths = upload?.paths || [];
+
+    // Get category_id from categories table
+    const categoryId = await getCategoryId(data.category);
+    const dateLostOrFound = new Date(data.dateLostOrFound as string).toISOString();
+
+    // 2. Ask before saving a report that looks like one already on file
+    if (!skipDuplicateCheck) {
+      const { data: candidates, error: duplicatesError } = await supabase.rpc(
+        "find_duplicate_items",
+        {
+          p_status: data.status,
+          p_category_id: categoryId,
+          p_title: data.title,
+          p_description: data.description,
+          p_date_lost_or_found: dateLostOrFound,
+          p_phashes: images.map((image) => image.phash).filter(Boolean),
         }
+      );
+      if (duplicatesError) {
+        // Not worth blocking the report over
+        console.error("Error checking for duplicates:", duplicatesError.message);
+      } else if (candidates && candidates.length > 0) {
+        setDuplicates(candidates as DuplicateCandidate[]);
+        return;
       }
     }
 
-    // 2. Prepare data for Supabase `items` table
+    // 3. Prepare data for Supabase `items` table
     const itemData = {
-      user_id: userId,
       title: data.title,
       description: data.description,
-      // Get category_id from categories table
-      category_id: await getCategoryId(data.category),
+      category_id: categoryId,
       location_description: data.locationDescription,
-      date_lost_or_found: new Date(
-        data.dateLostOrFound as string
-      ).toISOString(),
+      lat: data.lat ?? null,
+      lng: data.lng ?? null,
+      date_lost_or_found: dateLostOrFound,
       status: data.status,
       is_urgent: data.isUrgent || false,
       turn_in_to_security: data.turnInToSecurity || false,
-      image_urls: imageUrls,
+      image_urls: images.map((image) => image.url),
+      image_variants: images,
     };
 
-    // 3. Insert item data
-    const { error: insertError } = await supabase
-      .from("items")
-      .insert(itemData);
+    // 4. Insert the item and its verification questions together, so it is never claimable without them
+    const { data: insertedItem, error: insertError } = await supabase
+      .rpc("report_item", { p_item: itemData, p_questions: filledQuestions })
+      .select("id, status")
+      .single();
 
     if (insertError) {
       setServerError(`Failed to report item: ${insertError.message}`);
@@ -176,14 +229,53 @@ export default function ReportPage() {
       if (uploadedFilePaths.length > 0) {
         await supabase.storage.from("item-images").remove(uploadedFilePaths);
       }
+      setPendingUpload(null);
     } else {
       setSuccessMessage("Item reported successfully!");
+      setPendingUpload(null);
+      setDuplicates([]);
+      setDuplicatesAcknowledged(false);
+
+      // The match engine runs in the insert trigger, so candidates already exist
+      const { count: matchCount, error: matchError } = await supabase
+        .from("item_matches")
+        .select("id", { count: "exact", head: true })
+        .eq(
+          insertedItem.status === "found" ? "found_item_id" : "lost_item_id",
+          insertedItem.id
+        );
+      if (matchError) {
+        console.error("Error counting item matches:", matchError.message);
+      }
+      setReportedItem({ id: insertedItem.id, matchCount: matchCount || 0 });
+
       reset();
       setImagePreviews([]);
       setSelectedFiles([]);
+      setVerificationQuestions([]);
     }
   };
 
+  const onSubmit: SubmitHandler<ReportItemFormData> = (data) =>
+    submitReport(data, duplicatesAcknowledged);
+
+  // The reporter says an earlier report is the same item: drop this one and go there instead
+  const handleSameItem = async (itemId: string) => {
+    await discardPendingUpload();
+    reset();
+    setImagePreviews([]);
+    setSelectedFiles([]);
+    setVerificationQuestions([]);
+    setDuplicates([]);
+    router.push(`/item/${itemId}`);
+  };
+
+  const handleNotDuplicate = () => {
+    setDuplicatesAcknowledged(true);
+    setDuplicates([]);
+    handleSubmit((data) => submitReport(data, true))();
+  };
+
   if (!userId && !isSubmitting) {
     return <div className="text-center p-10">Loading user information...</div>;
   }
@@ -199,9 +291,85 @@ export default function ReportPage() {
       {successMessage && (
         <p className="text-green-500 bg-green-100 p-3 rounded mb-4">
           {successMessage}
+          {reportedItem && (
+            <>
+              {" "}
+              {reportedItem.matchCount > 0
+                ? `We found ${reportedItem.matchCount} possible ${
+                    reportedItem.matchCount === 1 ? "match" : "matches"
+                  }. `
+                : ""}
+              <Link
+                href={`/item/${reportedItem.id}`}
+                className="underline font-medium"
+              >
+                View your report
+              </Link>
+            </>
+          )}
         </p>
       )}
 
+      {duplicates.length > 0 && (
+        <div className="mb-4 p-4 rounded-lg border border-amber-300 bg-amber-50 dark:bg-amber-900/20 dark:border-amber-700/50">
+          <h2 className="font-semibold text-amber-900 dark:text-amber-200">
+            Is this the same as one of these reports?
+          </h2>
+          <p className="mt-1 mb-3 text-sm text-amber-800 dark:text-amber-300">
+            Reporting an item twice splits claims and messages between two
+            reports.
+          </p>
+          <ul className="space-y-2">
+            {duplicates.map((candidate) => (
+              <li
+                key={candidate.item_id}
+                className="flex items-center gap-3 p-3 rounded-md bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700"
+              >
+                {candidate.image_url && (
+                  <Image
+                    src={candidate.image_url}
+                    alt={candidate.title}
+                    width={48}
+                    height={48}
+                    unoptimized
+                    className="w-12 h-12 rounded object-cover shrink-0"
+                  />
+                )}
+                <div className="min-w-0 flex-1">
+                  <Link
+                    href={`/item/${candidate.item_id}`}
+                    target="_blank"
+                    className="font-medium text-gray-900 dark:text-white hover:underline truncate block"
+                  >
+                    {candidate.title}
+                  </Link>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {candidate.same_reporter ? "Your report" : "Another report"}
+                    {candidate.date_lost_or_found &&
+                      ` · ${format(new Date(candidate.date_lost_or_found), "PP")}`}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleSameItem(candidate.item_id)}
+                  className="shrink-0 px-3 py-1.5 rounded-md text-xs font-medium bg-indigo-600 text-white hover:bg-indigo-700"
+                >
+                  Yes, this is it
+                </button>
+              </li>
+            ))}
+          </ul>
+          <button
+            type="button"
+            onClick={handleNotDuplicate}
+            disabled={isSubmitting}
+            className="mt-3 text-sm font-medium text-amber-900 dark:text-amber-200 underline disabled:opacity-50"
+          >
+            No, submit as a new report
+          </button>
+        </div>
+      )}
+
       <form
         onSubmit={handleSubmit(onSubmit)}
         className="space-y-6 bg-white dark:bg-gray-800 p-8 rounded-lg shadow-md"
@@ -330,6 +498,26 @@ export default function ReportPage() {
           )}
         </div>
 
+        <div>
+          <span className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            Pin on Campus Map (optional)
+          </span>
+          <p className="mb-2 text-xs text-gray-500 dark:text-gray-400">
+            Click the map where the item was {currentStatus === "lost" ? "lost" : "found"}.
+          </p>
+          <LocationPicker
+            value={
+              typeof pinLat === "number" && typeof pinLng === "number"
+                ? { lat: pinLat, lng: pinLng }
+                : null
+            }
+            onChange={(point) => {
+              setValue("lat", point?.lat ?? null);
+              setValue("lng", point?.lng ?? null);
+            }}
+          />
+        </div>
+
         <div>
           <label
             htmlFor="dateLostOrFound"
@@ -400,6 +588,22 @@ export default function ReportPage() {
           )}
         </div>
 
+        {currentStatus === "found" && (
+          <div>
+            <span className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Verification Questions (optional)
+            </span>
+            <p className="mb-2 text-xs text-gray-500 dark:text-gray-400">
+              Ask about details only the real owner would know. Claimers must
+              answer them; only you and admins see the expected answers.
+            </p>
+            <VerificationQuestionFields
+              value={verificationQuestions}
+              onChange={setVerificationQuestions}
+            />
+          </div>
+        )}
+
         {currentStatus === "found" && (
           <div className="flex items-center">
             <input
@@ -0,0 +1,132 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { format } from "date-fns";
+import { DocumentDuplicateIcon } from "@heroicons/react/24/outline";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { DuplicateCandidate } from "@/types/database";
+
+interface DuplicateItemsPanelProps {
+  itemId: string;
+  itemTitle: string;
+}
+
+// Moderator-only: likely duplicates of this report, with a merge action in either direction
+export default function DuplicateItemsPanel({ itemId, itemTitle }: DuplicateItemsPanelProps) {
+  const supabase = createSupabaseBrowserClient();
+  const router = useRouter();
+  const [candidates, setCandidates] = useState<DuplicateCandidate[]>([]);
+  const [merging, setMerging] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchDuplicates = async () => {
+      const { data, error: fetchError } = await supabase.rpc("find_item_duplicates", {
+        p_item_id: itemId,
+      });
+      if (fetchError) {
+        console.error("Error finding duplicates:", fetchError.message);
+        return;
+      }
+      setCandidates((data as DuplicateCandidate[]) || []);
+    };
+    fetchDuplicates();
+  }, [supabase, itemId]);
+
+  const handleMerge = async (duplicateId: string, survivorId: string, survivorTitle: string) => {
+    if (
+      !window.confirm(
+        `Merge into "${survivorTitle}"? Claims and chats move over and the other report is archived.`
+      )
+    ) {
+      return;
+    }
+    setMerging(duplicateId === itemId ? survivorId : duplicateId);
+    setError(null);
+    const { error: mergeError } = await supabase.rpc("merge_duplicate_items", {
+      p_duplicate_id: duplicateId,
+      p_survivor_id: survivorId,
+    });
+    setMerging(null);
+    if (mergeError) {
+      setError(`Failed to merge reports: ${mergeError.message}`);
+      return;
+    }
+    if (survivorId === itemId) {
+      setCandidates((prev) => prev.filter((candidate) => candidate.item_id !== duplicateId));
+      router.refresh();
+    } else {
+      router.push(`/item/${survivorId}`);
+    }
+  };
+
+  if (candidates.length === 0 && !error) return null;
+
+  return (
+    <section
+      aria-labelledby="duplicate-items-heading"
+      className="bg-gray-50/50 dark:bg-gray-800/30 p-6 rounded-xl shadow-md border border-gray-200 dark:border-gray-700/50"
+    >
+      <div className="flex items-center gap-2 mb-4">
+        <DocumentDuplicateIcon className="w-5 h-5 text-amber-500" />
+        <h2
+          id="duplicate-items-heading"
+          className="text-xl font-semibold text-gray-800 dark:text-gray-100"
+        >
+          Possible Duplicates
+        </h2>
+      </div>
+      {error && (
+        <p className="mb-3 text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+      <ul className="space-y-3">
+        {candidates.map((candidate) => (
+          <li
+            key={candidate.item_id}
+            className="p-4 rounded-lg bg-white dark:bg-gray-700/50 border border-gray-200 dark:border-gray-600"
+          >
+            <div className="flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <Link
+                  href={`/item/${candidate.item_id}`}
+                  className="font-semibold text-gray-900 dark:text-white hover:underline truncate block"
+                >
+                  {candidate.title}
+                </Link>
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  {candidate.date_lost_or_found &&
+                    format(new Date(candidate.date_lost_or_found), "PP")}
+                  {candidate.same_reporter && " · Same reporter"}
+                  {candidate.photo_distance !== null &&
+                    candidate.photo_distance <= 6 &&
+                    " · Same photo"}
+                </p>
+              </div>
+              <span className="shrink-0 px-3 py-1 rounded-full text-xs font-semibold bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300">
+                {Math.round(candidate.score * 100)}% similar
+              </span>
+            </div>
+            <div className="mt-3 flex flex-wrap gap-2">
+              <button
+                onClick={() => handleMerge(candidate.item_id, itemId, itemTitle)}
+                disabled={merging !== null}
+                className="px-3 py-1.5 rounded-md text-xs font-medium bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50"
+              >
+                {merging === candidate.item_id ? "Merging..." : "Merge into this report"}
+              </button>
+              <button
+                onClick={() => handleMerge(itemId, candidate.item_id, candidate.title)}
+                disabled={merging !== null}
+                className="px-3 py-1.5 rounded-md text-xs font-medium bg-gray-200 text-gray-800 hover:bg-gray-300 dark:bg-gray-600 dark:text-gray-100 dark:hover:bg-gray-500 disabled:opacity-50"
+              >
+                Merge this report into it
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
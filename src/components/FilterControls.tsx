@@ -1,6 +1,7 @@
 'use client';
 
 import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
 import { CategoryNames, CategoryType } from '@/types/database';
 
 export type FilterState = {
@@ -11,15 +12,25 @@ export type FilterState = {
 
 interface FilterControlsProps {
   onFilterChange: (filters: FilterState) => void;
+  initialFilters?: FilterState; // e.g. restored from the URL
 }
 
-export function FilterControls({ onFilterChange }: FilterControlsProps) {
-  const [showFilters, setShowFilters] = useState(false);
-  const [filters, setFilters] = useState<FilterState>({
-    category: [],
-    status: [],
-    dateRange: { start: null, end: null }
-  });
+const EMPTY_FILTERS: FilterState = {
+  category: [],
+  status: [],
+  dateRange: { start: null, end: null }
+};
+
+// Dates are local calendar days, matching how they are written to the URL
+const toDateInputValue = (date: Date | null) =>
+  date ? format(date, 'yyyy-MM-dd') : '';
+
+export function FilterControls({ onFilterChange, initialFilters }: FilterControlsProps) {
+  const [filters, setFilters] = useState<FilterState>(initialFilters || EMPTY_FILTERS);
+  const [showFilters, setShowFilters] = useState(
+    // Open the panel when the page was loaded with filters applied
+    filters.category.length > 0 || filters.status.length > 0 || !!filters.dateRange.start || !!filters.dateRange.end
+  );
 
   // Match database categories
   const CATEGORIES = [
@@ -116,20 +127,22 @@ export function FilterControls({ onFilterChange }: FilterControlsProps) {
               <input
                 type="date"
                 className="p-2 border rounded bg-gray-700 text-gray-100"
+                value={toDateInputValue(filters.dateRange.start)}
                 onChange={(e) => handleFilterChange({
                   dateRange: {
                     ...filters.dateRange,
-                    start: e.target.value ? new Date(e.target.value) : null
+                    start: e.target.value ? parseISO(e.target.value) : null
                   }
                 })}
               />
               <input
                 type="date"
                 className="p-2 border rounded bg-gray-700 text-gray-100"
+                value={toDateInputValue(filters.dateRange.end)}
                 onChange={(e) => handleFilterChange({
                   dateRange: {
                     ...filters.dateRange,
-                    end: e.target.value ? new Date(e.target.value) : null
+                    end: e.target.value ? parseISO(e.target.value) : null
                   }
                 })}
               />
@@ -138,11 +151,7 @@ export function FilterControls({ onFilterChange }: FilterControlsProps) {
 
           {/* Clear filters button */}
           <button
-            onClick={() => handleFilterChange({
-              category: [],
-              status: [],
-              dateRange: { start: null, end: null }
-            })}
+            onClick={() => handleFilterChange(EMPTY_FILTERS)}
             className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700"
           >
             Clear All Filters
@@ -3,14 +3,17 @@
 import { useState } from "react";
 import Image from "next/image";
 import { X, ChevronLeft, ChevronRight } from "lucide-react";
+import { ItemImage } from "@/types/database";
+import { blurhashDataUrl, findItemImage, itemImageSrc } from "@/lib/images/itemImages";
 
 interface ImageGalleryProps {
   primaryImage?: string;
   images: string[];
   itemTitle: string;
+  processedImages?: ItemImage[]; // The item's image_variants
 }
 
-export default function ImageGallery({ primaryImage, images, itemTitle }: ImageGalleryProps) {
+export default function ImageGallery({ primaryImage, images, itemTitle, processedImages }: ImageGalleryProps) {
   const [isFullScreen, setIsFullScreen] = useState(false);
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
 
@@ -40,6 +43,19 @@ export default function ImageGallery({ primaryImage, images, itemTitle }: ImageG
     );
   };
 
+  // Processed photos are served at a fitting size with a blurhash placeholder
+  const imageProps = (url: string, width: number) => {
+    const processed = findItemImage({ image_variants: processedImages }, url);
+    return processed
+      ? {
+          src: itemImageSrc(processed, url, width),
+          unoptimized: true,
+          placeholder: "blur" as const,
+          blurDataURL: blurhashDataUrl(processed.blurhash),
+        }
+      : { src: url };
+  };
+
   const currentFullScreenImage = primaryImage 
     ? (currentImageIndex === 0 ? primaryImage : images[currentImageIndex - 1])
     : images[currentImageIndex];
@@ -55,7 +71,7 @@ export default function ImageGallery({ primaryImage, images, itemTitle }: ImageG
       >
         {mainImage ? (
           <Image
-            src={mainImage}
+            {...imageProps(mainImage, 1280)}
             alt={`${itemTitle} - Main Image`}
             fill
             className="object-cover hover:scale-105 transition-transform duration-300"
@@ -83,7 +99,7 @@ export default function ImageGallery({ primaryImage, images, itemTitle }: ImageG
               aria-label={`View full-screen image ${idx + 2} of ${itemTitle}`}
             >
               <Image
-                src={url}
+                {...imageProps(url, 320)}
                 alt={`${itemTitle} - Thumbnail ${idx + 1}`}
                 fill
                 className="object-cover"
@@ -108,7 +124,7 @@ export default function ImageGallery({ primaryImage, images, itemTitle }: ImageG
           <div className="relative w-full h-5/6 flex items-center justify-center">
             {currentFullScreenImage ? (
               <Image
-                src={currentFullScreenImage}
+                {...imageProps(currentFullScreenImage, Infinity)}
                 alt={`${itemTitle} - Full Screen`}
                 layout="fill"
                 objectFit="contain"
@@ -2,22 +2,33 @@
 
 import { useState } from "react";
 import { createSupabaseBrowserClient } from "@/lib/supabase/client";
-import { ItemStatus, ClaimWithClaimerProfile } from "@/types/database";
+import { Claim, ItemStatus, ClaimWithClaimerProfile } from "@/types/database";
 import { format } from "date-fns";
+import ReportButton from "@/components/ReportButton";
+
+// Mean of the scored answers; null when the item has no verification questions
+const getVerificationScore = (claim: ClaimWithClaimerProfile) => {
+  const scores = (claim.verification_answers || [])
+    .map((answer) => answer.score)
+    .filter((score): score is number => score !== null);
+  if (scores.length === 0) return null;
+  return scores.reduce((sum, score) => sum + Number(score), 0) / scores.length;
+};
 
 interface ManageClaimsClientProps {
   itemId: string;
   itemStatus: ItemStatus;
   claims: ClaimWithClaimerProfile[];
   isOwner: boolean;
+  isModerator?: boolean; // Moderators may decide claims on any item and flag fraudulent ones
   currentUserId?: string;
 }
 
 export default function ManageClaimsClient({
-  itemId,
   itemStatus: initialItemStatus,
   claims: initialClaims,
   isOwner,
+  isModerator = false,
   currentUserId,
 }: ManageClaimsClientProps) {
   const supabase = createSupabaseBrowserClient();
@@ -27,14 +38,24 @@ export default function ManageClaimsClient({
   const [isLoading, setIsLoading] = useState<Record<string, boolean>>({});
   const [error, setError] = useState<string | null>(null);
   const [expanded, setExpanded] = useState(false);
+  // Optional reason per pending claim, shown to the claimer in their notification
+  const [notes, setNotes] = useState<Record<string, string>>({});
 
+  const canManage = isOwner || isModerator;
   const pendingCount = claims.filter((c) => c.status === "pending").length;
 
+  // Pending claims first, best verification match on top
+  const rankedClaims = [...claims].sort(
+    (a, b) =>
+      Number(b.status === "pending") - Number(a.status === "pending") ||
+      (getVerificationScore(b) ?? -1) - (getVerificationScore(a) ?? -1)
+  );
+
   const handleClaimAction = async (
     claimId: string,
     action: "approve" | "reject"
   ) => {
-    if (!currentUserId || !isOwner) return;
+    if (!currentUserId || !canManage) return;
     if (itemStatus === "claimed" && action === "approve") {
       setError("This item has already been marked as claimed.");
       return;
@@ -43,101 +64,63 @@ export default function ManageClaimsClient({
     setIsLoading((prev) => ({ ...prev, [claimId]: true }));
     setError(null);
 
-    const newClaimStatus = action === "approve" ? "approved" : "rejected";
-
-    // Update claim
-    const { error: claimUpdateError } = await supabase
-      .from("claims")
-      .update({
-        status: newClaimStatus,
-        date_resolved: new Date().toISOString(),
-        resolved_by_user_id: currentUserId,
-      })
-      .eq("id", claimId);
+    // One transaction: updates the claim (and, on approve, the item and the other pending
+    // claims) and notifies every claimer affected. Returns each claim that changed.
+    const { data: changedClaims, error: adjudicateError } = await supabase.rpc(
+      "adjudicate_claim",
+      {
+        p_claim_id: claimId,
+        p_action: action,
+        p_note: notes[claimId]?.trim() || null,
+      }
+    );
 
-    if (claimUpdateError) {
-      setError(`Failed to ${action} claim: ${claimUpdateError.message}`);
+    if (adjudicateError) {
+      setError(`Failed to ${action} claim: ${adjudicateError.message}`);
       setIsLoading((prev) => ({ ...prev, [claimId]: false }));
       return;
     }
 
-    // Create notification for claimer
-    const claim = claims.find((c) => c.id === claimId);
-    if (claim) {
-      // Fetch item title for message (if not already available)
-      let itemTitle = "";
-      try {
-        const { data: itemData } = await supabase
-          .from("items")
-          .select("title")
-          .eq("id", itemId)
-          .single();
-        itemTitle = itemData?.title || "";
-      } catch {}
-      await supabase.from("notifications").insert({
-        user_id: claim.claimer_id,
-        item_id: itemId,
-        claim_id: claim.id,
-        type: "claim_update",
-        title: `Your claim was ${
-          action === "approve" ? "approved" : "rejected"
-        }`,
-        message: `Your claim for item "${itemTitle}" was ${
-          action === "approve" ? "approved" : "rejected"
-        }.`,
-      });
-    }
-
-    // If approved, update item status to 'claimed' and reject other pending claims
-    if (action === "approve") {
-      const { error: itemUpdateError } = await supabase
-        .from("items")
-        .update({ status: "claimed" })
-        .eq("id", itemId);
-
-      if (itemUpdateError) {
-        setError(`Failed to update item status: ${itemUpdateError.message}`);
-      } else {
-        setItemStatus("claimed");
-        // Reject other pending claims
-        const otherPendingClaims = claims.filter(
-          (c) => c.id !== claimId && c.status === "pending"
-        );
-        for (const otherClaim of otherPendingClaims) {
-          await supabase
-            .from("claims")
-            .update({
-              status: "rejected",
-              date_resolved: new Date().toISOString(),
-              resolved_by_user_id: currentUserId,
-            })
-            .eq("id", otherClaim.id);
-        }
-      }
-    }
-
-    // Refresh claims data locally
+    const changedById = new Map(
+      ((changedClaims || []) as Claim[]).map((claim) => [claim.id, claim])
+    );
     setClaims((prevClaims) =>
       prevClaims.map((c) =>
-        c.id === claimId
-          ? {
-              ...c,
-              status: newClaimStatus,
-              date_resolved: new Date().toISOString(),
-            }
-          : action === "approve" && c.status === "pending"
-          ? {
-              ...c,
-              status: "rejected",
-              date_resolved: new Date().toISOString(),
-            }
-          : c
+        changedById.has(c.id) ? { ...c, ...changedById.get(c.id) } : c
       )
     );
+    if (action === "approve") {
+      setItemStatus("claimed");
+    }
 
     setIsLoading((prev) => ({ ...prev, [claimId]: false }));
   };
 
+  // Costs the claimer points (see flag_fraudulent_claim); the claim status is unchanged
+  const handleFlagFraudulent = async (claimId: string) => {
+    if (!isModerator) return;
+    if (!confirm("Flag this claim as fraudulent? The claimer will lose points.")) return;
+
+    setIsLoading((prev) => ({ ...prev, [claimId]: true }));
+    setError(null);
+
+    const { data: flaggedClaim, error: flagError } = await supabase.rpc(
+      "flag_fraudulent_claim",
+      { p_claim_id: claimId, p_note: notes[claimId]?.trim() || null }
+    );
+
+    if (flagError) {
+      setError(`Failed to flag claim: ${flagError.message}`);
+    } else {
+      setClaims((prevClaims) =>
+        prevClaims.map((c) =>
+          c.id === claimId ? { ...c, ...(flaggedClaim as Claim) } : c
+        )
+      );
+    }
+    setIsLoading((prev) => ({ ...prev, [claimId]: false }));
+  };
+
   const getStatusProps = (status: string) => {
     switch (status) {
       case "pending":
@@ -167,7 +150,7 @@ export default function ManageClaimsClient({
 
   // Case 1: Non-owner, and (there are claims OR item is finalized) -> show nothing from this component for claim list
   if (
-    !isOwner &&
+    !canManage &&
     (claims.length > 0 || itemStatus === "claimed" || itemStatus === "archived")
   ) {
     return null;
@@ -201,7 +184,7 @@ export default function ManageClaimsClient({
 
   // Case 3: Owner, item is CLAIMED or ARCHIVED, and no claims exist (e.g. direct status update without formal claim)
   if (
-    isOwner &&
+    canManage &&
     (itemStatus === "claimed" || itemStatus === "archived") &&
     claims.length === 0
   ) {
@@ -218,7 +201,7 @@ export default function ManageClaimsClient({
   // Case 4: Owner, and there are claims to display (accordion)
   // This implies isOwner && claims.length > 0 because prior conditions would have returned null or a message.
   // The accordion should only show if isOwner is true and claims exist.
-  if (!isOwner || claims.length === 0) {
+  if (!canManage || claims.length === 0) {
     // This condition should ideally not be met if the above logic is correct,
     // but as a safeguard, prevent rendering the accordion if not owner or no claims.
     return null;
@@ -323,8 +306,9 @@ export default function ManageClaimsClient({
 
             {/* Claims List */}
             <div className="space-y-8">
-              {claims.map((claim) => {
+              {rankedClaims.map((claim) => {
                 const statusProps = getStatusProps(claim.status);
+                const verificationScore = getVerificationScore(claim);
                 return (
                   <div
                     key={claim.id}
@@ -388,6 +372,53 @@ export default function ManageClaimsClient({
                           &ldquo;{claim.claim_description}&rdquo;
                         </blockquote>
 
+                        {claim.verification_answers &&
+                          claim.verification_answers.length > 0 && (
+                            <div className="bg-gray-800 rounded-lg p-4 my-3">
+                              <div className="flex items-center justify-between mb-2">
+                                <span className="text-sm font-semibold text-gray-200">
+                                  Verification answers
+                                </span>
+                                {verificationScore !== null && (
+                                  <span
+                                    className={`px-2 py-0.5 rounded-full text-xs font-bold ${
+                                      verificationScore >= 0.7
+                                        ? "bg-green-900 text-green-200"
+                                        : verificationScore >= 0.4
+                                        ? "bg-yellow-900 text-yellow-200"
+                                        : "bg-red-900 text-red-200"
+                                    }`}
+                                  >
+                                    {Math.round(verificationScore * 100)}% match
+                                  </span>
+                                )}
+                              </div>
+                              <ul className="space-y-2 text-sm">
+                                {[...claim.verification_answers]
+                                  .sort(
+                                    (a, b) =>
+                                      (a.question?.position ?? 0) -
+                                      (b.question?.position ?? 0)
+                                  )
+                                  .map((answer) => (
+                                    <li key={answer.id}>
+                                      <p className="text-gray-400">
+                                        {answer.question?.question}
+                                      </p>
+                                      <p className="text-gray-200">
+                                        {answer.answer}
+                                        {answer.score !== null && (
+                                          <span className="ml-2 text-xs text-gray-500">
+                                            ({Math.round(Number(answer.score) * 100)}%)
+                                          </span>
+                                        )}
+                                      </p>
+                                    </li>
+                                  ))}
+                              </ul>
+                            </div>
+                          )}
+
                         <div className="flex flex-wrap gap-6 text-xs text-gray-400 mb-3">
                           <span className="flex items-center gap-1">
                             <svg
@@ -406,7 +437,7 @@ export default function ManageClaimsClient({
                             Claimed:{" "}
                             {format(new Date(claim.date_claimed), "PPpp")}
                           </span>
-                          {claim.date_resolved && (
+                          {claim.date_adjudicated && (
                             <span className="flex items-center gap-1">
                               <svg
                                 className="w-4 h-4 text-indigo-400"
@@ -421,17 +452,69 @@ export default function ManageClaimsClient({
                                   d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"
                                 />
                               </svg>
-                              Resolved:{" "}
+                              Decided:{" "}
+                              {format(new Date(claim.date_adjudicated), "PPpp")}
+                            </span>
+                          )}
+                          {claim.date_resolved && (
+                            <span className="flex items-center gap-1 text-green-400">
+                              Handed over:{" "}
                               {format(new Date(claim.date_resolved), "PPpp")}
                             </span>
                           )}
                         </div>
 
+                        {claim.adjudication_note && (
+                          <p className="text-sm text-gray-400 mb-3">
+                            <span className="font-semibold text-gray-300">
+                              Note:{" "}
+                            </span>
+                            {claim.adjudication_note}
+                          </p>
+                        )}
+
+                        {claim.fraud_flagged_at ? (
+                          <p className="text-sm font-semibold text-red-400 mb-3">
+                            Flagged as fraudulent on{" "}
+                            {format(new Date(claim.fraud_flagged_at), "PP")}
+                          </p>
+                        ) : (
+                          isModerator && (
+                            <button
+                              onClick={() => handleFlagFraudulent(claim.id)}
+                              disabled={isLoading[claim.id]}
+                              className="mb-3 text-sm font-medium text-red-400 hover:text-red-300 disabled:opacity-50"
+                            >
+                              Flag as fraudulent
+                            </button>
+                          )
+                        )}
+
+                        {/* Moderators flag claims directly; the reporter sends them to the moderation queue */}
+                        {isOwner && !isModerator && claim.claimer_id !== currentUserId && (
+                          <div className="mb-3">
+                            <ReportButton targetType="claim" targetId={claim.id} />
+                          </div>
+                        )}
+
                         {/* Action Buttons */}
-                        {isOwner &&
+                        {canManage &&
                           claim.status === "pending" &&
                           itemStatus !== "claimed" && (
                             <div className="mt-4 flex flex-wrap gap-3">
+                              <textarea
+                                value={notes[claim.id] || ""}
+                                onChange={(e) =>
+                                  setNotes((prev) => ({
+                                    ...prev,
+                                    [claim.id]: e.target.value,
+                                  }))
+                                }
+                                maxLength={500}
+                                rows={2}
+                                placeholder="Optional note to the claimer (e.g. why it was rejected)"
+                                className="w-full px-3 py-2 text-sm bg-gray-800 border border-gray-700 rounded-lg text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                              />
                               <button
                                 onClick={() =>
                                   handleClaimAction(claim.id, "approve")
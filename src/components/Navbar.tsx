@@ -8,6 +8,9 @@ import NotificationBell from "./NotificationBell";
 import { useEffect, useState } from "react";
 import { usePathname } from "next/navigation";
 import type { User } from "@supabase/supabase-js";
+import { isStaffRole } from "@/lib/auth/roles";
+import { subscribeToUnreadChanges } from "@/lib/supabase/client";
+import { UnreadMessageCount } from "@/types/database";
 
 export default function Navbar() {
   const supabase = createClientComponentClient();
@@ -18,6 +21,7 @@ export default function Navbar() {
   const [avatarUrl, setAvatarUrl] = useState<string | null>(null);
   const pathname = usePathname();
   const [isProfileDropdownOpen, setIsProfileDropdownOpen] = useState(false);
+  const [unreadMessages, setUnreadMessages] = useState(0);
 
   useEffect(() => {
     let subscription: any;
@@ -70,6 +74,31 @@ export default function Navbar() {
     };
   }, [supabase]);
 
+  // Total unread chat messages, kept current by Realtime
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId) {
+      setUnreadMessages(0);
+      return;
+    }
+    const fetchUnreadMessages = async () => {
+      const { data, error } = await supabase.rpc("get_unread_message_counts");
+      if (error) {
+        console.error("Error fetching unread messages:", error);
+        return;
+      }
+      setUnreadMessages(
+        ((data || []) as UnreadMessageCount[]).reduce((total, row) => total + Number(row.unread_count), 0)
+      );
+    };
+    fetchUnreadMessages();
+
+    const channel = subscribeToUnreadChanges(supabase, userId, fetchUnreadMessages);
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [supabase, userId]);
+
   // If loading is true, show a simplified navbar
   if (loading) {
     return (
@@ -91,14 +120,20 @@ export default function Navbar() {
           Campus LAFT
         </Link>
         <div className="space-x-4 flex items-center">
-          {user && userRole === "admin" && (
+          {user && isStaffRole(userRole) && (
             <Link href="/admin" className={`hover:text-gray-300 ${pathname === '/admin' ? 'text-indigo-400 font-semibold' : ''}`}>
-              Admin Dashboard
+              {userRole === "admin" ? "Admin Dashboard" : "Staff Dashboard"}
             </Link>
           )}
           <Link href="/" className={`hover:text-gray-300 ${pathname === '/' ? 'text-indigo-400 font-semibold' : ''}`}>
             Home
           </Link>
+          <Link href="/map" className={`hover:text-gray-300 ${pathname === '/map' ? 'text-indigo-400 font-semibold' : ''}`}>
+            Map
+          </Link>
+          <Link href="/leaderboard" className={`hover:text-gray-300 ${pathname === '/leaderboard' ? 'text-indigo-400 font-semibold' : ''}`}>
+            Leaderboard
+          </Link>
           <Link
             href="/report"
             className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-md transition-colors duration-200"
@@ -112,6 +147,11 @@ export default function Navbar() {
               className={`hover:text-gray-300 font-semibold ${pathname === '/messages' ? 'text-indigo-400' : ''}`}
             >
               Messages
+              {unreadMessages > 0 && (
+                <span className="ml-1 bg-red-600 text-white text-xs font-bold rounded-full px-1.5 py-0.5">
+                  {unreadMessages > 99 ? "99+" : unreadMessages}
+                </span>
+              )}
             </Link>
           )}
           {user ? (
@@ -1,36 +1,194 @@
 'use client';
+import Link from "next/link";
 import { useRouter } from "next/navigation";
-import { useEffect, useState } from "react";
-import { createSupabaseBrowserClient } from '@/lib/supabase/client';
+import { useEffect, useMemo, useRef, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { createSupabaseBrowserClient, subscribeToNotifications } from '@/lib/supabase/client';
+import { groupNotificationsByType, notificationHref } from '@/lib/notifications/format';
+import { Notification } from '@/types/database';
+
+// How many of the newest notifications the dropdown keeps
+const RECENT_LIMIT = 20;
 
 export default function NotificationBell({ userId }: { userId?: string }) {
   const router = useRouter();
+  const supabase = useMemo(() => createSupabaseBrowserClient(), []);
+  const [notifications, setNotifications] = useState<Notification[]>([]);
   const [unread, setUnread] = useState(0);
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
   useEffect(() => {
     if (!userId) return;
-    const supabase = createSupabaseBrowserClient();
-    const fetchUnread = async () => {
+
+    const fetchUnreadCount = async () => {
       const { count } = await supabase
         .from('notifications')
         .select('id', { count: 'exact', head: true })
         .eq('user_id', userId)
-        .eq('is_read', false);
+        .is('read_at', null);
       setUnread(count || 0);
     };
-    fetchUnread();
-  }, [userId]);
+
+    const fetchRecent = async () => {
+      const { data, error } = await supabase
+        .from('notifications')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(RECENT_LIMIT);
+      if (error) {
+        console.error("Error fetching notifications:", error);
+        return;
+      }
+      setNotifications((data || []) as Notification[]);
+    };
+
+    fetchUnreadCount();
+    fetchRecent();
+
+    const channel = subscribeToNotifications(supabase, userId, {
+      onInsert: (notification) => {
+        setNotifications((current) => [notification, ...current].slice(0, RECENT_LIMIT));
+        if (!notification.read_at) setUnread((count) => count + 1);
+      },
+      // Read state may have changed anywhere (another tab, mark-all), so the count is refetched
+      onUpdate: (notification) => {
+        setNotifications((current) =>
+          current.map((n) => (n.id === notification.id ? notification : n))
+        );
+        fetchUnreadCount();
+      },
+    });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [supabase, userId]);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [open]);
+
+  const markRead = async (ids: string[] | null) => {
+    const readAt = new Date().toISOString();
+    const wasUnread = notifications.filter(
+      (n) => !n.read_at && (ids === null || ids.includes(n.id))
+    ).length;
+    setNotifications((current) =>
+      current.map((n) => (!n.read_at && (ids === null || ids.includes(n.id)) ? { ...n, read_at: readAt } : n))
+    );
+    setUnread((count) => (ids === null ? 0 : Math.max(0, count - wasUnread)));
+
+    const { error } = await supabase.rpc('mark_notifications_read', ids === null ? {} : { p_ids: ids });
+    if (error) console.error("Error marking notifications as read:", error);
+  };
+
+  const handleOpenNotification = (notification: Notification) => {
+    if (!notification.read_at) markRead([notification.id]);
+    const href = notificationHref(notification);
+    if (href) {
+      setOpen(false);
+      router.push(href);
+    }
+  };
+
+  const groups = groupNotificationsByType(notifications);
+
   return (
-    <button
-      className="relative hover:text-indigo-400 focus:outline-none"
-      onClick={() => router.push('/notifications')}
-      aria-label="Notifications"
-    >
-      <svg className="w-6 h-6" fill="none" stroke="currentColor" strokeWidth="2" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" /></svg>
-      {unread > 0 && (
-        <span className="absolute -top-1 -right-1 bg-red-500 text-white text-xs rounded-full px-1.5 py-0.5 font-bold animate-pulse">
-          {unread}
-        </span>
+    <div className="relative" ref={containerRef}>
+      <button
+        className="relative hover:text-indigo-400 focus:outline-none"
+        onClick={() => setOpen((isOpen) => !isOpen)}
+        aria-label="Notifications"
+        aria-expanded={open}
+        aria-haspopup="true"
+      >
+        <svg className="w-6 h-6" fill="none" stroke="currentColor" strokeWidth="2" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" /></svg>
+        {unread > 0 && (
+          <span className="absolute -top-1 -right-1 bg-red-500 text-white text-xs rounded-full px-1.5 py-0.5 font-bold animate-pulse">
+            {unread > 99 ? '99+' : unread}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div
+          className="absolute right-0 mt-2 w-80 sm:w-96 origin-top-right bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-md shadow-lg z-50 ring-1 ring-black ring-opacity-5"
+          role="menu"
+        >
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-600">
+            <span className="font-semibold">Notifications</span>
+            {unread > 0 && (
+              <button
+                onClick={() => markRead(null)}
+                className="text-xs text-indigo-600 dark:text-indigo-300 hover:underline"
+              >
+                Mark all as read
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-96 overflow-y-auto">
+            {groups.length === 0 ? (
+              <p className="px-4 py-6 text-sm text-center text-gray-500 dark:text-gray-400">
+                No notifications yet.
+              </p>
+            ) : (
+              groups.map((group) => (
+                <div key={group.type}>
+                  <div className="px-4 py-1 text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 bg-gray-50 dark:bg-gray-800">
+                    {group.label}
+                  </div>
+                  {group.notifications.map((notification) => (
+                    <div
+                      key={notification.id}
+                      className={`flex gap-2 px-4 py-2 border-b border-gray-100 dark:border-gray-600 last:border-b-0 ${
+                        notification.read_at ? '' : 'bg-indigo-50 dark:bg-indigo-900/40'
+                      }`}
+                    >
+                      <button
+                        onClick={() => handleOpenNotification(notification)}
+                        className="flex-1 text-left min-w-0"
+                        role="menuitem"
+                      >
+                        <p className="text-sm font-medium truncate">{notification.title}</p>
+                        <p className="text-xs text-gray-600 dark:text-gray-300 line-clamp-2">{notification.message}</p>
+                        <p className="text-xs text-gray-400 mt-0.5">
+                          {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                        </p>
+                      </button>
+                      {!notification.read_at && (
+                        <button
+                          onClick={() => markRead([notification.id])}
+                          className="self-start mt-1 w-2.5 h-2.5 rounded-full bg-indigo-500 hover:bg-gray-400 shrink-0"
+                          aria-label="Mark as read"
+                          title="Mark as read"
+                        />
+                      )}
+                    </div>
+                  ))}
+                </div>
+              ))
+            )}
+          </div>
+
+          <Link
+            href="/notifications"
+            onClick={() => setOpen(false)}
+            className="block px-4 py-2 text-sm text-center text-indigo-600 dark:text-indigo-300 hover:bg-gray-100 dark:hover:bg-gray-600 border-t border-gray-200 dark:border-gray-600 rounded-b-md"
+          >
+            View all notifications
+          </Link>
+        </div>
       )}
-    </button>
+    </div>
   );
-} 
\ No newline at end of file
+}
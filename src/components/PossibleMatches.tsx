@@ -0,0 +1,77 @@
+import Link from "next/link";
+import { format } from "date-fns";
+import { SparklesIcon } from "@heroicons/react/24/outline";
+import { Item, ItemMatch } from "@/types/database";
+
+// A match joined with the report on the other side of the pair
+export interface MatchWithCandidate extends ItemMatch {
+  candidate: Pick<
+    Item,
+    "id" | "title" | "status" | "location_description" | "date_lost_or_found"
+  > | null;
+}
+
+interface PossibleMatchesProps {
+  matches: MatchWithCandidate[];
+}
+
+const formatDistance = (meters: number | null) => {
+  if (meters === null) return null;
+  return meters < 1000
+    ? `${Math.round(meters)} m away`
+    : `${(meters / 1000).toFixed(1)} km away`;
+};
+
+export default function PossibleMatches({ matches }: PossibleMatchesProps) {
+  if (matches.length === 0) return null;
+
+  return (
+    <section
+      aria-labelledby="possible-matches-heading"
+      className="bg-gray-50/50 dark:bg-gray-800/30 p-6 rounded-xl shadow-md border border-gray-200 dark:border-gray-700/50"
+    >
+      <div className="flex items-center gap-2 mb-4">
+        <SparklesIcon className="w-5 h-5 text-indigo-500 dark:text-indigo-400" />
+        <h2
+          id="possible-matches-heading"
+          className="text-xl font-semibold text-gray-800 dark:text-gray-100"
+        >
+          Possible Matches
+        </h2>
+      </div>
+      <ul className="space-y-3">
+        {matches.map((match) =>
+          match.candidate ? (
+            <li key={match.id}>
+              <Link
+                href={`/item/${match.candidate.id}`}
+                className="flex items-center justify-between gap-4 p-4 rounded-lg bg-white dark:bg-gray-700/50 border border-gray-200 dark:border-gray-600 hover:border-indigo-400 dark:hover:border-indigo-500 transition-colors"
+              >
+                <div className="min-w-0">
+                  <p className="font-semibold text-gray-900 dark:text-white truncate">
+                    {match.candidate.title}
+                  </p>
+                  <p className="text-sm text-gray-600 dark:text-gray-400 truncate">
+                    {match.candidate.status === "lost" ? "Lost" : "Found"}
+                    {match.candidate.location_description &&
+                      ` · ${match.candidate.location_description}`}
+                    {match.candidate.date_lost_or_found &&
+                      ` · ${format(
+                        new Date(match.candidate.date_lost_or_found),
+                        "PP"
+                      )}`}
+                    {formatDistance(match.distance_meters) &&
+                      ` · ${formatDistance(match.distance_meters)}`}
+                  </p>
+                </div>
+                <span className="shrink-0 px-3 py-1 rounded-full text-xs font-semibold bg-indigo-100 text-indigo-800 dark:bg-indigo-900/40 dark:text-indigo-300">
+                  {Math.round(match.score * 100)}% match
+                </span>
+              </Link>
+            </li>
+          ) : null
+        )}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,145 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { ReportReason, ReportReasonNames, ReportTargetType } from "@/types/database";
+
+// Reasons that make sense for each kind of content, most likely first
+const REASONS_BY_TARGET: Record<ReportTargetType, ReportReason[]> = {
+  item: ["fake_listing", "scam", "spam", "inappropriate", "other"],
+  claim: ["scam", "spam", "inappropriate", "other"],
+  message: ["harassment", "scam", "spam", "inappropriate", "other"],
+};
+
+const TARGET_LABELS: Record<ReportTargetType, string> = {
+  item: "listing",
+  claim: "claim",
+  message: "message",
+};
+
+interface ReportButtonProps {
+  targetType: ReportTargetType;
+  targetId: string;
+  className?: string;
+}
+
+// Files a content report (see report_content) for moderators to review
+export default function ReportButton({ targetType, targetId, className }: ReportButtonProps) {
+  const supabase = createSupabaseBrowserClient();
+  const reasons = REASONS_BY_TARGET[targetType];
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState<ReportReason>(reasons[0]);
+  const [details, setDetails] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reported, setReported] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    const { error: reportError } = await supabase.rpc("report_content", {
+      p_target_type: targetType,
+      p_target_id: targetId,
+      p_reason: reason,
+      p_details: details.trim() || null,
+    });
+    setSubmitting(false);
+    if (reportError) {
+      setError(reportError.message);
+      return;
+    }
+    setReported(true);
+    setOpen(false);
+    setDetails("");
+  };
+
+  if (reported) {
+    return <span className="text-xs text-gray-400">Reported. Thanks, a moderator will review it.</span>;
+  }
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => {
+          setError(null);
+          setOpen(true);
+        }}
+        className={className || "text-xs font-medium text-gray-400 hover:text-red-400"}
+      >
+        Report
+      </button>
+
+      {open && (
+        <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 p-4">
+          <form
+            onSubmit={handleSubmit}
+            className="bg-gradient-to-r from-gray-800 to-gray-900 border border-gray-700 rounded-xl shadow-2xl max-w-md w-full text-left"
+          >
+            <div className="p-5 border-b border-gray-700">
+              <h2 className="text-xl font-bold text-white">Report this {TARGET_LABELS[targetType]}</h2>
+            </div>
+            <div className="p-5 space-y-4">
+              <label className="block">
+                <span className="block text-sm text-gray-400 mb-1">What is wrong?</span>
+                <select
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value as ReportReason)}
+                  className="w-full bg-gray-900 border border-gray-700 rounded-lg px-4 py-2 text-white focus:outline-none focus:border-indigo-500"
+                >
+                  {reasons.map((value) => (
+                    <option key={value} value={value}>
+                      {ReportReasonNames[value]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="block">
+                <span className="block text-sm text-gray-400 mb-1">
+                  Details {reason === "other" ? "(required)" : "(optional)"}
+                </span>
+                <textarea
+                  value={details}
+                  onChange={(e) => setDetails(e.target.value)}
+                  maxLength={1000}
+                  rows={4}
+                  required={reason === "other"}
+                  minLength={reason === "other" ? 10 : undefined}
+                  placeholder="Anything that helps a moderator understand the problem"
+                  className="w-full bg-gray-900 border border-gray-700 rounded-lg p-4 text-white resize-none focus:outline-none focus:border-indigo-500"
+                />
+              </label>
+              <p className="text-sm text-gray-400">
+                {targetType === "message"
+                  ? "Moderators will see this message and the few before it. The rest of the chat stays private."
+                  : "Moderators will see a copy of what you are reporting as it is now."}
+              </p>
+              {error && (
+                <p className="text-sm text-red-300 bg-red-900 bg-opacity-30 p-3 rounded-lg border border-red-800">
+                  {error}
+                </p>
+              )}
+              <div className="flex justify-end space-x-3">
+                <button
+                  type="button"
+                  onClick={() => setOpen(false)}
+                  className="px-5 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={submitting}
+                  className="px-5 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors disabled:opacity-50"
+                >
+                  {submitting ? "Reporting..." : "Submit Report"}
+                </button>
+              </div>
+            </div>
+          </form>
+        </div>
+      )}
+    </>
+  );
+}
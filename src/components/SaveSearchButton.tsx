@@ -0,0 +1,140 @@
+'use client';
+
+import { FormEvent, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { createSupabaseBrowserClient } from '@/lib/supabase/client';
+import type { FilterParams } from '@/lib/search/filterItems';
+import { describeSavedSearch, filtersToSavedSearch } from '@/lib/search/savedSearches';
+
+interface SaveSearchButtonProps {
+  filters: FilterParams; // The feed's current filters, with the lost/found tab applied to status
+}
+
+// Saves the current feed filters so the user is alerted about new items that match them
+export function SaveSearchButton({ filters }: SaveSearchButtonProps) {
+  const supabase = createSupabaseBrowserClient();
+  const [userId, setUserId] = useState<string | null>(null);
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [emailAlerts, setEmailAlerts] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const search = filtersToSavedSearch(filters);
+  const summary = describeSavedSearch(search);
+
+  useEffect(() => {
+    supabase.auth.getUser().then(({ data: { user } }) => setUserId(user?.id ?? null));
+  }, [supabase]);
+
+  // A different search was set up since the last save
+  useEffect(() => {
+    setSaved(false);
+  }, [summary]);
+
+  const handleOpen = () => {
+    setName(search.query || summary);
+    setError(null);
+    setOpen(true);
+  };
+
+  const handleSave = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!userId) return;
+    setSaving(true);
+    setError(null);
+    const { error: insertError } = await supabase.from('saved_searches').insert({
+      ...search,
+      user_id: userId,
+      name: name.trim().slice(0, 80),
+      email_alerts: emailAlerts,
+    });
+    setSaving(false);
+    if (insertError) {
+      setError(insertError.message);
+      return;
+    }
+    setSaved(true);
+    setOpen(false);
+  };
+
+  if (!userId) {
+    return (
+      <p className="text-xs text-gray-400">
+        <Link href="/auth" className="text-indigo-300 hover:underline">
+          Log in
+        </Link>{' '}
+        to get alerts for new items matching this search.
+      </p>
+    );
+  }
+
+  if (saved) {
+    return (
+      <p className="text-xs text-green-400">
+        Search saved. We will let you know when a matching item is reported.{' '}
+        <Link href="/profile#saved-searches" className="text-indigo-300 hover:underline">
+          Manage
+        </Link>
+      </p>
+    );
+  }
+
+  if (!open) {
+    return (
+      <button
+        onClick={handleOpen}
+        className="w-full px-4 py-2 bg-gray-700 text-gray-100 rounded hover:bg-gray-600 text-sm"
+      >
+        🔔 Save this search
+      </button>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSave} className="space-y-3 p-4 bg-gray-800 rounded-lg text-gray-100">
+      <p className="text-xs text-gray-400">{summary}</p>
+      <div>
+        <label htmlFor="savedSearchName" className="block text-sm mb-1">
+          Name
+        </label>
+        <input
+          id="savedSearchName"
+          type="text"
+          value={name}
+          maxLength={80}
+          required
+          onChange={(e) => setName(e.target.value)}
+          className="w-full p-2 rounded bg-gray-700 text-gray-100 text-sm"
+        />
+      </div>
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={emailAlerts}
+          onChange={(e) => setEmailAlerts(e.target.checked)}
+          className="rounded"
+        />
+        Email me as well
+      </label>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={saving || !name.trim()}
+          className="px-3 py-1.5 bg-indigo-600 rounded hover:bg-indigo-700 text-sm disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+        <button
+          type="button"
+          onClick={() => setOpen(false)}
+          className="px-3 py-1.5 bg-gray-700 rounded hover:bg-gray-600 text-sm"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,136 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { formatDistanceToNow } from "date-fns";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { SavedSearch } from "@/types/database";
+import { describeSavedSearch, savedSearchHref } from "@/lib/search/savedSearches";
+
+interface SavedSearchesManagerProps {
+  userId: string;
+}
+
+// Profile section listing the user's saved searches: pause, email toggle, open or delete
+export default function SavedSearchesManager({ userId }: SavedSearchesManagerProps) {
+  const supabase = createSupabaseBrowserClient();
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchSearches = async () => {
+      const { data, error: fetchError } = await supabase
+        .from("saved_searches")
+        .select("*")
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false });
+      if (fetchError) {
+        setError(`Failed to load saved searches: ${fetchError.message}`);
+      } else {
+        setSearches((data as SavedSearch[]) || []);
+      }
+      setLoading(false);
+    };
+    fetchSearches();
+  }, [supabase, userId]);
+
+  const updateSearch = async (
+    id: string,
+    changes: Partial<Pick<SavedSearch, "is_active" | "email_alerts">>
+  ) => {
+    setError(null);
+    const { data, error: updateError } = await supabase
+      .from("saved_searches")
+      .update(changes)
+      .eq("id", id)
+      .select()
+      .single();
+    if (updateError) {
+      setError(`Failed to update saved search: ${updateError.message}`);
+      return;
+    }
+    setSearches((prev) => prev.map((search) => (search.id === id ? (data as SavedSearch) : search)));
+  };
+
+  const deleteSearch = async (search: SavedSearch) => {
+    if (!window.confirm(`Delete the saved search "${search.name}"?`)) return;
+    setError(null);
+    const { error: deleteError } = await supabase.from("saved_searches").delete().eq("id", search.id);
+    if (deleteError) {
+      setError(`Failed to delete saved search: ${deleteError.message}`);
+      return;
+    }
+    setSearches((prev) => prev.filter((s) => s.id !== search.id));
+  };
+
+  return (
+    <div id="saved-searches" className="mt-6 border-t border-gray-200 dark:border-gray-700 pt-6">
+      <h3 className="text-xl font-semibold text-gray-800 dark:text-white mb-1">Saved Searches</h3>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+        We notify you when a newly reported item matches one of these. Save a search from the
+        filters on the <Link href="/" className="text-indigo-600 dark:text-indigo-400 hover:underline">home page</Link>.
+      </p>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading saved searches...</p>
+      ) : searches.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">You have no saved searches yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {searches.map((search) => (
+            <li key={search.id} className="py-3 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+              <div className="min-w-0">
+                <p className={`font-medium ${search.is_active ? "text-gray-800 dark:text-white" : "text-gray-400 dark:text-gray-500"}`}>
+                  {search.name}
+                  {!search.is_active && <span className="ml-2 text-xs font-normal">(paused)</span>}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                  {describeSavedSearch(search)}
+                  {search.last_alerted_at &&
+                    ` · last alert ${formatDistanceToNow(new Date(search.last_alerted_at), { addSuffix: true })}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-3 shrink-0 text-sm">
+                <label className="flex items-center gap-1 text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={search.is_active}
+                    onChange={(e) => updateSearch(search.id, { is_active: e.target.checked })}
+                    className="h-4 w-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+                  />
+                  Alerts
+                </label>
+                <label className="flex items-center gap-1 text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={search.email_alerts}
+                    disabled={!search.is_active}
+                    onChange={(e) => updateSearch(search.id, { email_alerts: e.target.checked })}
+                    className="h-4 w-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+                  />
+                  Email
+                </label>
+                <Link href={savedSearchHref(search)} className="text-indigo-600 dark:text-indigo-400 hover:underline">
+                  View
+                </Link>
+                <button
+                  onClick={() => deleteSearch(search)}
+                  className="text-red-600 dark:text-red-400 hover:underline"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
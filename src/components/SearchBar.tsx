@@ -4,10 +4,11 @@ import { useState, useEffect } from 'react';
 
 interface SearchBarProps {
   onSearch: (term: string) => void;
+  initialValue?: string;
 }
 
-export function SearchBar({ onSearch }: SearchBarProps) {
-  const [searchTerm, setSearchTerm] = useState('');
+export function SearchBar({ onSearch, initialValue = '' }: SearchBarProps) {
+  const [searchTerm, setSearchTerm] = useState(initialValue);
 
   // Debounce search input
   useEffect(() => {
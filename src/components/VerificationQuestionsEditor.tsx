@@ -0,0 +1,194 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+
+export const MAX_VERIFICATION_QUESTIONS = 5;
+
+// Shape accepted by the set_item_verification_questions RPC
+export interface VerificationQuestionDraft {
+  id?: string;
+  question: string;
+  expected_answer: string;
+}
+
+const inputClassName =
+  "block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm dark:bg-gray-700 dark:text-white";
+
+interface VerificationQuestionFieldsProps {
+  value: VerificationQuestionDraft[];
+  onChange: (value: VerificationQuestionDraft[]) => void;
+}
+
+/** Question/expected-answer inputs, without loading or saving. */
+export function VerificationQuestionFields({
+  value,
+  onChange,
+}: VerificationQuestionFieldsProps) {
+  const update = (index: number, patch: Partial<VerificationQuestionDraft>) =>
+    onChange(value.map((entry, i) => (i === index ? { ...entry, ...patch } : entry)));
+
+  return (
+    <div className="space-y-3">
+      {value.map((entry, index) => (
+        <div
+          key={entry.id || index}
+          className="p-3 rounded-md border border-gray-200 dark:border-gray-600 space-y-2"
+        >
+          <input
+            type="text"
+            value={entry.question}
+            onChange={(e) => update(index, { question: e.target.value })}
+            maxLength={200}
+            placeholder="Question, e.g. What is the lock screen wallpaper?"
+            className={inputClassName}
+          />
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={entry.expected_answer}
+              onChange={(e) => update(index, { expected_answer: e.target.value })}
+              maxLength={200}
+              placeholder="Expected answer (never shown to claimers)"
+              className={inputClassName}
+            />
+            <button
+              type="button"
+              onClick={() => onChange(value.filter((_, i) => i !== index))}
+              className="px-3 py-2 text-sm text-red-600 dark:text-red-400 hover:underline"
+            >
+              Remove
+            </button>
+          </div>
+        </div>
+      ))}
+      {value.length < MAX_VERIFICATION_QUESTIONS && (
+        <button
+          type="button"
+          onClick={() => onChange([...value, { question: "", expected_answer: "" }])}
+          className="text-sm font-medium text-indigo-600 dark:text-indigo-400 hover:underline"
+        >
+          + Add a verification question
+        </button>
+      )}
+    </div>
+  );
+}
+
+/** Drops blank rows; returns an error message if a question is only half filled in. */
+export function validateVerificationQuestions(questions: VerificationQuestionDraft[]) {
+  const filled = questions
+    .map((entry) => ({
+      ...entry,
+      question: entry.question.trim(),
+      expected_answer: entry.expected_answer.trim(),
+    }))
+    .filter((entry) => entry.question || entry.expected_answer);
+
+  if (filled.some((entry) => entry.question.length < 5)) {
+    return { questions: filled, error: "Verification questions must be at least 5 characters long." };
+  }
+  if (filled.some((entry) => !entry.expected_answer)) {
+    return { questions: filled, error: "Every verification question needs an expected answer." };
+  }
+  return { questions: filled, error: null };
+}
+
+interface VerificationQuestionsEditorProps {
+  itemId: string;
+}
+
+/** Loads and saves an item's verification questions. For the item reporter and admins. */
+export default function VerificationQuestionsEditor({ itemId }: VerificationQuestionsEditorProps) {
+  const supabase = createSupabaseBrowserClient();
+  const [questions, setQuestions] = useState<VerificationQuestionDraft[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    const fetchQuestions = async () => {
+      const { data, error: fetchError } = await supabase
+        .from("item_verification_questions")
+        .select("id, question, position, answer:item_verification_answers(expected_answer)")
+        .eq("item_id", itemId)
+        .order("position", { ascending: true });
+
+      if (fetchError) {
+        setError(`Failed to load verification questions: ${fetchError.message}`);
+      } else {
+        setQuestions(
+          (data || []).map((row) => {
+            // One-to-one embed: the answer's primary key is the question id
+            const answer = row.answer as unknown as { expected_answer: string } | null;
+            return {
+              id: row.id,
+              question: row.question,
+              expected_answer: answer?.expected_answer || "",
+            };
+          })
+        );
+      }
+      setLoading(false);
+    };
+    fetchQuestions();
+  }, [supabase, itemId]);
+
+  const handleSave = async () => {
+    setError(null);
+    setSaved(false);
+    const { questions: filled, error: validationError } =
+      validateVerificationQuestions(questions);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setSaving(true);
+    const { data, error: saveError } = await supabase.rpc(
+      "set_item_verification_questions",
+      { p_item_id: itemId, p_questions: filled }
+    );
+    setSaving(false);
+
+    if (saveError) {
+      setError(`Failed to save verification questions: ${saveError.message}`);
+      return;
+    }
+    // Newly inserted questions come back with ids, in the same order
+    const savedRows = (data || []) as { id: string }[];
+    setQuestions(filled.map((entry, index) => ({ ...entry, id: savedRows[index]?.id })));
+    setSaved(true);
+  };
+
+  if (loading) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">Loading verification questions...</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        Claimers must answer these before submitting a claim. Only you and admins
+        can see the expected answers and how well each claim matched them.
+      </p>
+      <VerificationQuestionFields
+        value={questions}
+        onChange={(next) => {
+          setSaved(false);
+          setQuestions(next);
+        }}
+      />
+      {error && <p className="text-sm text-red-500">{error}</p>}
+      {saved && <p className="text-sm text-green-500">Verification questions saved.</p>}
+      <button
+        type="button"
+        onClick={handleSave}
+        disabled={saving}
+        className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-md disabled:bg-gray-400"
+      >
+        {saving ? "Saving..." : "Save questions"}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,517 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
+import { formatDistanceToNow } from "date-fns";
+import {
+  AdminItemRow,
+  BulkItemAction,
+  BulkItemResult,
+  CategoryNames,
+  CategoryType,
+  ItemStatus,
+  ItemStatusValues,
+} from "@/types/database";
+
+interface AdminItemsTableProps {
+  onEdit: (item: AdminItemRow) => void;
+  onShowHistory: (item: AdminItemRow) => void;
+  refreshKey: number; // Bump to reload the current page after an edit elsewhere
+}
+
+interface BulkOutcome {
+  action: string;
+  succeeded: number;
+  failures: { id: string; title: string; message: string }[];
+}
+
+const ITEMS_PER_PAGE = 25;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const STATUS_BADGES: Record<ItemStatus, string> = {
+  lost: "bg-red-500 text-white",
+  found: "bg-green-500 text-white",
+  claimed: "bg-blue-500 text-white",
+  archived: "bg-gray-500 text-white",
+};
+
+const BULK_ACTIONS: { value: BulkItemAction | "set_turn_in_off"; label: string }[] = [
+  { value: "set_status", label: "Change status" },
+  { value: "archive", label: "Archive" },
+  { value: "set_turn_in_to_security", label: "Mark turned in to security" },
+  { value: "set_turn_in_off", label: "Unmark turned in to security" },
+  { value: "set_category", label: "Change category" },
+  { value: "delete", label: "Delete" },
+];
+
+const inputClassName =
+  "p-2 rounded bg-gray-800 border border-gray-700 focus:ring-indigo-500 focus:border-indigo-500";
+
+const statusLabel = (status: string) => status.charAt(0).toUpperCase() + status.slice(1);
+
+const categoryLabel = (name: string) => CategoryNames[name as CategoryType] || name;
+
+// "Manage All Items": filtered and paged by admin_search_items, with multi-select bulk actions
+export default function AdminItemsTable({ onEdit, onShowHistory, refreshKey }: AdminItemsTableProps) {
+  const supabase = createClientComponentClient();
+
+  const [searchTerm, setSearchTerm] = useState("");
+  const [statusFilter, setStatusFilter] = useState<ItemStatus | "">("");
+  const [categoryFilter, setCategoryFilter] = useState<CategoryType | "">("");
+  const [userIdFilter, setUserIdFilter] = useState("");
+  const [dateFrom, setDateFrom] = useState("");
+  const [dateTo, setDateTo] = useState("");
+  const [currentPage, setCurrentPage] = useState(1);
+
+  const [items, setItems] = useState<AdminItemRow[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  // Selected item id -> title, kept across pages so the outcome can name failed items
+  const [selected, setSelected] = useState<Map<string, string>>(new Map());
+  const [bulkAction, setBulkAction] = useState<(typeof BULK_ACTIONS)[number]["value"]>("set_status");
+  const [bulkStatus, setBulkStatus] = useState<ItemStatus>("archived");
+  const [bulkCategory, setBulkCategory] = useState<CategoryType>("other");
+  const [applying, setApplying] = useState(false);
+  const [outcome, setOutcome] = useState<BulkOutcome | null>(null);
+
+  const userId = userIdFilter.trim();
+  const userIdInvalid = userId !== "" && !UUID_PATTERN.test(userId);
+  const totalPages = Math.max(1, Math.ceil(totalCount / ITEMS_PER_PAGE));
+
+  // A new filter means a new result set, so start over on page 1 with nothing selected
+  const updateFilter = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setCurrentPage(1);
+    setSelected(new Map());
+  };
+
+  useEffect(() => {
+    if (userIdInvalid) return;
+
+    // Debounced so typing in the search box doesn't fire a query per keystroke
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      setError(null);
+      const { data, error: fetchError } = await supabase.rpc("admin_search_items", {
+        p_status: statusFilter || null,
+        p_category: categoryFilter || null,
+        p_user_id: userId || null,
+        p_search: searchTerm.trim() || null,
+        p_created_from: dateFrom || null,
+        p_created_to: dateTo || null,
+        p_limit: ITEMS_PER_PAGE,
+        p_offset: (currentPage - 1) * ITEMS_PER_PAGE,
+      });
+      if (fetchError) {
+        console.error("Error fetching items:", fetchError);
+        setError(`Failed to load items: ${fetchError.message}`);
+      } else {
+        const rows = (data as AdminItemRow[]) || [];
+        // The last page can empty out after a bulk delete
+        if (rows.length === 0 && currentPage > 1) {
+          setCurrentPage(currentPage - 1);
+          return;
+        }
+        setItems(rows);
+        setTotalCount(rows[0]?.total_count ?? 0);
+      }
+      setLoading(false);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [
+    supabase,
+    searchTerm,
+    statusFilter,
+    categoryFilter,
+    userId,
+    userIdInvalid,
+    dateFrom,
+    dateTo,
+    currentPage,
+    refreshKey,
+    reloadKey,
+  ]);
+
+  const exportHref = (fileFormat: "csv" | "xlsx") => {
+    const params = new URLSearchParams({ format: fileFormat });
+    if (statusFilter) params.set("status", statusFilter);
+    if (categoryFilter) params.set("category", categoryFilter);
+    if (userId && !userIdInvalid) params.set("userId", userId);
+    if (searchTerm.trim()) params.set("q", searchTerm.trim());
+    if (dateFrom) params.set("from", dateFrom);
+    if (dateTo) params.set("to", dateTo);
+    return `/api/items/export?${params}`;
+  };
+
+  const toggleItem = (item: AdminItemRow) => {
+    setSelected((prev) => {
+      const next = new Map(prev);
+      if (next.has(item.id)) next.delete(item.id);
+      else next.set(item.id, item.title);
+      return next;
+    });
+  };
+
+  const pageSelected = items.length > 0 && items.every((item) => selected.has(item.id));
+
+  const togglePage = () => {
+    setSelected((prev) => {
+      const next = new Map(prev);
+      items.forEach((item) => (pageSelected ? next.delete(item.id) : next.set(item.id, item.title)));
+      return next;
+    });
+  };
+
+  const applyBulkAction = async () => {
+    const ids = Array.from(selected.keys());
+    if (ids.length === 0) return;
+
+    let action: BulkItemAction;
+    let value: string | null = null;
+    let description: string;
+    switch (bulkAction) {
+      case "set_status":
+        action = "set_status";
+        value = bulkStatus;
+        description = `Status set to ${statusLabel(bulkStatus)}`;
+        break;
+      case "set_category":
+        action = "set_category";
+        value = bulkCategory;
+        description = `Category set to ${categoryLabel(bulkCategory)}`;
+        break;
+      case "set_turn_in_to_security":
+      case "set_turn_in_off":
+        action = "set_turn_in_to_security";
+        value = String(bulkAction === "set_turn_in_to_security");
+        description =
+          bulkAction === "set_turn_in_to_security"
+            ? "Marked turned in to security"
+            : "Unmarked turned in to security";
+        break;
+      case "archive":
+        action = "archive";
+        description = "Archived";
+        break;
+      case "delete":
+        if (
+          !window.confirm(
+            `Permanently delete ${ids.length} item${ids.length === 1 ? "" : "s"}? Their claims and chats are deleted too. This cannot be undone.`
+          )
+        ) {
+          return;
+        }
+        action = "delete";
+        description = "Deleted";
+        break;
+    }
+
+    setApplying(true);
+    setError(null);
+    setOutcome(null);
+    const { data, error: bulkError } = await supabase.rpc("bulk_update_items", {
+      p_item_ids: ids,
+      p_action: action,
+      p_value: value,
+    });
+    setApplying(false);
+    if (bulkError) {
+      setError(`Bulk action failed, nothing was changed: ${bulkError.message}`);
+      return;
+    }
+
+    const results = (data as BulkItemResult[]) || [];
+    const failures = results
+      .filter((result) => !result.succeeded)
+      .map((result) => ({
+        id: result.item_id,
+        title: selected.get(result.item_id) || result.item_id,
+        message: result.message || "Unknown error",
+      }));
+    setOutcome({ action: description, succeeded: results.length - failures.length, failures });
+    // Keep the failed items selected so they can be retried or handled one by one
+    setSelected(new Map(failures.map((failure) => [failure.id, failure.title])));
+    setReloadKey((key) => key + 1);
+  };
+
+  return (
+    <section>
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h2 className="text-2xl font-semibold">Manage All Items</h2>
+        {/* Downloads use the filters below; the search box matches titles */}
+        <div className="flex gap-2 text-sm">
+          {(["csv", "xlsx"] as const).map((fileFormat) => (
+            <a
+              key={fileFormat}
+              href={exportHref(fileFormat)}
+              className="px-3 py-1.5 rounded-md bg-gray-800 hover:bg-gray-700 text-indigo-300"
+            >
+              Export {fileFormat.toUpperCase()}
+            </a>
+          ))}
+        </div>
+      </div>
+
+      {/* Filters and Search */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <input
+          type="text"
+          placeholder="Search by title..."
+          className={inputClassName}
+          value={searchTerm}
+          onChange={(e) => updateFilter(setSearchTerm)(e.target.value)}
+        />
+        <select
+          className={inputClassName}
+          value={statusFilter}
+          onChange={(e) => updateFilter(setStatusFilter)(e.target.value as ItemStatus | "")}
+        >
+          <option value="">All Statuses</option>
+          {ItemStatusValues.map((status) => (
+            <option key={status} value={status}>
+              {statusLabel(status)}
+            </option>
+          ))}
+        </select>
+        <select
+          className={inputClassName}
+          value={categoryFilter}
+          onChange={(e) => updateFilter(setCategoryFilter)(e.target.value as CategoryType | "")}
+        >
+          <option value="">All Categories</option>
+          {Object.entries(CategoryNames).map(([key, name]) => (
+            <option key={key} value={key}>
+              {name}
+            </option>
+          ))}
+        </select>
+        <div>
+          <input
+            type="text"
+            placeholder="User ID..."
+            value={userIdFilter}
+            onChange={(e) => updateFilter(setUserIdFilter)(e.target.value)}
+            className={`${inputClassName} w-full`}
+          />
+          {userIdInvalid && (
+            <p className="mt-1 text-xs text-yellow-300">Enter the full user ID (a UUID).</p>
+          )}
+        </div>
+        <input
+          type="date"
+          value={dateFrom}
+          onChange={(e) => updateFilter(setDateFrom)(e.target.value)}
+          className={inputClassName}
+        />
+        <input
+          type="date"
+          value={dateTo}
+          onChange={(e) => updateFilter(setDateTo)(e.target.value)}
+          className={inputClassName}
+        />
+      </div>
+
+      {/* Bulk actions for the selected rows */}
+      <div className="flex flex-wrap items-center gap-3 mb-4 p-3 rounded-lg bg-gray-800 text-sm">
+        <span className="text-gray-300">
+          {selected.size} selected
+          {selected.size > 0 && (
+            <button
+              onClick={() => setSelected(new Map())}
+              className="ml-2 text-indigo-300 hover:underline"
+            >
+              Clear
+            </button>
+          )}
+        </span>
+        <select
+          value={bulkAction}
+          onChange={(e) => setBulkAction(e.target.value as (typeof BULK_ACTIONS)[number]["value"])}
+          className={inputClassName}
+        >
+          {BULK_ACTIONS.map((action) => (
+            <option key={action.value} value={action.value}>
+              {action.label}
+            </option>
+          ))}
+        </select>
+        {bulkAction === "set_status" && (
+          <select
+            value={bulkStatus}
+            onChange={(e) => setBulkStatus(e.target.value as ItemStatus)}
+            className={inputClassName}
+          >
+            {ItemStatusValues.map((status) => (
+              <option key={status} value={status}>
+                {statusLabel(status)}
+              </option>
+            ))}
+          </select>
+        )}
+        {bulkAction === "set_category" && (
+          <select
+            value={bulkCategory}
+            onChange={(e) => setBulkCategory(e.target.value as CategoryType)}
+            className={inputClassName}
+          >
+            {Object.entries(CategoryNames).map(([key, name]) => (
+              <option key={key} value={key}>
+                {name}
+              </option>
+            ))}
+          </select>
+        )}
+        <button
+          onClick={applyBulkAction}
+          disabled={applying || selected.size === 0}
+          className={`px-4 py-2 rounded font-medium disabled:bg-gray-600 disabled:opacity-50 ${
+            bulkAction === "delete" ? "bg-red-600 hover:bg-red-700" : "bg-indigo-600 hover:bg-indigo-700"
+          }`}
+        >
+          {applying ? "Applying..." : `Apply to ${selected.size}`}
+        </button>
+      </div>
+
+      {error && <div className="mb-4 p-3 rounded bg-red-900 text-red-200">{error}</div>}
+      {outcome && (
+        <div
+          className={`mb-4 p-3 rounded text-sm ${
+            outcome.failures.length > 0 ? "bg-yellow-900 text-yellow-100" : "bg-green-900 text-green-100"
+          }`}
+        >
+          <p>
+            {outcome.action}: {outcome.succeeded} item{outcome.succeeded === 1 ? "" : "s"} done
+            {outcome.failures.length > 0 && `, ${outcome.failures.length} failed (still selected)`}.
+          </p>
+          {outcome.failures.length > 0 && (
+            <ul className="mt-2 list-disc list-inside">
+              {outcome.failures.map((failure) => (
+                <li key={failure.id}>
+                  {failure.title}: {failure.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {loading ? (
+        <p>Loading items...</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full bg-gray-800 rounded-lg shadow-md">
+            <thead className="bg-gray-700">
+              <tr>
+                <th className="p-3 text-left">
+                  <input
+                    type="checkbox"
+                    checked={pageSelected}
+                    onChange={togglePage}
+                    aria-label="Select all items on this page"
+                  />
+                </th>
+                {["Title", "Status", "Category", "Reporter", "Reported", "Actions"].map((heading) => (
+                  <th
+                    key={heading}
+                    className="p-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider"
+                  >
+                    {heading}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-700">
+              {items.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="p-3 text-sm text-gray-400 text-center">
+                    No items match these filters.
+                  </td>
+                </tr>
+              ) : (
+                items.map((item) => (
+                  <tr
+                    key={item.id}
+                    className={`hover:bg-gray-750 transition-colors ${selected.has(item.id) ? "bg-gray-700/50" : ""}`}
+                  >
+                    <td className="p-3">
+                      <input
+                        type="checkbox"
+                        checked={selected.has(item.id)}
+                        onChange={() => toggleItem(item)}
+                        aria-label={`Select ${item.title}`}
+                      />
+                    </td>
+                    <td className="p-3 whitespace-nowrap text-sm text-indigo-400 font-medium">
+                      {item.title}
+                      {item.turn_in_to_security && (
+                        <span className="ml-2 text-xs text-amber-300">At security</span>
+                      )}
+                    </td>
+                    <td className="p-3 whitespace-nowrap text-sm">
+                      <span
+                        className={`px-2 py-0.5 rounded-full text-xs font-semibold ${STATUS_BADGES[item.status]}`}
+                      >
+                        {item.status}
+                      </span>
+                    </td>
+                    <td className="p-3 whitespace-nowrap text-sm text-gray-300">
+                      {categoryLabel(item.category)}
+                    </td>
+                    <td className="p-3 whitespace-nowrap text-sm text-gray-300">
+                      {item.poster_name || "Unknown User"}
+                    </td>
+                    <td className="p-3 whitespace-nowrap text-sm text-gray-400">
+                      {item.created_at
+                        ? formatDistanceToNow(new Date(item.created_at), { addSuffix: true })
+                        : "Date unknown"}
+                    </td>
+                    <td className="p-3 whitespace-nowrap text-sm">
+                      <button
+                        onClick={() => onEdit(item)}
+                        className="text-indigo-400 hover:text-indigo-300 font-medium"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        className="ml-3 text-gray-400 hover:text-gray-200 font-medium"
+                        onClick={() => onShowHistory(item)}
+                      >
+                        View History
+                      </button>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Pagination Controls */}
+      {totalPages > 1 && (
+        <div className="mt-6 flex justify-between items-center">
+          <button
+            onClick={() => setCurrentPage((prev) => Math.max(1, prev - 1))}
+            disabled={currentPage === 1}
+            className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 rounded disabled:opacity-50 transition-colors"
+          >
+            Previous
+          </button>
+          <span className="text-sm text-gray-400">
+            Page {currentPage} of {totalPages} ({totalCount} items)
+          </span>
+          <button
+            onClick={() => setCurrentPage((prev) => Math.min(totalPages, prev + 1))}
+            disabled={currentPage === totalPages}
+            className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 rounded disabled:opacity-50 transition-colors"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,377 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
+import { format, parseISO, subDays, subMonths } from "date-fns";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  PieChart,
+  Pie,
+  Cell,
+  LineChart,
+  Line,
+} from "recharts";
+import KpiCard from "@/components/admin/KpiCard";
+import {
+  AnalyticsGranularity,
+  AnalyticsSummary,
+  AnalyticsTimeSeriesRow,
+  CategoryMetrics,
+  CategoryNames,
+} from "@/types/database";
+
+interface DateRange {
+  from: string; // yyyy-MM-dd, inclusive
+  to: string;
+  granularity: AnalyticsGranularity;
+}
+
+const PIE_COLORS = [
+  "#8884d8",
+  "#83a6ed",
+  "#8dd1e1",
+  "#82ca9d",
+  "#a4de6c",
+  "#d0ed57",
+  "#ffc658",
+  "#ff8042",
+  "#ff6361",
+  "#bc5090",
+  "#58508d",
+  "#003f5c",
+];
+
+const TOOLTIP_PROPS = {
+  contentStyle: { backgroundColor: "#333", border: "none", borderRadius: "4px" },
+  labelStyle: { color: "#fff" },
+};
+
+const today = () => format(new Date(), "yyyy-MM-dd");
+
+const PRESETS: { label: string; range: () => DateRange }[] = [
+  {
+    label: "7 days",
+    range: () => ({ from: format(subDays(new Date(), 6), "yyyy-MM-dd"), to: today(), granularity: "day" }),
+  },
+  {
+    label: "30 days",
+    range: () => ({ from: format(subDays(new Date(), 29), "yyyy-MM-dd"), to: today(), granularity: "day" }),
+  },
+  {
+    label: "90 days",
+    range: () => ({ from: format(subDays(new Date(), 89), "yyyy-MM-dd"), to: today(), granularity: "week" }),
+  },
+  {
+    label: "12 months",
+    range: () => ({ from: format(subMonths(new Date(), 12), "yyyy-MM-01"), to: today(), granularity: "month" }),
+  },
+];
+
+const bucketLabel = (bucket: string, granularity: AnalyticsGranularity) => {
+  const date = parseISO(bucket);
+  if (granularity === "month") return format(date, "MMM yyyy");
+  if (granularity === "week") return `Wk of ${format(date, "MMM d")}`;
+  return format(date, "MMM d");
+};
+
+const categoryLabel = (name: string) =>
+  CategoryNames[name as keyof typeof CategoryNames] || name;
+
+const formatRatio = (ratio: number | null) =>
+  ratio === null ? "—" : `${Math.round(ratio * 100)}%`;
+
+const formatHours = (hours: number | null) => {
+  if (hours === null) return "—";
+  return hours < 48 ? `${Math.round(hours)} h` : `${(hours / 24).toFixed(1)} d`;
+};
+
+const inputClassName = "bg-gray-700 border border-gray-600 rounded p-2 text-sm text-white";
+
+// Statistical insights for the admin dashboard. Every figure is aggregated in the database
+// (analytics_* RPCs) for the chosen range, so the browser never sees raw rows.
+export default function DashboardAnalytics() {
+  const supabase = createClientComponentClient();
+  const [range, setRange] = useState<DateRange>(PRESETS[1].range);
+  const [timeSeries, setTimeSeries] = useState<AnalyticsTimeSeriesRow[]>([]);
+  const [summary, setSummary] = useState<AnalyticsSummary | null>(null);
+  const [categories, setCategories] = useState<CategoryMetrics[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const rangeInvalid = !range.from || !range.to || range.from > range.to;
+
+  useEffect(() => {
+    if (rangeInvalid) return;
+
+    const fetchAnalytics = async () => {
+      setLoading(true);
+      setError(null);
+      const params = { p_from: range.from, p_to: range.to };
+      const [seriesResult, summaryResult, categoryResult] = await Promise.all([
+        supabase.rpc("analytics_time_series", { ...params, p_granularity: range.granularity }),
+        supabase.rpc("analytics_summary", params),
+        supabase.rpc("analytics_category_metrics", params),
+      ]);
+      const fetchError = seriesResult.error || summaryResult.error || categoryResult.error;
+      if (fetchError) {
+        console.error("Error fetching analytics:", fetchError);
+        setError(`Failed to load statistics: ${fetchError.message}`);
+      } else {
+        setTimeSeries((seriesResult.data as AnalyticsTimeSeriesRow[]) || []);
+        setSummary(((summaryResult.data as AnalyticsSummary[]) || [])[0] ?? null);
+        setCategories((categoryResult.data as CategoryMetrics[]) || []);
+      }
+      setLoading(false);
+    };
+    fetchAnalytics();
+  }, [supabase, range, rangeInvalid]);
+
+  const chartData = timeSeries.map((row) => ({
+    ...row,
+    date: bucketLabel(row.bucket, range.granularity),
+  }));
+  const categoryDistribution = categories
+    .filter((row) => row.items_reported > 0)
+    .map((row) => ({ name: categoryLabel(row.category), value: row.items_reported }));
+
+  return (
+    <div className="space-y-8">
+      {/* Date range picker */}
+      <div className="bg-gray-800 p-4 rounded-lg shadow-md flex flex-wrap items-end gap-4">
+        <div>
+          <label htmlFor="analyticsFrom" className="block text-xs text-gray-400 mb-1">
+            From
+          </label>
+          <input
+            id="analyticsFrom"
+            type="date"
+            value={range.from}
+            max={range.to}
+            onChange={(e) => setRange((prev) => ({ ...prev, from: e.target.value }))}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="analyticsTo" className="block text-xs text-gray-400 mb-1">
+            To
+          </label>
+          <input
+            id="analyticsTo"
+            type="date"
+            value={range.to}
+            min={range.from}
+            onChange={(e) => setRange((prev) => ({ ...prev, to: e.target.value }))}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="analyticsGranularity" className="block text-xs text-gray-400 mb-1">
+            Group by
+          </label>
+          <select
+            id="analyticsGranularity"
+            value={range.granularity}
+            onChange={(e) =>
+              setRange((prev) => ({ ...prev, granularity: e.target.value as AnalyticsGranularity }))
+            }
+            className={inputClassName}
+          >
+            <option value="day">Day</option>
+            <option value="week">Week</option>
+            <option value="month">Month</option>
+          </select>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {PRESETS.map((preset) => (
+            <button
+              key={preset.label}
+              onClick={() => setRange(preset.range())}
+              className="px-3 py-2 rounded bg-gray-700 hover:bg-gray-600 text-sm"
+            >
+              {preset.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {rangeInvalid && (
+        <p className="text-sm text-yellow-300">The start date must be on or before the end date.</p>
+      )}
+      {error && <div className="p-3 rounded bg-red-900 text-red-200">{error}</div>}
+
+      {loading ? (
+        <p>Loading statistics...</p>
+      ) : (
+        <>
+          {summary && (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+              <KpiCard
+                title="Recovery Rate"
+                value={formatRatio(summary.recovery_rate)}
+                hint={`${summary.items_recovered} of ${summary.items_reported} reports claimed`}
+                highlight={true}
+              />
+              <KpiCard
+                title="Median Time to Claim"
+                value={formatHours(summary.median_hours_to_claim)}
+                hint="From report to first approved claim"
+              />
+              <KpiCard
+                title="Claim Approval Ratio"
+                value={formatRatio(summary.approval_ratio)}
+                hint={`${summary.claims_approved} approved, ${summary.claims_rejected} rejected, ${summary.claims_pending} pending`}
+              />
+              <KpiCard title="New Users" value={summary.new_users} />
+            </div>
+          )}
+
+          {/* Items Over Time Chart */}
+          <div className="bg-gray-800 p-4 rounded-lg shadow-md">
+            <h3 className="text-lg font-semibold mb-3">Items Reported</h3>
+            <div className="h-80">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#444" />
+                  <XAxis dataKey="date" stroke="#ccc" />
+                  <YAxis stroke="#ccc" allowDecimals={false} />
+                  <Tooltip {...TOOLTIP_PROPS} />
+                  <Legend />
+                  <Line
+                    type="monotone"
+                    dataKey="lost_items"
+                    name="Still Lost"
+                    stroke="#ef4444"
+                    activeDot={{ r: 8 }}
+                  />
+                  <Line type="monotone" dataKey="found_items" name="Still Found" stroke="#22c55e" />
+                  <Line type="monotone" dataKey="recovered_items" name="Recovered" stroke="#6366f1" />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            {/* Category Distribution Chart */}
+            <div className="bg-gray-800 p-4 rounded-lg shadow-md">
+              <h3 className="text-lg font-semibold mb-3">Items by Category</h3>
+              <div className="h-80">
+                <ResponsiveContainer width="100%" height="100%">
+                  <PieChart>
+                    <Pie
+                      data={categoryDistribution}
+                      cx="50%"
+                      cy="50%"
+                      labelLine={false}
+                      outerRadius={80}
+                      fill="#8884d8"
+                      dataKey="value"
+                      nameKey="name"
+                      label={({ name, percent }) => `${name}: ${(percent * 100).toFixed(0)}%`}
+                    >
+                      {categoryDistribution.map((entry, index) => (
+                        <Cell key={`cell-${index}`} fill={PIE_COLORS[index % PIE_COLORS.length]} />
+                      ))}
+                    </Pie>
+                    <Tooltip formatter={(value, name) => [value, name]} />
+                  </PieChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+
+            {/* Claims Over Time Chart */}
+            <div className="bg-gray-800 p-4 rounded-lg shadow-md">
+              <h3 className="text-lg font-semibold mb-3">Claims Processing</h3>
+              <div className="h-80">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#444" />
+                    <XAxis dataKey="date" stroke="#ccc" />
+                    <YAxis stroke="#ccc" allowDecimals={false} />
+                    <Tooltip {...TOOLTIP_PROPS} />
+                    <Legend />
+                    <Bar dataKey="claims_approved" name="Approved" stackId="a" fill="#22c55e" />
+                    <Bar dataKey="claims_rejected" name="Rejected" stackId="a" fill="#ef4444" />
+                    <Bar dataKey="claims_pending" name="Pending" stackId="a" fill="#f59e0b" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          </div>
+
+          {/* Per-category outcomes */}
+          <div className="overflow-x-auto bg-gray-800 rounded-lg shadow-md">
+            <h3 className="text-lg font-semibold p-4 pb-3">Outcomes by Category</h3>
+            <table className="min-w-full">
+              <thead className="bg-gray-700">
+                <tr>
+                  {["Category", "Reports", "Recovered", "Recovery Rate", "Median Time to Claim", "Approval Ratio"].map(
+                    (heading) => (
+                      <th
+                        key={heading}
+                        className="p-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider"
+                      >
+                        {heading}
+                      </th>
+                    )
+                  )}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {categories.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="p-3 text-sm text-gray-400">
+                      No items or claims in this range.
+                    </td>
+                  </tr>
+                ) : (
+                  categories.map((row) => (
+                    <tr key={row.category}>
+                      <td className="p-3 text-sm">{categoryLabel(row.category)}</td>
+                      <td className="p-3 text-sm">{row.items_reported}</td>
+                      <td className="p-3 text-sm">{row.items_recovered}</td>
+                      <td className="p-3 text-sm">{formatRatio(row.recovery_rate)}</td>
+                      <td className="p-3 text-sm">{formatHours(row.median_hours_to_claim)}</td>
+                      <td className="p-3 text-sm">
+                        {formatRatio(row.approval_ratio)}
+                        {row.claims_approved + row.claims_rejected > 0 && (
+                          <span className="text-gray-500">
+                            {" "}
+                            ({row.claims_approved}/{row.claims_approved + row.claims_rejected})
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {/* User Activity Chart */}
+          <div className="bg-gray-800 p-4 rounded-lg shadow-md">
+            <h3 className="text-lg font-semibold mb-3">User Registrations Over Time</h3>
+            <div className="h-80">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#444" />
+                  <XAxis dataKey="date" stroke="#ccc" />
+                  <YAxis stroke="#ccc" allowDecimals={false} />
+                  <Tooltip {...TOOLTIP_PROPS} />
+                  <Legend />
+                  <Bar dataKey="new_users" name="New Users" fill="#3b82f6" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
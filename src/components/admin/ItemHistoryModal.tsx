@@ -0,0 +1,247 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
+import { format } from "date-fns";
+import { ItemAuditLog, Profile } from "@/types/database";
+
+interface ItemHistoryModalProps {
+  item: { id: string; title: string };
+  onClose: () => void;
+}
+
+// All rows written by one statement share a timestamp, actor and table
+interface HistoryEntry {
+  key: string;
+  changedAt: string;
+  actorId: string | null;
+  tableName: ItemAuditLog["table_name"];
+  action: ItemAuditLog["action"];
+  claimId: string | null;
+  logs: ItemAuditLog[];
+}
+
+const SYSTEM_ACTOR = "__system__";
+
+const groupLogs = (logs: ItemAuditLog[]): HistoryEntry[] => {
+  const entries: HistoryEntry[] = [];
+  for (const log of logs) {
+    const key = `${log.changed_at}|${log.actor_id}|${log.table_name}|${log.claim_id}|${log.action}`;
+    const last = entries[entries.length - 1];
+    if (last?.key === key) {
+      last.logs.push(log);
+    } else {
+      entries.push({
+        key,
+        changedAt: log.changed_at,
+        actorId: log.actor_id,
+        tableName: log.table_name,
+        action: log.action,
+        claimId: log.claim_id,
+        logs: [log],
+      });
+    }
+  }
+  return entries;
+};
+
+const describeEntry = (entry: HistoryEntry) => {
+  const subject = entry.tableName === "claims" ? "Claim" : "Item";
+  switch (entry.action) {
+    case "INSERT":
+      return `${subject} created`;
+    case "DELETE":
+      return `${subject} deleted`;
+    default:
+      return `${subject} updated`;
+  }
+};
+
+// Whole-row snapshots are stored as JSON; pretty-print them for the viewer
+const formatSnapshot = (value: string | null) => {
+  if (!value) return null;
+  try {
+    return JSON.stringify(JSON.parse(value), null, 2);
+  } catch {
+    return value;
+  }
+};
+
+/** Timeline of audit log entries for one item and its claims, for admins. */
+export default function ItemHistoryModal({ item, onClose }: ItemHistoryModalProps) {
+  const supabase = createClientComponentClient();
+  const [logs, setLogs] = useState<ItemAuditLog[]>([]);
+  const [actors, setActors] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [actorFilter, setActorFilter] = useState("");
+  const [fieldFilter, setFieldFilter] = useState("");
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      setLoading(true);
+      setError(null);
+      const { data, error: logsError } = await supabase
+        .from("item_audit_logs")
+        .select("*")
+        .eq("item_id", item.id)
+        .order("changed_at", { ascending: false })
+        .order("id", { ascending: true });
+
+      if (logsError) {
+        console.error("Error fetching item history:", logsError);
+        setError("Error loading item history.");
+        setLoading(false);
+        return;
+      }
+
+      const rows = (data || []) as ItemAuditLog[];
+      setLogs(rows);
+
+      // actor_id has no foreign key (history outlives profiles), so names are looked up separately
+      const actorIds = Array.from(
+        new Set(rows.map((log) => log.actor_id).filter((id): id is string => !!id))
+      );
+      if (actorIds.length > 0) {
+        const { data: profiles } = await supabase
+          .from("profiles")
+          .select("id, full_name")
+          .in("id", actorIds);
+        setActors(
+          Object.fromEntries(
+            ((profiles || []) as Pick<Profile, "id" | "full_name">[]).map((profile) => [
+              profile.id,
+              profile.full_name || "Unnamed user",
+            ])
+          )
+        );
+      }
+      setLoading(false);
+    };
+    fetchHistory();
+  }, [supabase, item.id]);
+
+  const actorName = (actorId: string | null) =>
+    actorId ? actors[actorId] || `Deleted user (…${actorId.slice(-6)})` : "System";
+
+  const fieldOptions = useMemo(
+    () =>
+      Array.from(
+        new Set(logs.map((log) => log.field_changed).filter((field): field is string => !!field))
+      ).sort(),
+    [logs]
+  );
+
+  const actorOptions = useMemo(
+    () => Array.from(new Set(logs.map((log) => log.actor_id ?? SYSTEM_ACTOR))),
+    [logs]
+  );
+
+  const entries = useMemo(() => {
+    const filtered = logs.filter(
+      (log) =>
+        (!actorFilter || (log.actor_id ?? SYSTEM_ACTOR) === actorFilter) &&
+        (!fieldFilter || log.field_changed === fieldFilter)
+    );
+    return groupLogs(filtered);
+  }, [logs, actorFilter, fieldFilter]);
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-60 z-50 p-4">
+      <div className="bg-gray-800 text-white rounded-lg p-6 max-w-3xl w-full max-h-[90vh] flex flex-col">
+        <div className="flex items-start justify-between gap-4 mb-4">
+          <div>
+            <h2 className="text-xl font-bold">History</h2>
+            <p className="text-sm text-gray-400">{item.title}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="px-3 py-1 bg-gray-600 hover:bg-gray-700 rounded"
+          >
+            Close
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-3 mb-4">
+          <select
+            value={actorFilter}
+            onChange={(e) => setActorFilter(e.target.value)}
+            className="bg-gray-700 border border-gray-600 rounded p-2 text-sm"
+          >
+            <option value="">All actors</option>
+            {actorOptions.map((actorId) => (
+              <option key={actorId} value={actorId}>
+                {actorName(actorId === SYSTEM_ACTOR ? null : actorId)}
+              </option>
+            ))}
+          </select>
+          <select
+            value={fieldFilter}
+            onChange={(e) => setFieldFilter(e.target.value)}
+            className="bg-gray-700 border border-gray-600 rounded p-2 text-sm"
+          >
+            <option value="">All fields</option>
+            {fieldOptions.map((field) => (
+              <option key={field} value={field}>
+                {field}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="overflow-y-auto flex-1 pr-1">
+          {loading ? (
+            <p className="text-gray-400">Loading history...</p>
+          ) : error ? (
+            <p className="text-red-400">{error}</p>
+          ) : entries.length === 0 ? (
+            <p className="text-gray-400">No history available for this item.</p>
+          ) : (
+            <ol className="relative border-l border-gray-600 ml-2 space-y-6">
+              {entries.map((entry, index) => (
+                <li key={`${entry.key}-${index}`} className="relative ml-4">
+                  <span className="absolute -left-[1.375rem] top-1.5 w-3 h-3 rounded-full bg-indigo-500" />
+                  <div className="flex flex-wrap items-baseline gap-x-2 mb-2">
+                    <span className="font-semibold">{describeEntry(entry)}</span>
+                    <span className="text-sm text-gray-400">
+                      by {actorName(entry.actorId)} ·{" "}
+                      {format(new Date(entry.changedAt), "PPpp")}
+                    </span>
+                    {entry.claimId && (
+                      <span className="text-xs text-gray-500">
+                        claim …{entry.claimId.slice(-6)}
+                      </span>
+                    )}
+                  </div>
+                  {entry.action === "UPDATE" ? (
+                    <table className="w-full text-sm">
+                      <tbody className="divide-y divide-gray-700">
+                        {entry.logs.map((log) => (
+                          <tr key={log.id}>
+                            <td className="py-1 pr-3 align-top text-gray-300 whitespace-nowrap">
+                              {log.field_changed}
+                            </td>
+                            <td className="py-1 pr-3 align-top text-red-300 line-through break-all">
+                              {log.old_value ?? "∅"}
+                            </td>
+                            <td className="py-1 align-top text-green-300 break-all">
+                              {log.new_value ?? "∅"}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  ) : (
+                    <pre className="text-xs bg-gray-900 rounded p-3 overflow-x-auto text-gray-300">
+                      {formatSnapshot(entry.logs[0].new_value ?? entry.logs[0].old_value)}
+                    </pre>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
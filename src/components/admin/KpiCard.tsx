@@ -0,0 +1,27 @@
+import React from "react";
+
+// Headline figure on the admin dashboard
+const KpiCard: React.FC<{
+  title: string;
+  value: string | number;
+  highlight?: boolean;
+  hint?: string;
+}> = ({ title, value, highlight = false, hint }) => (
+  <div
+    className={`bg-gray-800 p-4 rounded-lg shadow-md ${
+      highlight ? "border-l-4 border-green-500" : ""
+    }`}
+  >
+    <h3 className="text-sm font-medium text-gray-400 mb-1">{title}</h3>
+    <p
+      className={`text-3xl font-bold ${
+        highlight ? "text-green-400" : "text-indigo-400"
+      }`}
+    >
+      {value}
+    </p>
+    {hint && <p className="text-xs text-gray-500 mt-1">{hint}</p>}
+  </div>
+);
+
+export default KpiCard;
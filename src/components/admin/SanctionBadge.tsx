@@ -0,0 +1,17 @@
+import { format } from "date-fns";
+import { SanctionKind } from "@/types/database";
+
+interface SanctionBadgeProps {
+  kind: SanctionKind;
+  expiresAt: string | null;
+}
+
+// Red pill for an account's active suspension or ban
+export default function SanctionBadge({ kind, expiresAt }: SanctionBadgeProps) {
+  return (
+    <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-red-700 text-red-100">
+      {kind === "ban" ? "Banned" : "Suspended"}
+      {expiresAt ? ` until ${format(new Date(expiresAt), "PP")}` : kind === "ban" ? " permanently" : ""}
+    </span>
+  );
+}
@@ -0,0 +1,43 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
+import { UserRole } from "@/types/database";
+import { hasPermission, Permission } from "@/lib/auth/roles";
+
+/**
+ * Client-side guard for staff pages: sends signed-out users to /auth and anyone whose role
+ * lacks `permission` home. Returns the user's role once confirmed, null until then.
+ * RLS still enforces access.
+ */
+export function useAdminCheck(permission: Permission) {
+  const supabase = createClientComponentClient();
+  const router = useRouter();
+  const [role, setRole] = useState<UserRole | null>(null);
+
+  useEffect(() => {
+    async function checkAuth() {
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+      if (!session) {
+        router.push("/auth");
+        return;
+      }
+      const { data: profile, error: profileError } = await supabase
+        .from("profiles")
+        .select("role")
+        .eq("id", session.user.id)
+        .single();
+      if (profileError || !profile || !hasPermission(profile.role, permission)) {
+        router.push("/");
+      } else {
+        setRole(profile.role as UserRole);
+      }
+    }
+    checkAuth();
+  }, [router, supabase, permission]);
+
+  return role;
+}
@@ -0,0 +1,158 @@
+"use client";
+
+import "leaflet/dist/leaflet.css";
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import L from "leaflet";
+import {
+  Circle,
+  MapContainer,
+  Marker,
+  Polyline,
+  Popup,
+  TileLayer,
+  useMap,
+  useMapEvents,
+} from "react-leaflet";
+import { CategoryNames } from "@/types/database";
+import type { SearchItem } from "@/lib/search/filterItems";
+import { CAMPUS_CENTER, CAMPUS_DEFAULT_ZOOM, LatLng } from "@/lib/geo/campus";
+import {
+  BOUNDARY_STYLE,
+  STATUS_COLORS,
+  TILE_ATTRIBUTION,
+  TILE_URL,
+  clusterIcon,
+  pinIcon,
+  useCampusBoundary,
+} from "./mapShared";
+
+// Markers closer than this on screen are grouped into one cluster
+const CLUSTER_RADIUS_PX = 48;
+
+type MappedItem = SearchItem & { lat: number; lng: number };
+
+interface Cluster {
+  key: string;
+  center: LatLng;
+  items: MappedItem[];
+}
+
+interface ItemsMapProps {
+  items: SearchItem[];
+  near: { center: LatLng; radiusMeters: number } | null;
+  pickingNear: boolean;
+  onPickNear: (center: LatLng) => void;
+}
+
+// Greedy grid clustering in screen space, recomputed on every zoom/move
+function clusterItems(map: L.Map, items: MappedItem[]): Cluster[] {
+  const zoom = map.getZoom();
+  const cells = new Map<string, MappedItem[]>();
+
+  for (const item of items) {
+    const point = map.project([item.lat, item.lng], zoom);
+    const key = `${Math.floor(point.x / CLUSTER_RADIUS_PX)}:${Math.floor(point.y / CLUSTER_RADIUS_PX)}`;
+    const cell = cells.get(key);
+    if (cell) cell.push(item);
+    else cells.set(key, [item]);
+  }
+
+  return Array.from(cells, ([key, cellItems]) => ({
+    key,
+    items: cellItems,
+    center: {
+      lat: cellItems.reduce((sum, item) => sum + item.lat, 0) / cellItems.length,
+      lng: cellItems.reduce((sum, item) => sum + item.lng, 0) / cellItems.length,
+    },
+  }));
+}
+
+function ClusteredMarkers({ items }: { items: MappedItem[] }) {
+  const map = useMap();
+  const [clusters, setClusters] = useState<Cluster[]>([]);
+
+  const recluster = useCallback(() => setClusters(clusterItems(map, items)), [map, items]);
+  useEffect(recluster, [recluster]);
+  useMapEvents({ zoomend: recluster });
+
+  return (
+    <>
+      {clusters.map((cluster) =>
+        cluster.items.length === 1 ? (
+          <Marker
+            key={cluster.items[0].id}
+            position={cluster.center}
+            icon={pinIcon(STATUS_COLORS[cluster.items[0].status] || "#6366f1")}
+          >
+            <Popup>
+              <div className="space-y-1">
+                <Link href={`/item/${cluster.items[0].id}`} className="font-semibold text-indigo-600">
+                  {cluster.items[0].title}
+                </Link>
+                <p className="text-xs capitalize">
+                  {cluster.items[0].status} ·{" "}
+                  {CategoryNames[cluster.items[0].category as keyof typeof CategoryNames] ||
+                    cluster.items[0].category}
+                </p>
+                {cluster.items[0].location_description && (
+                  <p className="text-xs">{cluster.items[0].location_description}</p>
+                )}
+              </div>
+            </Popup>
+          </Marker>
+        ) : (
+          <Marker
+            key={`cluster-${cluster.key}`}
+            position={cluster.center}
+            icon={clusterIcon(cluster.items.length)}
+            eventHandlers={{
+              click: () =>
+                map.fitBounds(
+                  L.latLngBounds(cluster.items.map((item) => [item.lat, item.lng] as [number, number])),
+                  { padding: [40, 40], maxZoom: map.getMaxZoom() }
+                ),
+            }}
+          />
+        )
+      )}
+    </>
+  );
+}
+
+function NearPicker({ active, onPick }: { active: boolean; onPick: (center: LatLng) => void }) {
+  const map = useMap();
+  useEffect(() => {
+    map.getContainer().style.cursor = active ? "crosshair" : "";
+  }, [map, active]);
+  useMapEvents({
+    click: (event) => {
+      if (active) onPick({ lat: event.latlng.lat, lng: event.latlng.lng });
+    },
+  });
+  return null;
+}
+
+/** Browse map of reported items with clustering and an optional "near this spot" circle. */
+export default function ItemsMap({ items, near, pickingNear, onPickNear }: ItemsMapProps) {
+  const boundary = useCampusBoundary();
+  const mappedItems = items.filter(
+    (item): item is MappedItem => typeof item.lat === "number" && typeof item.lng === "number"
+  );
+
+  return (
+    <MapContainer center={CAMPUS_CENTER} zoom={CAMPUS_DEFAULT_ZOOM} className="h-full w-full">
+      <TileLayer url={TILE_URL} attribution={TILE_ATTRIBUTION} maxZoom={19} />
+      {boundary && <Polyline positions={boundary} pathOptions={BOUNDARY_STYLE} />}
+      {near && (
+        <Circle
+          center={near.center}
+          radius={near.radiusMeters}
+          pathOptions={{ color: "#f59e0b", fillOpacity: 0.1 }}
+        />
+      )}
+      <ClusteredMarkers items={mappedItems} />
+      <NearPicker active={pickingNear} onPick={onPickNear} />
+    </MapContainer>
+  );
+}
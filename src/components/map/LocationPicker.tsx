@@ -0,0 +1,129 @@
+"use client";
+
+import "leaflet/dist/leaflet.css";
+import { useEffect, useState } from "react";
+import L from "leaflet";
+import {
+  MapContainer,
+  Marker,
+  Polyline,
+  TileLayer,
+  useMap,
+  useMapEvents,
+} from "react-leaflet";
+import {
+  CAMPUS_CENTER,
+  CAMPUS_DEFAULT_ZOOM,
+  LatLng,
+  isInsidePolygon,
+} from "@/lib/geo/campus";
+import {
+  BOUNDARY_STYLE,
+  TILE_ATTRIBUTION,
+  TILE_URL,
+  pinIcon,
+  useCampusBoundary,
+} from "./mapShared";
+
+interface LocationPickerProps {
+  value: LatLng | null;
+  onChange: (value: LatLng | null) => void;
+}
+
+// Keeps the view on campus once the boundary is known
+function FitToBoundary({ boundary, hasValue }: { boundary: LatLng[]; hasValue: boolean }) {
+  const map = useMap();
+  useEffect(() => {
+    const bounds = L.latLngBounds(boundary);
+    map.setMaxBounds(bounds.pad(0.5));
+    if (!hasValue) map.fitBounds(bounds);
+    // Only on first load of the boundary; later value changes must not move the map
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [map, boundary]);
+  return null;
+}
+
+function ClickToPick({ onPick }: { onPick: (point: LatLng) => void }) {
+  useMapEvents({
+    click: (event) => onPick(event.latlng),
+  });
+  return null;
+}
+
+/** Pin-drop picker for an item location. Points outside the campus boundary are rejected. */
+export default function LocationPicker({ value, onChange }: LocationPickerProps) {
+  const boundary = useCampusBoundary();
+  const [rejected, setRejected] = useState(false);
+
+  const handlePick = (point: LatLng) => {
+    if (!boundary) return;
+    if (!isInsidePolygon(point, boundary)) {
+      setRejected(true);
+      return false;
+    }
+    setRejected(false);
+    onChange({ lat: point.lat, lng: point.lng });
+    return true;
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="h-72 rounded-md overflow-hidden border border-gray-300 dark:border-gray-600">
+        <MapContainer
+          center={value || CAMPUS_CENTER}
+          zoom={CAMPUS_DEFAULT_ZOOM}
+          className="h-full w-full"
+          scrollWheelZoom={false}
+        >
+          <TileLayer url={TILE_URL} attribution={TILE_ATTRIBUTION} />
+          {boundary && (
+            <>
+              <Polyline positions={boundary} pathOptions={BOUNDARY_STYLE} />
+              <FitToBoundary boundary={boundary} hasValue={!!value} />
+            </>
+          )}
+          <ClickToPick onPick={handlePick} />
+          {value && (
+            <Marker
+              position={value}
+              icon={pinIcon("#6366f1")}
+              draggable
+              eventHandlers={{
+                dragend: (event) => {
+                  const marker = event.target as L.Marker;
+                  // Snap back if the pin was dragged off campus
+                  if (!handlePick(marker.getLatLng())) marker.setLatLng(value);
+                },
+              }}
+            />
+          )}
+        </MapContainer>
+      </div>
+      <div className="flex items-center justify-between text-xs">
+        {rejected ? (
+          <p className="text-red-500">
+            That spot is outside the campus boundary. Please pick a point inside the dashed line.
+          </p>
+        ) : (
+          <p className="text-gray-500 dark:text-gray-400">
+            {value
+              ? `Pinned at ${value.lat.toFixed(5)}, ${value.lng.toFixed(5)}. Drag the pin to adjust.`
+              : "Click the map to drop a pin where the item was lost or found (optional)."}
+          </p>
+        )}
+        {value && (
+          <button
+            type="button"
+            onClick={() => {
+              setRejected(false);
+              onChange(null);
+            }}
+            className="text-indigo-600 dark:text-indigo-400 hover:underline"
+          >
+            Clear pin
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
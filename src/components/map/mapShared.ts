@@ -0,0 +1,58 @@
+"use client";
+
+// Shared Leaflet setup for the campus maps. Only import from components loaded with ssr: false.
+import { useEffect, useState } from "react";
+import L from "leaflet";
+import { LatLng, loadCampusBoundary } from "@/lib/geo/campus";
+
+export const TILE_URL = "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png";
+export const TILE_ATTRIBUTION =
+  '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+
+export const BOUNDARY_STYLE = { color: "#6366f1", weight: 2, dashArray: "6 4" };
+
+// Div icons avoid Leaflet's default image markers, whose asset URLs break under bundlers
+export const pinIcon = (color: string) =>
+  L.divIcon({
+    className: "",
+    html: `<span style="display:block;width:18px;height:18px;border-radius:9999px;background:${color};border:3px solid #fff;box-shadow:0 1px 4px rgba(0,0,0,.5)"></span>`,
+    iconSize: [18, 18],
+    iconAnchor: [9, 9],
+    popupAnchor: [0, -10],
+  });
+
+export const clusterIcon = (count: number) => {
+  const size = count < 10 ? 34 : count < 50 ? 42 : 50;
+  return L.divIcon({
+    className: "",
+    html: `<span style="display:flex;align-items:center;justify-content:center;width:${size}px;height:${size}px;border-radius:9999px;background:rgba(79,70,229,.85);color:#fff;font-weight:700;font-size:13px;border:3px solid rgba(255,255,255,.8)">${count}</span>`,
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2],
+  });
+};
+
+export const STATUS_COLORS: Record<string, string> = {
+  lost: "#ef4444",
+  found: "#22c55e",
+  claimed: "#eab308",
+  archived: "#6b7280",
+};
+
+/** Campus boundary ring, or null while it loads (or if it failed to load). */
+export function useCampusBoundary() {
+  const [boundary, setBoundary] = useState<LatLng[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadCampusBoundary()
+      .then((ring) => {
+        if (!cancelled) setBoundary(ring);
+      })
+      .catch((error) => console.error("Error loading campus boundary:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return boundary;
+}
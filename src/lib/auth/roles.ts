@@ -0,0 +1,38 @@
+import { UserRole } from '@/types/database';
+
+export const USER_ROLE_LABELS: Record<UserRole, string> = {
+  user: 'User',
+  moderator: 'Moderator',
+  security_staff: 'Security staff',
+  admin: 'Admin',
+};
+
+/**
+ * What each staff role may do in the UI. Mirrors the checks in the SQL script
+ * (is_admin, is_moderator, is_security_staff); RLS is what actually enforces them.
+ */
+const PERMISSION_ROLES = {
+  viewDashboard: ['admin', 'moderator', 'security_staff'],
+  viewInsights: ['admin', 'moderator'],
+  manageItems: ['admin', 'moderator'],
+  importExportItems: ['admin', 'moderator', 'security_staff'],
+  reviewClaims: ['admin', 'moderator'],
+  moderateReports: ['admin', 'moderator'],
+  manageCustody: ['admin', 'security_staff'],
+  confirmHandover: ['admin', 'security_staff'],
+  securityChats: ['admin', 'security_staff'],
+  recordDisposals: ['admin', 'security_staff'],
+  manageRetention: ['admin'],
+  manageRoles: ['admin'],
+  manageUsers: ['admin'],
+} as const satisfies Record<string, readonly UserRole[]>;
+
+export type Permission = keyof typeof PERMISSION_ROLES;
+
+export function hasPermission(role: UserRole | string | null | undefined, permission: Permission) {
+  return !!role && (PERMISSION_ROLES[permission] as readonly string[]).includes(role);
+}
+
+export function isStaffRole(role: UserRole | string | null | undefined) {
+  return hasPermission(role, 'viewDashboard');
+}
@@ -0,0 +1,139 @@
+// src/lib/chat/attachments.ts
+// Chat attachments are kept in the private `chat-attachments` bucket under
+// <conversation id>/<random id>.<ext> and shown through short-lived signed URLs.
+// Storage policies (SQL section 31) limit reads and uploads to conversation participants.
+// Attachments sent before that live in the legacy, now private, `chat-images` bucket and
+// are signed the same way.
+//
+// Before upload every image is decoded and re-encoded through a canvas. Only the pixels
+// survive, so EXIF data (GPS position, camera serial, ...) is dropped. The bucket enforces
+// the same type and size limits server-side.
+//
+// Browser-only: relies on createImageBitmap and canvas.
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { MessageAttachment } from "@/types/database";
+
+export const CHAT_ATTACHMENT_BUCKET = "chat-attachments";
+export const LEGACY_CHAT_ATTACHMENT_BUCKET = "chat-images";
+export const MAX_ATTACHMENTS_PER_MESSAGE = 5;
+export const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+// Long enough to read a conversation, short enough that a copied link goes stale
+export const ATTACHMENT_URL_TTL_SECONDS = 10 * 60;
+
+const ALLOWED_TYPES = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+} as const;
+
+type AllowedType = keyof typeof ALLOWED_TYPES;
+
+export class AttachmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AttachmentError";
+  }
+}
+
+// The declared file.type comes from the file name, so the first bytes are checked as well
+async function sniffImageType(file: Blob): Promise<AllowedType | null> {
+  const bytes = new Uint8Array(await file.slice(0, 12).arrayBuffer());
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return "image/jpeg";
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) return "image/png";
+  const ascii = String.fromCharCode(...bytes);
+  if (ascii.startsWith("RIFF") && ascii.slice(8, 12) === "WEBP") return "image/webp";
+  return null;
+}
+
+/** Rejects anything that is not a JPEG, PNG or WebP image within the size limit. */
+export async function validateAttachment(file: File): Promise<AllowedType> {
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    throw new AttachmentError(
+      `${file.name} is larger than ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB`
+    );
+  }
+  const type = await sniffImageType(file);
+  if (!type || (file.type && file.type !== type)) {
+    throw new AttachmentError(`${file.name} is not a JPEG, PNG or WebP image`);
+  }
+  return type;
+}
+
+/** Re-encodes the image without metadata. EXIF orientation is applied to the pixels first. */
+async function stripMetadata(file: File, type: AllowedType) {
+  const bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+  try {
+    const canvas = document.createElement("canvas");
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    const context = canvas.getContext("2d");
+    if (!context) throw new AttachmentError("Could not process image");
+    context.drawImage(bitmap, 0, 0);
+
+    const blob = await new Promise<Blob | null>((resolve) =>
+      canvas.toBlob(resolve, type, type === "image/png" ? undefined : 0.9)
+    );
+    if (!blob) throw new AttachmentError(`Could not process ${file.name}`);
+    return { blob, width: bitmap.width, height: bitmap.height };
+  } finally {
+    bitmap.close();
+  }
+}
+
+/** Validates, strips and uploads one file for a message in `conversationId`. */
+export async function uploadChatAttachment(
+  supabase: SupabaseClient,
+  conversationId: string,
+  file: File
+): Promise<MessageAttachment> {
+  const type = await validateAttachment(file);
+  const { blob, width, height } = await stripMetadata(file, type);
+  if (blob.size > MAX_ATTACHMENT_BYTES) {
+    throw new AttachmentError(`${file.name} is too large after processing`);
+  }
+
+  const path = `${conversationId}/${crypto.randomUUID()}.${ALLOWED_TYPES[type]}`;
+  const { error } = await supabase.storage
+    .from(CHAT_ATTACHMENT_BUCKET)
+    .upload(path, blob, { contentType: type, upsert: false });
+  if (error) throw error;
+
+  return {
+    path,
+    name: file.name,
+    mime: type,
+    size: blob.size,
+    width,
+    height,
+  };
+}
+
+/** Bucket an attachment is stored in; legacy attachments are the ones that carry a `url`. */
+export const attachmentBucket = (attachment: MessageAttachment) =>
+  attachment.url ? LEGACY_CHAT_ATTACHMENT_BUCKET : CHAT_ATTACHMENT_BUCKET;
+
+/** Key of an attachment in the map returned by signAttachmentUrls: `<bucket>/<path>`. */
+export const attachmentKey = (attachment: MessageAttachment) =>
+  `${attachmentBucket(attachment)}/${attachment.path}`;
+
+/** Signed URLs for attachment keys, keyed the same way. Files the caller cannot read are left out. */
+export async function signAttachmentUrls(supabase: SupabaseClient, keys: string[]) {
+  const urls: Record<string, string> = {};
+  const pathsByBucket = new Map<string, string[]>();
+  keys.forEach((key) => {
+    const bucket = key.slice(0, key.indexOf("/"));
+    pathsByBucket.set(bucket, [...(pathsByBucket.get(bucket) || []), key.slice(bucket.length + 1)]);
+  });
+
+  for (const [bucket, paths] of pathsByBucket) {
+    const { data, error } = await supabase.storage
+      .from(bucket)
+      .createSignedUrls(paths, ATTACHMENT_URL_TTL_SECONDS);
+    if (error) throw error;
+
+    data?.forEach((entry) => {
+      if (entry.path && entry.signedUrl) urls[`${bucket}/${entry.path}`] = entry.signedUrl;
+    });
+  }
+  return urls;
+}
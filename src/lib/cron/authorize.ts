@@ -0,0 +1,11 @@
+// src/lib/cron/authorize.ts
+// Cron routes are called by the scheduler with `Authorization: Bearer <CRON_SECRET>`.
+import { timingSafeEqual } from "crypto";
+
+export function isAuthorizedCronRequest(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(request.headers.get("authorization") || "");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
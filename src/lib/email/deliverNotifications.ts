@@ -0,0 +1,135 @@
+// src/lib/email/deliverNotifications.ts
+// Email delivery worker for the notifications table. Each run leases a batch of due
+// notifications, emails the ones whose recipient wants email, and records the outcome
+// on the row: 'sent', a scheduled retry, or 'failed' once attempts run out.
+//
+// Server-only: needs a service-role client and the field encryption keys.
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { decryptProfileContact } from "@/lib/encryption";
+import { Notification } from "@/types/database";
+import { renderNotificationEmail } from "./templates";
+import type { EmailTransport } from "./transport";
+
+export const MAX_DELIVERY_ATTEMPTS = 5;
+
+// Retries back off exponentially from one minute, capped at an hour
+const RETRY_BASE_SECONDS = 60;
+const RETRY_MAX_SECONDS = 60 * 60;
+
+// Older notifications are only shown in the app; this also keeps the backlog from
+// before the worker existed from being emailed all at once
+const STALE_AFTER_MS = 3 * 24 * 60 * 60 * 1000;
+
+export interface DeliveryStats {
+  claimed: number;
+  sent: number;
+  skipped: number; // Read already, stale, email turned off, or in-app only
+  retrying: number;
+  failed: number;
+}
+
+type RecipientRow = {
+  id: string;
+  full_name: string | null;
+  email: string | null;
+  allow_email_notifications: boolean | null;
+};
+
+const retryDelaySeconds = (attempts: number) =>
+  Math.min(RETRY_BASE_SECONDS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_SECONDS);
+
+// Profile emails are encrypted at rest; fall back to the auth account's address
+async function resolveEmail(supabase: SupabaseClient, recipient: RecipientRow) {
+  if (recipient.email) {
+    const { email } = decryptProfileContact(recipient.id, { email: recipient.email });
+    if (email) return email;
+  }
+  const { data, error } = await supabase.auth.admin.getUserById(recipient.id);
+  if (error) throw error;
+  return data.user?.email ?? null;
+}
+
+export async function deliverPendingNotifications(
+  supabase: SupabaseClient,
+  transport: EmailTransport,
+  options: { siteUrl: string; batchSize?: number }
+): Promise<DeliveryStats> {
+  const stats: DeliveryStats = { claimed: 0, sent: 0, skipped: 0, retrying: 0, failed: 0 };
+
+  const { data, error } = await supabase.rpc("claim_pending_notifications", {
+    p_limit: options.batchSize ?? 50,
+  });
+  if (error) throw error;
+
+  const notifications = (data || []) as Notification[];
+  stats.claimed = notifications.length;
+  if (notifications.length === 0) return stats;
+
+  const userIds = Array.from(new Set(notifications.map((notification) => notification.user_id)));
+  const { data: profiles, error: profilesError } = await supabase
+    .from("profiles")
+    .select("id, full_name, email, allow_email_notifications")
+    .in("id", userIds);
+  if (profilesError) throw profilesError;
+  const recipients = new Map(((profiles || []) as RecipientRow[]).map((profile) => [profile.id, profile]));
+
+  const finish = async (notification: Notification, update: Partial<Notification>) => {
+    const { error: updateError } = await supabase
+      .from("notifications")
+      .update({ ...update, locked_until: null })
+      .eq("id", notification.id);
+    if (updateError) {
+      // The lease expires on its own, so the row is simply picked up again later
+      console.error(`Failed to record delivery of notification ${notification.id}:`, updateError);
+    }
+  };
+
+  for (const notification of notifications) {
+    const recipient = recipients.get(notification.user_id);
+    const now = new Date().toISOString();
+
+    if (
+      !recipient ||
+      notification.read_at ||
+      Date.now() - new Date(notification.created_at).getTime() > STALE_AFTER_MS ||
+      notification.via === "in_app" ||
+      recipient.allow_email_notifications === false
+    ) {
+      await finish(notification, { status: "sent", via: notification.via ?? "in_app", sent_at: now });
+      stats.skipped++;
+      continue;
+    }
+
+    try {
+      const to = await resolveEmail(supabase, recipient);
+      if (!to) {
+        await finish(notification, { status: "failed", last_error: "Recipient has no email address" });
+        stats.failed++;
+        continue;
+      }
+
+      await transport.send(
+        renderNotificationEmail(notification, {
+          to,
+          recipientName: recipient.full_name,
+          siteUrl: options.siteUrl,
+        })
+      );
+      await finish(notification, { status: "sent", via: "email", sent_at: now, last_error: null });
+      stats.sent++;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      // attempts was already incremented when the row was leased
+      if (notification.attempts >= MAX_DELIVERY_ATTEMPTS) {
+        await finish(notification, { status: "failed", last_error: message });
+        stats.failed++;
+      } else {
+        const nextAttemptAt = new Date(Date.now() + retryDelaySeconds(notification.attempts) * 1000);
+        await finish(notification, { last_error: message, next_attempt_at: nextAttemptAt.toISOString() });
+        stats.retrying++;
+      }
+    }
+  }
+
+  return stats;
+}
@@ -0,0 +1,104 @@
+// src/lib/email/templates.ts
+// Per-type email templates for notifications. The notification's own title and message
+// are the body; each type adds its own lead-in and call to action.
+import { notificationHref } from "@/lib/notifications/format";
+import { Notification, NotificationType } from "@/types/database";
+import type { EmailMessage } from "./transport";
+
+interface TemplateCopy {
+  subject: (notification: Notification) => string;
+  intro: string;
+  action: string;
+}
+
+const TEMPLATES: Record<NotificationType, TemplateCopy> = {
+  new_claim: {
+    subject: () => "Someone has claimed your item",
+    intro: "A new claim was submitted for an item you reported. Review it and approve or reject it.",
+    action: "Review the claim",
+  },
+  claim_update: {
+    subject: (notification) => `Claim update: ${notification.title}`,
+    intro: "There is news about a claim you submitted.",
+    action: "View your claim",
+  },
+  new_message: {
+    subject: () => "You have a new message",
+    intro: "You received a new message about an item.",
+    action: "Open the chat",
+  },
+  match_alert: {
+    subject: () => "We may have found a match for your item",
+    intro: "Another report looks like it could be the same item as yours.",
+    action: "See the match",
+  },
+  saved_search_alert: {
+    subject: () => "A new item matches your saved search",
+    intro: "An item matching one of your saved searches was just reported.",
+    action: "View the item",
+  },
+  general_announcement: {
+    subject: (notification) => notification.title,
+    intro: "An announcement from Campus LAFT.",
+    action: "Open Campus LAFT",
+  },
+};
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+/** Renders the subject, plain-text and HTML bodies for one notification. */
+export function renderNotificationEmail(
+  notification: Notification,
+  options: { to: string; recipientName: string | null; siteUrl: string }
+): EmailMessage {
+  const template = TEMPLATES[notification.type] ?? TEMPLATES.general_announcement;
+  const siteUrl = options.siteUrl.replace(/\/+$/, "");
+  const link = `${siteUrl}${notificationHref(notification) ?? "/notifications"}`;
+  const settingsLink = `${siteUrl}/profile`;
+  const greeting = options.recipientName ? `Hi ${options.recipientName},` : "Hi,";
+
+  const text = [
+    greeting,
+    "",
+    template.intro,
+    "",
+    notification.title,
+    notification.message,
+    "",
+    `${template.action}: ${link}`,
+    "",
+    `You are receiving this because email notifications are on. Turn them off in your profile: ${settingsLink}`,
+  ].join("\n");
+
+  const html = `<!doctype html>
+<html>
+  <body style="margin:0;padding:24px;background:#f3f4f6;font-family:Arial,Helvetica,sans-serif;color:#1f2937;">
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;">
+      <tr>
+        <td style="padding:24px;">
+          <p style="margin:0 0 16px;font-size:18px;font-weight:bold;color:#4f46e5;">Campus LAFT</p>
+          <p style="margin:0 0 12px;">${escapeHtml(greeting)}</p>
+          <p style="margin:0 0 16px;">${escapeHtml(template.intro)}</p>
+          <div style="margin:0 0 20px;padding:12px 16px;border-left:4px solid #6366f1;background:#eef2ff;">
+            <p style="margin:0 0 4px;font-weight:bold;">${escapeHtml(notification.title)}</p>
+            <p style="margin:0;">${escapeHtml(notification.message)}</p>
+          </div>
+          <a href="${escapeHtml(link)}" style="display:inline-block;padding:10px 18px;background:#4f46e5;color:#ffffff;text-decoration:none;border-radius:6px;">${escapeHtml(template.action)}</a>
+          <p style="margin:24px 0 0;font-size:12px;color:#6b7280;">
+            You are receiving this because email notifications are on.
+            <a href="${escapeHtml(settingsLink)}" style="color:#6b7280;">Turn them off in your profile</a>.
+          </p>
+        </td>
+      </tr>
+    </table>
+  </body>
+</html>`;
+
+  return { to: options.to, subject: template.subject(notification), text, html };
+}
@@ -0,0 +1,60 @@
+// src/lib/email/transport.ts
+// Outgoing mail goes through an EmailTransport so the worker does not care where it ends up.
+// The default is SMTP via nodemailer; point SMTP_HOST/SMTP_PORT at a local sink such as
+// Mailpit (localhost:1025, no auth) to inspect emails during development.
+//
+// Server-only: never import this module from a client component.
+import nodemailer from "nodemailer";
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface EmailTransport {
+  send(message: EmailMessage): Promise<void>;
+}
+
+export class EmailConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EmailConfigError";
+  }
+}
+
+/**
+ * Builds an SMTP transport from the environment.
+ *
+ * SMTP_HOST=smtp.example.com
+ * SMTP_PORT=587                 (default 587; 465 implies TLS)
+ * SMTP_SECURE=true              (optional, forces TLS from the start)
+ * SMTP_USER / SMTP_PASS         (optional, omit for sinks without auth)
+ * EMAIL_FROM="Campus LAFT <no-reply@example.com>"
+ */
+export function createSmtpTransport(env: NodeJS.ProcessEnv = process.env): EmailTransport {
+  const host = env.SMTP_HOST;
+  const from = env.EMAIL_FROM;
+  if (!host || !from) {
+    throw new EmailConfigError("SMTP_HOST and EMAIL_FROM must be set");
+  }
+
+  const port = Number(env.SMTP_PORT || 587);
+  if (!Number.isInteger(port) || port <= 0) {
+    throw new EmailConfigError(`Invalid SMTP_PORT "${env.SMTP_PORT}"`);
+  }
+
+  const transporter = nodemailer.createTransport({
+    host,
+    port,
+    secure: env.SMTP_SECURE ? env.SMTP_SECURE === "true" : port === 465,
+    auth: env.SMTP_USER ? { user: env.SMTP_USER, pass: env.SMTP_PASS || "" } : undefined,
+  });
+
+  return {
+    async send(message) {
+      await transporter.sendMail({ from, ...message });
+    },
+  };
+}
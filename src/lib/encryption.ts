@@ -1 +1,256 @@
-// Encryption implementation from assistant's response above
+// src/lib/encryption.ts
+// Field-level envelope encryption for sensitive profile data.
+//
+// Every value is encrypted with its own random data key (AES-256-GCM). That data key is
+// then wrapped with a versioned master key from FIELD_ENCRYPTION_KEYS. Rotating the
+// master key only requires re-wrapping the data keys, not re-encrypting the data.
+//
+// Stored format (all parts base64url):
+//   enc:v1:<keyId>:<wrappedDataKey>:<iv>:<ciphertext+authTag>
+//
+// Server-only: never import this module from a client component.
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHmac,
+  randomBytes,
+} from "crypto";
+
+const ENCRYPTED_PREFIX = "enc";
+const ENVELOPE_VERSION = "v1";
+const ALGORITHM = "aes-256-gcm";
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+
+export class EncryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EncryptionError";
+  }
+}
+
+export interface KeyRing {
+  activeKeyId: string;
+  keys: Map<string, Buffer>;
+  indexKey: Buffer; // HMAC key for blind indexes (equality lookups on encrypted columns)
+}
+
+/**
+ * Loads master keys from the environment.
+ *
+ * FIELD_ENCRYPTION_KEYS=2025-01:<base64 32 bytes>,2025-06:<base64 32 bytes>
+ * FIELD_ENCRYPTION_ACTIVE_KEY_ID=2025-06
+ * FIELD_ENCRYPTION_INDEX_KEY=<base64 32 bytes>
+ *
+ * Old key IDs must stay in FIELD_ENCRYPTION_KEYS until every row has been re-wrapped.
+ */
+export function loadKeyRing(env: NodeJS.ProcessEnv = process.env): KeyRing {
+  const rawKeys = env.FIELD_ENCRYPTION_KEYS;
+  const activeKeyId = env.FIELD_ENCRYPTION_ACTIVE_KEY_ID;
+  const rawIndexKey = env.FIELD_ENCRYPTION_INDEX_KEY;
+
+  if (!rawKeys || !activeKeyId || !rawIndexKey) {
+    throw new EncryptionError(
+      "FIELD_ENCRYPTION_KEYS, FIELD_ENCRYPTION_ACTIVE_KEY_ID and FIELD_ENCRYPTION_INDEX_KEY must be set"
+    );
+  }
+
+  const keys = new Map<string, Buffer>();
+  for (const entry of rawKeys.split(",")) {
+    const separator = entry.indexOf(":");
+    const keyId = entry.slice(0, separator).trim();
+    const key = Buffer.from(entry.slice(separator + 1).trim(), "base64");
+    if (separator <= 0 || !/^[\w.-]+$/.test(keyId)) {
+      throw new EncryptionError(`Invalid key ID in FIELD_ENCRYPTION_KEYS: "${keyId}"`);
+    }
+    if (key.length !== KEY_LENGTH) {
+      throw new EncryptionError(`Key "${keyId}" must be ${KEY_LENGTH} bytes`);
+    }
+    keys.set(keyId, key);
+  }
+
+  if (!keys.has(activeKeyId)) {
+    throw new EncryptionError(`Active key "${activeKeyId}" is not in FIELD_ENCRYPTION_KEYS`);
+  }
+
+  const indexKey = Buffer.from(rawIndexKey, "base64");
+  if (indexKey.length !== KEY_LENGTH) {
+    throw new EncryptionError(`FIELD_ENCRYPTION_INDEX_KEY must be ${KEY_LENGTH} bytes`);
+  }
+
+  return { activeKeyId, keys, indexKey };
+}
+
+let cachedKeyRing: KeyRing | null = null;
+const getKeyRing = () => (cachedKeyRing ??= loadKeyRing());
+
+const encode = (buffer: Buffer) => buffer.toString("base64url");
+const decode = (value: string) => Buffer.from(value, "base64url");
+
+// AES-256-GCM; output is iv + ciphertext + authTag
+function seal(key: Buffer, plaintext: Buffer, aad: string) {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv, { authTagLength: AUTH_TAG_LENGTH });
+  cipher.setAAD(Buffer.from(aad, "utf8"));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, sealed: Buffer.concat([ciphertext, cipher.getAuthTag()]) };
+}
+
+function open(key: Buffer, iv: Buffer, sealed: Buffer, aad: string) {
+  if (sealed.length < AUTH_TAG_LENGTH) {
+    throw new EncryptionError("Ciphertext is truncated");
+  }
+  const decipher = createDecipheriv(ALGORITHM, key, iv, { authTagLength: AUTH_TAG_LENGTH });
+  decipher.setAAD(Buffer.from(aad, "utf8"));
+  decipher.setAuthTag(sealed.subarray(sealed.length - AUTH_TAG_LENGTH));
+  try {
+    return Buffer.concat([
+      decipher.update(sealed.subarray(0, sealed.length - AUTH_TAG_LENGTH)),
+      decipher.final(),
+    ]);
+  } catch {
+    throw new EncryptionError("Authentication failed: value was tampered with or used in the wrong context");
+  }
+}
+
+// The wrapped data key is bound to its key ID so envelopes cannot be re-labelled
+function wrapDataKey(dataKey: Buffer, keyId: string, keyRing: KeyRing) {
+  const masterKey = keyRing.keys.get(keyId);
+  if (!masterKey) throw new EncryptionError(`Unknown key ID "${keyId}"`);
+  const { iv, sealed } = seal(masterKey, dataKey, `key:${keyId}`);
+  return Buffer.concat([iv, sealed]);
+}
+
+function unwrapDataKey(wrapped: Buffer, keyId: string, keyRing: KeyRing) {
+  const masterKey = keyRing.keys.get(keyId);
+  if (!masterKey) throw new EncryptionError(`Unknown key ID "${keyId}"`);
+  return open(masterKey, wrapped.subarray(0, IV_LENGTH), wrapped.subarray(IV_LENGTH), `key:${keyId}`);
+}
+
+interface Envelope {
+  keyId: string;
+  wrappedKey: Buffer;
+  iv: Buffer;
+  sealed: Buffer;
+}
+
+function parseEnvelope(value: string): Envelope {
+  const parts = value.split(":");
+  if (parts.length !== 6 || parts[0] !== ENCRYPTED_PREFIX) {
+    throw new EncryptionError("Value is not an encrypted envelope");
+  }
+  if (parts[1] !== ENVELOPE_VERSION) {
+    throw new EncryptionError(`Unsupported envelope version "${parts[1]}"`);
+  }
+  return {
+    keyId: parts[2],
+    wrappedKey: decode(parts[3]),
+    iv: decode(parts[4]),
+    sealed: decode(parts[5]),
+  };
+}
+
+const formatEnvelope = ({ keyId, wrappedKey, iv, sealed }: Envelope) =>
+  [ENCRYPTED_PREFIX, ENVELOPE_VERSION, keyId, encode(wrappedKey), encode(iv), encode(sealed)].join(":");
+
+export function isEncrypted(value: string | null | undefined): value is string {
+  return typeof value === "string" && value.startsWith(`${ENCRYPTED_PREFIX}:`);
+}
+
+/**
+ * Encrypts a value. `context` is authenticated but not stored (e.g. "profiles.email:<userId>"),
+ * so a ciphertext copied into another row or column fails to decrypt.
+ */
+export function encryptField(plaintext: string, context: string, keyRing: KeyRing = getKeyRing()): string {
+  const dataKey = randomBytes(KEY_LENGTH);
+  const { iv, sealed } = seal(dataKey, Buffer.from(plaintext, "utf8"), context);
+  return formatEnvelope({
+    keyId: keyRing.activeKeyId,
+    wrappedKey: wrapDataKey(dataKey, keyRing.activeKeyId, keyRing),
+    iv,
+    sealed,
+  });
+}
+
+/** Decrypts a value. Legacy plaintext is returned unchanged until it has been migrated. */
+export function decryptField(value: string, context: string, keyRing: KeyRing = getKeyRing()): string {
+  if (!isEncrypted(value)) return value;
+  const envelope = parseEnvelope(value);
+  const dataKey = unwrapDataKey(envelope.wrappedKey, envelope.keyId, keyRing);
+  return open(dataKey, envelope.iv, envelope.sealed, context).toString("utf8");
+}
+
+export function needsRewrap(value: string, keyRing: KeyRing = getKeyRing()): boolean {
+  return isEncrypted(value) && parseEnvelope(value).keyId !== keyRing.activeKeyId;
+}
+
+/** Re-wraps the data key under the active master key. The encrypted data itself is untouched. */
+export function rewrapField(value: string, keyRing: KeyRing = getKeyRing()): string {
+  const envelope = parseEnvelope(value);
+  if (envelope.keyId === keyRing.activeKeyId) return value;
+  const dataKey = unwrapDataKey(envelope.wrappedKey, envelope.keyId, keyRing);
+  return formatEnvelope({
+    ...envelope,
+    keyId: keyRing.activeKeyId,
+    wrappedKey: wrapDataKey(dataKey, keyRing.activeKeyId, keyRing),
+  });
+}
+
+/** Deterministic keyed hash, used where we need uniqueness or lookups on an encrypted column. */
+export function blindIndex(value: string, purpose: string, keyRing: KeyRing = getKeyRing()): string {
+  return createHmac("sha256", keyRing.indexKey).update(`${purpose}:${value}`).digest("base64url");
+}
+
+// --- Profile contact fields ---
+
+export const ENCRYPTED_PROFILE_FIELDS = ["mobile_number", "physical_address", "email"] as const;
+export type EncryptedProfileField = (typeof ENCRYPTED_PROFILE_FIELDS)[number];
+export type ProfileContactFields = Partial<Record<EncryptedProfileField, string | null>>;
+
+const profileContext = (userId: string, field: EncryptedProfileField) => `profiles.${field}:${userId}`;
+
+export const normalizeMobileNumber = (value: string) => value.replace(/[\s()-]/g, "");
+
+/**
+ * Encrypts the contact fields present in `fields` for storage in `profiles`.
+ * Also returns `mobile_number_bidx` whenever the mobile number is being written.
+ */
+export function encryptProfileContact(
+  userId: string,
+  fields: ProfileContactFields,
+  keyRing: KeyRing = getKeyRing()
+): ProfileContactFields & { mobile_number_bidx?: string | null } {
+  const encrypted: ProfileContactFields & { mobile_number_bidx?: string | null } = {};
+
+  for (const field of ENCRYPTED_PROFILE_FIELDS) {
+    if (!(field in fields)) continue;
+    const value = fields[field]?.trim();
+    encrypted[field] = value ? encryptField(value, profileContext(userId, field), keyRing) : null;
+  }
+
+  if ("mobile_number" in fields) {
+    const mobile = fields.mobile_number?.trim();
+    encrypted.mobile_number_bidx = mobile
+      ? blindIndex(normalizeMobileNumber(mobile), "profiles.mobile_number", keyRing)
+      : null;
+  }
+
+  return encrypted;
+}
+
+/** Decrypts the contact fields of a `profiles` row, leaving all other columns as they are. */
+export function decryptProfileContact<T extends ProfileContactFields>(
+  userId: string,
+  row: T,
+  keyRing: KeyRing = getKeyRing()
+): T {
+  const decrypted = { ...row };
+  for (const field of ENCRYPTED_PROFILE_FIELDS) {
+    const value = row[field];
+    if (typeof value === "string") {
+      decrypted[field] = decryptField(value, profileContext(userId, field), keyRing) as T[typeof field];
+    }
+  }
+  return decrypted;
+}
@@ -0,0 +1,63 @@
+// Campus boundary helpers. The boundary ships as a closed LineString in
+// public/msuiit-campus-line.geojson ([lng, lat] pairs, GeoJSON order). The database holds a
+// copy of the ring in public.is_on_campus and rejects item pins outside it.
+
+export type LatLng = { lat: number; lng: number };
+
+export const CAMPUS_BOUNDARY_URL = "/msuiit-campus-line.geojson";
+
+// Roughly the middle of the MSU-IIT campus, used before the boundary has loaded
+export const CAMPUS_CENTER: LatLng = { lat: 8.2411, lng: 124.2436 };
+export const CAMPUS_DEFAULT_ZOOM = 17;
+
+let boundaryPromise: Promise<LatLng[]> | null = null;
+
+/** Loads the campus boundary ring once per page load. */
+export function loadCampusBoundary(): Promise<LatLng[]> {
+  if (!boundaryPromise) {
+    boundaryPromise = fetch(CAMPUS_BOUNDARY_URL)
+      .then((response) => {
+        if (!response.ok) throw new Error(`Failed to load campus boundary (${response.status})`);
+        return response.json();
+      })
+      .then((geojson) => {
+        const geometry = geojson?.features?.[0]?.geometry;
+        if (!geometry || !["LineString", "Polygon"].includes(geometry.type)) {
+          throw new Error("Campus boundary must be a LineString or Polygon");
+        }
+        const coordinates: [number, number][] =
+          geometry.type === "Polygon" ? geometry.coordinates[0] : geometry.coordinates;
+        return coordinates.map(([lng, lat]) => ({ lat, lng }));
+      })
+      .catch((error) => {
+        boundaryPromise = null; // Allow a retry on the next call
+        throw error;
+      });
+  }
+  return boundaryPromise;
+}
+
+/** Ray-casting point-in-polygon test. The ring may or may not repeat its first point. */
+export function isInsidePolygon(point: LatLng, ring: LatLng[]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const a = ring[i];
+    const b = ring[j];
+    const crosses =
+      a.lat > point.lat !== b.lat > point.lat &&
+      point.lng < ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lng;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
+
+/** Haversine distance in meters (mirrors public.distance_meters in the database). */
+export function distanceMeters(a: LatLng, b: LatLng): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * 6371000 * Math.asin(Math.sqrt(h));
+}
@@ -0,0 +1,75 @@
+// src/lib/handover/token.ts
+// Signed one-time tokens for the QR handover of an approved claim.
+//
+// Token format: <base64url(JSON payload)>.<base64url(HMAC-SHA256 signature)>
+// The signature stops anyone from forging a token for someone else's claim. One-time
+// use is enforced by the database: `tokenId` is the primary key of a handover_tokens
+// row, which redeem_handover_token marks as used.
+//
+// Server-only: never import this module from a client component.
+import { createHmac, timingSafeEqual } from "crypto";
+
+// Long enough to walk to the security desk, short enough that a leaked QR goes stale
+export const HANDOVER_TOKEN_TTL_MINUTES = 30;
+
+export interface HandoverTokenPayload {
+  tokenId: string;
+  claimId: string;
+  expiresAt: string; // ISO timestamp
+}
+
+export class HandoverTokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "HandoverTokenError";
+  }
+}
+
+function getSecret() {
+  const secret = process.env.HANDOVER_TOKEN_SECRET;
+  if (!secret || secret.length < 32) {
+    throw new HandoverTokenError("HANDOVER_TOKEN_SECRET must be set to at least 32 characters");
+  }
+  return secret;
+}
+
+const sign = (encodedPayload: string) =>
+  createHmac("sha256", getSecret()).update(`handover:v1:${encodedPayload}`).digest();
+
+export function signHandoverToken(payload: HandoverTokenPayload): string {
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${encodedPayload}.${sign(encodedPayload).toString("base64url")}`;
+}
+
+/** Checks the signature and expiry. Whether the token was already used is up to the database. */
+export function verifyHandoverToken(token: string): HandoverTokenPayload {
+  const [encodedPayload, encodedSignature, ...rest] = token.split(".");
+  if (!encodedPayload || !encodedSignature || rest.length > 0) {
+    throw new HandoverTokenError("Malformed handover token");
+  }
+
+  const expected = sign(encodedPayload);
+  const actual = Buffer.from(encodedSignature, "base64url");
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new HandoverTokenError("Invalid handover token signature");
+  }
+
+  let payload: HandoverTokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(encodedPayload, "base64url").toString("utf8"));
+  } catch {
+    throw new HandoverTokenError("Malformed handover token");
+  }
+  if (
+    typeof payload?.tokenId !== "string" ||
+    typeof payload?.claimId !== "string" ||
+    typeof payload?.expiresAt !== "string"
+  ) {
+    throw new HandoverTokenError("Malformed handover token");
+  }
+  if (Date.parse(payload.expiresAt) <= Date.now()) {
+    throw new HandoverTokenError("This handover code has expired. Ask the claimer to show a new one.");
+  }
+
+  return payload;
+}
@@ -0,0 +1,83 @@
+// src/lib/images/itemImages.ts
+// Helpers for processed item photos (see processItemImage.ts), usable on client and server.
+import { decode } from "blurhash";
+import { Item, ItemImage } from "@/types/database";
+
+// Widths of the resized WebP copies made for every photo
+export const ITEM_IMAGE_WIDTHS = [320, 640, 1280] as const;
+export const MAX_ITEM_IMAGES = 5;
+export const MAX_ITEM_IMAGE_BYTES = 5 * 1024 * 1024;
+
+/** The processed entry for one of the item's image_urls, if it has one (older photos do not). */
+export function findItemImage(item: Pick<Item, "image_variants">, url: string | undefined) {
+  return url ? item.image_variants?.find((image) => image.url === url) : undefined;
+}
+
+/** The smallest copy at least `width` px wide, falling back to the full-size url. */
+export function itemImageSrc(image: ItemImage | undefined, url: string, width: number) {
+  return image?.variants.find((variant) => variant.width >= width)?.url || url;
+}
+
+const placeholderCache = new Map<string, string>();
+
+/**
+ * Decodes a blurhash into a tiny BMP data URL for next/image's blurDataURL.
+ * Written without canvas so it renders the same on the server and in the browser.
+ */
+export function blurhashDataUrl(hash: string | undefined, size = 16) {
+  if (!hash) return undefined;
+  const cached = placeholderCache.get(hash);
+  if (cached) return cached;
+
+  let pixels: Uint8ClampedArray;
+  try {
+    pixels = decode(hash, size, size);
+  } catch {
+    return undefined;
+  }
+
+  // 24-bit BMP: rows stored bottom-up as BGR, each padded to a multiple of 4 bytes
+  const rowSize = Math.ceil((size * 3) / 4) * 4;
+  const dataSize = rowSize * size;
+  const bytes = new Uint8Array(54 + dataSize);
+  const view = new DataView(bytes.buffer);
+  bytes[0] = 0x42; // "B"
+  bytes[1] = 0x4d; // "M"
+  view.setUint32(2, bytes.length, true);
+  view.setUint32(10, 54, true);
+  view.setUint32(14, 40, true);
+  view.setInt32(18, size, true);
+  view.setInt32(22, size, true);
+  view.setUint16(26, 1, true);
+  view.setUint16(28, 24, true);
+  view.setUint32(34, dataSize, true);
+  for (let y = 0; y < size; y++) {
+    const rowStart = 54 + (size - 1 - y) * rowSize;
+    for (let x = 0; x < size; x++) {
+      const source = (y * size + x) * 4;
+      const target = rowStart + x * 3;
+      bytes[target] = pixels[source + 2];
+      bytes[target + 1] = pixels[source + 1];
+      bytes[target + 2] = pixels[source];
+    }
+  }
+
+  const dataUrl = `data:image/bmp;base64,${btoa(String.fromCharCode(...bytes))}`;
+  placeholderCache.set(hash, dataUrl);
+  return dataUrl;
+}
+
+/**
+ * Sends photos to /api/items/images for processing and upload. Returns the processed images
+ * (for image_urls and image_variants) and every stored path, for cleanup if saving the item fails.
+ */
+export async function uploadItemImages(files: File[]): Promise<{ images: ItemImage[]; paths: string[] }> {
+  const body = new FormData();
+  files.forEach((file) => body.append("files", file));
+  const response = await fetch("/api/items/images", { method: "POST", body });
+  const json = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(json.error || "Image upload failed");
+  }
+  return json;
+}
@@ -0,0 +1,102 @@
+// src/lib/images/processItemImage.ts
+// Turns an uploaded item photo into the files stored in the item-images bucket:
+//   - a full-size WebP (longest side at most FULL_SIZE_MAX px) that goes into image_urls
+//   - WebP copies at each width in ITEM_IMAGE_WIDTHS that is smaller than the full size
+//   - a blurhash string used as the placeholder while those load
+//   - a 64-bit perceptual hash (dHash) used to spot duplicate reports of the same item
+// EXIF orientation is applied to the pixels, and no metadata (GPS location, camera serial,
+// ...) is written to any output.
+//
+// Server-only: never import this module from a client component.
+import sharp from "sharp";
+import { encode } from "blurhash";
+import { ITEM_IMAGE_WIDTHS } from "@/lib/images/itemImages";
+
+const FULL_SIZE_MAX = 2048;
+const WEBP_QUALITY = 80;
+const ACCEPTED_FORMATS = new Set(["jpeg", "png", "webp"]);
+
+export class ImageProcessingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImageProcessingError";
+  }
+}
+
+export interface ProcessedImageFile {
+  suffix: string; // Appended to the storage folder, e.g. "full" or "w640"
+  width: number;
+  buffer: Buffer;
+}
+
+export interface ProcessedItemImage {
+  width: number;
+  height: number;
+  blurhash: string;
+  phash: string; // 16 hex digits, compared by Hamming distance (phash_distance in SQL)
+  full: ProcessedImageFile;
+  variants: ProcessedImageFile[];
+}
+
+export async function processItemImage(input: Buffer): Promise<ProcessedItemImage> {
+  let format: string | undefined;
+  try {
+    ({ format } = await sharp(input).metadata());
+  } catch {
+    throw new ImageProcessingError("File is not a readable image");
+  }
+  if (!format || !ACCEPTED_FORMATS.has(format)) {
+    throw new ImageProcessingError("Only JPEG, PNG and WebP images are accepted");
+  }
+
+  // rotate() with no angle applies the EXIF orientation; output drops all metadata by default
+  const base = sharp(input, { failOn: "error" }).rotate();
+
+  const { data: fullBuffer, info: fullInfo } = await base
+    .clone()
+    .resize({ width: FULL_SIZE_MAX, height: FULL_SIZE_MAX, fit: "inside", withoutEnlargement: true })
+    .webp({ quality: WEBP_QUALITY })
+    .toBuffer({ resolveWithObject: true });
+
+  const variants: ProcessedImageFile[] = [];
+  for (const width of ITEM_IMAGE_WIDTHS) {
+    if (width >= fullInfo.width) break;
+    const buffer = await base.clone().resize({ width }).webp({ quality: WEBP_QUALITY }).toBuffer();
+    variants.push({ suffix: `w${width}`, width, buffer });
+  }
+
+  // blurhash needs raw RGBA; a 32px image is plenty for 4x3 components
+  const { data: pixels, info: pixelInfo } = await base
+    .clone()
+    .resize(32, 32, { fit: "inside" })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const blurhash = encode(new Uint8ClampedArray(pixels), pixelInfo.width, pixelInfo.height, 4, 3);
+
+  // dHash: each bit says whether a pixel is brighter than its right neighbour in a 9x8 greyscale copy.
+  // Re-encoding, resizing and small crops barely change it.
+  const { data: grey } = await base
+    .clone()
+    .greyscale()
+    .resize(9, 8, { fit: "fill" })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  let phash = "";
+  for (let y = 0; y < 8; y++) {
+    let byte = 0;
+    for (let x = 0; x < 8; x++) {
+      byte = (byte << 1) | (grey[y * 9 + x] > grey[y * 9 + x + 1] ? 1 : 0);
+    }
+    phash += byte.toString(16).padStart(2, "0");
+  }
+
+  return {
+    width: fullInfo.width,
+    height: fullInfo.height,
+    blurhash,
+    phash,
+    full: { suffix: "full", width: fullInfo.width, buffer: fullBuffer },
+    variants,
+  };
+}
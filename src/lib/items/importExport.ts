@@ -0,0 +1,257 @@
+// src/lib/items/importExport.ts
+// Column definitions for the admin console's item export and the logbook import wizard.
+// Exported files use EXPORT_COLUMNS; imports map arbitrary spreadsheet headers onto
+// IMPORT_FIELDS and validate each row with reportItemSchema before anything is sent to
+// import_items (SQL section 35).
+import { reportItemSchema } from "@/lib/schemas";
+import type { CellValue } from "@/lib/spreadsheets/csv";
+import { parseCsv } from "@/lib/spreadsheets/csv";
+import { CategoryNames, ItemExportRow, ItemStatus } from "@/types/database";
+
+export const MAX_IMPORT_ROWS = 500;
+
+const toDate = (value: string | null) => (value ? new Date(value) : null);
+
+export const EXPORT_COLUMNS: {
+  header: string;
+  width: number;
+  value: (row: ItemExportRow) => CellValue;
+}[] = [
+  { header: "ID", width: 38, value: (row) => row.id },
+  { header: "Title", width: 30, value: (row) => row.title },
+  { header: "Description", width: 50, value: (row) => row.description },
+  { header: "Category", width: 14, value: (row) => row.category },
+  { header: "Status", width: 10, value: (row) => row.status },
+  { header: "Location", width: 30, value: (row) => row.location_description },
+  { header: "Latitude", width: 11, value: (row) => row.lat },
+  { header: "Longitude", width: 11, value: (row) => row.lng },
+  { header: "Date Lost/Found", width: 20, value: (row) => toDate(row.date_lost_or_found) },
+  { header: "Date Reported", width: 20, value: (row) => toDate(row.date_reported) },
+  { header: "Urgent", width: 8, value: (row) => (row.is_urgent ? "yes" : "no") },
+  { header: "Turned In To Security", width: 10, value: (row) => (row.turn_in_to_security ? "yes" : "no") },
+  { header: "Poster ID", width: 38, value: (row) => row.poster_id },
+  { header: "Poster Name", width: 24, value: (row) => row.poster_name },
+  { header: "Claims", width: 8, value: (row) => Number(row.claims_total) },
+  { header: "Pending Claims", width: 8, value: (row) => Number(row.claims_pending) },
+  { header: "Approved Claims", width: 8, value: (row) => Number(row.claims_approved) },
+  { header: "Custody Location", width: 20, value: (row) => row.custody_location },
+  { header: "Custody Bin", width: 12, value: (row) => row.custody_bin },
+  { header: "Custody Condition", width: 10, value: (row) => row.custody_condition },
+  { header: "In Custody Since", width: 20, value: (row) => toDate(row.in_custody_since) },
+  { header: "Created At", width: 20, value: (row) => toDate(row.created_at) },
+];
+
+export type ImportField =
+  | "title"
+  | "description"
+  | "category"
+  | "status"
+  | "location_description"
+  | "date_lost_or_found"
+  | "date_reported"
+  | "is_urgent"
+  | "turn_in_to_security"
+  | "lat"
+  | "lng";
+
+// aliases are lower-case header names recognised when guessing the mapping
+export const IMPORT_FIELDS: { key: ImportField; label: string; required: boolean; aliases: string[] }[] = [
+  { key: "title", label: "Title", required: true, aliases: ["title", "item", "item name", "name"] },
+  { key: "description", label: "Description", required: true, aliases: ["description", "details", "remarks"] },
+  { key: "category", label: "Category", required: true, aliases: ["category", "type", "item type"] },
+  { key: "status", label: "Status", required: true, aliases: ["status", "lost/found"] },
+  {
+    key: "location_description",
+    label: "Location",
+    required: true,
+    aliases: ["location", "location description", "place", "where found", "where lost"],
+  },
+  {
+    key: "date_lost_or_found",
+    label: "Date lost/found",
+    required: true,
+    aliases: ["date lost/found", "date lost or found", "date found", "date lost", "date"],
+  },
+  { key: "date_reported", label: "Date reported", required: false, aliases: ["date reported", "logged", "logged at", "date logged"] },
+  { key: "is_urgent", label: "Urgent", required: false, aliases: ["urgent", "is urgent"] },
+  {
+    key: "turn_in_to_security",
+    label: "Turned in to security",
+    required: false,
+    aliases: ["turned in to security", "turned in", "at security", "turn in to security"],
+  },
+  { key: "lat", label: "Latitude", required: false, aliases: ["latitude", "lat"] },
+  { key: "lng", label: "Longitude", required: false, aliases: ["longitude", "lng", "lon", "long"] },
+];
+
+/** Field -> index of the spreadsheet column it is read from, or null when not imported. */
+export type ColumnMapping = Record<ImportField, number | null>;
+
+/** Maps each field to the first header matching one of its aliases (exports map onto themselves). */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const normalised = headers.map((header) => header.trim().toLowerCase());
+  const used = new Set<number>();
+  const mapping = {} as ColumnMapping;
+  for (const field of IMPORT_FIELDS) {
+    const index = normalised.findIndex(
+      (header, i) => !used.has(i) && (field.aliases.includes(header) || header === field.label.toLowerCase())
+    );
+    mapping[field.key] = index >= 0 ? index : null;
+    if (index >= 0) used.add(index);
+  }
+  return mapping;
+}
+
+// Row as sent to import_items
+export interface ItemImportRow {
+  row: number;
+  title: string;
+  description: string;
+  category: string;
+  status: ItemStatus;
+  location_description: string;
+  lat: number | null;
+  lng: number | null;
+  date_lost_or_found: string;
+  date_reported: string | null;
+  is_urgent: boolean;
+  turn_in_to_security: boolean;
+}
+
+export interface ImportRowResult {
+  row: number; // 1-based spreadsheet row, counting the header
+  data: ItemImportRow | null;
+  errors: string[];
+}
+
+const TRUE_VALUES = ["yes", "y", "true", "1", "x"];
+const FALSE_VALUES = ["no", "n", "false", "0", ""];
+
+// Accepts category keys ("ids_cards") as well as their display names ("IDs & Cards")
+function normaliseCategory(value: string) {
+  const lower = value.trim().toLowerCase();
+  const match = Object.entries(CategoryNames).find(
+    ([key, label]) => key === lower || label.toLowerCase() === lower
+  );
+  return match ? match[0] : lower;
+}
+
+/** Reads one spreadsheet row through the mapping and validates it like the report form does. */
+export function buildImportRow(cells: string[], mapping: ColumnMapping, row: number): ImportRowResult {
+  const errors: string[] = [];
+  const cell = (field: ImportField) => {
+    const index = mapping[field];
+    return index === null ? "" : (cells[index] ?? "").trim();
+  };
+
+  for (const field of IMPORT_FIELDS) {
+    if (field.required && !cell(field.key)) errors.push(`${field.label} is required.`);
+  }
+
+  const parseBoolean = (field: ImportField, label: string) => {
+    const value = cell(field).toLowerCase();
+    if (TRUE_VALUES.includes(value)) return true;
+    if (!FALSE_VALUES.includes(value)) errors.push(`${label} must be yes or no.`);
+    return false;
+  };
+  const parseNumber = (field: ImportField, label: string) => {
+    const value = cell(field);
+    if (!value) return null;
+    const number = Number(value);
+    if (!Number.isFinite(number)) {
+      errors.push(`${label} must be a number.`);
+      return null;
+    }
+    return number;
+  };
+  const parseDate = (field: ImportField, label: string) => {
+    const value = cell(field);
+    if (!value) return null;
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      errors.push(`${label} is not a valid date.`);
+      return null;
+    }
+    return date;
+  };
+
+  const dateLostOrFound = parseDate("date_lost_or_found", "Date lost/found");
+  const dateReported = parseDate("date_reported", "Date reported");
+  if (dateLostOrFound && dateLostOrFound > (dateReported ?? new Date())) {
+    errors.push("Date lost/found cannot be after the date reported.");
+  }
+
+  const candidate = {
+    status: cell("status").toLowerCase(),
+    title: cell("title"),
+    description: cell("description"),
+    category: normaliseCategory(cell("category")),
+    locationDescription: cell("location_description"),
+    dateLostOrFound: dateLostOrFound?.toISOString() ?? "",
+    lat: parseNumber("lat", "Latitude"),
+    lng: parseNumber("lng", "Longitude"),
+    isUrgent: parseBoolean("is_urgent", "Urgent"),
+    turnInToSecurity: parseBoolean("turn_in_to_security", "Turned in to security"),
+  };
+  if ((candidate.lat === null) !== (candidate.lng === null)) {
+    errors.push("Latitude and longitude must be given together.");
+  }
+
+  const parsed = reportItemSchema.safeParse(candidate);
+  if (!parsed.success) {
+    for (const issue of parsed.error.issues) {
+      // Missing values are already reported above
+      if (!errors.includes(issue.message)) errors.push(issue.message);
+    }
+  }
+
+  if (errors.length > 0) return { row, data: null, errors: Array.from(new Set(errors)) };
+  return {
+    row,
+    errors,
+    data: {
+      row,
+      title: candidate.title,
+      description: candidate.description,
+      category: candidate.category,
+      status: candidate.status as ItemStatus,
+      location_description: candidate.locationDescription,
+      lat: candidate.lat,
+      lng: candidate.lng,
+      date_lost_or_found: candidate.dateLostOrFound,
+      date_reported: dateReported?.toISOString() ?? null,
+      is_urgent: candidate.isUrgent,
+      turn_in_to_security: candidate.turnInToSecurity,
+    },
+  };
+}
+
+/**
+ * Reads the first sheet of a .csv or .xlsx file into rows of strings (header first).
+ * Browser-only: exceljs is loaded on demand so it stays out of the admin page bundle.
+ */
+export async function readSpreadsheetFile(file: File): Promise<string[][]> {
+  if (/\.csv$/i.test(file.name) || file.type === "text/csv") {
+    return parseCsv(await file.text());
+  }
+  if (!/\.xlsx$/i.test(file.name)) {
+    throw new Error("Choose a .csv or .xlsx file.");
+  }
+
+  const { Workbook } = await import("exceljs");
+  const workbook = new Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const rows: string[][] = [];
+  sheet.eachRow({ includeEmpty: false }, (row) => {
+    const cells: string[] = [];
+    row.eachCell({ includeEmpty: true }, (cell, column) => {
+      // Dates keep their full precision instead of Excel's display format
+      cells[column - 1] = cell.value instanceof Date ? cell.value.toISOString() : cell.text;
+    });
+    rows.push(Array.from(cells, (value) => value ?? ""));
+  });
+  return rows;
+}
@@ -0,0 +1,33 @@
+import { Notification, NotificationType, NotificationTypeValues } from '@/types/database';
+
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+  match_alert: 'Possible matches',
+  claim_update: 'Claim updates',
+  new_claim: 'New claims',
+  new_message: 'Messages',
+  saved_search_alert: 'Saved search alerts',
+  general_announcement: 'Announcements',
+};
+
+/** Where a notification leads: the chat, the claim on its item page, or the item itself. */
+export function notificationHref(notification: Pick<Notification, 'item_id' | 'claim_id' | 'conversation_id'>) {
+  if (notification.conversation_id) return `/chat/${notification.conversation_id}`;
+  if (notification.item_id && notification.claim_id) return `/item/${notification.item_id}#claims`;
+  if (notification.item_id) return `/item/${notification.item_id}`;
+  return null;
+}
+
+export interface NotificationGroup {
+  type: NotificationType;
+  label: string;
+  notifications: Notification[];
+}
+
+/** Groups notifications by type in NotificationTypeValues order, keeping each group newest first. */
+export function groupNotificationsByType(notifications: Notification[]): NotificationGroup[] {
+  return NotificationTypeValues.map((type) => ({
+    type,
+    label: NOTIFICATION_TYPE_LABELS[type],
+    notifications: notifications.filter((notification) => notification.type === type),
+  })).filter((group) => group.notifications.length > 0);
+}
@@ -0,0 +1,28 @@
+export interface Semester {
+  key: string; // e.g. "2025-spring", used in the leaderboard URL
+  label: string;
+  start: Date;
+  end: Date; // Exclusive
+}
+
+/** Spring runs January to June and fall runs July to December, in local time. */
+export function semesterFor(date: Date): Semester {
+  const year = date.getFullYear();
+  const isSpring = date.getMonth() < 6;
+  return {
+    key: `${year}-${isSpring ? 'spring' : 'fall'}`,
+    label: `${isSpring ? 'Spring' : 'Fall'} ${year}`,
+    start: new Date(year, isSpring ? 0 : 6, 1),
+    end: isSpring ? new Date(year, 6, 1) : new Date(year + 1, 0, 1),
+  };
+}
+
+/** The current semester followed by the `count - 1` before it. */
+export function recentSemesters(count: number, now = new Date()): Semester[] {
+  const semesters = [semesterFor(now)];
+  while (semesters.length < count) {
+    const previous = semesters[semesters.length - 1].start;
+    semesters.push(semesterFor(new Date(previous.getFullYear(), previous.getMonth() - 1, 1)));
+  }
+  return semesters;
+}
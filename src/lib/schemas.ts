@@ -35,6 +35,9 @@ export const reportItemSchema = z.object({
   dateLostOrFound: z.string().refine((date) => date.length > 0, {
     message: "Please select a valid date.",
   }),
+  // Optional map pin; the picker only accepts points inside the campus boundary
+  lat: z.number().min(-90).max(90).nullable().optional(),
+  lng: z.number().min(-180).max(180).nullable().optional(),
   isUrgent: z.boolean().optional(),
   turnInToSecurity: z.boolean().optional(),
   imageFile: z
@@ -1,68 +1,185 @@
 import { SupabaseClient } from '@supabase/supabase-js';
+import { addDays } from 'date-fns';
+import { Item, ItemStatus, ItemStatusValues } from '@/types/database';
 
 export type FilterParams = {
   searchQuery?: string;
   category?: string[];
-  status?: string[];
+  status?: string[]; // item_status values, plus 'secured' for items turned in to security
   dateRange?: { start?: Date | null; end?: Date | null };
   location?: string[];
+  near?: { lat: number; lng: number; radiusMeters: number }; // "near this spot" radius search
+  hasLocation?: boolean; // only items with a map pin
 };
 
-export async function filterItems(
-  supabase: SupabaseClient,
-  filters: FilterParams,
-  pagination: { page: number; itemsPerPage: number } = { page: 1, itemsPerPage: 10 }
-) {
-  const offset = (pagination.page - 1) * pagination.itemsPerPage;
-  console.log('Filter parameters:', filters);
-
-  // Validate inputs
-  if (filters.searchQuery?.trim().length === 0) {
-    delete filters.searchQuery;
-  }
-  if (!filters.category?.length) {
-    delete filters.category;
+export type SearchItem = Item & {
+  poster: { id: string; full_name: string | null; avatar_url: string | null } | null;
+};
+
+export type SearchResult = {
+  items: SearchItem[];
+  nextCursor: string | null;
+  total: number;
+};
+
+// Results are ordered newest first; (created_at, id) is unique, so it makes a stable cursor
+type Cursor = { createdAt: string; id: string };
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super('Invalid pagination cursor');
+    this.name = 'InvalidCursorError';
   }
-  if (!filters.status?.length) {
-    delete filters.status;
+}
+
+export function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+export function decodeCursor(value: string): Cursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (
+      typeof cursor?.createdAt !== 'string' ||
+      isNaN(Date.parse(cursor.createdAt)) ||
+      typeof cursor?.id !== 'string' ||
+      !UUID_PATTERN.test(cursor.id)
+    ) {
+      throw new InvalidCursorError();
+    }
+    return cursor;
+  } catch {
+    throw new InvalidCursorError();
   }
+}
 
-  let query = supabase
-    .from('items')
-    .select('*')
-    .order('created_at', { ascending: false })
-    .range(offset, offset + pagination.itemsPerPage - 1);
+// PostgREST filter values containing commas or parentheses must be quoted
+const quote = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+const escapeLike = (value: string) => value.replace(/[%_\\]/g, (match) => `\\${match}`);
+
+const SELECT_COLUMNS = '*, categories!inner(name), poster:profiles!user_id(id, full_name, avatar_url)';
+
+// Rows as returned by SELECT_COLUMNS, before the category embed is flattened
+type ItemRow = Omit<SearchItem, 'category'> & { categories: { name: string } | null };
+
+type CountOptions = { count: 'exact'; head: true };
+
+const fromItems = (supabase: SupabaseClient, columns: string, options?: CountOptions) =>
+  supabase.from('items').select(columns, options);
+
+type ItemsQuery = ReturnType<typeof fromItems>;
+
+// Radius searches start from the items_within_radius RPC, which returns plain `items` rows,
+// so the same embeds and filters can be applied on top of it
+function selectItems(
+  supabase: SupabaseClient,
+  filters: FilterParams,
+  columns: string,
+  options?: CountOptions
+): ItemsQuery {
+  if (filters.near) {
+    const args = {
+      p_lat: filters.near.lat,
+      p_lng: filters.near.lng,
+      p_radius_meters: filters.near.radiusMeters,
+    };
+    return supabase
+      .rpc('items_within_radius', args, options ?? { get: true })
+      .select(columns) as unknown as ItemsQuery;
+  }
+  return fromItems(supabase, columns, options);
+}
 
-  if (filters.searchQuery) {
-    query = query.textSearch('description', filters.searchQuery, {
+function applyFilters(query: ItemsQuery, filters: FilterParams): ItemsQuery {
+  const searchQuery = filters.searchQuery?.trim();
+  if (searchQuery) {
+    // `document` is the tsvector over title and description maintained by a trigger
+    query = query.textSearch('document', searchQuery, {
       type: 'websearch',
-      config: 'english'
+      config: 'english',
     });
   }
 
   if (filters.category?.length) {
-    query = query.in('category', filters.category);
+    query = query.in('categories.name', filters.category);
   }
 
   if (filters.status?.length) {
-    query = query.in('status', filters.status);
+    // Only known enum values are interpolated into the filter string
+    const statuses = filters.status.filter((status) => ItemStatusValues.includes(status as ItemStatus));
+    const conditions = [];
+    if (statuses.length) conditions.push(`status.in.(${statuses.join(',')})`);
+    if (filters.status.includes('secured')) conditions.push('turn_in_to_security.is.true');
+    // Unknown values alone leave the feed unfiltered; PostgREST rejects an empty `or=()`
+    if (conditions.length) query = query.or(conditions.join(','));
   }
 
-  if (filters.dateRange?.start) {
-    const startDate = new Date(filters.dateRange.start);
-    if (!isNaN(startDate.getTime())) {
-      query = query.gte('created_at', startDate.toISOString());
-    }
+  if (filters.dateRange?.start && !isNaN(filters.dateRange.start.getTime())) {
+    query = query.gte('date_reported', filters.dateRange.start.toISOString());
   }
 
-  if (filters.dateRange?.end) {
-    const endDate = new Date(filters.dateRange.end);
-    if (!isNaN(endDate.getTime())) {
-      query = query.lte('created_at', endDate.toISOString());
-    }
+  if (filters.dateRange?.end && !isNaN(filters.dateRange.end.getTime())) {
+    // The end date is inclusive of the whole day
+    query = query.lt('date_reported', addDays(filters.dateRange.end, 1).toISOString());
   }
 
-  const { data, error } = await query;
+  const locations = filters.location?.map((location) => location.trim()).filter(Boolean);
+  if (locations?.length) {
+    query = query.or(
+      locations.map((location) => `location_description.ilike.${quote(`%${escapeLike(location)}%`)}`).join(',')
+    );
+  }
+
+  if (filters.hasLocation) {
+    query = query.not('lat', 'is', null).not('lng', 'is', null);
+  }
+
+  return query;
+}
+
+export async function filterItems(
+  supabase: SupabaseClient,
+  filters: FilterParams,
+  pagination: { cursor?: string | null; limit: number } = { limit: 10 }
+): Promise<SearchResult> {
+  let pageQuery = applyFilters(selectItems(supabase, filters, SELECT_COLUMNS), filters)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    // Fetch one extra row to know whether there is a next page
+    .limit(pagination.limit + 1);
+
+  if (pagination.cursor) {
+    const { createdAt, id } = decodeCursor(pagination.cursor);
+    pageQuery = pageQuery.or(
+      `created_at.lt.${quote(createdAt)},and(created_at.eq.${quote(createdAt)},id.lt.${id})`
+    );
+  }
+
+  // The total ignores the cursor so every page reports the same count
+  const countQuery = applyFilters(
+    selectItems(supabase, filters, 'id, categories!inner(name)', { count: 'exact', head: true }),
+    filters
+  );
+
+  const [{ data, error }, { count, error: countError }] = await Promise.all([pageQuery, countQuery]);
   if (error) throw error;
-  return data;
+  if (countError) throw countError;
+
+  const rows = (data || []) as unknown as ItemRow[];
+  const hasMore = rows.length > pagination.limit;
+  const pageRows = hasMore ? rows.slice(0, pagination.limit) : rows;
+
+  const items = pageRows.map(({ categories, ...item }) => ({
+    ...item,
+    category: categories?.name ?? 'other',
+  })) as SearchItem[];
+
+  const last = items[items.length - 1];
+  return {
+    items,
+    nextCursor: hasMore && last?.created_at ? encodeCursor({ createdAt: last.created_at, id: last.id }) : null,
+    total: count ?? 0,
+  };
 }
@@ -0,0 +1,80 @@
+import type { FilterParams } from './filterItems';
+import { filtersToSearchParams, fromDateParam, toDateParam } from './searchParams';
+import { CategoryNames, CategoryType, SavedSearch } from '@/types/database';
+
+// FilterParams <-> saved_searches rows. The database checks new items against saved searches
+// itself (saved_search_matches_item, SQL section 34), so the two must keep the same meaning.
+
+export const MAX_SAVED_SEARCHES = 20;
+
+export type SavedSearchFilters = Pick<
+  SavedSearch,
+  'query' | 'categories' | 'statuses' | 'locations' | 'date_from' | 'date_to' | 'near_lat' | 'near_lng' | 'radius_meters'
+>;
+
+export function filtersToSavedSearch(filters: FilterParams): SavedSearchFilters {
+  return {
+    query: filters.searchQuery?.trim() || null,
+    categories: filters.category || [],
+    statuses: filters.status || [],
+    locations: filters.location?.map((location) => location.trim()).filter(Boolean) || [],
+    date_from: toDateParam(filters.dateRange?.start),
+    date_to: toDateParam(filters.dateRange?.end),
+    near_lat: filters.near?.lat ?? null,
+    near_lng: filters.near?.lng ?? null,
+    radius_meters: filters.near ? Math.round(filters.near.radiusMeters) : null,
+  };
+}
+
+export function savedSearchToFilters(search: SavedSearchFilters): FilterParams {
+  return {
+    searchQuery: search.query || undefined,
+    category: search.categories,
+    status: search.statuses,
+    location: search.locations,
+    dateRange: { start: fromDateParam(search.date_from), end: fromDateParam(search.date_to) },
+    near:
+      search.near_lat !== null && search.near_lng !== null && search.radius_meters !== null
+        ? { lat: search.near_lat, lng: search.near_lng, radiusMeters: search.radius_meters }
+        : undefined,
+  };
+}
+
+/** Link to the home feed with the saved filters applied. */
+export function savedSearchHref(search: SavedSearchFilters): string {
+  const filters = savedSearchToFilters(search);
+  const params = new URLSearchParams();
+  // A lone lost/found status is what the feed's tabs do
+  const tab = search.statuses.length === 1 && ['lost', 'found'].includes(search.statuses[0]) ? search.statuses[0] : null;
+  if (tab) {
+    params.set('tab', tab);
+    filters.status = [];
+  }
+  filtersToSearchParams(filters, params);
+  const query = params.toString();
+  return query ? `/?${query}` : '/';
+}
+
+/** One-line summary such as `"blue umbrella" · Found · Apparel · within 150 m`. */
+export function describeSavedSearch(search: SavedSearchFilters): string {
+  const parts: string[] = [];
+  if (search.query) parts.push(`"${search.query}"`);
+  if (search.statuses.length) {
+    parts.push(search.statuses.map((status) => status.charAt(0).toUpperCase() + status.slice(1)).join(', '));
+  }
+  if (search.categories.length) {
+    parts.push(search.categories.map((category) => CategoryNames[category as CategoryType] || category).join(', '));
+  }
+  if (search.locations.length) parts.push(`at ${search.locations.join(', ')}`);
+  if (search.date_from || search.date_to) {
+    parts.push(
+      search.date_from && search.date_to
+        ? `${search.date_from} to ${search.date_to}`
+        : search.date_from
+        ? `from ${search.date_from}`
+        : `until ${search.date_to}`
+    );
+  }
+  if (search.radius_meters !== null) parts.push(`within ${search.radius_meters} m of a pin`);
+  return parts.length ? parts.join(' · ') : 'All new items';
+}
@@ -0,0 +1,69 @@
+import { format, isValid, parseISO } from 'date-fns';
+import type { FilterParams } from './filterItems';
+
+// Query string <-> FilterParams, shared by the search route handler and the pages that call it.
+// Multi-value filters repeat their key: ?category=keys&category=electronics
+
+export const toDateParam = (date?: Date | null) => (date && isValid(date) ? format(date, 'yyyy-MM-dd') : null);
+
+export const fromDateParam = (value: string | null) => {
+  if (!value) return null;
+  const date = parseISO(value);
+  return isValid(date) ? date : null;
+};
+
+const DEFAULT_NEAR_RADIUS_METERS = 150;
+const MAX_NEAR_RADIUS_METERS = 2000;
+
+// ?near=8.2411,124.2436&radius=150
+const fromNearParams = (near: string | null, radius: string | null): FilterParams['near'] => {
+  if (!near) return undefined;
+  const [lat, lng] = near.split(',').map(Number);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    return undefined;
+  }
+  const radiusMeters = Number(radius);
+  return {
+    lat,
+    lng,
+    radiusMeters:
+      Number.isFinite(radiusMeters) && radiusMeters > 0
+        ? Math.min(radiusMeters, MAX_NEAR_RADIUS_METERS)
+        : DEFAULT_NEAR_RADIUS_METERS,
+  };
+};
+
+export function filtersToSearchParams(filters: FilterParams, params = new URLSearchParams()): URLSearchParams {
+  if (filters.searchQuery?.trim()) params.set('q', filters.searchQuery.trim());
+  filters.category?.forEach((category) => params.append('category', category));
+  filters.status?.forEach((status) => params.append('status', status));
+  filters.location?.forEach((location) => params.append('location', location));
+
+  const from = toDateParam(filters.dateRange?.start);
+  const to = toDateParam(filters.dateRange?.end);
+  if (from) params.set('from', from);
+  if (to) params.set('to', to);
+
+  if (filters.near) {
+    params.set('near', `${filters.near.lat.toFixed(6)},${filters.near.lng.toFixed(6)}`);
+    params.set('radius', String(Math.round(filters.near.radiusMeters)));
+  }
+  if (filters.hasLocation) params.set('hasLocation', '1');
+
+  return params;
+}
+
+export function searchParamsToFilters(params: URLSearchParams): FilterParams {
+  return {
+    searchQuery: params.get('q') || undefined,
+    category: params.getAll('category'),
+    status: params.getAll('status'),
+    location: params.getAll('location'),
+    dateRange: {
+      start: fromDateParam(params.get('from')),
+      end: fromDateParam(params.get('to')),
+    },
+    near: fromNearParams(params.get('near'), params.get('radius')),
+    hasLocation: params.get('hasLocation') === '1',
+  };
+}
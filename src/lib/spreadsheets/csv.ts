@@ -0,0 +1,64 @@
+// src/lib/spreadsheets/csv.ts
+// Minimal RFC 4180 CSV reading and writing, usable on client and server.
+
+export type CellValue = string | number | boolean | Date | null | undefined;
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function formatCell(value: CellValue) {
+  if (value === null || value === undefined) return "";
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  // Numbers are safe; text that looks like a formula is neutralised with a leading quote
+  if (typeof value === "string" && FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Serialises rows (the first one usually being the header) with CRLF line endings. */
+export function toCsv(rows: CellValue[][]): string {
+  return rows.map((row) => row.map(formatCell).join(",")).join("\r\n") + "\r\n";
+}
+
+/** Parses CSV text into rows of strings. Quoted fields may contain commas, quotes and newlines. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  // Skip a UTF-8 byte order mark, which Excel writes
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Trailing blank lines are common in hand-edited files
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ""));
+}
@@ -0,0 +1,16 @@
+// src/lib/supabase/admin.ts
+// Service-role client for background jobs and server-only RPCs. It bypasses RLS, so it must
+// only be used on the server, behind a secret (see the cron routes) or a verified signature
+// (see /api/handover), never with user input alone.
+import { createClient } from "@supabase/supabase-js";
+
+export const createSupabaseAdminClient = () => {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error("NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set");
+  }
+  return createClient(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+};
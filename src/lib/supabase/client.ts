@@ -1,19 +1,8 @@
 // src/lib/supabase/client.ts
 import { createPagesBrowserClient } from "@supabase/auth-helpers-nextjs";
 import type { SupabaseClient, RealtimeChannel } from "@supabase/supabase-js";
-import { Message } from "@/types/database";
-
-// Define extended Message type with recipient_id and read_at
-export interface ExtendedMessage extends Message {
-  recipient_id?: string;
-  read_at?: string | null;
-}
-
-// Attachment type
-export interface MessageAttachment {
-  path: string;
-  url: string;
-}
+import { MessageAttachment, Notification } from "@/types/database";
+import { CHAT_ATTACHMENT_BUCKET, uploadChatAttachment } from "@/lib/chat/attachments";
 
 // Enhance error handling for Supabase client
 export const createSupabaseBrowserClient = () => {
@@ -71,21 +60,19 @@ export async function sendMessage(
   body: string,
   attachments: File[] = []
 ) {
-  // Upload attachments and gather metadata
-  const uploaded: Array<{ path: string; url: string }> = [];
-  for (const file of attachments) {
-    const filePath = `${conversationId}/${Date.now()}_${file.name.replace(
-      /\s+/g,
-      "_"
-    )}`;
-    const { data: uploadData, error: uploadErr } = await supabase.storage
-      .from("chat-images")
-      .upload(filePath, file);
-    if (uploadErr) throw uploadErr;
-    const { data: urlData } = supabase.storage
-      .from("chat-images")
-      .getPublicUrl(uploadData.path);
-    uploaded.push({ path: uploadData.path, url: urlData.publicUrl });
+  // Strip metadata and upload to the private bucket; only paths and metadata are stored
+  const uploaded: MessageAttachment[] = [];
+  const removeUploaded = () =>
+    uploaded.length > 0
+      ? supabase.storage.from(CHAT_ATTACHMENT_BUCKET).remove(uploaded.map((att) => att.path))
+      : Promise.resolve();
+  try {
+    for (const file of attachments) {
+      uploaded.push(await uploadChatAttachment(supabase, conversationId, file));
+    }
+  } catch (uploadError) {
+    await removeUploaded();
+    throw uploadError;
   }
   // Insert message
   const { data, error } = await supabase
@@ -98,7 +85,10 @@ export async function sendMessage(
     })
     .select()
     .single();
-  if (error) throw error;
+  if (error) {
+    await removeUploaded();
+    throw error;
+  }
 
   // Create notification for recipient
   try {
@@ -123,28 +113,8 @@ export async function sendMessage(
           conversation.creator_id === senderId
             ? conversation.item.user_id
             : conversation.creator_id;
-      } else if (conversation.type === "user-to-security") {
-        // For security chats, if sender is not admin, notify admins; if sender is admin, notify creator
-        const { data: senderProfile } = await supabase
-          .from("profiles")
-          .select("role")
-          .eq("id", senderId)
-          .single();
-
-        if (senderProfile?.role === "admin") {
-          recipientId = conversation.creator_id;
-        } else {
-          // Notify the first admin user found
-          const { data: adminUsers } = await supabase
-            .from("profiles")
-            .select("id")
-            .eq("role", "admin")
-            .limit(1);
-          if (adminUsers && adminUsers.length > 0) {
-            recipientId = adminUsers[0].id;
-          }
-        }
       }
+      // Security chats are routed by the route_security_messages trigger (assignee or on-duty staff)
 
       // Only create notification if recipient is different from sender
       if (recipientId && recipientId !== senderId) {
@@ -157,6 +127,7 @@ export async function sendMessage(
         await supabase.from("notifications").insert({
           user_id: recipientId,
           item_id: conversation.item_id,
+          conversation_id: conversationId,
           type: "new_message",
           title: "New Message",
           message: `${
@@ -220,3 +191,97 @@ export function subscribeToMessages(
     } as RealtimeChannel;
   }
 }
+
+/**
+ * Subscribe to inserts and updates of one user's notifications via Supabase Realtime.
+ * Updates cover notifications marked read in another tab.
+ */
+export function subscribeToNotifications(
+  supabase: SupabaseClient,
+  userId: string,
+  handlers: {
+    onInsert: (notification: Notification) => void;
+    onUpdate: (notification: Notification) => void;
+  }
+): RealtimeChannel {
+  const channelName = `notifications_${userId}_${Math.random()
+    .toString(36)
+    .substr(2, 9)}`;
+  const filter = `user_id=eq.${userId}`;
+
+  return supabase
+    .channel(channelName)
+    .on(
+      "postgres_changes",
+      { event: "INSERT", schema: "public", table: "notifications", filter },
+      (payload) => handlers.onInsert(payload.new as Notification)
+    )
+    .on(
+      "postgres_changes",
+      { event: "UPDATE", schema: "public", table: "notifications", filter },
+      (payload) => handlers.onUpdate(payload.new as Notification)
+    )
+    .subscribe((status, err) => {
+      if (status === "CHANNEL_ERROR") {
+        console.error("Notification subscription error:", status, err);
+      }
+    });
+}
+
+// Payload of a typing broadcast
+export interface TypingEvent {
+  user_id: string;
+  full_name: string;
+}
+
+/**
+ * Join a conversation's typing channel (Realtime broadcast; nothing is stored).
+ * Every participant uses the same channel name so they hear each other; own events are not echoed.
+ */
+export function subscribeToTyping(
+  supabase: SupabaseClient,
+  conversationId: string,
+  onTyping: (event: TypingEvent) => void
+): RealtimeChannel {
+  return supabase
+    .channel(`typing_${conversationId}`, { config: { broadcast: { self: false } } })
+    .on("broadcast", { event: "typing" }, ({ payload }) => onTyping(payload as TypingEvent))
+    .subscribe((status, err) => {
+      if (status === "CHANNEL_ERROR") {
+        console.error("Typing subscription error:", status, err);
+      }
+    });
+}
+
+/** Tell the other participants that `event.user_id` is typing. */
+export function sendTypingEvent(channel: RealtimeChannel, event: TypingEvent) {
+  return channel.send({ type: "broadcast", event: "typing", payload: event });
+}
+
+/**
+ * Subscribe to anything that changes a user's unread message counts: new messages in
+ * conversations they can see (RLS filters the feed) and their own read receipts.
+ */
+export function subscribeToUnreadChanges(
+  supabase: SupabaseClient,
+  userId: string,
+  onChange: () => void
+): RealtimeChannel {
+  const channelName = `unread_${userId}_${Math.random()
+    .toString(36)
+    .substr(2, 9)}`;
+
+  return supabase
+    .channel(channelName)
+    .on("postgres_changes", { event: "INSERT", schema: "public", table: "messages" }, onChange)
+    .on(
+      "postgres_changes",
+      { event: "*", schema: "public", table: "conversation_reads", filter: `user_id=eq.${userId}` },
+      onChange
+    )
+    .subscribe((status, err) => {
+      if (status === "CHANNEL_ERROR") {
+        console.error("Unread subscription error:", status, err);
+      }
+    });
+}
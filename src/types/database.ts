@@ -35,6 +35,15 @@ export const ItemStatusValues: ItemStatus[] = [
   "archived",
 ];
 
+// Staff roles are scoped; see src/lib/auth/roles.ts
+export type UserRole = "user" | "moderator" | "security_staff" | "admin";
+export const UserRoleValues: UserRole[] = [
+  "user",
+  "moderator",
+  "security_staff",
+  "admin",
+];
+
 // Define both type and values for ClaimStatus
 export type ClaimStatus = "pending" | "approved" | "rejected" | "retracted";
 export const ClaimStatusValues: ClaimStatus[] = [
@@ -57,6 +66,7 @@ export interface Item {
   lng?: number;
   image_url?: string;
   image_urls?: string[];
+  image_variants?: ItemImage[]; // Processed sizes for entries of image_urls, matched by url
   image_labels?: Record<string, unknown>;
   image_caption?: string;
   date_reported?: string | null;
@@ -66,6 +76,38 @@ export interface Item {
   turn_in_to_security?: boolean; // Indicates item turned into campus security
   created_at?: string;
   updated_at?: string;
+  merged_into_id?: string | null; // Set when a moderator merged this duplicate into another report
+  merged_at?: string | null;
+  hidden_at?: string | null; // Set when a moderator removed this listing after a content report
+}
+
+// A resized WebP copy of an item photo
+export interface ItemImageVariant {
+  width: number;
+  url: string;
+}
+
+// An item photo as produced by /api/items/images. `url` is the full-size WebP, which is
+// also what image_urls holds.
+export interface ItemImage {
+  url: string;
+  width: number;
+  height: number;
+  blurhash: string;
+  phash?: string; // Perceptual hash used for duplicate detection; missing on older photos
+  variants: ItemImageVariant[]; // Ascending by width
+}
+
+// Row returned by find_duplicate_items / find_item_duplicates
+export interface DuplicateCandidate {
+  item_id: string;
+  title: string;
+  status: ItemStatus;
+  image_url: string | null;
+  date_lost_or_found: string | null;
+  same_reporter: boolean;
+  photo_distance: number | null; // Bits that differ between the closest pair of photos (0-64)
+  score: number;
 }
 
 export interface Claim {
@@ -76,16 +118,17 @@ export interface Claim {
   status: ClaimStatus;
   date_claimed: string; // When the claim was made
 
-  // Fields related to claim adjudication by an admin
-  adjudication_note?: string | null; // Note by the admin during approval/rejection
-  adjudicated_by?: string | null; // User ID of the admin who adjudicated
+  // Set by the adjudicate_claim RPC when the reporter or an admin approves/rejects
+  adjudication_note?: string | null; // Optional reason, shown to the claimer
+  adjudicated_by?: string | null; // User ID of the reporter/admin who adjudicated
   date_adjudicated?: string | null; // When the claim was adjudicated
 
-  // Optional fields from the original definition, potentially for different flows or item resolution
+  // Set when the item is physically handed over (redeem_handover_token)
   date_resolved?: string | null; 
   resolved_by_user_id?: string | null;
 
   turn_in_to_security?: boolean; // Flag for campus security handover
+  fraud_flagged_at?: string | null; // Set by an admin via flag_fraudulent_claim
 
   // --- Joined data from Supabase query, e.g., claims.select("*, items(*), profiles(*)") ---
   items?: Item | null;       // The full Item object related to this claim
@@ -95,15 +138,155 @@ export interface Claim {
 // Extended claim with claimer profile
 export interface ClaimWithClaimerProfile extends Claim {
   claimer: Pick<Profile, "id" | "full_name" | "avatar_url"> | null;
+  // Only returned to the item reporter and admins (RLS)
+  verification_answers?: ClaimVerificationAnswer[];
+}
+
+// Private question a claimer must answer before claiming an item
+export interface ItemVerificationQuestion {
+  id: string;
+  item_id: string;
+  question: string;
+  position: number;
+  created_at: string;
+}
+
+// A claimer's answer, scored 0-1 against the expected answer with pg_trgm
+export interface ClaimVerificationAnswer {
+  id: string;
+  claim_id: string;
+  question_id: string;
+  answer: string;
+  score: number | null;
+  question?: Pick<ItemVerificationQuestion, "question" | "position"> | null;
 }
 
 export interface Profile {
   id: string;
   full_name: string | null;
   avatar_url: string | null;
-  mobile_number: string; // Encrypted
-  physical_address: string; // Encrypted
-  email: string; // Encrypted
+  role?: UserRole;
+  // Encrypted at rest (see src/lib/encryption.ts); decrypted only by /api/profile
+  mobile_number: string | null;
+  physical_address: string | null;
+  email: string | null;
+  allow_email_notifications?: boolean;
+  points?: number; // Running total of points_ledger; only changed by the database
+  is_on_duty?: boolean; // Security staff on shift; they are notified of unassigned security chats
+}
+
+export type SanctionKind = "suspension" | "ban";
+
+// Suspension or ban issued by an admin (see sanction_user). Active while lifted_at is null
+// and expires_at is null or in the future.
+export interface UserSanction {
+  id: string;
+  user_id: string;
+  kind: SanctionKind;
+  reason: string;
+  expires_at: string | null; // Always set for suspensions; null means a permanent ban
+  created_by: string | null;
+  created_at: string;
+  lifted_at: string | null;
+  lifted_by: string | null;
+  lift_note: string | null;
+}
+
+// Row returned by admin_search_users
+export interface AdminUserRow {
+  id: string;
+  full_name: string | null;
+  email: string | null;
+  avatar_url: string | null;
+  role: UserRole;
+  points: number | null;
+  created_at: string;
+  last_sign_in_at: string | null;
+  items_reported: number;
+  claims_total: number;
+  claims_pending: number;
+  claims_approved: number;
+  claims_rejected: number;
+  conversations_count: number;
+  sanction_kind: SanctionKind | null; // Active sanction, if any
+  sanction_expires_at: string | null;
+  total_count: number; // Matches across all pages
+}
+
+// Row returned by admin_user_conversations: metadata only, never message content
+export interface AdminUserConversation {
+  id: string;
+  type: Conversation["type"];
+  item_id: string;
+  item_title: string | null;
+  started_by_user: boolean;
+  message_count: number;
+  last_message_at: string | null;
+  created_at: string;
+}
+
+export type ReportTargetType = "item" | "claim" | "message";
+
+export type ReportReason = "fake_listing" | "scam" | "harassment" | "spam" | "inappropriate" | "other";
+
+export const ReportReasonNames: Record<ReportReason, string> = {
+  fake_listing: "Fake listing",
+  scam: "Scam or fraud",
+  harassment: "Harassment",
+  spam: "Spam",
+  inappropriate: "Inappropriate content",
+  other: "Other",
+};
+
+export type ReportOutcome = "dismissed" | "item_hidden" | "user_warned" | "user_suspended";
+
+export const ReportOutcomeNames: Record<ReportOutcome, string> = {
+  dismissed: "Dismissed",
+  item_hidden: "Listing hidden",
+  user_warned: "User warned",
+  user_suspended: "User suspended",
+};
+
+// Snapshot taken by report_content; which fields are set depends on the target type
+export interface ReportEvidence {
+  title?: string;
+  description?: string | null;
+  status?: string;
+  location_description?: string | null;
+  image_url?: string | null;
+  item_title?: string | null;
+  claim_description?: string;
+  date_claimed?: string;
+  conversation_id?: string;
+  body?: string | null;
+  attachment_count?: number;
+  context?: {
+    id: string;
+    sender_id: string;
+    sender_name: string | null;
+    body: string | null;
+    created_at: string;
+  }[];
+  created_at?: string;
+}
+
+// User report of a listing, claim or message (see report_content / resolve_content_report)
+export interface ContentReport {
+  id: string;
+  reporter_id: string | null;
+  target_type: ReportTargetType;
+  target_id: string;
+  item_id: string | null;
+  reported_user_id: string | null;
+  reason: ReportReason;
+  details: string | null;
+  evidence: ReportEvidence;
+  status: "open" | "resolved";
+  outcome: ReportOutcome | null;
+  resolution_note: string | null;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  created_at: string;
 }
 
 // Chat conversation
@@ -113,6 +296,64 @@ export interface Conversation {
   type: "user-to-poster" | "user-to-security";
   creator_id: string;
   created_at: string;
+  updated_at?: string;
+  // Security inbox fields; only meaningful for user-to-security conversations
+  status?: SecurityConversationStatus;
+  assigned_to?: string | null;
+  assigned_at?: string | null;
+  closed_at?: string | null;
+}
+
+export type SecurityConversationStatus = "open" | "waiting_on_student" | "closed";
+
+export const SecurityConversationStatusNames: Record<SecurityConversationStatus, string> = {
+  open: "Open",
+  waiting_on_student: "Waiting on student",
+  closed: "Closed",
+};
+
+// How far one participant has read a conversation (see mark_conversation_read)
+export interface ConversationRead {
+  conversation_id: string;
+  user_id: string;
+  last_read_at: string;
+}
+
+// Row of get_unread_message_counts(); conversations with nothing unread are omitted
+export interface UnreadMessageCount {
+  conversation_id: string;
+  unread_count: number;
+}
+
+// Row of the security_inbox view
+export interface SecurityInboxEntry {
+  conversation_id: string;
+  item_id: string;
+  item_title: string;
+  creator_id: string;
+  creator_name: string | null;
+  status: SecurityConversationStatus;
+  assigned_to: string | null;
+  assignee_name: string | null;
+  assigned_at: string | null;
+  closed_at: string | null;
+  created_at: string;
+  updated_at: string;
+  last_message_body: string | null;
+  last_message_sender_id: string | null;
+  last_message_at: string | null;
+}
+
+// File attached to a chat message, shown through a signed URL. New attachments live in the
+// private chat-attachments bucket; messages sent before that carry a `url` into chat-images.
+export interface MessageAttachment {
+  path: string;
+  url?: string; // Legacy chat-images link, dead since that bucket went private; marks the bucket only
+  name?: string;
+  mime?: string;
+  size?: number; // Bytes, after metadata was stripped
+  width?: number;
+  height?: number;
 }
 
 // Chat message
@@ -121,6 +362,335 @@ export interface Message {
   conversation_id: string;
   sender_id: string;
   body: string;
-  attachments: Array<{ path: string; url: string }>;
+  attachments: MessageAttachment[];
+  created_at: string;
+}
+
+// Define both type and values for NotificationType
+export type NotificationType =
+  | "match_alert"
+  | "claim_update"
+  | "general_announcement"
+  | "new_claim"
+  | "new_message"
+  | "saved_search_alert";
+export const NotificationTypeValues: NotificationType[] = [
+  "match_alert",
+  "claim_update",
+  "general_announcement",
+  "new_claim",
+  "new_message",
+  "saved_search_alert",
+];
+
+// In-app notification; read_at is null until the recipient marks it read
+export interface Notification {
+  id: string;
+  user_id: string;
+  item_id: string | null;
+  claim_id: string | null;
+  conversation_id: string | null;
+  type: NotificationType;
+  title: string;
+  message: string;
+  status: "pending" | "sent" | "failed" | "read"; // Delivery status for email/SMS
+  via: "email" | "sms" | "in_app" | null;
+  read_at: string | null;
+  created_at: string;
+  sent_at: string | null;
+  // Email delivery bookkeeping, maintained by the delivery worker
+  attempts: number;
+  last_error: string | null;
+  next_attempt_at: string;
+  locked_until: string | null;
+}
+
+// Feed filters saved for alerts about new items (see src/lib/search/savedSearches.ts)
+export interface SavedSearch {
+  id: string;
+  user_id: string;
+  name: string;
+  query: string | null;
+  categories: string[];
+  statuses: string[]; // item_status values, plus 'secured'
+  locations: string[];
+  date_from: string | null; // yyyy-MM-dd, matched against date_reported
+  date_to: string | null;
+  near_lat: number | null;
+  near_lng: number | null;
+  radius_meters: number | null;
+  email_alerts: boolean;
+  is_active: boolean;
+  last_alerted_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Row returned by export_items: an item flattened with its poster, claims and custody
+export interface ItemExportRow {
+  id: string;
+  title: string;
+  description: string | null;
+  category: string | null;
+  status: ItemStatus;
+  location_description: string | null;
+  lat: number | null;
+  lng: number | null;
+  date_lost_or_found: string | null;
+  date_reported: string | null;
+  is_urgent: boolean | null;
+  turn_in_to_security: boolean | null;
+  poster_id: string | null;
+  poster_name: string | null;
+  claims_total: number;
+  claims_pending: number;
+  claims_approved: number;
+  custody_location: string | null;
+  custody_bin: string | null;
+  custody_condition: string | null;
+  in_custody_since: string | null;
+  created_at: string;
+}
+
+// Row returned by admin_search_items: one page of the admin items table
+export interface AdminItemRow
+  extends Pick<
+    Item,
+    "id" | "user_id" | "title" | "description" | "category_id" | "status" | "is_urgent" | "turn_in_to_security" | "created_at"
+  > {
+  category: string;
+  poster_name: string | null;
+  merged_into_id: string | null;
+  total_count: number; // Matches across all pages
+}
+
+export type BulkItemAction =
+  | "set_status"
+  | "archive"
+  | "set_turn_in_to_security"
+  | "set_category"
+  | "delete";
+
+// Per-item outcome returned by bulk_update_items
+export interface BulkItemResult {
+  item_id: string;
+  succeeded: boolean;
+  message: string | null;
+}
+
+export type AnalyticsGranularity = "day" | "week" | "month";
+
+// Row returned by analytics_time_series: one day, week or month (bucket is its first day)
+export interface AnalyticsTimeSeriesRow {
+  bucket: string; // yyyy-MM-dd
+  lost_items: number;
+  found_items: number;
+  recovered_items: number;
+  claims_approved: number;
+  claims_rejected: number;
+  claims_pending: number;
+  new_users: number;
+}
+
+// Row returned by analytics_summary. Ratios are between 0 and 1 and null when undefined.
+export interface AnalyticsSummary {
+  items_reported: number;
+  lost_items: number;
+  found_items: number;
+  items_recovered: number;
+  recovery_rate: number | null;
+  median_hours_to_claim: number | null;
+  claims_submitted: number;
+  claims_pending: number;
+  claims_approved: number;
+  claims_rejected: number;
+  approval_ratio: number | null;
+  new_users: number;
+}
+
+// Row returned by analytics_category_metrics
+export interface CategoryMetrics {
+  category: string;
+  items_reported: number;
+  items_recovered: number;
+  recovery_rate: number | null;
+  median_hours_to_claim: number | null;
+  claims_approved: number;
+  claims_rejected: number;
+  approval_ratio: number | null;
+}
+
+// One change to an item or one of its claims, written by the audit triggers
+export interface ItemAuditLog {
+  id: number;
+  item_id: string;
+  claim_id: string | null;
+  table_name: "items" | "claims";
+  action: "INSERT" | "UPDATE" | "DELETE";
+  field_changed: string | null; // Null for INSERT/DELETE, which store the whole row as JSON
+  old_value: string | null;
+  new_value: string | null;
+  actor_id: string | null; // Null for service-role and scheduled jobs
+  changed_at: string;
+}
+
+// Security desk or office that holds turned-in items
+export interface StorageLocation {
+  id: string;
+  name: string;
+  description: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// Shelf, box or locker inside a storage location
+export interface StorageBin {
+  id: string;
+  location_id: string;
+  label: string;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CustodyCondition = "new" | "good" | "fair" | "poor" | "damaged";
+export const CustodyConditionValues: CustodyCondition[] = [
+  "new",
+  "good",
+  "fair",
+  "poor",
+  "damaged",
+];
+
+// One hand-off in an item's chain of custody
+export interface CustodyEvent {
+  id: string;
+  item_id: string;
+  event_type: "intake" | "transfer" | "release";
+  from_location_id: string | null;
+  from_bin_id: string | null;
+  to_location_id: string | null;
+  to_bin_id: string | null;
+  brought_in_by_name: string | null;
+  brought_in_by_user_id: string | null;
+  condition: CustodyCondition | null;
+  notes: string | null;
+  performed_by: string | null;
+  occurred_at: string;
+}
+
+// Where an item in custody is right now
+export interface ItemCustody {
+  item_id: string;
+  location_id: string;
+  bin_id: string | null;
+  condition: CustodyCondition | null;
+  intake_event_id: string;
+  last_event_id: string;
+  in_custody_since: string;
+  updated_at: string;
+}
+
+export type DisposalOutcome = "returned_to_issuer" | "donated" | "destroyed";
+export const DisposalOutcomeNames: Record<DisposalOutcome, string> = {
+  returned_to_issuer: "Returned to issuer",
+  donated: "Donated",
+  destroyed: "Destroyed",
+};
+
+// How long found items in a category are kept before disposal
+export interface RetentionRule {
+  id: string;
+  category_id: number;
+  retention_days: number;
+  warning_days: number; // Lead time for the deadline warning
+  disposal_outcome: DisposalOutcome;
+  disposal_destination: string | null; // e.g. "Registrar's Office"
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// Row of the item_retention_status view
+export interface ItemRetentionStatus {
+  item_id: string;
+  title: string;
+  user_id: string | null;
+  category_id: number;
+  rule_id: string;
+  retention_days: number;
+  warning_days: number;
+  disposal_outcome: DisposalOutcome;
+  disposal_destination: string | null;
+  deadline: string;
+  warn_from: string;
+  retention_warned_at: string | null;
+  disposal_due_at: string; // Deadline, pushed back if the warning went out late
+  on_hold: boolean; // Has a pending or approved claim
+  in_custody: boolean;
+}
+
+// What happened to an unclaimed found item
+export interface ItemDisposal {
+  id: string;
+  item_id: string;
+  rule_id: string | null;
+  outcome: DisposalOutcome;
+  destination: string | null;
+  notes: string | null;
+  is_automatic: boolean;
+  disposed_by: string | null;
+  disposed_at: string;
+}
+
+export type PointsReason =
+  | "found_item_returned"
+  | "fast_return_bonus"
+  | "claim_rejected"
+  | "fraudulent_claim"
+  | "admin_adjustment";
+export const PointsReasonNames: Record<PointsReason, string> = {
+  found_item_returned: "Found item returned to its owner",
+  fast_return_bonus: "Fast return bonus",
+  claim_rejected: "Claim rejected",
+  fraudulent_claim: "Claim flagged as fraudulent",
+  admin_adjustment: "Adjustment by an admin",
+};
+
+// One award or penalty; profiles.points is the sum of a user's entries
+export interface PointsLedgerEntry {
+  id: string;
+  user_id: string;
+  delta: number;
+  reason: PointsReason;
+  item_id: string | null;
+  claim_id: string | null;
+  note: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+// Row returned by the points_leaderboard RPC
+export interface LeaderboardEntry {
+  rank: number;
+  user_id: string;
+  full_name: string | null;
+  avatar_url: string | null;
+  points: number;
+  items_returned: number;
+}
+
+// Candidate pair produced by the lost/found match engine
+export interface ItemMatch {
+  id: string;
+  lost_item_id: string;
+  found_item_id: string;
+  score: number; // Weighted total between 0 and 1
+  category_score: number;
+  text_score: number;
+  date_score: number;
+  distance_score: number;
+  distance_meters: number | null; // Null when either report has no coordinates
   created_at: string;
 }